@@ -0,0 +1,96 @@
+// src/__fixtures__/thriftServer.ts
+// Local stand-in for an Evernote Thrift service, for tests.
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MethodSpec } from '../thrift/client.js';
+import { BinaryReader, BinaryWriter, MessageType } from '../thrift/protocol.js';
+import { TApplicationExceptionSchema } from '../thrift/types.js';
+
+export type ThriftHandler = (args: Record<string, any>) => unknown;
+
+export interface ThriftCall {
+  method: string;
+  args: Record<string, any>;
+}
+
+export interface ThriftFixture {
+  url: string;
+  calls: ThriftCall[];
+  handlers: Record<string, ThriftHandler>;
+  close(): Promise<void>;
+}
+
+const UNKNOWN_METHOD = 1;
+
+function reply(name: string, seqid: number, type: MessageType, write: (writer: BinaryWriter) => void): Buffer {
+  const writer = new BinaryWriter();
+  writer.messageBegin(name, type, seqid);
+  write(writer);
+  return writer.toBuffer();
+}
+
+/**
+ * Start an HTTP server that decodes Thrift calls with the same method
+ * specs as the client and answers them from `handlers`. A handler may
+ * throw one of the EDAM exceptions to have it returned as a declared
+ * exception, just like the real service.
+ */
+export async function startThriftServer(
+  methods: Record<string, MethodSpec>,
+  handlers: Record<string, ThriftHandler> = {}
+): Promise<ThriftFixture> {
+  const calls: ThriftCall[] = [];
+
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', async () => {
+      const reader = new BinaryReader(Buffer.concat(chunks));
+      const { name, seqid } = reader.messageBegin();
+      const spec = methods[name];
+      let body: Buffer;
+
+      if (!spec || !fixture.handlers[name]) {
+        if (spec) reader.struct(spec.args);
+        body = reply(name, seqid, MessageType.EXCEPTION, (writer) =>
+          writer.struct(TApplicationExceptionSchema, { message: `Unknown method ${name}`, type: UNKNOWN_METHOD })
+        );
+      } else {
+        const args = reader.struct(spec.args);
+        calls.push({ method: name, args });
+        try {
+          const success = await fixture.handlers[name](args);
+          body = reply(name, seqid, MessageType.REPLY, (writer) => writer.struct(spec.result, { success }));
+        } catch (error) {
+          const field = spec.result.fields.find(
+            (candidate) =>
+              typeof candidate.type === 'object' &&
+              'struct' in candidate.type &&
+              candidate.type.struct.name === (error as Error).name
+          );
+          body = field
+            ? reply(name, seqid, MessageType.REPLY, (writer) =>
+                writer.struct(spec.result, { [field.name]: { ...(error as object) } })
+              )
+            : reply(name, seqid, MessageType.EXCEPTION, (writer) =>
+                writer.struct(TApplicationExceptionSchema, { message: String(error), type: 0 })
+              );
+        }
+      }
+
+      response.writeHead(200, { 'Content-Type': 'application/x-thrift' });
+      response.end(body);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const fixture: ThriftFixture = {
+    url: `http://127.0.0.1:${port}/shard/s1/notestore`,
+    calls,
+    handlers,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+  return fixture;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterAll } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  checkAttachmentSizes,
+  detectMime,
+  insertMedia,
+  isTextMime,
+  loadAttachment,
+  resourceFileName,
+  saveAttachment,
+} from './attachments.js';
+import { wrapEnml } from './enml/convert.js';
+import { ServiceLevel } from './thrift/types.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const md5 = (data: Buffer | string) => createHash('md5').update(data).digest('hex');
+
+describe('detectMime', () => {
+  it('should prefer the contents over the file name', () => {
+    expect(detectMime(PNG, 'scan')).toBe('image/png');
+    expect(detectMime(Buffer.from('%PDF-1.7'), 'receipt.txt')).toBe('application/pdf');
+    expect(detectMime(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+  });
+
+  it('should fall back to the extension', () => {
+    expect(detectMime(Buffer.from('a,b'), 'data.CSV')).toBe('text/csv');
+    expect(detectMime(Buffer.from('?'), 'mystery.bin')).toBe('application/octet-stream');
+  });
+});
+
+describe('loadAttachment', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-attachments-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read a file with its name, hash and type', async () => {
+    const path = join(directory, 'whiteboard.png');
+    writeFileSync(path, PNG);
+
+    const { resource, position } = await loadAttachment({ path, sourceURL: 'https://example.com/w' });
+    expect(resource).toEqual({
+      mime: 'image/png',
+      data: { body: PNG, bodyHash: expect.any(Buffer), size: PNG.length },
+      attributes: { fileName: 'whiteboard.png', sourceURL: 'https://example.com/w' },
+    });
+    expect(resource.data!.bodyHash!.toString('hex')).toBe(md5(PNG));
+    expect(position).toBe('end');
+  });
+
+  it('should decode base64 data', async () => {
+    const { resource } = await loadAttachment({ data: Buffer.from('hello').toString('base64'), fileName: 'a.txt' });
+    expect(resource.mime).toBe('text/plain');
+    expect(resource.data!.body!.toString()).toBe('hello');
+  });
+
+  it('should reject missing, doubled and unreadable sources', async () => {
+    await expect(loadAttachment({})).rejects.toThrow('Pass either path or data');
+    await expect(loadAttachment({ path: 'a', data: 'YQ==' })).rejects.toThrow('Pass either path or data');
+    await expect(loadAttachment('a.pdf' as any)).rejects.toThrow('Invalid attachment: a.pdf');
+    await expect(loadAttachment({ data: 42 as any })).rejects.toThrow("An attachment's path or data must be a string");
+    await expect(loadAttachment({ path: join(directory, 'missing.pdf') })).rejects.toThrow("Can't read attachment");
+    await expect(loadAttachment({ data: 'YQ==', position: 'middle' as any })).rejects.toThrow('Invalid position: middle');
+  });
+});
+
+describe('isTextMime', () => {
+  it('should accept text and structured text types', () => {
+    expect(['text/plain', 'application/json', 'image/svg+xml', 'application/xml'].every(isTextMime)).toBe(true);
+    expect(['image/png', 'application/pdf', undefined].some(isTextMime)).toBe(false);
+  });
+});
+
+describe('saveAttachment', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-saved-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should name files safely', () => {
+    expect(resourceFileName({ attributes: { fileName: '../../etc/passwd' } })).toBe('passwd');
+    expect(resourceFileName({ attributes: { fileName: 'C:\\scans\\receipt.pdf' } })).toBe('receipt.pdf');
+    expect(resourceFileName({ guid: 'res1', mime: 'image/jpeg' })).toBe('res1.jpg');
+    expect(resourceFileName({ guid: 'res2', mime: 'application/x-unknown' })).toBe('res2');
+  });
+
+  it('should never overwrite an existing file', async () => {
+    const resource = { attributes: { fileName: 'notes.txt' }, data: { body: Buffer.from('one') } };
+    const target = join(directory, 'nested');
+
+    const first = await saveAttachment(resource, target);
+    const second = await saveAttachment({ ...resource, data: { body: Buffer.from('two') } }, target);
+
+    expect(first).toBe(join(target, 'notes.txt'));
+    expect(second).toBe(join(target, 'notes (1).txt'));
+    expect(readFileSync(first, 'utf8')).toBe('one');
+    expect(readFileSync(second, 'utf8')).toBe('two');
+  });
+});
+
+describe('checkAttachmentSizes', () => {
+  const file = (size: number) => ({ mime: 'application/pdf', data: { size }, attributes: { fileName: 'big.pdf' } });
+
+  it('should enforce the limit for the service level', () => {
+    expect(() => checkAttachmentSizes([file(30 * 1024 * 1024)], ServiceLevel.BASIC)).toThrow(
+      'Attachment "big.pdf" is 30.0 MB, over the 25.0 MB limit for BASIC accounts'
+    );
+    expect(() => checkAttachmentSizes([file(30 * 1024 * 1024)], ServiceLevel.PLUS)).not.toThrow();
+    expect(() => checkAttachmentSizes([file(30 * 1024 * 1024)], ServiceLevel.PLUS, 25 * 1024 * 1024)).toThrow(
+      'The note would be 55.0 MB, over the 50.0 MB limit for PLUS accounts'
+    );
+  });
+
+  it('should not check without a service level', () => {
+    expect(() => checkAttachmentSizes([file(500 * 1024 * 1024)], undefined)).not.toThrow();
+  });
+});
+
+describe('insertMedia', () => {
+  const attachment = (text: string, options: { position?: 'start' | 'end'; afterText?: string } = {}) => ({
+    resource: { mime: 'text/plain', data: { bodyHash: createHash('md5').update(text).digest() } },
+    position: options.position ?? ('end' as const),
+    afterText: options.afterText,
+  });
+  const media = (text: string) => `<div><en-media type="text/plain" hash="${md5(text)}"/></div>`;
+  const enml = wrapEnml('<h1>Trip</h1><p>Receipts below</p><p>Thanks</p>');
+
+  it('should insert at the start, the end and after a paragraph', () => {
+    const result = insertMedia(enml, [
+      attachment('a'),
+      attachment('b', { position: 'start' }),
+      attachment('c', { afterText: 'receipts' }),
+      attachment('d', { afterText: 'receipts' }),
+    ]);
+    expect(result).toBe(
+      wrapEnml(`${media('b')}<h1>Trip</h1><p>Receipts below</p>${media('c')}${media('d')}<p>Thanks</p>${media('a')}`)
+    );
+  });
+
+  it('should reject text that is not in the note', () => {
+    expect(() => insertMedia(enml, [attachment('a', { afterText: 'nowhere' })])).toThrow(
+      'No paragraph in the note contains "nowhere"'
+    );
+  });
+});
@@ -0,0 +1,245 @@
+// src/attachments.ts
+// Turns files and base64 data into note resources, places them in ENML and
+// saves them back to disk.
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, extname, join, parse } from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { escapeAttribute, parseMarkup, textContent } from './enml/parser.js';
+import { Resource, ServiceLevel } from './thrift/types.js';
+
+export const POSITIONS = ['start', 'end'] as const;
+export type Position = (typeof POSITIONS)[number];
+
+export interface AttachmentInput {
+  /** Local file to read */
+  path?: string;
+  /** File contents, base64 encoded, instead of a path */
+  data?: string;
+  fileName?: string;
+  /** Detected from the contents and file name when not given */
+  mime?: string;
+  sourceURL?: string;
+  position?: Position;
+  /** Insert after the first top-level block containing this text instead */
+  afterText?: string;
+}
+
+export interface Attachment {
+  resource: Resource;
+  position: Position;
+  afterText?: string;
+}
+
+const MB = 1024 * 1024;
+
+/** Largest note, resources included, per service level; a single file can be as large */
+export const MAX_NOTE_SIZE: Record<ServiceLevel, number> = {
+  [ServiceLevel.BASIC]: 25 * MB,
+  [ServiceLevel.PLUS]: 50 * MB,
+  [ServiceLevel.PREMIUM]: 200 * MB,
+  [ServiceLevel.BUSINESS]: 200 * MB,
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.svg': 'image/svg+xml',
+  '.heic': 'image/heic',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+};
+
+// Leading bytes of formats that are often saved without an extension
+const SIGNATURES: [string, number[]][] = [
+  ['image/png', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+  ['application/pdf', [0x25, 0x50, 0x44, 0x46, 0x2d]],
+];
+
+/** The MIME type from the file's leading bytes, then its extension */
+export function detectMime(body: Buffer, fileName?: string): string {
+  for (const [mime, signature] of SIGNATURES) {
+    if (signature.every((byte, index) => body[index] === byte)) return mime;
+  }
+  if (body.subarray(0, 4).toString('latin1') === 'RIFF' && body.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return (fileName && MIME_TYPES[extname(fileName).toLowerCase()]) || 'application/octet-stream';
+}
+
+/** Whether a file of this type can be returned as text */
+export function isTextMime(mime: string | undefined): boolean {
+  return /^text\/|^application\/(json|xml|javascript)\b|\+(xml|json)\b/i.test(mime ?? '');
+}
+
+/** A file name for a resource: its own without any directory part, or one made from its GUID and type */
+export function resourceFileName(resource: Resource): string {
+  const name = basename(resource.attributes?.fileName?.replace(/\\/g, '/') ?? '');
+  if (name && name !== '.' && name !== '..') return name;
+  const extension = Object.keys(MIME_TYPES).find((candidate) => MIME_TYPES[candidate] === resource.mime) ?? '';
+  return `${resource.guid ?? 'attachment'}${extension}`;
+}
+
+/**
+ * Write a resource's data into `directory`, creating it if needed. An
+ * existing file is never overwritten: a number is added to the name instead.
+ */
+export async function saveAttachment(resource: Resource, directory: string): Promise<string> {
+  await mkdir(directory, { recursive: true });
+  const { name, ext } = parse(resourceFileName(resource));
+  for (let copy = 0; ; copy++) {
+    const path = join(directory, copy ? `${name} (${copy})${ext}` : `${name}${ext}`);
+    try {
+      await writeFile(path, resource.data!.body!, { flag: 'wx' });
+      return path;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+}
+
+export function formatSize(bytes: number): string {
+  return bytes < MB ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / MB).toFixed(1)} MB`;
+}
+
+/** Read the file or decode the data into a Resource with its hash, size and MIME type */
+export async function loadAttachment(input: AttachmentInput): Promise<Attachment> {
+  if (typeof input !== 'object' || input === null) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid attachment: ${input}. Expected an object with path or data`);
+  }
+  if (Boolean(input.path) === Boolean(input.data)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Pass either path or data for each attachment');
+  }
+  if (typeof (input.path ?? input.data) !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'An attachment\'s path or data must be a string');
+  }
+  if (input.position !== undefined && !POSITIONS.includes(input.position)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid position: ${input.position}. Expected one of ${POSITIONS.join(', ')}`
+    );
+  }
+
+  let body: Buffer;
+  if (input.path) {
+    try {
+      body = await readFile(input.path);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Can't read attachment ${input.path}: ${(error as Error).message}`);
+    }
+  } else {
+    body = Buffer.from(input.data!, 'base64');
+    if (!body.length) throw new McpError(ErrorCode.InvalidParams, 'Attachment data is empty or not base64');
+  }
+
+  const fileName = input.fileName ?? (input.path ? basename(input.path) : undefined);
+  return {
+    resource: {
+      mime: input.mime ?? detectMime(body, fileName),
+      data: { body, bodyHash: createHash('md5').update(body).digest(), size: body.length },
+      attributes: { fileName, sourceURL: input.sourceURL },
+    },
+    position: input.position ?? 'end',
+    afterText: input.afterText,
+  };
+}
+
+/**
+ * Check files against the account's note size limit before uploading them.
+ * `existingSize` is what the note already holds. Without a service level
+ * (the local backend) nothing is checked.
+ */
+export function checkAttachmentSizes(
+  resources: Resource[],
+  serviceLevel: ServiceLevel | undefined,
+  existingSize = 0
+): void {
+  const limit = serviceLevel && MAX_NOTE_SIZE[serviceLevel];
+  if (!limit) return;
+
+  const level = ServiceLevel[serviceLevel!];
+  let total = existingSize;
+  for (const resource of resources) {
+    const size = resource.data?.size ?? 0;
+    if (size > limit) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Attachment "${resource.attributes?.fileName ?? resource.mime}" is ${formatSize(size)}, over the ${formatSize(limit)} limit for ${level} accounts`
+      );
+    }
+    total += size;
+  }
+  if (total > limit) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `The note would be ${formatSize(total)}, over the ${formatSize(limit)} limit for ${level} accounts`
+    );
+  }
+}
+
+/** The `<en-media>` element that displays a resource */
+export function mediaElement(resource: Resource): string {
+  const hash = resource.data!.bodyHash!.toString('hex');
+  return `<div><en-media type="${escapeAttribute(resource.mime!)}" hash="${hash}"/></div>`;
+}
+
+/** Insert an `<en-media>` for each attachment into a complete ENML document */
+export function insertMedia(enml: string, attachments: Attachment[]): string {
+  const open = /<en-note\b[^>]*>/i.exec(enml);
+  const close = enml.lastIndexOf('</en-note>');
+  if (!open || close < 0) throw new McpError(ErrorCode.InvalidParams, 'The note content has no <en-note> element');
+  const bodyStart = open.index + open[0].length;
+  const body = enml.slice(bodyStart, close);
+  const blocks = parseMarkup(body);
+
+  const insertions: { offset: number; index: number; media: string }[] = [];
+  for (const [index, attachment] of attachments.entries()) {
+    let offset = attachment.position === 'start' ? 0 : body.length;
+    if (attachment.afterText !== undefined) {
+      const wanted = attachment.afterText.toLowerCase();
+      const block = blocks.find((node) =>
+        (node.type === 'text' ? node.text : textContent(node.children)).toLowerCase().includes(wanted)
+      );
+      if (!block) {
+        throw new McpError(ErrorCode.InvalidParams, `No paragraph in the note contains "${attachment.afterText}"`);
+      }
+      offset = block.end;
+    }
+    insertions.push({ offset, index, media: mediaElement(attachment.resource) });
+  }
+
+  // Apply from the end so earlier offsets stay valid; at the same offset,
+  // inserting later attachments first keeps them in the order given
+  insertions.sort((a, b) => b.offset - a.offset || b.index - a.index);
+  let result = body;
+  for (const { offset, media } of insertions) {
+    result = result.slice(0, offset) + media + result.slice(offset);
+  }
+  return enml.slice(0, bodyStart) + result + enml.slice(close);
+}
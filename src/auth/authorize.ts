@@ -0,0 +1,93 @@
+// src/auth/authorize.ts
+// The `authorize` subcommand: OAuth 1.0a dance ending in a stored token.
+import { resolveService } from '../service.js';
+import { CallbackResult, listenForCallback } from './callback.js';
+import { OAuthConsumer, OAuthError, getAccessToken, getAuthorizeUrl, getTemporaryCredentials } from './oauth.js';
+import { StoredToken, configDir, saveToken, tokenPath } from './tokenStore.js';
+
+/** How long to wait for the user to approve access in the browser */
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface AuthorizeOptions {
+  serviceUrl: string;
+  consumer: OAuthConsumer;
+  /** Port for the callback listener; any free port by default */
+  port?: number;
+  path?: string;
+  /** Send the user to the authorization page */
+  openUrl?: (url: string) => void | Promise<void>;
+  /** Give up, closing the listener, if the browser hasn't come back by then */
+  timeoutMs?: number;
+}
+
+/** The callback, or an OAuthError once `timeoutMs` passes without one */
+async function waitForCallback(result: Promise<CallbackResult>, timeoutMs: number): Promise<CallbackResult> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new OAuthError(
+            `Access wasn't approved within ${timeoutMs / 1000} seconds. Run authorize again to get a new link`
+          )
+        ),
+      timeoutMs
+    );
+  });
+  try {
+    return await Promise.race([result, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function authorize(options: AuthorizeOptions): Promise<StoredToken> {
+  const { serviceUrl, consumer } = options;
+  const path = options.path ?? tokenPath();
+  const openUrl = options.openUrl ?? ((url: string) => console.error(`Open this URL to authorize access:\n\n  ${url}\n`));
+
+  const listener = await listenForCallback(options.port);
+  try {
+    const temporary = await getTemporaryCredentials(serviceUrl, consumer, listener.url);
+    await openUrl(getAuthorizeUrl(serviceUrl, temporary));
+
+    const callback = await waitForCallback(listener.result, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    if (callback.token !== temporary.token) {
+      throw new OAuthError('The callback was for a different authorization request');
+    }
+
+    const access = await getAccessToken(serviceUrl, consumer, temporary, callback.verifier);
+    const stored: StoredToken = { serviceUrl, ...access };
+    await saveToken(stored, path);
+    return stored;
+  } finally {
+    await listener.close();
+  }
+}
+
+/** Entry point for `evernote-mcp-server authorize [--port <port>]`, against EVERNOTE_SERVICE */
+export async function runAuthorizeCommand(args: string[], env: NodeJS.ProcessEnv = process.env): Promise<void> {
+  const service = resolveService(env.EVERNOTE_SERVICE);
+  const key = env.EVERNOTE_CONSUMER_KEY;
+  const secret = env.EVERNOTE_CONSUMER_SECRET;
+  if (!key || !secret) {
+    throw new Error('Set EVERNOTE_CONSUMER_KEY and EVERNOTE_CONSUMER_SECRET to authorize');
+  }
+
+  let port: number | undefined;
+  for (let index = 0; index < args.length; index++) {
+    if (args[index] === '--port') {
+      port = Number(args[++index]);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid port: ${args[index]}`);
+    } else {
+      throw new Error(`Unknown option: ${args[index]}`);
+    }
+  }
+
+  const path = tokenPath(configDir(env));
+  const token = await authorize({ serviceUrl: service.url, consumer: { key, secret }, port, path });
+  console.error(`Authorized ${service.name} Evernote user ${token.userId}. Token saved to ${path}`);
+  if (token.expires !== undefined) {
+    console.error(`The token expires on ${new Date(token.expires).toISOString()}`);
+  }
+}
@@ -0,0 +1,64 @@
+// src/auth/callback.ts
+// Local HTTP listener that receives the browser redirect after authorization.
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OAuthError } from './oauth.js';
+
+export interface CallbackResult {
+  token: string;
+  verifier: string;
+}
+
+export interface CallbackListener {
+  /** Where the service should send the user back to */
+  url: string;
+  /** Settles with the first redirect that reaches the listener */
+  result: Promise<CallbackResult>;
+  close(): Promise<void>;
+}
+
+const PAGE = (message: string) =>
+  `<!DOCTYPE html><html><body><p>${message}</p><p>You can close this window.</p></body></html>`;
+
+export async function listenForCallback(port = 0): Promise<CallbackListener> {
+  let settle!: { resolve(result: CallbackResult): void; reject(error: Error): void };
+  const result = new Promise<CallbackResult>((resolve, reject) => (settle = { resolve, reject }));
+  // Avoid an unhandled rejection if the caller gives up before awaiting
+  result.catch(() => undefined);
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    if (url.pathname !== '/callback') {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const token = url.searchParams.get('oauth_token');
+    const verifier = url.searchParams.get('oauth_verifier');
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    if (token && verifier) {
+      response.end(PAGE('Evernote access was authorized.'));
+      settle.resolve({ token, verifier });
+    } else {
+      // The service redirects without a verifier when the user declines
+      response.end(PAGE('Evernote access was declined.'));
+      settle.reject(new OAuthError('Authorization was declined'));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', resolve);
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}/callback`,
+    result,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
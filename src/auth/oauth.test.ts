@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import axios from 'axios';
+import { mkdtempSync, rmSync } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { authorize } from './authorize.js';
+import { listenForCallback } from './callback.js';
+import { OAuthError, getAuthorizeUrl, percentEncode, sign } from './oauth.js';
+import { loadToken } from './tokenStore.js';
+
+const CONSUMER = { key: 'consumer-key', secret: 'consumer-secret' };
+
+/** Stand-in for the service's /oauth and OAuth.action endpoints */
+async function startOAuthServer() {
+  const requests: Record<string, string>[] = [];
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url!, serviceUrl);
+    const params = Object.fromEntries(url.searchParams);
+    if (url.pathname !== '/oauth') {
+      response.writeHead(404).end();
+      return;
+    }
+    requests.push(params);
+
+    const tokenSecret = params.oauth_token ? 'temporary-secret' : '';
+    if (sign('GET', `${serviceUrl}/oauth`, params, CONSUMER.secret, tokenSecret) !== params.oauth_signature) {
+      response.writeHead(401).end('Invalid signature');
+    } else if (params.oauth_callback) {
+      response.end('oauth_token=temporary-token&oauth_token_secret=temporary-secret&oauth_callback_confirmed=true');
+    } else if (params.oauth_verifier === 'the-verifier') {
+      response.end(
+        new URLSearchParams({
+          oauth_token: 'S=s1:U=42:E=abc',
+          oauth_token_secret: '',
+          edam_shard: 's1',
+          edam_userId: '42',
+          edam_expires: String(Date.UTC(2030, 0, 1)),
+          edam_noteStoreUrl: 'https://www.evernote.com/shard/s1/notestore',
+          edam_webApiUrlPrefix: 'https://www.evernote.com/shard/s1/',
+        }).toString()
+      );
+    } else {
+      response.writeHead(401).end('Invalid verifier');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const serviceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { serviceUrl, requests, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+describe('OAuth', () => {
+  let service: Awaited<ReturnType<typeof startOAuthServer>>;
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-oauth-'));
+
+  beforeAll(async () => {
+    service = await startOAuthServer();
+  });
+
+  afterAll(async () => {
+    await service.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should percent-encode reserved characters', () => {
+    expect(percentEncode("Ladies + Gentlemen, a signed OAuth request!*'()")).toBe(
+      'Ladies%20%2B%20Gentlemen%2C%20a%20signed%20OAuth%20request%21%2A%27%28%29'
+    );
+  });
+
+  it('should compute HMAC-SHA1 signatures', () => {
+    // Worked example from Twitter's OAuth 1.0a documentation
+    const signature = sign(
+      'post',
+      'https://api.twitter.com/1.1/statuses/update.json',
+      {
+        status: 'Hello Ladies + Gentlemen, a signed OAuth request!',
+        include_entities: 'true',
+        oauth_consumer_key: 'xvz1evFS4wEEPTGEFPHBog',
+        oauth_nonce: 'kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg',
+        oauth_signature_method: 'HMAC-SHA1',
+        oauth_timestamp: '1318622958',
+        oauth_token: '370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb',
+        oauth_version: '1.0',
+      },
+      'kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw',
+      'LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE'
+    );
+    expect(signature).toBe('hCtSmYh+iHYCEqBWrE7C7hYmtUk=');
+  });
+
+  it('should build the authorization URL', () => {
+    expect(getAuthorizeUrl('https://sandbox.evernote.com', { token: 'a b', secret: '' })).toBe(
+      'https://sandbox.evernote.com/OAuth.action?oauth_token=a%20b'
+    );
+  });
+
+  it('should authorize and store the access token', async () => {
+    const path = join(directory, 'token.json');
+    const token = await authorize({
+      serviceUrl: service.serviceUrl,
+      consumer: CONSUMER,
+      path,
+      // Play the user: approve, and let the browser follow the redirect
+      openUrl: async (url) => {
+        expect(url).toBe(`${service.serviceUrl}/OAuth.action?oauth_token=temporary-token`);
+        const callback = new URL(service.requests[0].oauth_callback);
+        callback.searchParams.set('oauth_token', 'temporary-token');
+        callback.searchParams.set('oauth_verifier', 'the-verifier');
+        await axios.get(callback.toString());
+      },
+    });
+
+    expect(token).toEqual({
+      serviceUrl: service.serviceUrl,
+      token: 'S=s1:U=42:E=abc',
+      noteStoreUrl: 'https://www.evernote.com/shard/s1/notestore',
+      userId: 42,
+      shard: 's1',
+      expires: Date.UTC(2030, 0, 1),
+      webApiUrlPrefix: 'https://www.evernote.com/shard/s1/',
+    });
+    expect(loadToken(path)).toEqual(token);
+    expect(service.requests[1]).toMatchObject({ oauth_token: 'temporary-token', oauth_verifier: 'the-verifier' });
+  });
+
+  it('should fail when the user declines', async () => {
+    const path = join(directory, 'declined.json');
+    const attempt = authorize({
+      serviceUrl: service.serviceUrl,
+      consumer: CONSUMER,
+      path,
+      openUrl: async () => {
+        const callback = new URL(service.requests[service.requests.length - 1].oauth_callback);
+        callback.searchParams.set('oauth_token', 'temporary-token');
+        await axios.get(callback.toString());
+      },
+    });
+
+    await expect(attempt).rejects.toThrow(new OAuthError('Authorization was declined'));
+    expect(loadToken(path)).toBeUndefined();
+  });
+
+  it('should stop waiting when the user never comes back', async () => {
+    const path = join(directory, 'abandoned.json');
+    const attempt = authorize({
+      serviceUrl: service.serviceUrl,
+      consumer: CONSUMER,
+      path,
+      openUrl: () => undefined,
+      timeoutMs: 50,
+    });
+
+    await expect(attempt).rejects.toThrow(
+      new OAuthError("Access wasn't approved within 0.05 seconds. Run authorize again to get a new link")
+    );
+    const callback = service.requests[service.requests.length - 1].oauth_callback;
+    await expect(axios.get(callback)).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+    expect(loadToken(path)).toBeUndefined();
+  });
+
+  it('should report rejected requests', async () => {
+    const attempt = authorize({
+      serviceUrl: service.serviceUrl,
+      consumer: { ...CONSUMER, secret: 'wrong' },
+      path: join(directory, 'rejected.json'),
+      openUrl: () => undefined,
+    });
+
+    await expect(attempt).rejects.toThrow(`${service.serviceUrl}/oauth answered 401: Invalid signature`);
+  });
+
+  it('should ignore other paths on the callback listener', async () => {
+    const listener = await listenForCallback();
+    try {
+      const response = await axios.get(listener.url.replace('/callback', '/favicon.ico'), { validateStatus: () => true });
+      expect(response.status).toBe(404);
+    } finally {
+      await listener.close();
+    }
+  });
+});
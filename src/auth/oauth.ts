@@ -0,0 +1,132 @@
+// src/auth/oauth.ts
+// OAuth 1.0a client for Evernote's /oauth endpoint.
+// https://dev.evernote.com/doc/articles/authentication.php
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+
+export interface OAuthConsumer {
+  key: string;
+  secret: string;
+}
+
+export interface TemporaryCredentials {
+  token: string;
+  secret: string;
+}
+
+export interface AccessToken {
+  token: string;
+  noteStoreUrl: string;
+  userId: number;
+  shard?: string;
+  /** Milliseconds since the epoch */
+  expires?: number;
+  webApiUrlPrefix?: string;
+}
+
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+/** RFC 3986 percent-encoding, as OAuth 1.0a requires */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** HMAC-SHA1 signature over the request method, URL and parameters */
+export function sign(
+  method: string,
+  url: string,
+  params: Record<string, string>,
+  consumerSecret: string,
+  tokenSecret = ''
+): string {
+  const normalized = Object.entries(params)
+    .filter(([key]) => key !== 'oauth_signature')
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const base = [method.toUpperCase(), percentEncode(url), percentEncode(normalized)].join('&');
+  const key = `${percentEncode(consumerSecret)}&${percentEncode(tokenSecret)}`;
+  return createHmac('sha1', key).update(base).digest('base64');
+}
+
+async function oauthRequest(
+  serviceUrl: string,
+  consumer: OAuthConsumer,
+  extra: Record<string, string>,
+  tokenSecret?: string
+): Promise<URLSearchParams> {
+  const url = `${serviceUrl}/oauth`;
+  const params: Record<string, string> = {
+    oauth_consumer_key: consumer.key,
+    oauth_nonce: randomBytes(16).toString('hex'),
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: String(Math.floor(Date.now() / 1000)),
+    oauth_version: '1.0',
+    ...extra,
+  };
+  params.oauth_signature = sign('GET', url, params, consumer.secret, tokenSecret);
+
+  try {
+    const response = await axios.get(url, { params, responseType: 'text' });
+    return new URLSearchParams(response.data);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      throw new OAuthError(`${url} answered ${error.response.status}: ${error.response.data || error.message}`);
+    }
+    throw error;
+  }
+}
+
+/** Step 1: temporary credentials, bound to where the user will be sent back */
+export async function getTemporaryCredentials(
+  serviceUrl: string,
+  consumer: OAuthConsumer,
+  callbackUrl: string
+): Promise<TemporaryCredentials> {
+  const response = await oauthRequest(serviceUrl, consumer, { oauth_callback: callbackUrl });
+  const token = response.get('oauth_token');
+  if (!token || response.get('oauth_callback_confirmed') !== 'true') {
+    throw new OAuthError('The service did not issue temporary credentials');
+  }
+  return { token, secret: response.get('oauth_token_secret') ?? '' };
+}
+
+/** Step 2: where the user approves access in their browser */
+export function getAuthorizeUrl(serviceUrl: string, temporary: TemporaryCredentials): string {
+  return `${serviceUrl}/OAuth.action?oauth_token=${percentEncode(temporary.token)}`;
+}
+
+/** Step 3: exchange the approved temporary credentials for an access token */
+export async function getAccessToken(
+  serviceUrl: string,
+  consumer: OAuthConsumer,
+  temporary: TemporaryCredentials,
+  verifier: string
+): Promise<AccessToken> {
+  const response = await oauthRequest(
+    serviceUrl,
+    consumer,
+    { oauth_token: temporary.token, oauth_verifier: verifier },
+    temporary.secret
+  );
+  const token = response.get('oauth_token');
+  const noteStoreUrl = response.get('edam_noteStoreUrl');
+  if (!token || !noteStoreUrl) {
+    throw new OAuthError('The service did not issue an access token');
+  }
+  const expires = response.get('edam_expires');
+  return {
+    token,
+    noteStoreUrl,
+    userId: Number(response.get('edam_userId')),
+    shard: response.get('edam_shard') ?? undefined,
+    expires: expires ? Number(expires) : undefined,
+    webApiUrlPrefix: response.get('edam_webApiUrlPrefix') ?? undefined,
+  };
+}
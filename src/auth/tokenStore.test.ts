@@ -0,0 +1,69 @@
+import { describe, it, expect, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StoredToken, configDir, expiryWarning, loadToken, saveToken, tokenPath, tokenUserId } from './tokenStore.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const TOKEN: StoredToken = {
+  serviceUrl: 'https://www.evernote.com',
+  token: 'S=s1:U=42:E=abc',
+  noteStoreUrl: 'https://www.evernote.com/shard/s1/notestore',
+  userId: 42,
+  shard: 's1',
+  expires: Date.UTC(2025, 0, 1),
+};
+
+describe('token store', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-token-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should resolve the config directory from the environment', () => {
+    expect(configDir({ EVERNOTE_CONFIG_DIR: '/etc/evernote' })).toBe('/etc/evernote');
+    expect(configDir({ XDG_CONFIG_HOME: '/home/me/.config' })).toBe('/home/me/.config/evernote-mcp');
+    expect(tokenPath('/etc/evernote')).toBe('/etc/evernote/token.json');
+  });
+
+  it('should save the token readable only by the user', async () => {
+    const path = join(directory, 'config', 'token.json');
+    writeFileSync(join(directory, 'stale.json'), '{}', { mode: 0o644 });
+    await saveToken(TOKEN, path);
+    await saveToken(TOKEN, join(directory, 'stale.json'));
+
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(statSync(join(directory, 'config')).mode & 0o777).toBe(0o700);
+    expect(statSync(join(directory, 'stale.json')).mode & 0o777).toBe(0o600);
+    expect(loadToken(path)).toEqual(TOKEN);
+  });
+
+  it('should return undefined when there is no token', () => {
+    expect(loadToken(join(directory, 'missing.json'))).toBeUndefined();
+  });
+
+  it('should reject files without a token', () => {
+    const path = join(directory, 'other.json');
+    writeFileSync(path, '{"hello": "world"}');
+    expect(() => loadToken(path)).toThrow(`${path} does not contain an Evernote access token`);
+  });
+
+  it('should read the user ID from a token', () => {
+    expect(tokenUserId('S=s1:U=8f65c:E=18a1b2c3d4e:C=17f1:P=1cd:A=en-devtoken:V=2:H=abc')).toBe(0x8f65c);
+    expect(tokenUserId('test-api-key')).toBeUndefined();
+  });
+
+  it('should warn in the week before expiry and after it', () => {
+    const expires = TOKEN.expires!;
+    expect(expiryWarning(TOKEN, expires - 8 * DAY)).toBeUndefined();
+    expect(expiryWarning(TOKEN, expires - 2.5 * DAY)).toBe(
+      'Evernote access token expires in 3 days (2025-01-01T00:00:00.000Z); run `authorize` again to renew it'
+    );
+    expect(expiryWarning(TOKEN, expires + 1)).toBe(
+      'Evernote access token expired on 2025-01-01T00:00:00.000Z; run `authorize` again to renew it'
+    );
+    expect(expiryWarning({ ...TOKEN, expires: undefined })).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+// src/auth/tokenStore.ts
+// Persists the OAuth access token in the user's config directory.
+import { readFileSync } from 'fs';
+import { chmod, mkdir, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { AccessToken } from './oauth.js';
+
+export interface StoredToken extends AccessToken {
+  /** The service the token was issued by */
+  serviceUrl: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+/** Warn this long before the token expires */
+export const EXPIRY_WARNING_PERIOD = 7 * DAY;
+
+export function configDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.EVERNOTE_CONFIG_DIR) return env.EVERNOTE_CONFIG_DIR;
+  return join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'evernote-mcp');
+}
+
+export function tokenPath(dir = configDir()): string {
+  return join(dir, 'token.json');
+}
+
+/** The user an Evernote token belongs to: tokens carry the ID in hex, as in `S=s1:U=8f65c:E=...` */
+export function tokenUserId(token: string): number | undefined {
+  const match = /(?:^|:)U=([0-9a-f]+)(?::|$)/i.exec(token);
+  return match ? parseInt(match[1], 16) : undefined;
+}
+
+/** Write the token readable by the current user only */
+export async function saveToken(token: StoredToken, path = tokenPath()): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, JSON.stringify(token, null, 2) + '\n', { mode: 0o600 });
+  // writeFile only applies the mode when it creates the file
+  await chmod(path, 0o600);
+}
+
+/** The stored token, or undefined when `authorize` has not been run */
+export function loadToken(path = tokenPath()): StoredToken | undefined {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  const token = JSON.parse(text);
+  if (typeof token?.token !== 'string' || typeof token?.noteStoreUrl !== 'string') {
+    throw new Error(`${path} does not contain an Evernote access token`);
+  }
+  return token;
+}
+
+export function expiryWarning(token: AccessToken, now = Date.now()): string | undefined {
+  if (token.expires === undefined) return undefined;
+  const renew = 'run `authorize` again to renew it';
+  if (token.expires <= now) {
+    return `Evernote access token expired on ${new Date(token.expires).toISOString()}; ${renew}`;
+  }
+  if (token.expires - now <= EXPIRY_WARNING_PERIOD) {
+    const days = Math.ceil((token.expires - now) / DAY);
+    return `Evernote access token expires in ${days} day${days === 1 ? '' : 's'} (${new Date(token.expires).toISOString()}); ${renew}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,122 @@
+// src/backend/backend.ts
+// The storage operations the tools need, independent of where notes live.
+import { GetNoteOptions, GetResourceOptions } from '../thrift/noteStore.js';
+import {
+  LazyMap,
+  Note,
+  NoteCollectionCounts,
+  NoteFilter,
+  Notebook,
+  NotesMetadataList,
+  NotesMetadataResultSpec,
+  Resource,
+  Tag,
+  User,
+} from '../thrift/types.js';
+import { CachedBackend } from './cache.js';
+import { LocalBackend } from './local.js';
+import { ThriftBackend } from './thrift.js';
+
+export interface NoteReadOptions extends GetNoteOptions {
+  /** Read the note from where it's stored, not from a cached copy, for a read a write is based on */
+  uncached?: boolean;
+}
+
+/**
+ * A note store. Implementations speak in EDAM types and raise the EDAM
+ * exceptions from thrift/errors.ts, so tools behave the same whichever
+ * backend is configured.
+ */
+export interface EvernoteBackend {
+  /** Whether calls need EVERNOTE_API_KEY */
+  readonly requiresAuth: boolean;
+
+  findNotesMetadata(
+    filter: NoteFilter,
+    offset: number,
+    maxNotes: number,
+    resultSpec: NotesMetadataResultSpec
+  ): Promise<NotesMetadataList>;
+  findNoteCounts(filter: NoteFilter, withTrash: boolean): Promise<NoteCollectionCounts>;
+  getNote(guid: string, options?: NoteReadOptions): Promise<Note>;
+  getNoteTagNames(guid: string): Promise<string[]>;
+  /** Application data entries with their values; notes only carry the keys */
+  getNoteApplicationData(guid: string): Promise<LazyMap>;
+  /** Set or remove one entry, returning the note's new update sequence number */
+  setNoteApplicationDataEntry(guid: string, key: string, value: string): Promise<number>;
+  unsetNoteApplicationDataEntry(guid: string, key: string): Promise<number>;
+  createNote(note: Note): Promise<Note>;
+  /** Setting `active` on an update moves a note out of or into the trash */
+  updateNote(note: Note): Promise<Note>;
+  deleteNote(guid: string): Promise<number>;
+  expungeNote(guid: string): Promise<number>;
+
+  listNotebooks(): Promise<Notebook[]>;
+  getNotebook(guid: string): Promise<Notebook>;
+  createNotebook(notebook: Notebook): Promise<Notebook>;
+  updateNotebook(notebook: Notebook): Promise<number>;
+  /** Notes in the notebook go to the trash, in the default notebook */
+  expungeNotebook(guid: string): Promise<number>;
+
+  listTags(): Promise<Tag[]>;
+  getTag(guid: string): Promise<Tag>;
+  createTag(tag: Tag): Promise<Tag>;
+  /** Replaces the name and parent; a tag without `parentGuid` moves to the top level */
+  updateTag(tag: Tag): Promise<number>;
+  /** Removes the tag from its notes; its child tags move to the top level */
+  expungeTag(guid: string): Promise<number>;
+
+  getResource(guid: string, options?: GetResourceOptions): Promise<Resource>;
+
+  /** The account the notes belong to */
+  getUser(): Promise<User>;
+}
+
+/** Every notebook, tag and note a backend holds on this machine, which callers read but don't change */
+export interface LocalNoteSet {
+  notebooks: Notebook[];
+  tags: Tag[];
+  /** Notes outside the trash, with content and resource recognition but not resource data */
+  notes: Note[];
+}
+
+/** A backend that can hand over all its notes at once, for searching them offline */
+export interface LocalNoteSource {
+  /** Undefined while the notes aren't on this machine yet */
+  localNotes(): Promise<LocalNoteSet | undefined>;
+}
+
+export function hasLocalNotes(backend: EvernoteBackend): backend is EvernoteBackend & LocalNoteSource {
+  return typeof (backend as Partial<LocalNoteSource>).localNotes === 'function';
+}
+
+export const BACKENDS = ['evernote', 'local'] as const;
+export type BackendName = (typeof BACKENDS)[number];
+
+export function isBackendName(value: unknown): value is BackendName {
+  return typeof value === 'string' && (BACKENDS as readonly string[]).includes(value);
+}
+
+export interface BackendConfig {
+  backend: BackendName;
+  apiKey: string;
+  serviceUrl: string;
+  noteStoreUrl?: string;
+  /** JSON file for the local backend; notes are kept in memory when unset */
+  localPath?: string;
+  /** Keep a copy of the Evernote account in this file and serve reads from it */
+  cachePath?: string;
+  /** How old the copy can get before a read checks for changes, in milliseconds */
+  cacheMaxAge?: number;
+}
+
+export function createBackend(config: BackendConfig): EvernoteBackend {
+  switch (config.backend) {
+    case 'local':
+      return new LocalBackend(config.localPath);
+    case 'evernote': {
+      const remote = new ThriftBackend(config.apiKey, config.serviceUrl, config.noteStoreUrl);
+      return config.cachePath ? new CachedBackend(remote, config.cachePath, config.cacheMaxAge ?? 0) : remote;
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import { jest, describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import { createHash } from 'crypto';
+import { existsSync, mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ThriftFixture, startThriftServer } from '../__fixtures__/thriftServer.js';
+import { NOTE_STORE_METHODS } from '../thrift/noteStore.js';
+import { USER_STORE_METHODS } from '../thrift/userStore.js';
+import { CachedBackend } from './cache.js';
+import { ThriftBackend } from './thrift.js';
+
+interface Item {
+  guid: string;
+  updateSequenceNum: number;
+  [field: string]: unknown;
+}
+
+const enml = (body: string) => `<en-note>${body}</en-note>`;
+const md5 = (text: string) => createHash('md5').update(text).digest();
+
+describe('CachedBackend', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-cache-'));
+  let service: ThriftFixture;
+  let account: {
+    userId: number;
+    updateCount: number;
+    fullSyncBefore: number;
+    notebooks: Item[];
+    tags: Item[];
+    notes: (Item & { content: string })[];
+    expungedNotes: Item[];
+  };
+  let path: string;
+
+  const calls = (method: string) => service.calls.filter((call) => call.method === method);
+  const change = <T extends Item>(item: T, fields: Partial<T> = {}) =>
+    Object.assign(item, fields, { updateSequenceNum: ++account.updateCount });
+  const metadata = ({ content, ...note }: Item & { content: string }) => ({
+    ...note,
+    contentHash: md5(content),
+    contentLength: content.length,
+  });
+  const create = (maxAgeMs = 60_000) =>
+    new CachedBackend(new ThriftBackend('token', new URL(service.url).origin, service.url), path, maxAgeMs);
+
+  beforeAll(async () => {
+    service = await startThriftServer({ ...NOTE_STORE_METHODS, ...USER_STORE_METHODS });
+  });
+
+  afterAll(async () => {
+    await service.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    path = join(directory, `${expect.getState().currentTestName}.json`);
+    service.calls.length = 0;
+    account = { userId: 1, updateCount: 0, fullSyncBefore: 0, notebooks: [], tags: [], notes: [], expungedNotes: [] };
+    account.notebooks.push(change({ guid: 'nb1', name: 'Inbox', defaultNotebook: true, updateSequenceNum: 0 }));
+    account.tags.push(change({ guid: 't1', name: 'work', updateSequenceNum: 0 }));
+    for (const [guid, title] of [
+      ['n1', 'Plan'],
+      ['n2', 'Ideas'],
+    ]) {
+      const note = { guid, title, content: enml(title), notebookGuid: 'nb1', tagGuids: ['t1'], active: true };
+      account.notes.push(change({ ...note, updateSequenceNum: 0 }));
+    }
+
+    service.handlers.getUser = () => ({ id: account.userId, username: 'ana' });
+    service.handlers.getSyncState = () => ({
+      currentTime: Date.now(),
+      fullSyncBefore: account.fullSyncBefore,
+      updateCount: account.updateCount,
+    });
+    // Two changes per chunk, to exercise paging
+    service.handlers.getFilteredSyncChunk = ({ afterUSN }) => {
+      const items = [
+        ...account.notebooks.map((item) => ({ kind: 'notebooks', item })),
+        ...account.tags.map((item) => ({ kind: 'tags', item })),
+        ...account.notes.map((item) => ({ kind: 'notes', item: metadata(item) })),
+        ...account.expungedNotes.map((item) => ({ kind: 'expungedNotes', item })),
+      ]
+        .filter(({ item }) => item.updateSequenceNum > afterUSN)
+        .sort((a, b) => a.item.updateSequenceNum - b.item.updateSequenceNum)
+        .slice(0, 2);
+      const chunk: Record<string, any> = { currentTime: Date.now(), updateCount: account.updateCount };
+      for (const { kind, item } of items) {
+        chunk[kind] = [...(chunk[kind] ?? []), kind === 'expungedNotes' ? item.guid : item];
+      }
+      if (items.length) chunk.chunkHighUSN = items[items.length - 1].item.updateSequenceNum;
+      return chunk;
+    };
+    service.handlers.getNote = ({ guid, withContent }) => {
+      const note = account.notes.find((candidate) => candidate.guid === guid)!;
+      return withContent ? { ...metadata(note), content: note.content } : metadata(note);
+    };
+    service.handlers.listNotebooks = () => account.notebooks;
+  });
+
+  it('should download the account and serve reads from it', async () => {
+    const backend = create();
+
+    expect(await backend.sync()).toEqual({ mode: 'full', updated: 4, expunged: 0, downloaded: 2, recognition: 0 });
+    expect(calls('getFilteredSyncChunk').map((call) => call.args.afterUSN)).toEqual([0, 2]);
+    service.calls.length = 0;
+
+    expect(await backend.getNote('n1', { withContent: true })).toMatchObject({ title: 'Plan', content: enml('Plan') });
+    expect(await backend.getNote('n2')).not.toHaveProperty('content');
+    expect(await backend.getNoteTagNames('n1')).toEqual(['work']);
+    expect((await backend.listNotebooks()).map((notebook) => notebook.name)).toEqual(['Inbox']);
+    expect((await backend.getTag('t1')).name).toBe('work');
+    expect(service.calls).toEqual([]);
+
+    expect(await backend.status()).toMatchObject({
+      updateCount: 4,
+      notebooks: 1,
+      tags: 1,
+      notes: 2,
+      notesWithContent: 2,
+    });
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+
+  it('should only fetch what changed since the last sync', async () => {
+    await create().sync();
+    change(account.notes[1], { content: enml('Better ideas') });
+    account.notes = account.notes.filter((note) => note.guid !== 'n1');
+    account.expungedNotes.push(change({ guid: 'n1', updateSequenceNum: 0 }));
+    service.calls.length = 0;
+
+    // A new process picks up the cache from the file
+    const backend = create();
+    expect(await backend.sync()).toEqual({ mode: 'incremental', updated: 1, expunged: 1, downloaded: 1, recognition: 0 });
+    expect(calls('getFilteredSyncChunk')[0].args.afterUSN).toBe(4);
+    expect(calls('getNote').map((call) => call.args.guid)).toEqual(['n2']);
+    expect((await backend.getNote('n2', { withContent: true })).content).toBe(enml('Better ideas'));
+    expect((await backend.status()).notes).toBe(1);
+  });
+
+  it('should keep unchanged content through a full sync', async () => {
+    await create().sync();
+    change(account.notes[0], { title: 'Renamed' });
+    account.fullSyncBefore = Date.now() + 1000;
+    service.calls.length = 0;
+
+    const backend = create();
+    expect(await backend.sync()).toMatchObject({ mode: 'full', downloaded: 0 });
+    expect((await backend.getNote('n1', { withContent: true })).title).toBe('Renamed');
+  });
+
+  it('should read from the service until the first sync is done', async () => {
+    const backend = create();
+
+    expect((await backend.listNotebooks()).map((notebook) => notebook.name)).toEqual(['Inbox']);
+    expect(calls('listNotebooks')).toHaveLength(1);
+    // The read started the first sync in the background
+    await backend.sync();
+    expect(calls('getSyncState')).toHaveLength(1);
+  });
+
+  it('should check for changes when stale or after a write', async () => {
+    service.handlers.deleteNote = () => ++account.updateCount;
+    const backend = create(0);
+    await backend.sync();
+    service.calls.length = 0;
+
+    await backend.getNote('n1');
+    expect(calls('getSyncState')).toHaveLength(1);
+    expect(calls('getFilteredSyncChunk')).toHaveLength(0);
+
+    const fresh = create(60_000);
+    await fresh.sync();
+    await fresh.deleteNote('n1');
+    change(account.notes[0], { active: false });
+    service.calls.length = 0;
+    expect((await fresh.getNote('n1')).active).toBe(false);
+    expect(calls('getSyncState')).toHaveLength(1);
+  });
+
+  it('should only write the file when a sync finds changes', async () => {
+    const backend = create(0);
+    await backend.sync();
+    rmSync(path);
+
+    expect(await backend.sync()).toMatchObject({ mode: 'incremental', updated: 0, expunged: 0 });
+    expect(existsSync(path)).toBe(false);
+
+    change(account.notes[0], { title: 'Plan B' });
+    await backend.sync();
+    expect(existsSync(path)).toBe(true);
+  });
+
+  it('should serve the cache when the service is unreachable', async () => {
+    const backend = create(0);
+    await backend.sync();
+    service.handlers.getSyncState = () => {
+      throw new Error('offline');
+    };
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await backend.getNote('n1')).title).toBe('Plan');
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Serving cached notes, as the sync failed: /));
+    error.mockRestore();
+  });
+
+  it('should start over for a different account', async () => {
+    await create().sync();
+    account.userId = 2;
+
+    const backend = create();
+    expect(await backend.sync()).toMatchObject({ mode: 'full', downloaded: 2 });
+  });
+
+  it('should keep recognition data for searching attachments offline', async () => {
+    const recognition = '<recoIndex><item><t w="90">Receipt</t></item></recoIndex>';
+    const resource = { guid: 'r1', noteGuid: 'n1', recognition: { bodyHash: md5(recognition), size: 50 } };
+    change(account.notes[0], { resources: [resource] });
+    service.handlers.getResource = () => ({ ...resource, recognition: { ...resource.recognition, body: recognition } });
+    const backend = create();
+
+    expect(await backend.sync()).toMatchObject({ downloaded: 2, recognition: 1 });
+    const note = (await backend.localNotes())!.notes.find((candidate) => candidate.guid === 'n1');
+    expect(note!.resources![0].recognition!.body!.toString()).toBe(recognition);
+    // Other reads only get recognition data when they ask for it
+    expect((await backend.getNote('n1')).resources![0].recognition).not.toHaveProperty('body');
+
+    // A change to the note keeps the recognition data, which didn't change
+    change(account.notes[0], { title: 'Lunch' });
+    expect(await backend.sync()).toMatchObject({ updated: 1, recognition: 0 });
+    expect((await backend.localNotes())!.notes.map((note) => note.title)).toEqual(['Ideas', 'Lunch']);
+  });
+
+  it('should have no local notes until the first sync is done', async () => {
+    const backend = create();
+    expect(await backend.localNotes()).toBeUndefined();
+    await backend.sync();
+    expect((await backend.localNotes())!.notes).toHaveLength(2);
+  });
+
+  it('should get resource data and searches from the service', async () => {
+    service.handlers.findNotesMetadata = () => ({ startIndex: 0, totalNotes: 0, notes: [] });
+    const backend = create();
+    await backend.sync();
+    service.calls.length = 0;
+
+    await backend.getNote('n1', { withResourcesData: true });
+    await backend.findNotesMetadata({ words: 'plan' }, 0, 10, {});
+    expect(service.calls.map((call) => call.method)).toEqual(['getNote', 'findNotesMetadata']);
+  });
+});
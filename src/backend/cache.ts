@@ -0,0 +1,453 @@
+// src/backend/cache.ts
+// A copy of the Evernote account on disk, kept current with the sync API, that
+// reads are served from.
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { EDAMNotFoundException } from '../thrift/errors.js';
+import { GetResourceOptions } from '../thrift/noteStore.js';
+import {
+  LazyMap,
+  Note,
+  NoteCollectionCounts,
+  NoteFilter,
+  Notebook,
+  NotesMetadataList,
+  NotesMetadataResultSpec,
+  Resource,
+  SyncChunk,
+  SyncChunkFilter,
+  Tag,
+  User,
+} from '../thrift/types.js';
+import type { EvernoteBackend, LocalNoteSet, NoteReadOptions } from './backend.js';
+import { clone, queueWrite, replacer, reviver } from './json.js';
+import type { ThriftBackend } from './thrift.js';
+
+export const SYNC_MODES = ['incremental', 'full'] as const;
+export type SyncMode = (typeof SYNC_MODES)[number];
+
+export function isSyncMode(value: unknown): value is SyncMode {
+  return SYNC_MODES.includes(value as SyncMode);
+}
+
+// Changes per getFilteredSyncChunk call
+const SYNC_CHUNK_SIZE = 100;
+
+const SYNC_FILTER: SyncChunkFilter = {
+  includeNotes: true,
+  includeNoteResources: true,
+  includeNoteAttributes: true,
+  includeNotebooks: true,
+  includeTags: true,
+  includeResources: true,
+  includeExpunged: true,
+};
+
+interface CacheData {
+  /** The account the cache belongs to */
+  userId?: number;
+  /** The highest update sequence number applied */
+  updateCount: number;
+  /** Service time of the last sync to finish, and of the last full one */
+  lastSync?: number;
+  lastFullSync?: number;
+  notebooks: Notebook[];
+  tags: Tag[];
+  /** Metadata and resources without their data, plus content and recognition once downloaded */
+  notes: Note[];
+}
+
+export interface SyncResult {
+  mode: SyncMode;
+  /** Notes, notebooks, tags and resources added or changed */
+  updated: number;
+  expunged: number;
+  /** Notes whose content was downloaded */
+  downloaded: number;
+  /** Attachments whose recognition data was downloaded, for searching the text in them */
+  recognition: number;
+}
+
+export interface CacheStatus {
+  path: string;
+  syncing: boolean;
+  lastSync?: string;
+  lastFullSync?: string;
+  updateCount: number;
+  notebooks: number;
+  tags: number;
+  notes: number;
+  notesInTrash: number;
+  notesWithContent: number;
+}
+
+function emptyCache(): CacheData {
+  // Unset fields are listed so Object.assign clears them
+  return {
+    userId: undefined,
+    updateCount: 0,
+    lastSync: undefined,
+    lastFullSync: undefined,
+    notebooks: [],
+    tags: [],
+    notes: [],
+  };
+}
+
+function sameHash(a: Buffer | undefined, b: Buffer | undefined): boolean {
+  return Boolean(a && b && a.equals(b));
+}
+
+/** Keep recognition data already downloaded for a resource whose recognition didn't change */
+function keepRecognition(resource: Resource, old: Resource | undefined): void {
+  if (old?.recognition?.body && sameHash(old.recognition.bodyHash, resource.recognition?.bodyHash)) {
+    resource.recognition!.body = old.recognition.body;
+  }
+}
+
+function formatTime(time: number | undefined): string | undefined {
+  return time === undefined ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Serves notebooks, tags and notes from a JSON copy of the account, asking the
+ * service for changes once the copy is older than `maxAgeMs`. Searches,
+ * counts, resource data and writes always go to the service; a write makes
+ * the next read sync first so it sees the change.
+ *
+ * The copy is a JSON file rather than SQLite: Node 20 has no SQLite built in,
+ * and a native module would need building, or prebuilt binaries, wherever the
+ * server is installed.
+ *
+ * Until the first sync finishes, which downloads every note, reads go to the
+ * service. When the service can't be reached later on, the copy is served as
+ * it is.
+ */
+export class CachedBackend implements EvernoteBackend {
+  readonly requiresAuth = true;
+  private data?: Promise<CacheData>;
+  private syncing?: Promise<SyncResult>;
+  /** When this process last asked the service for changes */
+  private checkedAt = 0;
+  /** Whether the cache has been checked against the current account */
+  private verified = false;
+
+  constructor(
+    private readonly remote: ThriftBackend,
+    private readonly path: string,
+    private readonly maxAgeMs: number
+  ) {}
+
+  private load(): Promise<CacheData> {
+    if (!this.data) this.data = this.read();
+    return this.data;
+  }
+
+  private async read(): Promise<CacheData> {
+    if (!existsSync(this.path)) return emptyCache();
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'), reviver);
+    } catch (error) {
+      console.error(`Ignoring unreadable note cache ${this.path}: ${(error as Error).message}`);
+      return emptyCache();
+    }
+  }
+
+  /** Write the cache readable by the current user only, as it holds note content */
+  private save(data: CacheData): Promise<void> {
+    return queueWrite(this.path, JSON.stringify(data, replacer), 0o600);
+  }
+
+  /** Bring the cache up to date; a sync already running is joined rather than repeated */
+  sync(mode: SyncMode = 'incremental'): Promise<SyncResult> {
+    this.syncing ??= this.runSync(mode).finally(() => (this.syncing = undefined));
+    return this.syncing;
+  }
+
+  async status(): Promise<CacheStatus> {
+    const data = await this.load();
+    const active = data.notes.filter((note) => note.active !== false);
+    return {
+      path: this.path,
+      syncing: Boolean(this.syncing),
+      lastSync: formatTime(data.lastSync),
+      lastFullSync: formatTime(data.lastFullSync),
+      updateCount: data.updateCount,
+      notebooks: data.notebooks.length,
+      tags: data.tags.length,
+      notes: active.length,
+      notesInTrash: data.notes.length - active.length,
+      notesWithContent: data.notes.filter((note) => note.content !== undefined).length,
+    };
+  }
+
+  private async runSync(requested: SyncMode): Promise<SyncResult> {
+    const data = await this.load();
+    const state = await this.remote.getSyncState();
+    let reset = false;
+    if (!this.verified) {
+      const { id } = await this.remote.getUser();
+      // A cache of another account is no use
+      reset = data.userId !== id;
+      if (data.userId !== undefined && reset) Object.assign(data, emptyCache());
+      data.userId = id;
+      this.verified = true;
+    }
+
+    // The service asks for a full sync when it can no longer describe changes since the last one
+    const mode: SyncMode =
+      requested === 'full' || data.lastSync === undefined || state.fullSyncBefore > data.lastSync
+        ? 'full'
+        : 'incremental';
+    const result: SyncResult = { mode, updated: 0, expunged: 0, downloaded: 0, recognition: 0 };
+
+    // Content that didn't change is kept even through a full sync
+    const previous = new Map(data.notes.map((note) => [note.guid, note]));
+    const notebooks = new Map(mode === 'full' ? [] : data.notebooks.map((notebook) => [notebook.guid, notebook]));
+    const tags = new Map(mode === 'full' ? [] : data.tags.map((tag) => [tag.guid, tag]));
+    const notes = new Map(mode === 'full' ? [] : previous);
+
+    let after = mode === 'full' ? 0 : data.updateCount;
+    while (after < state.updateCount) {
+      const chunk = await this.remote.getFilteredSyncChunk(after, SYNC_CHUNK_SIZE, SYNC_FILTER);
+      this.applyChunk(chunk, { notebooks, tags, notes, previous }, result);
+      // An empty chunk means nothing the filter covers changed after `after`
+      const high = chunk.chunkHighUSN ?? chunk.updateCount;
+      if (high <= after) break;
+      after = high;
+    }
+
+    // Most checks find nothing new, and then the file is left as it is
+    const changed = reset || mode === 'full' || after !== data.updateCount || result.updated + result.expunged > 0;
+    data.notebooks = [...notebooks.values()];
+    data.tags = [...tags.values()];
+    data.notes = [...notes.values()];
+    data.updateCount = after;
+    if (changed) await this.save(data);
+
+    for (const note of data.notes) {
+      if (note.active === false) continue;
+      try {
+        if (note.content === undefined) {
+          const downloaded = await this.remote.getNote(note.guid!, { withContent: true });
+          note.content = downloaded.content;
+          note.contentHash = downloaded.contentHash;
+          note.contentLength = downloaded.contentLength;
+          result.downloaded++;
+        }
+        for (const resource of note.resources ?? []) {
+          if (!resource.recognition || resource.recognition.body) continue;
+          const downloaded = await this.remote.getResource(resource.guid!, { withRecognition: true });
+          resource.recognition = downloaded.recognition;
+          result.recognition++;
+        }
+      } catch (error) {
+        // Expunged since the chunk was read; the next sync removes it
+        if (error instanceof EDAMNotFoundException) continue;
+        throw error;
+      }
+    }
+
+    data.lastSync = state.currentTime;
+    if (mode === 'full') data.lastFullSync = state.currentTime;
+    this.checkedAt = Date.now();
+    if (changed || result.downloaded + result.recognition > 0) await this.save(data);
+    return result;
+  }
+
+  private applyChunk(
+    chunk: SyncChunk,
+    maps: {
+      notebooks: Map<string | undefined, Notebook>;
+      tags: Map<string | undefined, Tag>;
+      notes: Map<string | undefined, Note>;
+      previous: Map<string | undefined, Note>;
+    },
+    result: SyncResult
+  ): void {
+    for (const notebook of chunk.notebooks ?? []) maps.notebooks.set(notebook.guid, notebook);
+    for (const tag of chunk.tags ?? []) maps.tags.set(tag.guid, tag);
+    for (const note of chunk.notes ?? []) {
+      const old = maps.notes.get(note.guid) ?? maps.previous.get(note.guid);
+      if (old?.content !== undefined && sameHash(old.contentHash, note.contentHash)) note.content = old.content;
+      for (const resource of note.resources ?? []) {
+        keepRecognition(resource, old?.resources?.find((candidate) => candidate.guid === resource.guid));
+      }
+      maps.notes.set(note.guid, note);
+    }
+    // Resources changed on their own, such as when recognition finishes
+    for (const resource of chunk.resources ?? []) {
+      const resources = maps.notes.get(resource.noteGuid)?.resources;
+      const index = resources?.findIndex((candidate) => candidate.guid === resource.guid) ?? -1;
+      if (index < 0) continue;
+      keepRecognition(resource, resources![index]);
+      resources![index] = resource;
+    }
+    for (const list of [chunk.notebooks, chunk.tags, chunk.notes, chunk.resources]) result.updated += list?.length ?? 0;
+
+    for (const guid of chunk.expungedNotebooks ?? []) maps.notebooks.delete(guid);
+    for (const guid of chunk.expungedTags ?? []) maps.tags.delete(guid);
+    for (const guid of chunk.expungedNotes ?? []) maps.notes.delete(guid);
+    for (const list of [chunk.expungedNotebooks, chunk.expungedTags, chunk.expungedNotes]) {
+      result.expunged += list?.length ?? 0;
+    }
+  }
+
+  /**
+   * The cache, synced first if it's older than maxAgeMs, or undefined while
+   * the first sync hasn't finished and reads have to go to the service.
+   */
+  private async fresh(): Promise<CacheData | undefined> {
+    const data = await this.load();
+    if (data.lastSync === undefined) {
+      // The first sync downloads the whole account, so it runs in the background
+      if (!this.syncing) void this.sync('full').catch((error) => console.error(`Note cache sync failed: ${error}`));
+      return undefined;
+    }
+    if (Date.now() - this.checkedAt >= this.maxAgeMs) {
+      try {
+        await this.sync();
+      } catch (error) {
+        console.error(`Serving cached notes, as the sync failed: ${error}`);
+        // Don't retry on every read
+        this.checkedAt = Date.now();
+      }
+    }
+    return data;
+  }
+
+  async localNotes(): Promise<LocalNoteSet | undefined> {
+    const data = await this.fresh();
+    if (!data) return undefined;
+    // Not cloned: copying the whole account on every search costs more than the search
+    return { notebooks: data.notebooks, tags: data.tags, notes: data.notes.filter((note) => note.active !== false) };
+  }
+
+  /** After a write, the next read syncs first */
+  private changed<T>(value: T): T {
+    this.checkedAt = 0;
+    return value;
+  }
+
+  findNotesMetadata(
+    filter: NoteFilter,
+    offset: number,
+    maxNotes: number,
+    resultSpec: NotesMetadataResultSpec
+  ): Promise<NotesMetadataList> {
+    return this.remote.findNotesMetadata(filter, offset, maxNotes, resultSpec);
+  }
+
+  findNoteCounts(filter: NoteFilter, withTrash: boolean): Promise<NoteCollectionCounts> {
+    return this.remote.findNoteCounts(filter, withTrash);
+  }
+
+  async getNote(guid: string, options: NoteReadOptions = {}): Promise<Note> {
+    // Reads a write is based on, and resource data, which isn't cached, come from the service
+    if (
+      options.uncached ||
+      options.withResourcesData ||
+      options.withResourcesRecognition ||
+      options.withResourcesAlternateData
+    ) {
+      return this.remote.getNote(guid, options);
+    }
+    const note = (await this.fresh())?.notes.find((candidate) => candidate.guid === guid);
+    if (!note || (options.withContent && note.content === undefined)) return this.remote.getNote(guid, options);
+
+    const result = clone(note);
+    if (!options.withContent) delete result.content;
+    // Recognition kept for local_search, which the service sends only when asked
+    for (const resource of result.resources ?? []) delete resource.recognition?.body;
+    return result;
+  }
+
+  async getNoteTagNames(guid: string): Promise<string[]> {
+    const data = await this.fresh();
+    const note = data?.notes.find((candidate) => candidate.guid === guid);
+    const names = (note?.tagGuids ?? []).map((tagGuid) => data!.tags.find((tag) => tag.guid === tagGuid)?.name);
+    if (!note || names.some((name) => name === undefined)) return this.remote.getNoteTagNames(guid);
+    return names as string[];
+  }
+
+  /** Values aren't in the sync chunks, so always from the service */
+  getNoteApplicationData(guid: string): Promise<LazyMap> {
+    return this.remote.getNoteApplicationData(guid);
+  }
+
+  async setNoteApplicationDataEntry(guid: string, key: string, value: string): Promise<number> {
+    return this.changed(await this.remote.setNoteApplicationDataEntry(guid, key, value));
+  }
+
+  async unsetNoteApplicationDataEntry(guid: string, key: string): Promise<number> {
+    return this.changed(await this.remote.unsetNoteApplicationDataEntry(guid, key));
+  }
+
+  async createNote(note: Note): Promise<Note> {
+    return this.changed(await this.remote.createNote(note));
+  }
+
+  async updateNote(note: Note): Promise<Note> {
+    return this.changed(await this.remote.updateNote(note));
+  }
+
+  async deleteNote(guid: string): Promise<number> {
+    return this.changed(await this.remote.deleteNote(guid));
+  }
+
+  async expungeNote(guid: string): Promise<number> {
+    return this.changed(await this.remote.expungeNote(guid));
+  }
+
+  async listNotebooks(): Promise<Notebook[]> {
+    const data = await this.fresh();
+    return data ? clone(data.notebooks) : this.remote.listNotebooks();
+  }
+
+  async getNotebook(guid: string): Promise<Notebook> {
+    const notebook = (await this.fresh())?.notebooks.find((candidate) => candidate.guid === guid);
+    return notebook ? clone(notebook) : this.remote.getNotebook(guid);
+  }
+
+  async createNotebook(notebook: Notebook): Promise<Notebook> {
+    return this.changed(await this.remote.createNotebook(notebook));
+  }
+
+  async updateNotebook(notebook: Notebook): Promise<number> {
+    return this.changed(await this.remote.updateNotebook(notebook));
+  }
+
+  async expungeNotebook(guid: string): Promise<number> {
+    return this.changed(await this.remote.expungeNotebook(guid));
+  }
+
+  async listTags(): Promise<Tag[]> {
+    const data = await this.fresh();
+    return data ? clone(data.tags) : this.remote.listTags();
+  }
+
+  async getTag(guid: string): Promise<Tag> {
+    const tag = (await this.fresh())?.tags.find((candidate) => candidate.guid === guid);
+    return tag ? clone(tag) : this.remote.getTag(guid);
+  }
+
+  async createTag(tag: Tag): Promise<Tag> {
+    return this.changed(await this.remote.createTag(tag));
+  }
+
+  async updateTag(tag: Tag): Promise<number> {
+    return this.changed(await this.remote.updateTag(tag));
+  }
+
+  async expungeTag(guid: string): Promise<number> {
+    return this.changed(await this.remote.expungeTag(guid));
+  }
+
+  getResource(guid: string, options?: GetResourceOptions): Promise<Resource> {
+    return this.remote.getResource(guid, options);
+  }
+
+  getUser(): Promise<User> {
+    return this.remote.getUser();
+  }
+}
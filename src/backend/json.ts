@@ -0,0 +1,48 @@
+// src/backend/json.ts
+// Helpers for note stores kept as JSON, where EDAM hashes and bodies are Buffers.
+import { chmod, mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/** Deep copy that keeps Buffers as Buffers, so callers can't mutate the store */
+export function clone<T>(value: T): T {
+  if (Buffer.isBuffer(value)) return Buffer.from(value) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, field]) => field !== undefined).map(([key, field]) => [key, clone(field)])
+    ) as T;
+  }
+  return value;
+}
+
+// Buffers are stored as base64 rather than JSON's array of bytes
+export function replacer(_key: string, value: any): any {
+  return value?.type === 'Buffer' && Array.isArray(value.data)
+    ? { $base64: Buffer.from(value.data).toString('base64') }
+    : value;
+}
+
+export function reviver(_key: string, value: any): any {
+  return typeof value?.$base64 === 'string' ? Buffer.from(value.$base64, 'base64') : value;
+}
+
+// The last write queued for each file
+const writes = new Map<string, Promise<void>>();
+
+/**
+ * Write `text` to `path` after the writes already queued for it, so the file
+ * always ends up with the latest state. A failed write rejects only its own
+ * caller. With `mode`, the file gets that mode and a new directory is private.
+ */
+export function queueWrite(path: string, text: string, mode?: number): Promise<void> {
+  const write = (writes.get(path) ?? Promise.resolve())
+    .catch(() => {})
+    .then(async () => {
+      await mkdir(dirname(path), { recursive: true, mode: mode === undefined ? undefined : 0o700 });
+      await writeFile(path, text, { mode });
+      // writeFile only applies the mode when it creates the file
+      if (mode !== undefined) await chmod(path, mode);
+    });
+  writes.set(path, write);
+  return write;
+}
@@ -0,0 +1,313 @@
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EDAMNotFoundException, EDAMUserException } from '../thrift/errors.js';
+import { NoteSortOrder } from '../thrift/types.js';
+import { LocalBackend } from './local.js';
+
+const enml = (body: string) => `<en-note>${body}</en-note>`;
+
+describe('LocalBackend', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-local-'));
+  let backend: LocalBackend;
+
+  beforeEach(() => {
+    backend = new LocalBackend();
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should start with a default notebook', async () => {
+    const notebooks = await backend.listNotebooks();
+    expect(notebooks).toHaveLength(1);
+    expect(notebooks[0]).toMatchObject({ name: 'My Notebook', defaultNotebook: true });
+  });
+
+  it('should create notes in the default notebook and create missing tags', async () => {
+    const [inbox] = await backend.listNotebooks();
+    const created = await backend.createNote({ title: 'Hello', content: enml('Hi'), tagNames: ['work', 'Urgent'] });
+
+    expect(created.content).toBeUndefined();
+    expect(created.notebookGuid).toBe(inbox.guid);
+    expect(created.contentLength).toBe(enml('Hi').length);
+    expect(created.updateSequenceNum).toBeGreaterThan(inbox.updateSequenceNum!);
+    expect((await backend.listTags()).map((tag) => tag.name)).toEqual(['work', 'Urgent']);
+    await expect(backend.getNoteTagNames(created.guid!)).resolves.toEqual(['work', 'Urgent']);
+
+    const again = await backend.createNote({ title: 'Again', content: enml(''), tagNames: ['WORK'] });
+    expect(again.tagGuids).toEqual([created.tagGuids![0]]);
+  });
+
+  it('should only return content and resource data when asked', async () => {
+    const created = await backend.createNote({
+      title: 'With file',
+      content: enml('<en-media type="text/plain" hash="x"/>'),
+      resources: [{ mime: 'text/plain', data: { body: Buffer.from('file body') }, attributes: { fileName: 'a.txt' } }],
+    });
+    const [resource] = created.resources!;
+    expect(resource.data).toEqual({ bodyHash: expect.any(Buffer), size: 9 });
+
+    const bare = await backend.getNote(created.guid!);
+    expect(bare.content).toBeUndefined();
+    expect(bare.resources![0].data!.body).toBeUndefined();
+
+    const full = await backend.getNote(created.guid!, { withContent: true, withResourcesData: true });
+    expect(full.content).toContain('en-media');
+    expect(full.resources![0].data!.body!.toString()).toBe('file body');
+
+    const fetched = await backend.getResource(resource.guid!, { withData: true, withAttributes: true });
+    expect(fetched).toMatchObject({ noteGuid: created.guid, mime: 'text/plain', attributes: { fileName: 'a.txt' } });
+    expect(fetched.data!.body!.toString()).toBe('file body');
+  });
+
+  it('should keep resources sent back without their data', async () => {
+    const created = await backend.createNote({
+      title: 'Files',
+      content: enml(''),
+      resources: [{ mime: 'text/plain', data: { body: Buffer.from('one') } }],
+    });
+    const [kept] = created.resources!;
+
+    const updated = await backend.updateNote({
+      guid: created.guid,
+      title: 'Files',
+      resources: [kept, { mime: 'text/plain', data: { body: Buffer.from('two') } }],
+    });
+    expect(updated.resources!.map((resource) => resource.guid)).toEqual([kept.guid, expect.any(String)]);
+    const full = await backend.getNote(created.guid!, { withResourcesData: true });
+    expect(full.resources!.map((resource) => resource.data!.body!.toString())).toEqual(['one', 'two']);
+
+    await expect(
+      backend.updateNote({ guid: created.guid, title: 'Files', resources: [{ mime: 'text/plain', data: { size: 3 } }] })
+    ).rejects.toThrow('DATA_REQUIRED (Resource.data)');
+  });
+
+  it('should update only the fields given', async () => {
+    const created = await backend.createNote({ title: 'Draft', content: enml('One'), tagNames: ['keep'] });
+    await backend.updateNote({ guid: created.guid, title: 'Final' });
+
+    const note = await backend.getNote(created.guid!, { withContent: true });
+    expect(note.title).toBe('Final');
+    expect(note.content).toBe(enml('One'));
+    expect(await backend.getNoteTagNames(created.guid!)).toEqual(['keep']);
+    expect(note.updateSequenceNum).toBeGreaterThan(created.updateSequenceNum!);
+  });
+
+  it('should leave the store alone when an update fails', async () => {
+    const created = await backend.createNote({ title: 'Draft', content: enml('One'), tagNames: ['keep'] });
+    const attempt = backend.updateNote({
+      guid: created.guid,
+      title: 'Final',
+      content: enml('Two'),
+      tagNames: ['new', ' padded'],
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(EDAMUserException);
+    const note = await backend.getNote(created.guid!, { withContent: true });
+    expect(note).toMatchObject({ title: 'Draft', content: enml('One'), updateSequenceNum: created.updateSequenceNum });
+    expect((await backend.listTags()).map((tag) => tag.name)).toEqual(['keep']);
+    await expect(
+      backend.updateNote({ guid: created.guid, title: 'Final', tagNames: ['new'], resources: [{ mime: 'text/plain' }] })
+    ).rejects.toThrow('DATA_REQUIRED (Resource.data)');
+    expect((await backend.listTags()).map((tag) => tag.name)).toEqual(['keep']);
+  });
+
+  it('should keep application data values apart from the note', async () => {
+    const created = await backend.createNote({
+      title: 'Synced',
+      content: enml(''),
+      attributes: { sourceURL: 'https://example.com', applicationData: { fullMap: { 'com.example.sync': 'id-1' } } },
+    });
+    expect(created.attributes).toEqual({
+      sourceURL: 'https://example.com',
+      applicationData: { keysOnly: ['com.example.sync'] },
+    });
+
+    const usn = await backend.setNoteApplicationDataEntry(created.guid!, 'com.example.tag', 'owned');
+    expect(usn).toBeGreaterThan(created.updateSequenceNum!);
+    await backend.unsetNoteApplicationDataEntry(created.guid!, 'com.example.sync');
+    // Sent back with only the keys, as getNote returns them, which keeps the values
+    const note = await backend.getNote(created.guid!);
+    await backend.updateNote({
+      guid: created.guid,
+      title: 'Synced',
+      attributes: { ...note.attributes, author: 'Ada' },
+    });
+
+    expect(await backend.getNoteApplicationData(created.guid!)).toEqual({
+      keysOnly: ['com.example.tag'],
+      fullMap: { 'com.example.tag': 'owned' },
+    });
+    expect((await backend.getNote(created.guid!)).attributes).toEqual({
+      sourceURL: 'https://example.com',
+      author: 'Ada',
+      applicationData: { keysOnly: ['com.example.tag'] },
+    });
+    await expect(backend.setNoteApplicationDataEntry(created.guid!, 'no', 'x')).rejects.toThrow(
+      'BAD_DATA_FORMAT (key)'
+    );
+  });
+
+  it('should raise the same exceptions as the service', async () => {
+    await expect(backend.getNote('missing')).rejects.toThrow(new EDAMNotFoundException({ identifier: 'Note.guid', key: 'missing' }));
+    await expect(backend.createNote({ title: ' padded', content: enml('') })).rejects.toBeInstanceOf(EDAMUserException);
+    await expect(backend.createNote({ title: 'T', content: enml(''), notebookGuid: 'nope' })).rejects.toThrow(
+      'Note.notebookGuid not found: nope'
+    );
+    await expect(backend.updateNote({ guid: 'missing', title: 'T' })).rejects.toBeInstanceOf(EDAMNotFoundException);
+
+    await backend.createNotebook({ name: 'Work' });
+    await expect(backend.createNotebook({ name: 'work' })).rejects.toThrow('DATA_CONFLICT (Notebook.name)');
+  });
+
+  it('should search with the filter and result spec', async () => {
+    const work = await backend.createNotebook({ name: 'Work' });
+    await backend.createNote({ title: 'Quarterly plan', content: enml('<div>Budget review</div>'), notebookGuid: work.guid, created: 1, updated: 3 });
+    await backend.createNote({ title: 'Shopping', content: enml('<div>Milk</div>'), created: 2, updated: 2 });
+    await backend.createNote({ title: 'Budget ideas', content: enml('<div>Save more</div>'), created: 3, updated: 1 });
+
+    const byUpdated = await backend.findNotesMetadata({ words: 'budget' }, 0, 10, { includeTitle: true });
+    expect(byUpdated.totalNotes).toBe(2);
+    expect(byUpdated.notes.map((note) => note.title)).toEqual(['Quarterly plan', 'Budget ideas']);
+    expect(byUpdated.notes[0]).toEqual({ guid: expect.any(String), title: 'Quarterly plan' });
+
+    const inWork = await backend.findNotesMetadata({ words: 'notebook:work' }, 0, 10, { includeNotebookGuid: true });
+    expect(inWork.notes).toEqual([{ guid: expect.any(String), notebookGuid: work.guid }]);
+
+    const page = await backend.findNotesMetadata(
+      { order: NoteSortOrder.TITLE, ascending: true },
+      1,
+      1,
+      { includeTitle: true }
+    );
+    expect(page).toMatchObject({ startIndex: 1, totalNotes: 3, notes: [{ title: 'Quarterly plan' }] });
+  });
+
+  it('should only search inactive notes when asked', async () => {
+    const created = await backend.createNote({ title: 'Old', content: enml('') });
+    await backend.updateNote({ guid: created.guid, title: 'Old', active: false });
+
+    expect((await backend.findNotesMetadata({}, 0, 10, {})).totalNotes).toBe(0);
+    expect((await backend.findNotesMetadata({ inactive: true }, 0, 10, {})).totalNotes).toBe(1);
+  });
+
+  it('should trash, restore and expunge notes', async () => {
+    const created = await backend.createNote({ title: 'Temp', content: enml('') });
+    const usn = await backend.deleteNote(created.guid!);
+
+    const trashed = await backend.getNote(created.guid!);
+    expect(trashed).toMatchObject({ active: false, deleted: expect.any(Number), updateSequenceNum: usn });
+
+    const restored = await backend.updateNote({ guid: created.guid, title: 'Temp', active: true });
+    expect(restored.active).toBe(true);
+    expect(restored.deleted).toBeUndefined();
+
+    await expect(backend.expungeNote(created.guid!)).resolves.toBeGreaterThan(usn);
+    await expect(backend.getNote(created.guid!)).rejects.toBeInstanceOf(EDAMNotFoundException);
+  });
+
+  it('should count notes per notebook and tag', async () => {
+    const [inbox] = await backend.listNotebooks();
+    const work = await backend.createNotebook({ name: 'Work' });
+    await backend.createNote({ title: 'A', content: enml(''), notebookGuid: work.guid, tagNames: ['x'] });
+    await backend.createNote({ title: 'B', content: enml(''), notebookGuid: work.guid });
+    const trashed = await backend.createNote({ title: 'C', content: enml(''), tagNames: ['x'] });
+    await backend.deleteNote(trashed.guid!);
+
+    const [tag] = await backend.listTags();
+    expect(await backend.findNoteCounts({}, true)).toEqual({
+      notebookCounts: { [work.guid!]: 2 },
+      tagCounts: { [tag.guid!]: 1 },
+      trashCount: 1,
+    });
+    expect(await backend.findNoteCounts({ notebookGuid: inbox.guid }, false)).toEqual({});
+  });
+
+  it('should rename, restack and move the default notebook', async () => {
+    const [inbox] = await backend.listNotebooks();
+    const work = await backend.createNotebook({ name: 'Work', stack: 'Jobs' });
+
+    await backend.updateNotebook({ ...work, name: 'Office', stack: undefined, defaultNotebook: true });
+    expect(await backend.getNotebook(work.guid!)).toMatchObject({ name: 'Office', defaultNotebook: true });
+    expect((await backend.getNotebook(work.guid!)).stack).toBeUndefined();
+    expect((await backend.getNotebook(inbox.guid!)).defaultNotebook).toBe(false);
+
+    await expect(backend.updateNotebook({ ...inbox, name: 'office' })).rejects.toThrow('DATA_CONFLICT (Notebook.name)');
+  });
+
+  it('should trash the notes of an expunged notebook', async () => {
+    const [inbox] = await backend.listNotebooks();
+    const old = await backend.createNotebook({ name: 'Old' });
+    const note = await backend.createNote({ title: 'Leftover', content: enml(''), notebookGuid: old.guid });
+
+    await expect(backend.expungeNotebook(inbox.guid!)).rejects.toThrow('DATA_CONFLICT (Notebook.guid)');
+    await backend.expungeNotebook(old.guid!);
+
+    await expect(backend.getNotebook(old.guid!)).rejects.toBeInstanceOf(EDAMNotFoundException);
+    expect(await backend.getNote(note.guid!)).toMatchObject({ active: false, notebookGuid: inbox.guid });
+  });
+
+  it('should create, rename and nest tags', async () => {
+    const work = await backend.createTag({ name: 'Work' });
+    const meetings = await backend.createTag({ name: 'Meetings', parentGuid: work.guid });
+
+    await expect(backend.createTag({ name: 'work' })).rejects.toThrow('DATA_CONFLICT (Tag.name)');
+    await expect(backend.createTag({ name: 'X', parentGuid: 'nope' })).rejects.toThrow('Tag.parentGuid not found: nope');
+    await expect(backend.updateTag({ ...work, parentGuid: meetings.guid })).rejects.toThrow(
+      'DATA_CONFLICT (Tag.parentGuid)'
+    );
+
+    await backend.updateTag({ guid: meetings.guid, name: 'Calls' });
+    expect(await backend.getTag(meetings.guid!)).toEqual({
+      guid: meetings.guid,
+      name: 'Calls',
+      updateSequenceNum: expect.any(Number),
+    });
+  });
+
+  it('should remove an expunged tag from notes and its children', async () => {
+    const note = await backend.createNote({ title: 'Tagged', content: enml(''), tagNames: ['Work', 'keep'] });
+    const [work] = await backend.listTags();
+    const child = await backend.createTag({ name: 'Child', parentGuid: work.guid });
+
+    const usn = await backend.expungeTag(work.guid!);
+    expect(await backend.getNoteTagNames(note.guid!)).toEqual(['keep']);
+    expect((await backend.getNote(note.guid!)).updateSequenceNum).toBeLessThan(usn);
+    expect((await backend.getTag(child.guid!)).parentGuid).toBeUndefined();
+    await expect(backend.getTag(work.guid!)).rejects.toBeInstanceOf(EDAMNotFoundException);
+  });
+
+  it('should persist to a JSON file', async () => {
+    const path = join(directory, 'nested', 'notes.json');
+    const first = new LocalBackend(path);
+    const created = await first.createNote({
+      title: 'Saved',
+      content: enml('Kept'),
+      resources: [{ mime: 'image/png', data: { body: Buffer.from([0, 1, 2, 255]) } }],
+    });
+
+    const second = new LocalBackend(path);
+    const note = await second.getNote(created.guid!, { withContent: true, withResourcesData: true });
+    expect(note.content).toBe(enml('Kept'));
+    expect(note.resources![0].data!.body).toEqual(Buffer.from([0, 1, 2, 255]));
+    expect(await second.listNotebooks()).toEqual(await first.listNotebooks());
+  });
+
+  it('should keep saving after a write fails', async () => {
+    const path = join(directory, 'blocked.json');
+    const backend = new LocalBackend(path);
+    await backend.createNote({ title: 'First', content: enml('') });
+    // A directory where the file should be makes the write fail
+    rmSync(path);
+    mkdirSync(path);
+    await expect(backend.createNote({ title: 'Second', content: enml('') })).rejects.toThrow('EISDIR');
+
+    rmSync(path, { recursive: true });
+    await backend.createNote({ title: 'Third', content: enml('') });
+    const { notes } = await new LocalBackend(path).findNotesMetadata({}, 0, 10, { includeTitle: true });
+    expect(notes.map((note) => note.title).sort()).toEqual(['First', 'Second', 'Third']);
+  });
+});
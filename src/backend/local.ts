@@ -0,0 +1,649 @@
+// src/backend/local.ts
+// An offline note store kept in memory and, optionally, a JSON file.
+import { createHash, randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { enmlToText } from '../enml/render.js';
+import {
+  APPLICATION_DATA_ENTRY_MAX,
+  APPLICATION_DATA_KEY_PATTERN,
+  APPLICATION_DATA_VALUE_PATTERN,
+} from '../noteAttributes.js';
+import { EDAMNotFoundException, EDAMUserException } from '../thrift/errors.js';
+import { GetNoteOptions, GetResourceOptions } from '../thrift/noteStore.js';
+import {
+  LazyMap,
+  Note,
+  NoteAttributes,
+  NoteCollectionCounts,
+  NoteFilter,
+  NoteMetadata,
+  NoteSortOrder,
+  Notebook,
+  NotesMetadataList,
+  NotesMetadataResultSpec,
+  Resource,
+  Tag,
+  User,
+} from '../thrift/types.js';
+import type { EvernoteBackend, LocalNoteSet } from './backend.js';
+import { clone, queueWrite, replacer, reviver } from './json.js';
+import { matchesQuery, parseQuery } from './search.js';
+
+// EDAMErrorCode values used here
+const BAD_DATA_FORMAT = 2;
+const DATA_REQUIRED = 5;
+const DATA_CONFLICT = 10;
+
+interface LocalStore {
+  updateCount: number;
+  notebooks: Notebook[];
+  tags: Tag[];
+  /** Resources, including their data, are stored on their note */
+  notes: Note[];
+}
+
+function md5(data: string | Buffer): Buffer {
+  return createHash('md5').update(data).digest();
+}
+
+function checkName(value: string | undefined, parameter: string, maxLength: number): string {
+  if (value === undefined || value === '') throw new EDAMUserException({ errorCode: DATA_REQUIRED, parameter });
+  if (value.length > maxLength || value !== value.trim()) {
+    throw new EDAMUserException({ errorCode: BAD_DATA_FORMAT, parameter });
+  }
+  return value;
+}
+
+function sameName(a: string | undefined, b: string | undefined): boolean {
+  return a?.toLowerCase() === b?.toLowerCase();
+}
+
+/** Application data is stored with its values, but notes go out with only the keys, as from the service */
+function presentAttributes(attributes: NoteAttributes): NoteAttributes {
+  const fullMap = attributes.applicationData?.fullMap;
+  if (!fullMap) return attributes;
+  return { ...attributes, applicationData: { keysOnly: Object.keys(fullMap) } };
+}
+
+function checkApplicationData(key: string, value?: string): void {
+  if (!APPLICATION_DATA_KEY_PATTERN.test(key)) {
+    throw new EDAMUserException({ errorCode: BAD_DATA_FORMAT, parameter: 'key' });
+  }
+  if (
+    value !== undefined &&
+    (!APPLICATION_DATA_VALUE_PATTERN.test(value) || key.length + value.length > APPLICATION_DATA_ENTRY_MAX)
+  ) {
+    throw new EDAMUserException({ errorCode: BAD_DATA_FORMAT, parameter: 'value' });
+  }
+}
+
+/**
+ * Implements the note store locally with the service's validation rules and
+ * exceptions, for offline use, demos and tests. With a `path` the store is
+ * loaded from and saved to that JSON file after every change.
+ */
+export class LocalBackend implements EvernoteBackend {
+  readonly requiresAuth = false;
+  private store?: Promise<LocalStore>;
+
+  constructor(private readonly path?: string) {}
+
+  private load(): Promise<LocalStore> {
+    if (!this.store) this.store = this.read();
+    return this.store;
+  }
+
+  private async read(): Promise<LocalStore> {
+    if (this.path && existsSync(this.path)) {
+      return JSON.parse(await readFile(this.path, 'utf8'), reviver);
+    }
+    const now = Date.now();
+    // Every account starts with a default notebook
+    return {
+      updateCount: 1,
+      notebooks: [
+        {
+          guid: randomUUID(),
+          name: 'My Notebook',
+          defaultNotebook: true,
+          serviceCreated: now,
+          serviceUpdated: now,
+          updateSequenceNum: 1,
+        },
+      ],
+      tags: [],
+      notes: [],
+    };
+  }
+
+  private save(store: LocalStore): Promise<void> {
+    return this.path ? queueWrite(this.path, JSON.stringify(store, replacer, 2)) : Promise.resolve();
+  }
+
+  private findNote(store: LocalStore, guid: string | undefined): Note {
+    const note = store.notes.find((candidate) => candidate.guid === guid);
+    if (!note) throw new EDAMNotFoundException({ identifier: 'Note.guid', key: guid });
+    return note;
+  }
+
+  private findNotebook(store: LocalStore, guid: string | undefined, parameter = 'Notebook.guid'): Notebook {
+    const notebook = store.notebooks.find((candidate) => candidate.guid === guid);
+    if (!notebook) throw new EDAMNotFoundException({ identifier: parameter, key: guid });
+    return notebook;
+  }
+
+  private findTag(store: LocalStore, guid: string | undefined, parameter = 'Tag.guid'): Tag {
+    const tag = store.tags.find((candidate) => candidate.guid === guid);
+    if (!tag) throw new EDAMNotFoundException({ identifier: parameter, key: guid });
+    return tag;
+  }
+
+  /** Validate a tag's name and parent against the other tags in the store */
+  private checkTag(store: LocalStore, tag: Tag, existing?: Tag): { name: string; parentGuid?: string } {
+    const name = checkName(tag.name, 'Tag.name', 100);
+    if (store.tags.some((other) => other !== existing && sameName(other.name, name))) {
+      throw new EDAMUserException({ errorCode: DATA_CONFLICT, parameter: 'Tag.name' });
+    }
+    if (tag.parentGuid === undefined) return { name };
+
+    // A tag can't end up as its own ancestor
+    let parent: Tag | undefined = this.findTag(store, tag.parentGuid, 'Tag.parentGuid');
+    while (parent) {
+      if (parent === existing) throw new EDAMUserException({ errorCode: DATA_CONFLICT, parameter: 'Tag.parentGuid' });
+      const parentGuid: string | undefined = parent.parentGuid;
+      parent = parentGuid ? store.tags.find((candidate) => candidate.guid === parentGuid) : undefined;
+    }
+    return { name, parentGuid: tag.parentGuid };
+  }
+
+  /** Resolve tagGuids, or tagNames creating missing tags, as the service does */
+  private resolveTags(store: LocalStore, note: Note): string[] | undefined {
+    if (note.tagNames) {
+      // Every name is checked before any tag is created
+      const names = note.tagNames.map((name) => checkName(name, 'Tag.name', 100));
+      return names.map((name) => {
+        const existing = store.tags.find((tag) => sameName(tag.name, name));
+        if (existing) return existing.guid!;
+        const tag: Tag = { guid: randomUUID(), name, updateSequenceNum: ++store.updateCount };
+        store.tags.push(tag);
+        return tag.guid!;
+      });
+    }
+    if (note.tagGuids) {
+      for (const guid of note.tagGuids) {
+        if (!store.tags.some((tag) => tag.guid === guid)) {
+          throw new EDAMNotFoundException({ identifier: 'Note.tagGuids', key: guid });
+        }
+      }
+      return [...note.tagGuids];
+    }
+    return undefined;
+  }
+
+  /**
+   * Resources to store on a note. Like the service, a resource sent without
+   * its body keeps the stored one with the same GUID or body hash.
+   */
+  private prepareResources(
+    store: LocalStore,
+    noteGuid: string,
+    resources: Resource[],
+    existing: Resource[] = []
+  ): Resource[] {
+    const kept = resources.map((resource) =>
+      resource.data?.body
+        ? undefined
+        : existing.find(
+            (candidate) =>
+              (resource.guid && candidate.guid === resource.guid) ||
+              (resource.data?.bodyHash && candidate.data?.bodyHash?.equals(resource.data.bodyHash))
+          )
+    );
+    // All are checked before any takes an update sequence number
+    resources.forEach((resource, index) => {
+      if (kept[index]) return;
+      if (!resource.data?.body) throw new EDAMUserException({ errorCode: DATA_REQUIRED, parameter: 'Resource.data' });
+      if (!resource.mime) throw new EDAMUserException({ errorCode: DATA_REQUIRED, parameter: 'Resource.mime' });
+    });
+    return resources.map((resource, index) => {
+      if (kept[index]) return kept[index]!;
+      const body = resource.data!.body!;
+      return {
+        ...clone(resource),
+        guid: resource.guid ?? randomUUID(),
+        noteGuid,
+        data: { body: Buffer.from(body), bodyHash: md5(body), size: body.length },
+        active: true,
+        updateSequenceNum: ++store.updateCount,
+      };
+    });
+  }
+
+  private setContent(target: Note, content: string): void {
+    target.content = content;
+    target.contentHash = md5(content);
+    target.contentLength = Buffer.byteLength(content);
+  }
+
+  /** What the service sends back for a stored note, given the request flags */
+  private present(note: Note, options: GetNoteOptions): Note {
+    const result = clone(note);
+    if (!options.withContent) delete result.content;
+    result.resources = result.resources?.map((resource) =>
+      this.presentResource(resource, {
+        withData: options.withResourcesData,
+        withRecognition: options.withResourcesRecognition,
+        withAlternateData: options.withResourcesAlternateData,
+        withAttributes: true,
+      })
+    );
+    if (!result.resources) delete result.resources;
+    if (result.attributes) result.attributes = presentAttributes(result.attributes);
+    return result;
+  }
+
+  private presentResource(resource: Resource, options: GetResourceOptions): Resource {
+    const result = clone(resource);
+    for (const [field, wanted] of [
+      ['data', options.withData],
+      ['recognition', options.withRecognition],
+      ['alternateData', options.withAlternateData],
+    ] as const) {
+      if (!wanted && result[field]) delete result[field]!.body;
+    }
+    if (!options.withAttributes) delete result.attributes;
+    return result;
+  }
+
+  /** Notes in or out of the trash that match the filter, in store order */
+  private filterNotes(store: LocalStore, filter: NoteFilter, inactive: boolean): Note[] {
+    const query = parseQuery(filter.words ?? '');
+    const notebookNames = new Map(store.notebooks.map((notebook) => [notebook.guid, notebook.name]));
+    const tagNames = new Map(store.tags.map((tag) => [tag.guid, tag.name!]));
+
+    return store.notes.filter((note) => {
+      if ((note.active !== false) === inactive) return false;
+      if (filter.notebookGuid && note.notebookGuid !== filter.notebookGuid) return false;
+      if (filter.tagGuids?.some((guid) => !note.tagGuids?.includes(guid))) return false;
+      return matchesQuery(
+        {
+          title: note.title ?? '',
+          text: note.content ? enmlToText(note.content) : '',
+          notebook: notebookNames.get(note.notebookGuid),
+          tags: (note.tagGuids ?? []).map((guid) => tagNames.get(guid) ?? ''),
+          created: note.created,
+          updated: note.updated,
+          content: note.content,
+          resourceMimes: (note.resources ?? []).map((resource) => resource.mime ?? ''),
+          reminderOrder: note.attributes?.reminderOrder,
+          reminderTime: note.attributes?.reminderTime,
+          reminderDoneTime: note.attributes?.reminderDoneTime,
+        },
+        query
+      );
+    });
+  }
+
+  async findNotesMetadata(
+    filter: NoteFilter,
+    offset: number,
+    maxNotes: number,
+    resultSpec: NotesMetadataResultSpec
+  ): Promise<NotesMetadataList> {
+    const store = await this.load();
+    const matches = this.filterNotes(store, filter, Boolean(filter.inactive));
+
+    const order = filter.order ?? NoteSortOrder.UPDATED;
+    const direction = filter.ascending ? 1 : -1;
+    matches.sort((a, b) => {
+      switch (order) {
+        case NoteSortOrder.TITLE:
+          return direction * (a.title ?? '').localeCompare(b.title ?? '');
+        case NoteSortOrder.CREATED:
+          return direction * ((a.created ?? 0) - (b.created ?? 0));
+        case NoteSortOrder.UPDATE_SEQUENCE_NUMBER:
+          return direction * ((a.updateSequenceNum ?? 0) - (b.updateSequenceNum ?? 0));
+        default:
+          // There is no relevance ranking locally; recency stands in for it
+          return direction * ((a.updated ?? 0) - (b.updated ?? 0));
+      }
+    });
+
+    const notes = matches.slice(offset, offset + maxNotes).map((note) => {
+      const metadata: NoteMetadata = { guid: note.guid! };
+      if (resultSpec.includeTitle) metadata.title = note.title;
+      if (resultSpec.includeContentLength) metadata.contentLength = note.contentLength;
+      if (resultSpec.includeCreated) metadata.created = note.created;
+      if (resultSpec.includeUpdated) metadata.updated = note.updated;
+      if (resultSpec.includeDeleted) metadata.deleted = note.deleted;
+      if (resultSpec.includeUpdateSequenceNum) metadata.updateSequenceNum = note.updateSequenceNum;
+      if (resultSpec.includeNotebookGuid) metadata.notebookGuid = note.notebookGuid;
+      if (resultSpec.includeTagGuids) metadata.tagGuids = note.tagGuids;
+      if (resultSpec.includeAttributes && note.attributes) metadata.attributes = presentAttributes(note.attributes);
+      if (resultSpec.includeLargestResourceMime || resultSpec.includeLargestResourceSize) {
+        const largest = [...(note.resources ?? [])].sort((a, b) => (b.data?.size ?? 0) - (a.data?.size ?? 0))[0];
+        if (largest && resultSpec.includeLargestResourceMime) metadata.largestResourceMime = largest.mime;
+        if (largest && resultSpec.includeLargestResourceSize) metadata.largestResourceSize = largest.data?.size;
+      }
+      return clone(metadata);
+    });
+
+    return { startIndex: offset, totalNotes: matches.length, notes, updateCount: store.updateCount };
+  }
+
+  async findNoteCounts(filter: NoteFilter, withTrash: boolean): Promise<NoteCollectionCounts> {
+    const store = await this.load();
+    const counts: NoteCollectionCounts = {};
+    // Like the service, leave out notebooks and tags with no matching notes
+    for (const note of this.filterNotes(store, filter, false)) {
+      counts.notebookCounts ??= {};
+      counts.notebookCounts[note.notebookGuid!] = (counts.notebookCounts[note.notebookGuid!] ?? 0) + 1;
+      for (const guid of note.tagGuids ?? []) {
+        counts.tagCounts ??= {};
+        counts.tagCounts[guid] = (counts.tagCounts[guid] ?? 0) + 1;
+      }
+    }
+    if (withTrash) counts.trashCount = this.filterNotes(store, filter, true).length;
+    return counts;
+  }
+
+  async getNote(guid: string, options: GetNoteOptions = {}): Promise<Note> {
+    const store = await this.load();
+    return this.present(this.findNote(store, guid), options);
+  }
+
+  async getNoteTagNames(guid: string): Promise<string[]> {
+    const store = await this.load();
+    const note = this.findNote(store, guid);
+    return (note.tagGuids ?? []).map((tagGuid) => store.tags.find((tag) => tag.guid === tagGuid)!.name!);
+  }
+
+  /** Like the service, an update without the full application data map keeps the stored one */
+  private storedAttributes(attributes: NoteAttributes, existing?: NoteAttributes): NoteAttributes {
+    const result = clone(attributes);
+    const fullMap = result.applicationData?.fullMap;
+    for (const [key, value] of Object.entries(fullMap ?? {})) checkApplicationData(key, value);
+    if (fullMap) result.applicationData = { fullMap };
+    else if (existing?.applicationData) result.applicationData = clone(existing.applicationData);
+    else delete result.applicationData;
+    return result;
+  }
+
+  async getNoteApplicationData(guid: string): Promise<LazyMap> {
+    const store = await this.load();
+    const fullMap = this.findNote(store, guid).attributes?.applicationData?.fullMap ?? {};
+    return { keysOnly: Object.keys(fullMap), fullMap: clone(fullMap) };
+  }
+
+  async setNoteApplicationDataEntry(guid: string, key: string, value: string): Promise<number> {
+    checkApplicationData(key, value);
+    return this.changeApplicationData(guid, (fullMap) => {
+      fullMap[key] = value;
+    });
+  }
+
+  async unsetNoteApplicationDataEntry(guid: string, key: string): Promise<number> {
+    return this.changeApplicationData(guid, (fullMap) => {
+      delete fullMap[key];
+    });
+  }
+
+  private async changeApplicationData(guid: string, change: (fullMap: Record<string, string>) => void) {
+    const store = await this.load();
+    const note = this.findNote(store, guid);
+    const fullMap = { ...note.attributes?.applicationData?.fullMap };
+    change(fullMap);
+    note.attributes = { ...note.attributes, applicationData: { fullMap } };
+    note.updateSequenceNum = ++store.updateCount;
+    await this.save(store);
+    return note.updateSequenceNum;
+  }
+
+  async createNote(note: Note): Promise<Note> {
+    const store = await this.load();
+    const title = checkName(note.title, 'Note.title', 255);
+    if (note.content === undefined) throw new EDAMUserException({ errorCode: DATA_REQUIRED, parameter: 'Note.content' });
+    const notebook = note.notebookGuid
+      ? this.findNotebook(store, note.notebookGuid, 'Note.notebookGuid')
+      : store.notebooks.find((candidate) => candidate.defaultNotebook) ?? store.notebooks[0];
+
+    const now = Date.now();
+    const guid = randomUUID();
+    const attributes = note.attributes && this.storedAttributes(note.attributes);
+    const resources = note.resources && this.prepareResources(store, guid, note.resources);
+    const created: Note = {
+      guid,
+      title,
+      created: note.created ?? now,
+      updated: note.updated ?? now,
+      active: true,
+      notebookGuid: notebook.guid,
+      // Last, as it creates tags
+      tagGuids: this.resolveTags(store, note),
+      resources,
+      attributes,
+    };
+    this.setContent(created, note.content);
+    created.updateSequenceNum = ++store.updateCount;
+
+    store.notes.push(clone(created));
+    await this.save(store);
+    return this.present(created, {});
+  }
+
+  async updateNote(note: Note): Promise<Note> {
+    const store = await this.load();
+    const existing = this.findNote(store, note.guid);
+    // Like the service, an update that fails leaves the note as it was, so everything is checked first
+    const title = checkName(note.title, 'Note.title', 255);
+    const notebook =
+      note.notebookGuid === undefined ? undefined : this.findNotebook(store, note.notebookGuid, 'Note.notebookGuid');
+    const attributes = note.attributes && this.storedAttributes(note.attributes, existing.attributes);
+    const resources = note.resources && this.prepareResources(store, note.guid!, note.resources, existing.resources);
+    const tagGuids = this.resolveTags(store, note);
+
+    existing.title = title;
+    if (note.content !== undefined) this.setContent(existing, note.content);
+    if (notebook) existing.notebookGuid = notebook.guid;
+    if (tagGuids) existing.tagGuids = tagGuids;
+    if (resources) existing.resources = resources;
+    if (attributes) existing.attributes = attributes;
+    if (note.active === true) {
+      existing.active = true;
+      delete existing.deleted;
+    } else if (note.active === false && existing.active !== false) {
+      existing.active = false;
+      existing.deleted = Date.now();
+    }
+    if (note.created !== undefined) existing.created = note.created;
+    existing.updated = note.updated ?? Date.now();
+    existing.updateSequenceNum = ++store.updateCount;
+
+    await this.save(store);
+    return this.present(existing, {});
+  }
+
+  async deleteNote(guid: string): Promise<number> {
+    const store = await this.load();
+    const note = this.findNote(store, guid);
+    if (note.active !== false) {
+      note.active = false;
+      note.deleted = Date.now();
+      note.updateSequenceNum = ++store.updateCount;
+      await this.save(store);
+    }
+    return store.updateCount;
+  }
+
+  async expungeNote(guid: string): Promise<number> {
+    const store = await this.load();
+    const note = this.findNote(store, guid);
+    store.notes.splice(store.notes.indexOf(note), 1);
+    ++store.updateCount;
+    await this.save(store);
+    return store.updateCount;
+  }
+
+  async listNotebooks(): Promise<Notebook[]> {
+    const store = await this.load();
+    return clone(store.notebooks);
+  }
+
+  async getNotebook(guid: string): Promise<Notebook> {
+    const store = await this.load();
+    return clone(this.findNotebook(store, guid));
+  }
+
+  async createNotebook(notebook: Notebook): Promise<Notebook> {
+    const store = await this.load();
+    const name = checkName(notebook.name, 'Notebook.name', 100);
+    if (store.notebooks.some((existing) => sameName(existing.name, name))) {
+      throw new EDAMUserException({ errorCode: DATA_CONFLICT, parameter: 'Notebook.name' });
+    }
+
+    const now = Date.now();
+    const created: Notebook = {
+      guid: randomUUID(),
+      name,
+      stack: notebook.stack,
+      defaultNotebook: Boolean(notebook.defaultNotebook),
+      serviceCreated: now,
+      serviceUpdated: now,
+      updateSequenceNum: ++store.updateCount,
+    };
+    if (created.defaultNotebook) {
+      for (const existing of store.notebooks) existing.defaultNotebook = false;
+    }
+    store.notebooks.push(created);
+
+    await this.save(store);
+    return clone(created);
+  }
+
+  async updateNotebook(notebook: Notebook): Promise<number> {
+    const store = await this.load();
+    const existing = this.findNotebook(store, notebook.guid);
+    const name = checkName(notebook.name, 'Notebook.name', 100);
+    if (store.notebooks.some((other) => other !== existing && sameName(other.name, name))) {
+      throw new EDAMUserException({ errorCode: DATA_CONFLICT, parameter: 'Notebook.name' });
+    }
+
+    existing.name = name;
+    // An update without a stack takes the notebook out of its stack
+    if (notebook.stack) existing.stack = checkName(notebook.stack, 'Notebook.stack', 100);
+    else delete existing.stack;
+    // The default can only be moved to another notebook, not cleared
+    if (notebook.defaultNotebook && !existing.defaultNotebook) {
+      for (const other of store.notebooks) other.defaultNotebook = other === existing;
+    }
+    existing.serviceUpdated = Date.now();
+    existing.updateSequenceNum = ++store.updateCount;
+
+    await this.save(store);
+    return store.updateCount;
+  }
+
+  async expungeNotebook(guid: string): Promise<number> {
+    const store = await this.load();
+    const notebook = this.findNotebook(store, guid);
+    if (notebook.defaultNotebook) {
+      throw new EDAMUserException({ errorCode: DATA_CONFLICT, parameter: 'Notebook.guid' });
+    }
+
+    const fallback = store.notebooks.find((candidate) => candidate.defaultNotebook)!;
+    const now = Date.now();
+    for (const note of store.notes) {
+      if (note.notebookGuid !== guid) continue;
+      note.notebookGuid = fallback.guid;
+      if (note.active !== false) {
+        note.active = false;
+        note.deleted = now;
+      }
+      note.updateSequenceNum = ++store.updateCount;
+    }
+    store.notebooks.splice(store.notebooks.indexOf(notebook), 1);
+    ++store.updateCount;
+
+    await this.save(store);
+    return store.updateCount;
+  }
+
+  async listTags(): Promise<Tag[]> {
+    const store = await this.load();
+    return clone(store.tags);
+  }
+
+  async getTag(guid: string): Promise<Tag> {
+    const store = await this.load();
+    return clone(this.findTag(store, guid));
+  }
+
+  async createTag(tag: Tag): Promise<Tag> {
+    const store = await this.load();
+    const created: Tag = { guid: randomUUID(), ...this.checkTag(store, tag), updateSequenceNum: ++store.updateCount };
+    store.tags.push(created);
+
+    await this.save(store);
+    return clone(created);
+  }
+
+  async updateTag(tag: Tag): Promise<number> {
+    const store = await this.load();
+    const existing = this.findTag(store, tag.guid);
+    const { name, parentGuid } = this.checkTag(store, tag, existing);
+
+    existing.name = name;
+    if (parentGuid) existing.parentGuid = parentGuid;
+    else delete existing.parentGuid;
+    existing.updateSequenceNum = ++store.updateCount;
+
+    await this.save(store);
+    return store.updateCount;
+  }
+
+  async expungeTag(guid: string): Promise<number> {
+    const store = await this.load();
+    const tag = this.findTag(store, guid);
+
+    for (const note of store.notes) {
+      if (!note.tagGuids?.includes(guid)) continue;
+      note.tagGuids = note.tagGuids.filter((tagGuid) => tagGuid !== guid);
+      note.updateSequenceNum = ++store.updateCount;
+    }
+    for (const child of store.tags) {
+      if (child.parentGuid !== guid) continue;
+      delete child.parentGuid;
+      child.updateSequenceNum = ++store.updateCount;
+    }
+    store.tags.splice(store.tags.indexOf(tag), 1);
+    ++store.updateCount;
+
+    await this.save(store);
+    return store.updateCount;
+  }
+
+  async getResource(guid: string, options: GetResourceOptions = {}): Promise<Resource> {
+    const store = await this.load();
+    for (const note of store.notes) {
+      const resource = note.resources?.find((candidate) => candidate.guid === guid);
+      if (resource) return this.presentResource(resource, options);
+    }
+    throw new EDAMNotFoundException({ identifier: 'Resource.guid', key: guid });
+  }
+
+  async localNotes(): Promise<LocalNoteSet> {
+    const store = await this.load();
+    return {
+      notebooks: clone(store.notebooks),
+      tags: clone(store.tags),
+      notes: store.notes
+        .filter((note) => note.active !== false)
+        .map((note) => this.present(note, { withContent: true, withResourcesRecognition: true })),
+    };
+  }
+
+  async getUser(): Promise<User> {
+    return { id: 0, username: 'local', name: this.path ? `Local notes (${this.path})` : 'Local notes', active: true };
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from '@jest/globals';
+import { SearchableNote, matchesQuery, parseQuery, parseSearchDate } from './search.js';
+
+const NOW = Date.UTC(2024, 4, 15, 12); // Wednesday
+
+function note(overrides: Partial<SearchableNote> = {}): SearchableNote {
+  return {
+    title: 'Grocery list',
+    text: 'Buy milk and fresh bread for the weekend',
+    notebook: 'Personal',
+    tags: ['shopping', 'home'],
+    created: Date.UTC(2024, 4, 10),
+    updated: Date.UTC(2024, 4, 14),
+    content: '<en-note><div><en-todo checked="false"/>milk</div></en-note>',
+    resourceMimes: ['image/png'],
+    ...overrides,
+  };
+}
+
+function matches(words: string, target = note()): boolean {
+  return matchesQuery(target, parseQuery(words), NOW);
+}
+
+describe('parseQuery', () => {
+  it('should split words, phrases, fields and negations', () => {
+    expect(parseQuery('any: milk "fresh bread" -tag:work notebook:"My Stuff"')).toEqual({
+      any: true,
+      terms: [
+        { field: undefined, value: 'milk', negated: false },
+        { field: undefined, value: 'fresh bread', negated: false },
+        { field: 'tag', value: 'work', negated: true },
+        { field: 'notebook', value: 'My Stuff', negated: false },
+      ],
+    });
+  });
+});
+
+describe('matchesQuery', () => {
+  it('should require every word by default', () => {
+    expect(matches('milk bread')).toBe(true);
+    expect(matches('milk eggs')).toBe(false);
+    expect(matches('any: milk eggs')).toBe(true);
+  });
+
+  it('should match case-insensitively on whole words, with trailing wildcards', () => {
+    expect(matches('MILK')).toBe(true);
+    expect(matches('mil')).toBe(false);
+    expect(matches('week*')).toBe(true);
+  });
+
+  it('should match phrases in order', () => {
+    expect(matches('"fresh bread"')).toBe(true);
+    expect(matches('"bread fresh"')).toBe(false);
+  });
+
+  it('should apply field filters', () => {
+    expect(matches('intitle:grocery')).toBe(true);
+    expect(matches('intitle:milk')).toBe(false);
+    expect(matches('notebook:personal tag:shop*')).toBe(true);
+    expect(matches('notebook:Work')).toBe(false);
+    expect(matches('todo:false')).toBe(true);
+    expect(matches('todo:true')).toBe(false);
+    expect(matches('resource:image/*')).toBe(true);
+    expect(matches('resource:application/pdf')).toBe(false);
+  });
+
+  it('should exclude negated terms, or under any: match them like the others', () => {
+    expect(matches('-tag:home')).toBe(false);
+    expect(matches('milk -eggs')).toBe(true);
+    expect(matches('milk -notebook:Personal')).toBe(false);
+    expect(matches('any: eggs milk -notebook:Personal')).toBe(true);
+    expect(matches('any: eggs -notebook:Personal')).toBe(false);
+    expect(matches('any: eggs -notebook:Work')).toBe(true);
+  });
+
+  it('should filter on created and updated dates', () => {
+    expect(matches('created:20240510')).toBe(true);
+    expect(matches('created:20240511')).toBe(false);
+    expect(matches('updated:day-1')).toBe(true);
+    expect(matches('updated:day')).toBe(false);
+    expect(matches('created:week')).toBe(false);
+    expect(matches('created:month')).toBe(true);
+  });
+
+  it('should filter on reminders', () => {
+    const reminder = note({ reminderOrder: Date.UTC(2024, 4, 1), reminderTime: Date.UTC(2024, 4, 20) });
+    expect(matches('reminderOrder:*', reminder)).toBe(true);
+    expect(matches('reminderOrder:*')).toBe(false);
+    expect(matches('-reminderDoneTime:*', reminder)).toBe(true);
+    expect(matches('reminderTime:20240516', reminder)).toBe(true);
+    expect(matches('reminderTime:20240521', reminder)).toBe(false);
+  });
+});
+
+describe('parseSearchDate', () => {
+  it('should parse absolute and relative dates', () => {
+    expect(parseSearchDate('20240102T030405Z')).toBe(Date.UTC(2024, 0, 2, 3, 4, 5));
+    expect(parseSearchDate('week', NOW)).toBe(Date.UTC(2024, 4, 12));
+    expect(parseSearchDate('month-1', NOW)).toBe(Date.UTC(2024, 3, 1));
+    expect(parseSearchDate('year-2', NOW)).toBe(Date.UTC(2022, 0, 1));
+    expect(parseSearchDate('yesterday')).toBeUndefined();
+  });
+});
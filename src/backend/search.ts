@@ -0,0 +1,173 @@
+// src/backend/search.ts
+// Evaluates Evernote search grammar against notes held locally.
+// https://dev.evernote.com/doc/articles/search_grammar.php
+
+export interface SearchTerm {
+  /** Undefined for plain words and quoted phrases */
+  field?: string;
+  value: string;
+  negated: boolean;
+}
+
+export interface SearchQuery {
+  /** `any:` was given: a note matches if any term does */
+  any: boolean;
+  terms: SearchTerm[];
+}
+
+/** What a query can look at in one note */
+export interface SearchableNote {
+  title: string;
+  text: string;
+  notebook?: string;
+  tags: string[];
+  created?: number;
+  updated?: number;
+  /** Raw ENML, for todo: */
+  content?: string;
+  resourceMimes: string[];
+  reminderOrder?: number;
+  reminderTime?: number;
+  reminderDoneTime?: number;
+}
+
+const TOKEN = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S*))/y;
+const DAY = 24 * 60 * 60 * 1000;
+
+export function parseQuery(words: string): SearchQuery {
+  const query: SearchQuery = { any: false, terms: [] };
+  let index = 0;
+  while (index < words.length) {
+    if (/\s/.test(words[index])) {
+      index++;
+      continue;
+    }
+    TOKEN.lastIndex = index;
+    const match = TOKEN.exec(words)!;
+    index = TOKEN.lastIndex;
+
+    const [, minus, field, quoted, bare] = match;
+    const value = quoted ?? bare;
+    if (field?.toLowerCase() === 'any' && !value) {
+      query.any = true;
+    } else if (value) {
+      query.terms.push({ field: field?.toLowerCase(), value, negated: minus === '-' });
+    }
+  }
+  return query;
+}
+
+export function matchesQuery(note: SearchableNote, query: SearchQuery, now = Date.now()): boolean {
+  if (!query.terms.length) return true;
+  const words = tokenize(`${note.title} ${note.text}`);
+  const test = (term: SearchTerm) => matchesTerm(note, words, term, now) !== term.negated;
+  // As on the service, any: ORs negated terms together with the others
+  return query.any ? query.terms.some(test) : query.terms.every(test);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}_']+/u).filter(Boolean);
+}
+
+function matchesWord(words: string[], pattern: string): boolean {
+  const value = pattern.toLowerCase();
+  if (value.endsWith('*')) {
+    const prefix = value.slice(0, -1);
+    return words.some((word) => word.startsWith(prefix));
+  }
+  return words.includes(value);
+}
+
+function matchesPhrase(words: string[], phrase: string): boolean {
+  const wanted = tokenize(phrase);
+  if (wanted.length <= 1) {
+    const wildcard = phrase.endsWith('*') ? '*' : '';
+    return wanted.every((word) => matchesWord(words, word + wildcard));
+  }
+  for (let start = 0; start + wanted.length <= words.length; start++) {
+    if (wanted.every((word, offset) => words[start + offset] === word)) return true;
+  }
+  return false;
+}
+
+function matchesName(name: string | undefined, pattern: string): boolean {
+  if (name === undefined) return false;
+  const value = pattern.toLowerCase();
+  const target = name.toLowerCase();
+  return value.endsWith('*') ? target.startsWith(value.slice(0, -1)) : target === value;
+}
+
+function matchesTerm(note: SearchableNote, words: string[], term: SearchTerm, now: number): boolean {
+  const { field, value } = term;
+  switch (field) {
+    case undefined:
+      return matchesPhrase(words, value);
+    case 'intitle':
+      return matchesPhrase(tokenize(note.title), value);
+    case 'notebook':
+      return matchesName(note.notebook, value);
+    case 'tag':
+      return note.tags.some((tag) => matchesName(tag, value));
+    case 'todo':
+      return matchesTodo(note.content ?? '', value);
+    case 'resource':
+      return note.resourceMimes.some((mime) => matchesName(mime, value));
+    case 'created':
+    case 'updated': {
+      const since = parseSearchDate(value, now);
+      const time = field === 'created' ? note.created : note.updated;
+      return since !== undefined && time !== undefined && time >= since;
+    }
+    case 'reminderorder':
+    case 'remindertime':
+    case 'reminderdonetime': {
+      const time = {
+        reminderorder: note.reminderOrder,
+        remindertime: note.reminderTime,
+        reminderdonetime: note.reminderDoneTime,
+      }[field];
+      if (time === undefined) return false;
+      if (value === '*') return true;
+      const since = parseSearchDate(value, now);
+      return since !== undefined && time >= since;
+    }
+    default:
+      // Unknown fields are searched as text, like the service does
+      return matchesPhrase(words, `${field} ${value}`);
+  }
+}
+
+function matchesTodo(content: string, value: string): boolean {
+  const todos = [...content.matchAll(/<en-todo\b[^>]*>/g)].map((match) => /checked="true"/.test(match[0]));
+  if (value === '*') return todos.length > 0;
+  return todos.includes(value.toLowerCase() === 'true');
+}
+
+/**
+ * Absolute dates are `YYYYMMDD` or `YYYYMMDDTHHMMSS[Z]`; relative ones are
+ * `day`, `week`, `month` or `year`, optionally minus a count of that unit.
+ * Relative dates start at the beginning of the unit, in UTC.
+ */
+export function parseSearchDate(value: string, now = Date.now()): number | undefined {
+  const absolute = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/i.exec(value);
+  if (absolute) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = absolute;
+    return Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  }
+
+  const relative = /^(day|week|month|year)(?:-(\d+))?$/i.exec(value);
+  if (!relative) return undefined;
+  const count = Number(relative[2] ?? 0);
+  const date = new Date(now);
+  const startOfDay = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  switch (relative[1].toLowerCase()) {
+    case 'day':
+      return startOfDay - count * DAY;
+    case 'week':
+      return startOfDay - (date.getUTCDay() + 7 * count) * DAY;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - count, 1);
+    default:
+      return Date.UTC(date.getUTCFullYear() - count, 0, 1);
+  }
+}
@@ -0,0 +1,153 @@
+// src/backend/thrift.ts
+import { GetNoteOptions, GetResourceOptions, NoteStoreClient } from '../thrift/noteStore.js';
+import {
+  LazyMap,
+  Note,
+  NoteCollectionCounts,
+  NoteFilter,
+  Notebook,
+  NotesMetadataList,
+  NotesMetadataResultSpec,
+  Resource,
+  SyncChunk,
+  SyncChunkFilter,
+  SyncState,
+  Tag,
+  User,
+} from '../thrift/types.js';
+import { UserStoreClient } from '../thrift/userStore.js';
+import type { EvernoteBackend } from './backend.js';
+
+/** The Evernote service, reached through the account's NoteStore */
+export class ThriftBackend implements EvernoteBackend {
+  readonly requiresAuth = true;
+  private noteStore?: Promise<NoteStoreClient>;
+  private readonly userStore: UserStoreClient;
+
+  constructor(
+    private readonly apiKey: string,
+    serviceUrl: string,
+    private readonly noteStoreUrl?: string
+  ) {
+    this.userStore = new UserStoreClient(`${serviceUrl}/edam/user`, apiKey);
+  }
+
+  private getNoteStore(): Promise<NoteStoreClient> {
+    if (!this.noteStore) {
+      this.noteStore = this.resolveNoteStoreUrl().then((url) => new NoteStoreClient(url, this.apiKey));
+      // Let the next call retry if the lookup failed
+      this.noteStore.catch(() => (this.noteStore = undefined));
+    }
+    return this.noteStore;
+  }
+
+  private async resolveNoteStoreUrl(): Promise<string> {
+    if (this.noteStoreUrl) return this.noteStoreUrl;
+    return this.userStore.getNoteStoreUrl();
+  }
+
+  async findNotesMetadata(
+    filter: NoteFilter,
+    offset: number,
+    maxNotes: number,
+    resultSpec: NotesMetadataResultSpec
+  ): Promise<NotesMetadataList> {
+    return (await this.getNoteStore()).findNotesMetadata(filter, offset, maxNotes, resultSpec);
+  }
+
+  async findNoteCounts(filter: NoteFilter, withTrash: boolean): Promise<NoteCollectionCounts> {
+    return (await this.getNoteStore()).findNoteCounts(filter, withTrash);
+  }
+
+  async getNote(guid: string, options?: GetNoteOptions): Promise<Note> {
+    return (await this.getNoteStore()).getNote(guid, options);
+  }
+
+  async getNoteTagNames(guid: string): Promise<string[]> {
+    return (await this.getNoteStore()).getNoteTagNames(guid);
+  }
+
+  async getNoteApplicationData(guid: string): Promise<LazyMap> {
+    return (await this.getNoteStore()).getNoteApplicationData(guid);
+  }
+
+  async setNoteApplicationDataEntry(guid: string, key: string, value: string): Promise<number> {
+    return (await this.getNoteStore()).setNoteApplicationDataEntry(guid, key, value);
+  }
+
+  async unsetNoteApplicationDataEntry(guid: string, key: string): Promise<number> {
+    return (await this.getNoteStore()).unsetNoteApplicationDataEntry(guid, key);
+  }
+
+  async createNote(note: Note): Promise<Note> {
+    return (await this.getNoteStore()).createNote(note);
+  }
+
+  async updateNote(note: Note): Promise<Note> {
+    return (await this.getNoteStore()).updateNote(note);
+  }
+
+  async deleteNote(guid: string): Promise<number> {
+    return (await this.getNoteStore()).deleteNote(guid);
+  }
+
+  async expungeNote(guid: string): Promise<number> {
+    return (await this.getNoteStore()).expungeNote(guid);
+  }
+
+  async listNotebooks(): Promise<Notebook[]> {
+    return (await this.getNoteStore()).listNotebooks();
+  }
+
+  async getNotebook(guid: string): Promise<Notebook> {
+    return (await this.getNoteStore()).getNotebook(guid);
+  }
+
+  async createNotebook(notebook: Notebook): Promise<Notebook> {
+    return (await this.getNoteStore()).createNotebook(notebook);
+  }
+
+  async updateNotebook(notebook: Notebook): Promise<number> {
+    return (await this.getNoteStore()).updateNotebook(notebook);
+  }
+
+  async expungeNotebook(guid: string): Promise<number> {
+    return (await this.getNoteStore()).expungeNotebook(guid);
+  }
+
+  async listTags(): Promise<Tag[]> {
+    return (await this.getNoteStore()).listTags();
+  }
+
+  async getTag(guid: string): Promise<Tag> {
+    return (await this.getNoteStore()).getTag(guid);
+  }
+
+  async createTag(tag: Tag): Promise<Tag> {
+    return (await this.getNoteStore()).createTag(tag);
+  }
+
+  async updateTag(tag: Tag): Promise<number> {
+    return (await this.getNoteStore()).updateTag(tag);
+  }
+
+  async expungeTag(guid: string): Promise<number> {
+    return (await this.getNoteStore()).expungeTag(guid);
+  }
+
+  async getResource(guid: string, options?: GetResourceOptions): Promise<Resource> {
+    return (await this.getNoteStore()).getResource(guid, options);
+  }
+
+  getUser(): Promise<User> {
+    return this.userStore.getUser();
+  }
+
+  async getSyncState(): Promise<SyncState> {
+    return (await this.getNoteStore()).getSyncState();
+  }
+
+  async getFilteredSyncChunk(afterUSN: number, maxEntries: number, filter: SyncChunkFilter): Promise<SyncChunk> {
+    return (await this.getNoteStore()).getFilteredSyncChunk(afterUSN, maxEntries, filter);
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import { DiffOp, diff, merge3, unifiedDiff } from './diff.js';
+
+/** The length of the longest common subsequence, from the full table */
+function longestCommon(a: string[], b: string[]): number {
+  const lengths = a.map(() => new Array<number>(b.length + 1).fill(0));
+  lengths.push(new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  return lengths[0][0];
+}
+
+describe('diff', () => {
+  it('should keep the longest run of common items', () => {
+    const ops = diff(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']);
+    expect(ops.map((op) => `${op.type[0]}${op.item}`)).toEqual(['sa', 'rb', 'sc', 'ax', 'sd']);
+  });
+
+  it('should compare by key', () => {
+    const ops = diff([{ id: 1 }, { id: 2 }], [{ id: 2 }], (item) => String(item.id));
+    expect(ops).toEqual([
+      { type: 'removed', item: { id: 1 } },
+      { type: 'same', item: { id: 2 } },
+    ]);
+  });
+});
+
+describe('diff of long inputs', () => {
+  const kept = (ops: DiffOp<string>[], side: 'added' | 'removed') =>
+    ops.filter((op) => op.type !== side).map((op) => op.item);
+
+  it('should keep a longest common subsequence', () => {
+    // Small alphabets make many equally long candidates, checked against the full table
+    let seed = 1;
+    const random = () => (seed = (seed * 48271) % 2147483647) % 4;
+    for (let round = 0; round < 50; round++) {
+      const a = Array.from({ length: 5 + (round % 20) }, () => String(random()));
+      const b = Array.from({ length: 5 + ((round * 7) % 20) }, () => String(random()));
+      const ops = diff(a, b);
+      expect(kept(ops, 'added')).toEqual(a);
+      expect(kept(ops, 'removed')).toEqual(b);
+      expect(ops.filter((op) => op.type === 'same')).toHaveLength(longestCommon(a, b));
+    }
+  });
+
+  it('should diff long notes', () => {
+    const a = Array.from({ length: 5000 }, (_, i) => `line ${i}`);
+    const b = a.map((line, i) => (i % 10 ? line : `${line}, edited`));
+    const ops = diff(a, b);
+    expect(kept(ops, 'added')).toEqual(a);
+    expect(kept(ops, 'removed')).toEqual(b);
+    expect(ops.filter((op) => op.type === 'same')).toHaveLength(4500);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('should show changes with context, in hunks', () => {
+    const before = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'].join('\n');
+    const after = ['one', 'TWO', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'].join('\n');
+    expect(unifiedDiff(before, after)).toBe(
+      ['@@ -1,4 +1,4 @@', ' one', '-two', '+TWO', ' three', ' four',
+        '@@ -8,2 +8,3 @@', ' eight', ' nine', '+ten'].join('\n')
+    );
+  });
+
+  it('should be empty for the same text', () => {
+    expect(unifiedDiff('a\nb', 'a\nb')).toBe('');
+  });
+});
+
+describe('merge3', () => {
+  const base = ['intro', 'plan', 'budget', 'risks'];
+
+  it('should combine changes to different items', () => {
+    const ours = ['intro', 'plan v2', 'budget', 'risks'];
+    const theirs = ['intro', 'plan', 'budget', 'risks', 'next steps'];
+    expect(merge3(base, ours, theirs)).toEqual({
+      items: ['intro', 'plan v2', 'budget', 'risks', 'next steps'],
+      conflicts: [],
+    });
+  });
+
+  it('should accept the same change from both sides', () => {
+    const both = ['intro', 'budget', 'risks'];
+    expect(merge3(base, both, both).items).toEqual(both);
+  });
+
+  it('should report changes to the same items', () => {
+    const ours = ['intro', 'plan A', 'budget', 'risks'];
+    const theirs = ['intro', 'plan B', 'budget'];
+    expect(merge3(base, ours, theirs)).toEqual({
+      items: ['intro', 'plan A', 'budget'],
+      conflicts: [{ ours: ['plan A'], theirs: ['plan B'] }],
+    });
+  });
+
+  it('should take unchanged items from theirs', () => {
+    const key = (item: string) => item.toLowerCase();
+    const merged = merge3(['a', 'b'], ['a', 'b', 'c'], ['A', 'B'], key);
+    expect(merged.items).toEqual(['A', 'B', 'c']);
+  });
+});
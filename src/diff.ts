@@ -0,0 +1,223 @@
+// src/diff.ts
+// Line diffs and three-way merges of sequences, such as the blocks of a note.
+
+export interface DiffOp<T> {
+  type: 'same' | 'removed' | 'added';
+  item: T;
+}
+
+/** Positions in `b` of the items of `a` on a longest common subsequence, or -1 */
+function matches(a: string[], b: string[]): number[] {
+  const matched = new Array<number>(a.length).fill(-1);
+  // Common ends need no search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matched[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    matched[--endA] = --endB;
+  }
+  // Numbered lines compare faster than strings
+  const ids = new Map<string, number>();
+  const number = (items: string[]) =>
+    Int32Array.from(items, (item) => ids.get(item) ?? ids.set(item, ids.size).get(item)!);
+  matchRange(number(a), number(b), start, endA, start, endB, matched);
+  return matched;
+}
+
+/**
+ * Hirschberg's algorithm: split `a` in half, find where a longest common
+ * subsequence crosses from one half to the other in `b`, and solve each side.
+ * It keeps two rows of lengths rather than a table of every pair of lines, so
+ * long notes diff in linear memory.
+ */
+function matchRange(
+  a: Int32Array,
+  b: Int32Array,
+  fromA: number,
+  toA: number,
+  fromB: number,
+  toB: number,
+  matched: number[]
+): void {
+  if (fromA >= toA || fromB >= toB) return;
+  if (toA - fromA === 1) {
+    const j = b.indexOf(a[fromA], fromB);
+    if (j >= 0 && j < toB) matched[fromA] = j;
+    return;
+  }
+
+  const middle = (fromA + toA) >> 1;
+  const before = prefixLengths(a, b, fromA, middle, fromB, toB);
+  const after = suffixLengths(a, b, middle, toA, fromB, toB);
+  let split = 0;
+  for (let j = 1; j <= toB - fromB; j++) {
+    if (before[j] + after[j] > before[split] + after[split]) split = j;
+  }
+  matchRange(a, b, fromA, middle, fromB, fromB + split, matched);
+  matchRange(a, b, middle, toA, fromB + split, toB, matched);
+}
+
+/** lengths[j]: the longest common subsequence of a[fromA..toA) and b[fromB..fromB + j) */
+function prefixLengths(
+  a: Int32Array,
+  b: Int32Array,
+  fromA: number,
+  toA: number,
+  fromB: number,
+  toB: number
+): Uint32Array {
+  let lengths = new Uint32Array(toB - fromB + 1);
+  let next = new Uint32Array(toB - fromB + 1);
+  for (let i = fromA; i < toA; i++) {
+    for (let j = 1; j <= toB - fromB; j++) {
+      if (a[i] === b[fromB + j - 1]) next[j] = lengths[j - 1] + 1;
+      else next[j] = lengths[j] > next[j - 1] ? lengths[j] : next[j - 1];
+    }
+    [lengths, next] = [next, lengths];
+  }
+  return lengths;
+}
+
+/** lengths[j]: the longest common subsequence of a[fromA..toA) and b[fromB + j..toB) */
+function suffixLengths(
+  a: Int32Array,
+  b: Int32Array,
+  fromA: number,
+  toA: number,
+  fromB: number,
+  toB: number
+): Uint32Array {
+  const columns = toB - fromB;
+  let lengths = new Uint32Array(columns + 1);
+  let next = new Uint32Array(columns + 1);
+  for (let i = toA - 1; i >= fromA; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      if (a[i] === b[fromB + j]) next[j] = lengths[j + 1] + 1;
+      else next[j] = lengths[j] > next[j + 1] ? lengths[j] : next[j + 1];
+    }
+    [lengths, next] = [next, lengths];
+  }
+  return lengths;
+}
+
+/** The items removed from `a` and added from `b` to turn one into the other, compared by `key` */
+export function diff<T>(a: T[], b: T[], key: (item: T) => string = String): DiffOp<T>[] {
+  const matched = matches(a.map(key), b.map(key));
+  const ops: DiffOp<T>[] = [];
+  let j = 0;
+  for (const [i, item] of a.entries()) {
+    if (matched[i] < 0) {
+      ops.push({ type: 'removed', item });
+      continue;
+    }
+    while (j < matched[i]) ops.push({ type: 'added', item: b[j++] });
+    ops.push({ type: 'same', item });
+    j++;
+  }
+  while (j < b.length) ops.push({ type: 'added', item: b[j++] });
+  return ops;
+}
+
+/**
+ * A unified diff of two texts, line by line, with `context` unchanged lines
+ * around each change. Empty when the texts are the same.
+ */
+export function unifiedDiff(a: string, b: string, context = 2): string {
+  const ops = diff(a.split('\n'), b.split('\n'));
+  const changed = ops.flatMap((op, index) => (op.type === 'same' ? [] : [index]));
+  if (!changed.length) return '';
+
+  // Group changes whose context overlaps into hunks
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= 2 * context + 1) last[1] = index;
+    else hunks.push([index, index]);
+  }
+
+  // Line numbers where each op starts, in a and in b
+  const lineA: number[] = [];
+  const lineB: number[] = [];
+  let nextA = 1;
+  let nextB = 1;
+  for (const op of ops) {
+    lineA.push(nextA);
+    lineB.push(nextB);
+    if (op.type !== 'added') nextA++;
+    if (op.type !== 'removed') nextB++;
+  }
+
+  const prefix = { same: ' ', removed: '-', added: '+' };
+  return hunks
+    .map(([first, last]) => {
+      const from = Math.max(0, first - context);
+      const to = Math.min(ops.length - 1, last + context);
+      const shown = ops.slice(from, to + 1);
+      const countA = shown.filter((op) => op.type !== 'added').length;
+      const countB = shown.filter((op) => op.type !== 'removed').length;
+      const header = `@@ -${lineA[from]},${countA} +${lineB[from]},${countB} @@`;
+      return [header, ...shown.map((op) => `${prefix[op.type]}${op.item}`)].join('\n');
+    })
+    .join('\n');
+}
+
+/** Where both sides changed the same part of the base differently */
+export interface MergeConflict<T> {
+  ours: T[];
+  theirs: T[];
+}
+
+export interface MergeResult<T> {
+  items: T[];
+  conflicts: MergeConflict<T>[];
+}
+
+/**
+ * Merge the changes `ours` and `theirs` each made to `base`. Items compared
+ * equal by `key` are taken from `theirs`, so its copies win over the base's.
+ * Where both changed the same items differently, `ours` is used and the
+ * conflict reported.
+ */
+export function merge3<T>(base: T[], ours: T[], theirs: T[], key: (item: T) => string = String): MergeResult<T> {
+  const baseKeys = base.map(key);
+  const oursKeys = ours.map(key);
+  const theirsKeys = theirs.map(key);
+  const inOurs = matches(baseKeys, oursKeys);
+  const inTheirs = matches(baseKeys, theirsKeys);
+  const same = (a: string[], b: string[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+
+  const items: T[] = [];
+  const conflicts: MergeConflict<T>[] = [];
+  let b = 0;
+  let o = 0;
+  let t = 0;
+  while (b <= base.length) {
+    // The next base item both sides kept, or the end
+    let next = b;
+    while (next < base.length && (inOurs[next] < 0 || inTheirs[next] < 0)) next++;
+    const oursEnd = next < base.length ? inOurs[next] : ours.length;
+    const theirsEnd = next < base.length ? inTheirs[next] : theirs.length;
+
+    const baseChunk = baseKeys.slice(b, next);
+    const oursChunk = oursKeys.slice(o, oursEnd);
+    const theirsChunk = theirsKeys.slice(t, theirsEnd);
+    if (same(oursChunk, baseChunk) || same(oursChunk, theirsChunk)) {
+      items.push(...theirs.slice(t, theirsEnd));
+    } else {
+      items.push(...ours.slice(o, oursEnd));
+      if (!same(theirsChunk, baseChunk)) {
+        conflicts.push({ ours: ours.slice(o, oursEnd), theirs: theirs.slice(t, theirsEnd) });
+      }
+    }
+
+    if (next < base.length) items.push(theirs[theirsEnd]);
+    b = next + 1;
+    o = oursEnd + 1;
+    t = theirsEnd + 1;
+  }
+  return { items, conflicts };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EmbeddingError, HashingEmbedder, OllamaEmbedder, createEmbedder, dot } from './embeddings.js';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder();
+
+  it('should give the same unit vector for the same text', async () => {
+    const [a, b] = await embedder.embed(['Quarterly budget review', 'Quarterly budget review']);
+    expect(a).toEqual(b);
+    expect(dot(a, a)).toBeCloseTo(1);
+  });
+
+  it('should place texts sharing words and word parts closer together', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'budgeting for the holidays',
+      'Holiday budget: gifts and travel',
+      'Sourdough starter feeding schedule',
+    ]);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated) + 0.2);
+  });
+
+  it('should give a zero vector for text without words', async () => {
+    const [vector] = await embedder.embed(['  --- ']);
+    expect(dot(vector, vector)).toBe(0);
+  });
+});
+
+describe('OllamaEmbedder', () => {
+  let server: http.Server;
+  let url: string;
+  const requests: any[] = [];
+  let respond: (body: any) => [number, unknown] = (body) => [
+    200,
+    { embeddings: body.input.map((text: string) => [text.length, 0, 0]) },
+  ];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let data = '';
+      request.on('data', (chunk) => (data += chunk));
+      request.on('end', () => {
+        const body = JSON.parse(data);
+        requests.push({ path: request.url, body });
+        const [status, result] = respond(body);
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(result));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should embed texts in batches with the configured model', async () => {
+    const embedder = createEmbedder({ embedder: 'ollama', ollamaUrl: url, model: 'all-minilm' });
+    const texts = Array.from({ length: 40 }, (_, i) => 'x'.repeat(i + 1));
+
+    const vectors = await embedder.embed(texts);
+
+    expect(embedder.id).toBe('ollama-all-minilm');
+    expect(requests.map((request) => [request.path, request.body.model, request.body.input.length])).toEqual([
+      ['/api/embed', 'all-minilm', 32],
+      ['/api/embed', 'all-minilm', 8],
+    ]);
+    // Normalized, so only the direction is kept
+    expect([...vectors[39]]).toEqual([1, 0, 0]);
+  });
+
+  it('should report errors from the model and unreachable servers', async () => {
+    respond = () => [404, { error: 'model "missing" not found, try pulling it first' }];
+    await expect(new OllamaEmbedder(url, 'missing').embed(['a'])).rejects.toThrow(
+      `Ollama at ${url} answered 404: model "missing" not found, try pulling it first`
+    );
+
+    respond = () => [200, { embeddings: [] }];
+    await expect(new OllamaEmbedder(url, 'x').embed(['a'])).rejects.toThrow("didn't return an embedding for each text");
+
+    const closed = new OllamaEmbedder('http://127.0.0.1:1', 'x');
+    await expect(closed.embed(['a'])).rejects.toThrow(EmbeddingError);
+    await expect(closed.embed(['a'])).rejects.toThrow("Can't reach Ollama at http://127.0.0.1:1");
+  });
+});
@@ -0,0 +1,131 @@
+// src/embeddings.ts
+// Turns text into vectors for semantic_search, with a local model or by hashing.
+import axios from 'axios';
+import { tokenize } from './textIndex.js';
+
+export const EMBEDDERS = ['hashing', 'ollama'] as const;
+export type EmbedderName = (typeof EMBEDDERS)[number];
+
+export function isEmbedderName(value: unknown): value is EmbedderName {
+  return typeof value === 'string' && (EMBEDDERS as readonly string[]).includes(value);
+}
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+export const DEFAULT_OLLAMA_MODEL = 'nomic-embed-text';
+
+const HASHING_DIMENSIONS = 512;
+// Texts per request to the model
+const OLLAMA_BATCH_SIZE = 32;
+
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+/** Maps texts to vectors; vectors from different ids can't be compared */
+export interface Embedder {
+  /** Names the model, so stored vectors are dropped when it changes */
+  readonly id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export interface EmbedderConfig {
+  embedder: EmbedderName;
+  ollamaUrl?: string;
+  model?: string;
+}
+
+export function createEmbedder(config: EmbedderConfig): Embedder {
+  switch (config.embedder) {
+    case 'hashing':
+      return new HashingEmbedder();
+    case 'ollama':
+      return new OllamaEmbedder(config.ollamaUrl ?? DEFAULT_OLLAMA_URL, config.model ?? DEFAULT_OLLAMA_MODEL);
+  }
+}
+
+/** Scale `vector` to length 1 in place, so the dot product is the cosine similarity */
+export function normalize(vector: Float32Array): Float32Array {
+  const length = Math.hypot(...vector);
+  if (length > 0) for (let i = 0; i < vector.length; i++) vector[i] /= length;
+  return vector;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** 32-bit FNV-1a */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Feature hashing of words and their character trigrams. It needs no model
+ * and always gives the same vectors, which suits tests and small setups, but
+ * it only relates texts that share words or word parts.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id = `hashing-${HASHING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map((text) => {
+      const vector = new Float32Array(HASHING_DIMENSIONS);
+      const add = (feature: string, weight: number) => {
+        const value = hash(feature);
+        // The top bit picks a sign, so collisions cancel out rather than add up
+        vector[value % HASHING_DIMENSIONS] += value & 0x80000000 ? -weight : weight;
+      };
+      for (const { term } of tokenize(text)) {
+        add(term, 1);
+        const padded = `#${term}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) add(padded.slice(i, i + 3), 0.5);
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+/** A model served by Ollama (https://ollama.com), which runs on the CPU when there's no GPU */
+export class OllamaEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly model: string
+  ) {
+    this.id = `ollama-${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += OLLAMA_BATCH_SIZE) {
+      const input = texts.slice(start, start + OLLAMA_BATCH_SIZE);
+      let embeddings: number[][];
+      try {
+        const response = await axios.post(`${this.url}/api/embed`, { model: this.model, input });
+        embeddings = response.data.embeddings;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          const detail = error.response.data?.error ?? error.message;
+          throw new EmbeddingError(`Ollama at ${this.url} answered ${error.response.status}: ${detail}`);
+        }
+        throw new EmbeddingError(`Can't reach Ollama at ${this.url}: ${(error as Error).message}`);
+      }
+      if (!Array.isArray(embeddings) || embeddings.length !== input.length) {
+        throw new EmbeddingError(`Ollama at ${this.url} didn't return an embedding for each text`);
+      }
+      vectors.push(...embeddings.map((embedding) => normalize(Float32Array.from(embedding))));
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,56 @@
+// src/enml/convert.ts
+import { ENML_HEADER } from './dtd.js';
+import { markdownToHtml } from './markdown.js';
+import { escapeText } from './parser.js';
+import { sanitizeHtml } from './sanitize.js';
+
+export const CONTENT_FORMATS = ['markdown', 'html', 'text', 'enml'] as const;
+export type ContentFormat = (typeof CONTENT_FORMATS)[number];
+
+export function isContentFormat(value: unknown): value is ContentFormat {
+  return CONTENT_FORMATS.includes(value as ContentFormat);
+}
+
+export function wrapEnml(body: string): string {
+  return `${ENML_HEADER}\n<en-note>${body}</en-note>`;
+}
+
+/**
+ * Strip the XML declaration, DOCTYPE and <en-note> wrapper from a complete
+ * ENML document. Content that is not wrapped is returned unchanged.
+ */
+export function extractEnmlBody(enml: string): string {
+  const match = /<en-note\b[^>]*>([\s\S]*)<\/en-note>/i.exec(enml);
+  if (match) return match[1];
+  if (/<en-note\b[^>]*\/>/i.test(enml)) return '';
+  return enml
+    .replace(/^\s*<\?xml[^>]*\?>/i, '')
+    .replace(/^\s*<!DOCTYPE[^>]*>/i, '')
+    .trim();
+}
+
+/** One <div> per line, the way the Evernote clients store plain text */
+export function textToEnml(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => (line === '' ? '<div><br/></div>' : `<div>${escapeText(line)}</div>`))
+    .join('');
+}
+
+export function toEnmlBody(content: string, format: ContentFormat): string {
+  switch (format) {
+    case 'markdown':
+      return sanitizeHtml(markdownToHtml(content));
+    case 'html':
+      return sanitizeHtml(content);
+    case 'text':
+      return textToEnml(content);
+    case 'enml':
+      return extractEnmlBody(content);
+  }
+}
+
+export function toEnml(content: string, format: ContentFormat = 'markdown'): string {
+  return wrapEnml(toEnmlBody(content, format));
+}
@@ -0,0 +1,137 @@
+// src/enml/dtd.ts
+// Element and attribute rules from http://xml.evernote.com/pub/enml2.dtd
+
+export const ENML_DOCTYPE =
+  '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">';
+export const ENML_HEADER = `<?xml version="1.0" encoding="UTF-8"?>\n${ENML_DOCTYPE}`;
+
+const CORE_ATTRIBUTES = ['style', 'title', 'lang', 'xml:lang', 'dir'];
+const CELL_HALIGN = ['align', 'char', 'charoff'];
+const CELL_VALIGN = ['valign'];
+
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  'en-note': ['bgcolor', 'text'],
+  'en-media': ['type', 'hash', 'height', 'width', 'usemap', 'align', 'border', 'hspace', 'vspace', 'longdesc', 'alt'],
+  'en-crypt': ['hint', 'cipher', 'length'],
+  'en-todo': ['checked'],
+  a: ['charset', 'type', 'name', 'href', 'hreflang', 'rel', 'rev', 'shape', 'coords', 'target'],
+  abbr: [],
+  acronym: [],
+  address: [],
+  area: ['shape', 'coords', 'href', 'nohref', 'alt', 'target'],
+  b: [],
+  bdo: [],
+  big: [],
+  blockquote: ['cite'],
+  br: ['clear'],
+  caption: ['align'],
+  center: [],
+  cite: [],
+  code: [],
+  col: ['span', 'width', ...CELL_HALIGN, ...CELL_VALIGN],
+  colgroup: ['span', 'width', ...CELL_HALIGN, ...CELL_VALIGN],
+  dd: [],
+  del: ['cite', 'datetime'],
+  dfn: [],
+  div: ['align'],
+  dl: ['compact'],
+  dt: [],
+  em: [],
+  font: ['size', 'color', 'face'],
+  h1: ['align'],
+  h2: ['align'],
+  h3: ['align'],
+  h4: ['align'],
+  h5: ['align'],
+  h6: ['align'],
+  hr: ['align', 'noshade', 'size', 'width'],
+  i: [],
+  img: ['src', 'alt', 'name', 'longdesc', 'height', 'width', 'usemap', 'ismap', 'align', 'border', 'hspace', 'vspace'],
+  ins: ['cite', 'datetime'],
+  kbd: [],
+  li: ['type', 'value'],
+  map: ['name'],
+  ol: ['type', 'compact', 'start'],
+  p: ['align'],
+  pre: ['width', 'xml:space'],
+  q: ['cite'],
+  s: [],
+  samp: [],
+  small: [],
+  span: [],
+  strike: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  table: ['summary', 'width', 'border', 'frame', 'rules', 'cellspacing', 'cellpadding', 'align', 'bgcolor'],
+  tbody: [...CELL_HALIGN, ...CELL_VALIGN],
+  td: ['abbr', 'axis', 'headers', 'scope', 'rowspan', 'colspan', ...CELL_HALIGN, ...CELL_VALIGN, 'nowrap', 'bgcolor', 'width', 'height'],
+  tfoot: [...CELL_HALIGN, ...CELL_VALIGN],
+  th: ['abbr', 'axis', 'headers', 'scope', 'rowspan', 'colspan', ...CELL_HALIGN, ...CELL_VALIGN, 'nowrap', 'bgcolor', 'width', 'height'],
+  thead: [...CELL_HALIGN, ...CELL_VALIGN],
+  tr: [...CELL_HALIGN, ...CELL_VALIGN, 'bgcolor'],
+  tt: [],
+  u: [],
+  ul: ['type', 'compact'],
+  var: [],
+  xmp: [],
+};
+
+/**
+ * Elements the DTD prohibits outright. Their content is dropped as well,
+ * since it is never meant to be displayed (scripts, styles, form widgets).
+ */
+export const DROPPED_ELEMENTS = new Set([
+  'applet', 'base', 'basefont', 'bgsound', 'button', 'embed', 'frame',
+  'frameset', 'head', 'iframe', 'ilayer', 'input', 'isindex', 'layer',
+  'link', 'meta', 'noframes', 'noscript', 'object', 'optgroup', 'option',
+  'param', 'plaintext', 'script', 'select', 'style', 'textarea', 'title', 'xml',
+]);
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
+  'param', 'source', 'wbr', 'en-todo', 'en-media',
+]);
+
+export function isAllowedElement(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ELEMENT_ATTRIBUTES, name);
+}
+
+export function isAllowedAttribute(element: string, attribute: string): boolean {
+  if (!isAllowedElement(element)) return false;
+  // en-todo and en-crypt carry no presentation attributes
+  if (element !== 'en-todo' && element !== 'en-crypt' && CORE_ATTRIBUTES.includes(attribute)) {
+    return true;
+  }
+  return ELEMENT_ATTRIBUTES[element].includes(attribute);
+}
+
+// Character entities the DTD pulls in from xhtml-lat1, xhtml-special and xhtml-symbol
+export const ENML_ENTITIES = new Set(
+  (
+    'nbsp iexcl cent pound curren yen brvbar sect uml copy ordf laquo not shy reg macr deg plusmn ' +
+    'sup2 sup3 acute micro para middot cedil sup1 ordm raquo frac14 frac12 frac34 iquest Agrave ' +
+    'Aacute Acirc Atilde Auml Aring AElig Ccedil Egrave Eacute Ecirc Euml Igrave Iacute Icirc Iuml ' +
+    'ETH Ntilde Ograve Oacute Ocirc Otilde Ouml times Oslash Ugrave Uacute Ucirc Uuml Yacute THORN ' +
+    'szlig agrave aacute acirc atilde auml aring aelig ccedil egrave eacute ecirc euml igrave iacute ' +
+    'icirc iuml eth ntilde ograve oacute ocirc otilde ouml divide oslash ugrave uacute ucirc uuml ' +
+    'yacute thorn yuml quot amp lt gt apos OElig oelig Scaron scaron Yuml circ tilde ensp emsp ' +
+    'thinsp zwnj zwj lrm rlm ndash mdash lsquo rsquo sbquo ldquo rdquo bdquo dagger Dagger permil ' +
+    'lsaquo rsaquo euro fnof Alpha Beta Gamma Delta Epsilon Zeta Eta Theta Iota Kappa Lambda Mu Nu ' +
+    'Xi Omicron Pi Rho Sigma Tau Upsilon Phi Chi Psi Omega alpha beta gamma delta epsilon zeta eta ' +
+    'theta iota kappa lambda mu nu xi omicron pi rho sigmaf sigma tau upsilon phi chi psi omega ' +
+    'thetasym upsih piv bull hellip prime Prime oline frasl weierp image real trade alefsym larr ' +
+    'uarr rarr darr harr crarr lArr uArr rArr dArr hArr forall part exist empty nabla isin notin ni ' +
+    'prod sum minus lowast radic prop infin ang and or cap cup int there4 sim cong asymp ne equiv ' +
+    'le ge sub sup nsub sube supe oplus otimes perp sdot lceil rceil lfloor rfloor lang rang loz ' +
+    'spades clubs hearts diams'
+  ).split(' ')
+);
+
+// Elements declared EMPTY in the DTD
+export const EMPTY_ELEMENTS = new Set(['br', 'hr', 'img', 'area', 'col', 'en-todo', 'en-media']);
+
+export const REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+  'en-media': ['type', 'hash'],
+  area: ['alt'],
+};
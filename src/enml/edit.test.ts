@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyEdit } from './edit.js';
+
+const HEADER =
+  '<?xml version="1.0" encoding="UTF-8"?>\n' + '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n';
+const note = (body: string) => `${HEADER}<en-note style="word-wrap: break-word;">${body}</en-note>`;
+
+// Markup the edits must leave exactly as it is
+const MEDIA = '<div><en-media hash="0123456789abcdef0123456789abcdef" type="image/png" /></div>';
+const TODO = '<div><en-todo checked="true"/><span style="color:rgb(51, 51, 51);">Call&#160;Ana</span></div>';
+const DOCUMENT = note(
+  `<h1>Project</h1>${MEDIA}<h2>Log</h2><div>Mon: started</div>${TODO}<h2>Notes</h2><div>Keep &amp; share</div>`
+);
+
+describe('applyEdit', () => {
+  it('should append and prepend without touching the rest', () => {
+    const appended = applyEdit(DOCUMENT, { operation: 'append', fragment: '<div>Tue: done</div>' });
+    expect(appended).toEqual({
+      enml: DOCUMENT.replace('</en-note>', '<div>Tue: done</div></en-note>'),
+      summary: 'added to the end',
+    });
+
+    const prepended = applyEdit(DOCUMENT, { operation: 'prepend', fragment: '<div>Draft</div>' });
+    expect(prepended.enml).toBe(DOCUMENT.replace('break-word;">', 'break-word;"><div>Draft</div>'));
+  });
+
+  it('should insert at the start or end of a section', () => {
+    const start = applyEdit(DOCUMENT, { operation: 'insert_after_heading', heading: 'log', fragment: '<div>x</div>' });
+    expect(start.enml).toBe(DOCUMENT.replace('<h2>Log</h2>', '<h2>Log</h2><div>x</div>'));
+    expect(start.summary).toBe('added to the start of section "Log"');
+
+    const end = applyEdit(DOCUMENT, {
+      operation: 'insert_after_heading',
+      heading: '## Log',
+      position: 'end',
+      fragment: '<div>Tue: done</div>',
+    });
+    expect(end.enml).toBe(DOCUMENT.replace(`${TODO}<h2>`, `${TODO}<div>Tue: done</div><h2>`));
+  });
+
+  it('should replace a section up to the next heading of the same or a higher level', () => {
+    const log = applyEdit(DOCUMENT, { operation: 'replace_section', heading: 'Log', fragment: '<div>cleared</div>' });
+    expect(log.enml).toBe(DOCUMENT.replace(`<div>Mon: started</div>${TODO}`, '<div>cleared</div>'));
+
+    // The h1 section holds the h2 sections, and the last one runs to the end of the note
+    const project = applyEdit(DOCUMENT, { operation: 'replace_section', heading: 'Project', fragment: '<div>x</div>' });
+    expect(project.enml).toBe(note('<h1>Project</h1><div>x</div>'));
+    const notes = applyEdit(DOCUMENT, { operation: 'replace_section', heading: 'Notes', fragment: '' });
+    expect(notes.enml).toBe(DOCUMENT.replace('<div>Keep &amp; share</div>', ''));
+  });
+
+  it('should find headings nested in other elements', () => {
+    const nested = note('<div><h3>Inbox</h3><div>a</div></div><div>after</div>');
+    const result = applyEdit(nested, { operation: 'replace_section', heading: 'inbox', fragment: '<div>b</div>' });
+    expect(result.enml).toBe(note('<div><h3>Inbox</h3><div>b</div></div><div>after</div>'));
+  });
+
+  it('should report missing and repeated headings', () => {
+    expect(() => applyEdit(DOCUMENT, { operation: 'replace_section', heading: 'Todo', fragment: '' })).toThrow(
+      'No heading "Todo" in the note. Its headings are: "Project", "Log", "Notes"'
+    );
+    expect(() => applyEdit(note('<div>x</div>'), { operation: 'replace_section', heading: 'x', fragment: '' })).toThrow(
+      /^MCP error -32602: No heading "x" in the note$/
+    );
+    expect(() =>
+      applyEdit(note('<h2>Day</h2><h2>Day</h2>'), { operation: 'insert_after_heading', heading: 'Day', fragment: '' })
+    ).toThrow('The note has 2 headings "Day"');
+  });
+
+  it('should replace text, re-encoding only the text that changed', () => {
+    const result = applyEdit(DOCUMENT, { operation: 'find_replace', find: 'Keep & share', replace: 'Keep <private>' });
+    expect(result).toEqual({
+      enml: DOCUMENT.replace('Keep &amp; share', 'Keep &lt;private&gt;'),
+      summary: 'replaced 1 occurrence of "Keep & share"',
+    });
+
+    // Text with a character reference is matched by what it decodes to
+    const todo = applyEdit(DOCUMENT, { operation: 'find_replace', find: 'Call Ana', replace: 'Call Ana and Bo' });
+    expect(todo.enml).toContain('<en-todo checked="true"/><span style="color:rgb(51, 51, 51);">Call Ana and Bo</span>');
+  });
+
+  it('should need all to replace more than one occurrence', () => {
+    const document = note('<div>draft one</div><div>draft <b>two</b>, draft</div>');
+    expect(() => applyEdit(document, { operation: 'find_replace', find: 'draft', replace: 'final' })).toThrow(
+      '"draft" appears 3 times in the note. Pass all: true'
+    );
+    const result = applyEdit(document, { operation: 'find_replace', find: 'draft', replace: 'final', all: true });
+    expect(result.enml).toBe(note('<div>final one</div><div>final <b>two</b>, final</div>'));
+    expect(() => applyEdit(document, { operation: 'find_replace', find: 'draft two', replace: '' })).toThrow(
+      `"draft two" isn't in the note's text`
+    );
+  });
+
+  it('should edit an empty note', () => {
+    const empty = `${HEADER}<en-note/>`;
+    expect(applyEdit(empty, { operation: 'append', fragment: '<div>first</div>' }).enml).toBe(
+      `${HEADER}<en-note><div>first</div></en-note>`
+    );
+  });
+});
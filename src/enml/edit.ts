@@ -0,0 +1,198 @@
+// src/enml/edit.ts
+// Changes to one part of an ENML document that leave the rest of it byte for byte.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ElementNode, MarkupNode, TextNode, escapeText, parseMarkup, textContent } from './parser.js';
+
+export const EDIT_OPERATIONS = [
+  'append',
+  'prepend',
+  'insert_after_heading',
+  'replace_section',
+  'find_replace',
+] as const;
+export type EditOperation = (typeof EDIT_OPERATIONS)[number];
+
+export function isEditOperation(value: unknown): value is EditOperation {
+  return EDIT_OPERATIONS.includes(value as EditOperation);
+}
+
+export const SECTION_POSITIONS = ['start', 'end'] as const;
+export type SectionPosition = (typeof SECTION_POSITIONS)[number];
+
+export interface NoteEdit {
+  operation: EditOperation;
+  /** ENML to add; every operation but find_replace needs it */
+  fragment?: string;
+  /** The heading whose section insert_after_heading and replace_section change */
+  heading?: string;
+  /** Where in the section insert_after_heading adds the fragment */
+  position?: SectionPosition;
+  find?: string;
+  replace?: string;
+  /** Replace every occurrence of `find`, rather than requiring exactly one */
+  all?: boolean;
+}
+
+export interface EditResult {
+  enml: string;
+  /** What changed, such as `added to the end` */
+  summary: string;
+}
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A heading and the content that follows it, up to the next heading of the same or a higher level */
+interface Section {
+  heading: ElementNode;
+  title: string;
+  /** Offsets of the content, after the heading */
+  start: number;
+  end: number;
+}
+
+const HEADING = /^h([1-6])$/;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function sections(nodes: MarkupNode[]): Section[] {
+  const found: Section[] = [];
+  const siblings = nodes.filter((node): node is ElementNode => node.type === 'element');
+  for (const [index, node] of siblings.entries()) {
+    found.push(...sections(node.children));
+    const level = HEADING.exec(node.name)?.[1];
+    if (!level) continue;
+    const next = siblings.slice(index + 1).find((sibling) => {
+      const other = HEADING.exec(sibling.name)?.[1];
+      return other !== undefined && other <= level;
+    });
+    found.push({
+      heading: node,
+      title: textContent(node.children).replace(/\s+/g, ' ').trim(),
+      start: node.end,
+      end: next ? next.start : nodes[nodes.length - 1].end,
+    });
+  }
+  return found.sort((a, b) => a.heading.start - b.heading.start);
+}
+
+/** The section under `heading`, matched ignoring case, spacing and Markdown `#` marks */
+function findSection(body: string, heading: string): Section {
+  const wanted = normalize(heading.replace(/^\s*#+\s*/, ''));
+  const all = sections(parseMarkup(body));
+  const matches = all.filter((section) => normalize(section.title) === wanted);
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `The note has ${matches.length} headings "${heading}"; edit the note as a whole to change one of them`
+    );
+  }
+  const available = all.length ? `. Its headings are: ${all.map((section) => `"${section.title}"`).join(', ')}` : '';
+  throw new McpError(ErrorCode.InvalidParams, `No heading "${heading}" in the note${available}`);
+}
+
+function textNodes(nodes: MarkupNode[]): TextNode[] {
+  return nodes.flatMap((node) => (node.type === 'text' ? [node] : textNodes(node.children)));
+}
+
+function occurrences(text: string, find: string): number {
+  return text.split(find).length - 1;
+}
+
+/** Replace `find` within text nodes, re-encoding only the nodes that change */
+function findReplace(body: string, find: string, replace: string, all: boolean): { splices: Splice[]; count: number } {
+  const matching = textNodes(parseMarkup(body)).filter((node) => node.text.includes(find));
+  const count = matching.reduce((sum, node) => sum + occurrences(node.text, find), 0);
+  if (!count) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `"${find}" isn't in the note's text. Text split by formatting, such as partly bold, can't be matched`
+    );
+  }
+  if (count > 1 && !all) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `"${find}" appears ${count} times in the note. Pass all: true to replace every one, or a longer find`
+    );
+  }
+  const splices = matching.map((node) => ({
+    start: node.start,
+    end: node.end,
+    text: escapeText(node.text.split(find).join(replace)),
+  }));
+  return { splices, count };
+}
+
+/** A complete ENML document as the markup around the <en-note> body, and the body */
+export interface EnmlParts {
+  /** Everything up to and including the <en-note> start tag */
+  head: string;
+  body: string;
+  /** The </en-note> end tag and anything after it */
+  tail: string;
+}
+
+export function splitEnml(enml: string): EnmlParts {
+  // An empty note may be a self-closing <en-note/>
+  const document = enml.replace(/<en-note\b([^>]*?)\s*\/>/i, '<en-note$1></en-note>');
+  const open = /<en-note\b[^>]*>/i.exec(document);
+  const close = document.lastIndexOf('</en-note>');
+  if (!open || close < 0) throw new McpError(ErrorCode.InvalidParams, 'The note content has no <en-note> element');
+  const bodyStart = open.index + open[0].length;
+  return { head: document.slice(0, bodyStart), body: document.slice(bodyStart, close), tail: document.slice(close) };
+}
+
+/**
+ * Apply an edit to a complete ENML document by splicing the source, so
+ * everything the edit doesn't touch, such as media, checkboxes and styling,
+ * stays exactly as it was.
+ */
+export function applyEdit(enml: string, edit: NoteEdit): EditResult {
+  const { head, body, tail } = splitEnml(enml);
+  const fragment = edit.fragment ?? '';
+
+  let splices: Splice[];
+  let summary: string;
+  switch (edit.operation) {
+    case 'append':
+      splices = [{ start: body.length, end: body.length, text: fragment }];
+      summary = 'added to the end';
+      break;
+    case 'prepend':
+      splices = [{ start: 0, end: 0, text: fragment }];
+      summary = 'added to the start';
+      break;
+    case 'insert_after_heading': {
+      const section = findSection(body, edit.heading ?? '');
+      const offset = edit.position === 'end' ? section.end : section.start;
+      splices = [{ start: offset, end: offset, text: fragment }];
+      summary = `added to the ${edit.position ?? 'start'} of section "${section.title}"`;
+      break;
+    }
+    case 'replace_section': {
+      const section = findSection(body, edit.heading ?? '');
+      splices = [{ start: section.start, end: section.end, text: fragment }];
+      summary = `replaced the content of section "${section.title}"`;
+      break;
+    }
+    case 'find_replace': {
+      const result = findReplace(body, edit.find ?? '', edit.replace ?? '', edit.all ?? false);
+      splices = result.splices;
+      summary = `replaced ${result.count} occurrence${result.count === 1 ? '' : 's'} of "${edit.find}"`;
+      break;
+    }
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  let result = body;
+  for (const splice of [...splices].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, splice.start) + splice.text + result.slice(splice.end);
+  }
+  return { enml: head + result + tail, summary };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { markdownToHtml, renderInline } from './markdown.js';
+import { toEnml, toEnmlBody } from './convert.js';
+
+describe('markdownToHtml', () => {
+  it('should render headings and paragraphs', () => {
+    expect(markdownToHtml('# Title\n\nSome text\nwrapped')).toBe(
+      '<h1>Title</h1>\n<p>Some text\nwrapped</p>'
+    );
+    expect(markdownToHtml('Subtitle\n---')).toBe('<h2>Subtitle</h2>');
+  });
+
+  it('should render tight and nested lists', () => {
+    expect(markdownToHtml('- one\n- two\n  - nested\n\n3. three\n4. four')).toBe(
+      '<ul><li>one</li><li>two<ul><li>nested</li></ul></li></ul>\n<ol start="3"><li>three</li><li>four</li></ol>'
+    );
+  });
+
+  it('should render task lists as Evernote checkboxes', () => {
+    expect(markdownToHtml('- [ ] open\n- [x] done')).toBe(
+      '<div><en-todo checked="false"/>open</div>\n<div><en-todo checked="true"/>done</div>'
+    );
+    expect(markdownToHtml('- plain\n- [x] done')).toBe(
+      '<ul><li>plain</li><li><en-todo checked="true"/>done</li></ul>'
+    );
+  });
+
+  it('should render fenced code blocks with escaped content', () => {
+    expect(markdownToHtml('```ts\nif (a < b && c) {}\n```')).toBe(
+      '<pre>if (a &lt; b &amp;&amp; c) {}</pre>'
+    );
+  });
+
+  it('should render tables with column alignment', () => {
+    const html = markdownToHtml('| Name | Qty |\n|:-----|----:|\n| Apples | 3 |');
+    expect(html).toContain('<thead><tr><th style="border:1px solid #ccc;padding:4px;text-align:left;">Name</th>');
+    expect(html).toContain('<td style="border:1px solid #ccc;padding:4px;text-align:right;">3</td>');
+  });
+
+  it('should render blockquotes and horizontal rules', () => {
+    expect(markdownToHtml('> quoted\n\n***')).toBe('<blockquote><p>quoted</p></blockquote>\n<hr/>');
+  });
+});
+
+describe('renderInline', () => {
+  it('should render emphasis, code and strikethrough', () => {
+    expect(renderInline('**bold** *em* `a<b` ~~gone~~')).toBe(
+      '<strong>bold</strong> <em>em</em> <code>a&lt;b</code> <s>gone</s>'
+    );
+  });
+
+  it('should render links, images and bare URLs', () => {
+    expect(renderInline('[site](https://example.com?a=1&b=2 "Example")')).toBe(
+      '<a href="https://example.com?a=1&amp;b=2" title="Example">site</a>'
+    );
+    expect(renderInline('![logo](https://example.com/logo.png)')).toBe(
+      '<img src="https://example.com/logo.png" alt="logo"/>'
+    );
+    expect(renderInline('see https://example.com/path.')).toBe(
+      'see <a href="https://example.com/path">https://example.com/path</a>.'
+    );
+  });
+
+  it('should escape stray markup characters but keep inline tags', () => {
+    expect(renderInline('1 < 2 & <b>bold</b> \\*not em\\*')).toBe('1 &lt; 2 &amp; <b>bold</b> *not em*');
+  });
+
+  it('should turn trailing double spaces into line breaks', () => {
+    expect(renderInline('one  \ntwo')).toBe('one<br/>two');
+  });
+});
+
+describe('toEnml', () => {
+  it('should wrap converted markdown in an ENML document', () => {
+    expect(toEnml('Hello **world**')).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n' +
+        '<en-note><p>Hello <strong>world</strong></p></en-note>'
+    );
+  });
+
+  it('should strip forbidden markup embedded in markdown', () => {
+    expect(toEnmlBody('<div class="x">hi<script>alert(1)</script></div>', 'markdown')).toBe('<div>hi</div>');
+  });
+
+  it('should escape plain text line by line', () => {
+    expect(toEnmlBody('a < b & c\n\nend', 'text')).toBe(
+      '<div>a &lt; b &amp; c</div><div><br/></div><div>end</div>'
+    );
+  });
+
+  it('should unwrap complete ENML documents', () => {
+    expect(toEnmlBody(toEnml('<p>x</p>', 'html'), 'enml')).toBe('<p>x</p>');
+  });
+});
@@ -0,0 +1,334 @@
+// src/enml/markdown.ts
+// Markdown (CommonMark subset + GFM tables and task lists) to ENML-ready XHTML.
+// Raw HTML is passed through untouched; sanitizeHtml() makes it ENML-safe.
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const TABLE_DELIMITER = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+const TASK = /^\[([ xX])\](?:[ \t]+|$)/;
+const HTML_BLOCK = new RegExp(
+  '^ {0,3}</?(address|article|aside|blockquote|center|details|div|dl|dd|dt|en-media|en-todo|' +
+    'figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|section|summary|' +
+    'table|tbody|td|tfoot|th|thead|tr|ul)(\\s|/?>|$)',
+  'i'
+);
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown
+    .replace(/\u0000/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '    ')
+    .split('\n');
+  return renderBlocks(lines, false);
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    HTML_BLOCK.test(line)
+  );
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Render a run of lines as block-level HTML. In a tight list item, paragraphs
+ * are emitted as bare inline content, as CommonMark does.
+ */
+function renderBlocks(lines: string[], tight: boolean): string {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      out.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2] ?? '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line) && !(tight && LIST_ITEM.test(line))) {
+      out.push('<hr/>');
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const match = BLOCKQUOTE.exec(lines[i]);
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      out.push(`<blockquote>${renderBlocks(quoted, false)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = readList(lines, i);
+      out.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const rows: string[] = [line];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        rows.push(lines[i]);
+        i++;
+      }
+      out.push(renderTable(rows, lines[i - rows.length]));
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      const html: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        html.push(lines[i]);
+        i++;
+      }
+      out.push(html.join('\n'));
+      continue;
+    }
+
+    const paragraph: string[] = [line.trimStart()];
+    i++;
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = SETEXT_UNDERLINE.exec(lines[i]);
+      if (setext) {
+        setextLevel = setext[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (isBlockStart(lines[i])) break;
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+
+    const content = renderInline(paragraph.join('\n'));
+    if (setextLevel) {
+      out.push(`<h${setextLevel}>${content}</h${setextLevel}>`);
+    } else {
+      out.push(tight ? content : `<p>${content}</p>`);
+    }
+  }
+
+  return out.join(tight ? '' : '\n');
+}
+
+interface ListItem {
+  lines: string[];
+  checked?: boolean;
+}
+
+function readList(lines: string[], start: number): { html: string; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: ListItem[] = [];
+  let loose = false;
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = LIST_ITEM.exec(line);
+
+    if (match && match[1].length === baseIndent && /\d/.test(match[2]) === ordered && match[2].slice(-1) === delimiter) {
+      if (THEMATIC_BREAK.test(line) && !ordered) break;
+      contentIndent = baseIndent + match[2].length + Math.max(1, Math.min(match[3].length, 4));
+      let text = match[4];
+      let checked: boolean | undefined;
+      const task = TASK.exec(text);
+      if (task) {
+        checked = task[1] !== ' ';
+        text = text.slice(task[0].length);
+      }
+      items.push({ lines: [text], checked });
+      i++;
+      continue;
+    }
+
+    if (isBlank(line)) {
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      if (next >= lines.length) break;
+      const sibling = LIST_ITEM.exec(lines[next]);
+      const continues = indentOf(lines[next]) >= contentIndent ||
+        (sibling !== null && sibling[1].length === baseIndent && /\d/.test(sibling[2]) === ordered);
+      if (!continues) break;
+      // Blank lines between items or between blocks of an item make the list loose
+      loose = true;
+      items[items.length - 1].lines.push('');
+      i++;
+      continue;
+    }
+
+    const indent = indentOf(line);
+    if (indent >= contentIndent || indent > baseIndent) {
+      items[items.length - 1].lines.push(line.slice(Math.min(indent, contentIndent)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph
+    const current = items[items.length - 1].lines;
+    if (!isBlockStart(line) && !isBlank(current[current.length - 1])) {
+      current.push(line.trimStart());
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const tight = !loose;
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+
+  if (!ordered && items.every((item) => item.checked !== undefined)) {
+    const html = items
+      .map((item) => `<div>${todo(item.checked!)}${renderBlocks(trimTrailingBlank(item.lines), true)}</div>`)
+      .join('\n');
+    return { html, next: i };
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const open = ordered && startNumber !== 1 ? `<ol start="${startNumber}">` : `<${tag}>`;
+  const body = items
+    .map((item) => {
+      const checkbox = item.checked === undefined ? '' : todo(item.checked);
+      return `<li>${checkbox}${renderBlocks(trimTrailingBlank(item.lines), tight)}</li>`;
+    })
+    .join('');
+  return { html: `${open}${body}</${tag}>`, next: i };
+}
+
+function trimTrailingBlank(lines: string[]): string[] {
+  let end = lines.length;
+  while (end > 1 && isBlank(lines[end - 1])) end--;
+  return lines.slice(0, end);
+}
+
+function todo(checked: boolean): string {
+  return `<en-todo checked="${checked}"/>`;
+}
+
+function splitRow(row: string): string[] {
+  let trimmed = row.trim();
+  if (trimmed.startsWith('|')) trimmed = trimmed.slice(1);
+  if (trimmed.endsWith('|') && !trimmed.endsWith('\\|')) trimmed = trimmed.slice(0, -1);
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function renderTable(rows: string[], delimiterRow: string): string {
+  const alignments = splitRow(delimiterRow).map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    if (cell.endsWith(':')) return 'right';
+    if (cell.startsWith(':')) return 'left';
+    return '';
+  });
+  const header = splitRow(rows[0]);
+  const cell = (tag: string, text: string, column: number) => {
+    const align = alignments[column] ? `text-align:${alignments[column]};` : '';
+    return `<${tag} style="border:1px solid #ccc;padding:4px;${align}">${renderInline(text)}</${tag}>`;
+  };
+
+  const head = `<thead><tr>${header.map((text, column) => cell('th', text, column)).join('')}</tr></thead>`;
+  const body = rows
+    .slice(1)
+    .map((row) => {
+      const cells = splitRow(row);
+      return `<tr>${header.map((_, column) => cell('td', cells[column] ?? '', column)).join('')}</tr>`;
+    })
+    .join('');
+  return `<table style="border-collapse:collapse;">${head}${body ? `<tbody>${body}</tbody>` : ''}</table>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&(?!#?[a-zA-Z0-9]+;)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline spans. Code spans, escapes, raw tags and generated links are swapped
+ * out for placeholders first so the emphasis rules never see their contents.
+ */
+export function renderInline(text: string): string {
+  const stash: string[] = [];
+  const hold = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let result = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) =>
+      hold(`<code>${escapeHtml(code.replace(/\n/g, ' ').trim())}</code>`)
+    )
+    .replace(/(?: {2,}|\\)\n/g, () => hold('<br/>'))
+    .replace(/\\([\\`*_{}\[\]()#+\-.!|~<>&])/g, (_, char: string) => hold(escapeHtml(char)))
+    .replace(/<((?:https?|mailto|evernote):[^\s<>]+)>/gi, (_, url: string) =>
+      hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`)
+    )
+    .replace(/<\/?[a-zA-Z][\w-]*(?:\s+[^<>]*?)?\/?>/g, (tag) => hold(tag));
+
+  result = escapeHtml(result)
+    .replace(/!\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+&quot;(.*?)&quot;)?\s*\)/g, (_, alt: string, src: string, title?: string) =>
+      hold(`<img src="${src}" alt="${alt}"${title ? ` title="${title}"` : ''}/>`)
+    )
+    .replace(/\[([^\]]+)\]\(\s*([^\s)]+)(?:\s+&quot;(.*?)&quot;)?\s*\)/g, (_, label: string, href: string, title?: string) =>
+      hold(`<a href="${href}"${title ? ` title="${title}"` : ''}>${label}</a>`)
+    )
+    .replace(/(^|[\s(])(https?:\/\/[^\s<\u0000]*[^\s<.,;:!?)'\u0000])/g, (_, lead: string, url: string) =>
+      `${lead}${hold(`<a href="${url}">${url}</a>`)}`
+    )
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>');
+
+  // Placeholders can nest (a link label holding code), so restore until stable
+  while (/\u0000\d+\u0000/.test(result)) {
+    result = result.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)]);
+  }
+  return result;
+}
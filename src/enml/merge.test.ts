@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { toEnml, wrapEnml } from './convert.js';
+import { diffEnml, enmlBlocks, mergeEnml } from './merge.js';
+
+const MEDIA = '<div><en-media hash="0123456789abcdef0123456789abcdef" type="image/png"/></div>';
+const TODO = '<div><en-todo checked="false"/>Book the room</div>';
+
+describe('enmlBlocks', () => {
+  it('should split the body into top-level blocks', () => {
+    expect(enmlBlocks(wrapEnml(`<h1>Plan</h1>\n${MEDIA}loose <b>text</b>`))).toEqual([
+      '<h1>Plan</h1>\n',
+      MEDIA,
+      'loose ',
+      '<b>text</b>',
+    ]);
+    expect(enmlBlocks(wrapEnml(''))).toEqual([]);
+  });
+});
+
+describe('diffEnml', () => {
+  it('should diff the Markdown of two versions', () => {
+    const before = wrapEnml('<div>Agenda</div><div>Budget</div>');
+    const after = wrapEnml('<div>Agenda</div><div>Budget: 2k</div>');
+    expect(diffEnml(before, after)).toBe('@@ -1,3 +1,3 @@\n Agenda\n \n-Budget\n+Budget: 2k');
+    // Lines and paragraphs read the same in Markdown
+    expect(diffEnml(before, wrapEnml('<p>Agenda</p><p>Budget</p>'))).toBe('');
+  });
+});
+
+describe('mergeEnml', () => {
+  // As stored by an Evernote client, with the media and checkbox
+  const base = wrapEnml(`<div>Agenda</div>${TODO}${MEDIA}<div>Budget</div>`);
+
+  it('should merge Markdown written back from a read note into the current note', () => {
+    // The note as get_note showed it, with the budget changed
+    const ours = toEnml(
+      'Agenda\n\n- [ ] Book the room\n\n[Attachment: image/png, hash 0123456789abcdef0123456789abcdef]\n\nBudget: 2k'
+    );
+    // Meanwhile someone ticked the checkbox in the Evernote app
+    const theirs =
+      '<?xml version="1.0" encoding="UTF-8"?><en-note style="color: black;"><div>Agenda</div>' +
+      `${TODO.replace('false', 'true')}${MEDIA}<div>Budget</div></en-note>`;
+
+    const merged = mergeEnml(base, ours, theirs);
+    expect(merged.conflicts).toEqual([]);
+    // The attachment and checkbox keep their markup
+    expect(merged.enml).toBe(theirs.replace('<div>Budget</div>', '<p>Budget: 2k</p>'));
+  });
+
+  it('should keep the current markup of blocks left alone', () => {
+    const ours = base.replace('<div>Budget</div>', '<div>Budget: 2k</div>');
+    const theirs = base.replace('<div>Agenda</div>', '<div style="font-weight: bold;">Agenda</div>');
+    expect(mergeEnml(base, ours, theirs)).toEqual({
+      enml: theirs.replace('<div>Budget</div>', '<div>Budget: 2k</div>'),
+      conflicts: [],
+    });
+  });
+
+  it('should report blocks both versions changed, as Markdown', () => {
+    const ours = base.replace('<div>Budget</div>', '<div>Budget: 2k</div>');
+    const theirs = base.replace('<div>Budget</div>', '<div>Budget: <b>3k</b></div>');
+    expect(mergeEnml(base, ours, theirs).conflicts).toEqual([{ ours: ['Budget: 2k'], theirs: ['Budget: **3k**'] }]);
+  });
+});
@@ -0,0 +1,55 @@
+// src/enml/merge.ts
+// Differences between versions of a note, and three-way merges of them, block by block.
+import { MergeConflict, merge3, unifiedDiff } from '../diff.js';
+import { splitEnml } from './edit.js';
+import { parseMarkup } from './parser.js';
+import { enmlToMarkdown } from './render.js';
+
+/** The top-level elements and text of a note's body, as source */
+export function enmlBlocks(enml: string): string[] {
+  const { body } = splitEnml(enml);
+  const blocks: string[] = [];
+  for (const node of parseMarkup(body)) {
+    const source = body.slice(node.start, node.end);
+    // Whitespace between elements stays with the element before it
+    if (node.type === 'text' && !source.trim() && blocks.length) blocks[blocks.length - 1] += source;
+    else blocks.push(source);
+  }
+  return blocks;
+}
+
+/**
+ * Blocks are compared by their Markdown, so a block written back as
+ * Markdown matches the <div> it was read from.
+ */
+function blockKey(block: string): string {
+  return enmlToMarkdown(block);
+}
+
+/** A unified diff of the Markdown of two versions of a note, empty if they read the same */
+export function diffEnml(from: string, to: string): string {
+  return unifiedDiff(enmlToMarkdown(from), enmlToMarkdown(to));
+}
+
+export interface EnmlMerge {
+  enml: string;
+  /** Blocks both versions changed, as Markdown; the merge used ours */
+  conflicts: MergeConflict<string>[];
+}
+
+/**
+ * Merge the blocks changed in `ours` into `theirs`, both changed from
+ * `base`. Blocks `ours` left alone keep their markup from `theirs`, so
+ * media, checkboxes and styling survive.
+ */
+export function mergeEnml(base: string, ours: string, theirs: string): EnmlMerge {
+  const merged = merge3(enmlBlocks(base), enmlBlocks(ours), enmlBlocks(theirs), blockKey);
+  const { head, tail } = splitEnml(theirs);
+  return {
+    enml: head + merged.items.join('') + tail,
+    conflicts: merged.conflicts.map((conflict) => ({
+      ours: conflict.ours.map(enmlToMarkdown),
+      theirs: conflict.theirs.map(enmlToMarkdown),
+    })),
+  };
+}
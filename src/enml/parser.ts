@@ -0,0 +1,251 @@
+// src/enml/parser.ts
+import { VOID_ELEMENTS } from './dtd.js';
+
+export interface Attribute {
+  name: string;
+  value: string;
+}
+
+export interface ElementNode {
+  type: 'element';
+  name: string;
+  attributes: Attribute[];
+  children: MarkupNode[];
+  /** Offset of the opening `<` in the source */
+  start: number;
+  /** Offset just past the closing tag (or the opening tag for void elements) */
+  end: number;
+}
+
+export interface TextNode {
+  type: 'text';
+  /** Text with character references decoded */
+  text: string;
+  start: number;
+  end: number;
+}
+
+export type MarkupNode = ElementNode | TextNode;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  copy: '©', reg: '®', trade: '™', hellip: '…',
+  mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+  laquo: '«', raquo: '»', euro: '€', pound: '£',
+  yen: '¥', cent: '¢', sect: '§', para: '¶',
+  deg: '°', plusmn: '±', times: '×', divide: '÷',
+  larr: '←', rarr: '→', uarr: '↑', darr: '↓',
+};
+
+// Elements whose content is not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'xmp', 'textarea']);
+
+// Opening one of these implicitly closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'blockquote', 'center', 'div', 'dl', 'h1', 'h2', 'h3', 'h4',
+  'h5', 'h6', 'hr', 'ol', 'p', 'pre', 'table', 'ul',
+]);
+
+// Opening the key closes an open sibling of the listed kinds
+const CLOSES_SIBLING: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+
+const END_TAG = /<\/([a-zA-Z][\w:.-]*)\s*>/y;
+const START_TAG =
+  /<([a-zA-Z][\w:.-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X'
+        ? parseInt(ref.slice(2), 16)
+        : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref] ?? match;
+  });
+}
+
+export function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Lenient HTML/ENML parser. It never throws: stray `<` characters become
+ * text, unmatched end tags are ignored and unclosed elements are closed at
+ * the end of input. Every node keeps its source offsets so callers can map
+ * nodes back onto the original string.
+ */
+export function parseMarkup(source: string): MarkupNode[] {
+  const root: ElementNode = {
+    type: 'element', name: '#root', attributes: [], children: [], start: 0, end: source.length,
+  };
+  const stack: ElementNode[] = [root];
+  let pos = 0;
+  let textStart = 0;
+
+  const current = () => stack[stack.length - 1];
+
+  const flushText = (until: number) => {
+    if (until > textStart) {
+      current().children.push({
+        type: 'text',
+        text: decodeEntities(source.slice(textStart, until)),
+        start: textStart,
+        end: until,
+      });
+    }
+  };
+
+  const closeTo = (index: number, end: number) => {
+    while (stack.length > index) {
+      const element = stack.pop()!;
+      element.end = end;
+    }
+  };
+
+  const openIndex = (names: string[], stopAt: string[] = []) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (names.includes(stack[i].name)) return i;
+      if (stopAt.includes(stack[i].name)) return -1;
+    }
+    return -1;
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) break;
+
+    if (source.startsWith('<!--', lt)) {
+      flushText(lt);
+      const close = source.indexOf('-->', lt + 4);
+      pos = textStart = close === -1 ? source.length : close + 3;
+      continue;
+    }
+
+    if (source.startsWith('<![CDATA[', lt)) {
+      flushText(lt);
+      const close = source.indexOf(']]>', lt + 9);
+      const end = close === -1 ? source.length : close + 3;
+      current().children.push({
+        type: 'text',
+        text: source.slice(lt + 9, close === -1 ? source.length : close),
+        start: lt,
+        end,
+      });
+      pos = textStart = end;
+      continue;
+    }
+
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      flushText(lt);
+      const close = source.indexOf('>', lt + 2);
+      pos = textStart = close === -1 ? source.length : close + 1;
+      continue;
+    }
+
+    END_TAG.lastIndex = lt;
+    const endTag = END_TAG.exec(source);
+    if (endTag) {
+      flushText(lt);
+      const name = endTag[1].toLowerCase();
+      const index = openIndex([name]);
+      pos = textStart = lt + endTag[0].length;
+      if (index !== -1) closeTo(index, pos);
+      continue;
+    }
+
+    START_TAG.lastIndex = lt;
+    const startTag = START_TAG.exec(source);
+    if (!startTag) {
+      // A lone `<` is just text
+      pos = lt + 1;
+      continue;
+    }
+
+    flushText(lt);
+    const name = startTag[1].toLowerCase();
+    const tagEnd = lt + startTag[0].length;
+
+    if (CLOSES_PARAGRAPH.has(name)) {
+      const index = openIndex(['p'], ['div', 'li', 'td', 'th', 'blockquote']);
+      if (index !== -1) closeTo(index, lt);
+    }
+    const siblings = CLOSES_SIBLING[name];
+    if (siblings) {
+      const index = openIndex(siblings, ['ul', 'ol', 'dl', 'table', 'tbody', 'thead', 'tfoot', 'select']);
+      if (index !== -1) closeTo(index, lt);
+    }
+
+    const element: ElementNode = {
+      type: 'element',
+      name,
+      attributes: parseAttributes(startTag[2]),
+      children: [],
+      start: lt,
+      end: tagEnd,
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(name) && !startTag[3]) {
+      const closeMatch = new RegExp(`</${name}\\s*>`, 'i').exec(source.slice(tagEnd));
+      const contentEnd = closeMatch ? tagEnd + closeMatch.index : source.length;
+      if (contentEnd > tagEnd) {
+        element.children.push({
+          type: 'text',
+          text: name === 'xmp' ? source.slice(tagEnd, contentEnd) : decodeEntities(source.slice(tagEnd, contentEnd)),
+          start: tagEnd,
+          end: contentEnd,
+        });
+      }
+      element.end = closeMatch ? contentEnd + closeMatch[0].length : source.length;
+      pos = textStart = element.end;
+      continue;
+    }
+
+    if (!startTag[3] && !VOID_ELEMENTS.has(name)) {
+      stack.push(element);
+    }
+    pos = textStart = tagEnd;
+  }
+
+  flushText(source.length);
+  closeTo(1, source.length);
+  return root.children;
+}
+
+function parseAttributes(source: string): Attribute[] {
+  const attributes: Attribute[] = [];
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (attributes.some((attribute) => attribute.name === name)) continue;
+    const raw = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes.push({ name, value: decodeEntities(raw) });
+  }
+  return attributes;
+}
+
+export function getAttribute(element: ElementNode, name: string): string | undefined {
+  return element.attributes.find((attribute) => attribute.name === name)?.value;
+}
+
+/** Concatenated text content of a node list, ignoring markup */
+export function textContent(nodes: MarkupNode[]): string {
+  return nodes
+    .map((node) => (node.type === 'text' ? node.text : textContent(node.children)))
+    .join('');
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { enmlToMarkdown, enmlToText } from './render.js';
+import { toEnml } from './convert.js';
+
+const note = (body: string) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n' +
+  `<en-note>${body}</en-note>`;
+
+describe('enmlToMarkdown', () => {
+  it('should drop the XML declaration and DOCTYPE', () => {
+    expect(enmlToMarkdown(note('<div>Hello</div>'))).toBe('Hello');
+  });
+
+  it('should render Evernote line divs as paragraphs, so they stay lines when read back', () => {
+    const markdown = enmlToMarkdown(note('<div>one</div><div>two <b>bold</b></div><div><br/></div><div>three</div>'));
+    expect(markdown).toBe('one\n\ntwo **bold**\n\nthree');
+    expect(enmlToMarkdown(toEnml(markdown))).toBe(markdown);
+  });
+
+  it('should render headings, paragraphs and inline formatting', () => {
+    expect(enmlToMarkdown(note('<h2>Plan</h2><p>See <a href="https://example.com">site</a> and <code>x()</code></p>'))).toBe(
+      '## Plan\n\nSee [site](https://example.com) and `x()`'
+    );
+  });
+
+  it('should render checkboxes as task items', () => {
+    expect(enmlToMarkdown(note('<div><en-todo checked="true"/>done</div><div><en-todo/>open</div>'))).toBe(
+      '- [x] done\n- [ ] open'
+    );
+  });
+
+  it('should render nested lists', () => {
+    expect(enmlToMarkdown(note('<ol><li>one<ul><li>a</li></ul></li><li>two</li></ol>'))).toBe(
+      '1. one\n   - a\n2. two'
+    );
+  });
+
+  it('should render attachments and encrypted content as placeholders', () => {
+    expect(enmlToMarkdown(note(
+      '<div><en-media type="image/png" hash="0123abcd"/></div><en-crypt hint="pet">c2VjcmV0</en-crypt>'
+    ))).toBe('[Attachment: image/png, hash 0123abcd]\n\n[Encrypted content redacted, hint: pet]');
+  });
+
+  it('should render tables as Markdown tables', () => {
+    expect(enmlToMarkdown(note(
+      '<table><tr><th>Item</th><th>Qty</th></tr><tr><td>a|b</td><td><div>3</div></td></tr></table>'
+    ))).toBe('| Item | Qty |\n| --- | --- |\n| a\\|b | 3 |');
+  });
+
+  it('should escape literal text that Markdown would read as syntax', () => {
+    const enml = note('<div># Not a heading</div><div>1. &lt;script&gt; *word* [x](y) snake_case &amp;amp;</div>');
+    const markdown = enmlToMarkdown(enml);
+    expect(markdown).toBe('\\# Not a heading\n\n1\\. \\<script> \\*word\\* [x\\](y) snake\\_case \\&amp;');
+    expect(enmlToMarkdown(toEnml(markdown))).toBe(markdown);
+  });
+
+  it('should round-trip Markdown produced by the converter', () => {
+    const markdown = '# Title\n\nSome **bold** text\n\n- [ ] task\n\n```\ncode < here\n```';
+    expect(enmlToMarkdown(toEnml(markdown))).toBe(markdown);
+  });
+});
+
+describe('enmlToText', () => {
+  it('should keep Evernote lines on single lines', () => {
+    expect(enmlToText(note('<div>one</div><div><br/></div><div>two</div>'))).toBe('one\n\ntwo');
+  });
+
+  it('should render plain text without Markdown syntax', () => {
+    expect(enmlToText(note('<h1>Title</h1><p><b>Bold</b> <a href="https://example.com">link</a></p>'))).toBe(
+      'Title\n\nBold link (https://example.com)'
+    );
+  });
+
+  it('should render tables as tab-separated rows', () => {
+    expect(enmlToText(note('<table><tr><td>a</td><td>b</td></tr></table>'))).toBe('a\tb');
+  });
+});
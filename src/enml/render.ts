@@ -0,0 +1,284 @@
+// src/enml/render.ts
+import { extractEnmlBody } from './convert.js';
+import { ElementNode, MarkupNode, getAttribute, parseMarkup } from './parser.js';
+
+export type RenderStyle = 'markdown' | 'text';
+
+interface Block {
+  text: string;
+  /** Evernote stores one line per <div>; those are joined without a blank line */
+  tight: boolean;
+  /** A checklist line, which Markdown reads as a list item */
+  todo?: boolean;
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'blockquote', 'center', 'dd', 'div', 'dl', 'dt', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'hr', 'li', 'ol', 'p', 'pre', 'table', 'ul', 'xmp',
+]);
+
+export function enmlToMarkdown(enml: string): string {
+  return renderEnml(enml, 'markdown');
+}
+
+export function enmlToText(enml: string): string {
+  return renderEnml(enml, 'text');
+}
+
+export function renderEnml(enml: string, style: RenderStyle): string {
+  const nodes = parseMarkup(extractEnmlBody(enml));
+  return joinBlocks(new Renderer(style).blocks(nodes), style === 'markdown').trim();
+}
+
+/**
+ * Markdown reads lines without a blank one between them as one paragraph,
+ * so there each Evernote line is a paragraph of its own and empty lines add
+ * nothing. Only checklist lines stay together, as one list.
+ */
+function joinBlocks(blocks: Block[], markdown: boolean): string {
+  const shown = markdown ? blocks.filter((block) => block.text !== '' || !block.tight) : blocks;
+  let result = '';
+  shown.forEach((block, index) => {
+    const previous = shown[index - 1];
+    if (previous) {
+      const together = block.tight && previous.tight && (!markdown || (block.todo && previous.todo));
+      result += together ? '\n' : '\n\n';
+    }
+    result += block.text;
+  });
+  return result;
+}
+
+function isBlock(node: MarkupNode): boolean {
+  return node.type === 'element' && BLOCK_ELEMENTS.has(node.name);
+}
+
+function collapse(text: string): string {
+  return text.replace(/[ \t\r\n]+/g, ' ');
+}
+
+/**
+ * Backslash-escape what Markdown would read as syntax in literal text: inline
+ * markers, tags and link brackets everywhere, and block markers where a line
+ * could start. Brackets alone stay, so placeholders read back the same.
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_<&~]|\](?=\()/g, '\\$&')
+    .replace(/^(\s*)([#>+-])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/, '$1\\$2');
+}
+
+function cleanLines(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^ +| +$/g, ''))
+    .join('\n');
+}
+
+class Renderer {
+  private readonly markdown: boolean;
+
+  constructor(style: RenderStyle) {
+    this.markdown = style === 'markdown';
+  }
+
+  /** Render a node list into blocks, grouping loose inline content into lines */
+  blocks(nodes: MarkupNode[], tight = true): Block[] {
+    const result: Block[] = [];
+    let inline: MarkupNode[] = [];
+
+    const flush = () => {
+      const text = cleanLines(this.inline(inline));
+      if (text.trim() !== '') result.push({ text, tight });
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (isBlock(node)) {
+        flush();
+        result.push(...this.block(node as ElementNode));
+      } else {
+        inline.push(node);
+      }
+    }
+    flush();
+    return result;
+  }
+
+  private block(element: ElementNode): Block[] {
+    switch (element.name) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const text = this.inline(element.children).trim();
+        const prefix = this.markdown ? `${'#'.repeat(Number(element.name[1]))} ` : '';
+        return text ? [{ text: prefix + text, tight: false }] : [];
+      }
+      case 'hr':
+        return [{ text: this.markdown ? '---' : '----------', tight: false }];
+      case 'pre':
+      case 'xmp': {
+        const code = this.raw(element.children).replace(/^\n|\n$/g, '');
+        return [{ text: this.markdown ? `\`\`\`\n${code}\n\`\`\`` : code, tight: false }];
+      }
+      case 'blockquote': {
+        const text = joinBlocks(this.blocks(element.children), this.markdown);
+        return [{ text: text.split('\n').map((line) => `> ${line}`.trimEnd()).join('\n'), tight: false }];
+      }
+      case 'ul':
+      case 'ol':
+        return [{ text: this.list(element), tight: false }];
+      case 'table':
+        return [{ text: this.table(element), tight: false }];
+      case 'div': {
+        // A line holding nothing but <br/> is how Evernote stores an empty line
+        if (this.isEmptyLine(element)) return [{ text: '', tight: true }];
+        const todo = this.todoLine(element);
+        return todo !== undefined ? [{ text: todo, tight: true, todo: true }] : this.blocks(element.children, true);
+      }
+      default:
+        return this.blocks(element.children, element.name !== 'p' && element.name !== 'dl');
+    }
+  }
+
+  private isEmptyLine(element: ElementNode): boolean {
+    return element.children.every(
+      (child) => (child.type === 'text' && child.text.trim() === '') || (child.type === 'element' && child.name === 'br')
+    ) && element.children.some((child) => child.type === 'element');
+  }
+
+  /** `<div><en-todo/>text</div>` is the Evernote checklist idiom */
+  private todoLine(element: ElementNode): string | undefined {
+    const first = element.children.find((child) => child.type !== 'text' || child.text.trim() !== '');
+    if (!first || first.type !== 'element' || first.name !== 'en-todo') return undefined;
+    if (element.children.some(isBlock)) return undefined;
+    const rest = element.children.slice(element.children.indexOf(first) + 1);
+    return `- ${this.checkbox(first)} ${cleanLines(this.inline(rest)).trim()}`.trimEnd();
+  }
+
+  private checkbox(element: ElementNode): string {
+    return getAttribute(element, 'checked') === 'true' ? '[x]' : '[ ]';
+  }
+
+  private list(element: ElementNode): string {
+    const ordered = element.name === 'ol';
+    let number = ordered ? parseInt(getAttribute(element, 'start') ?? '1', 10) || 1 : 1;
+    const items: string[] = [];
+
+    for (const child of element.children) {
+      if (child.type !== 'element') continue;
+      const marker = ordered ? `${number++}.` : '-';
+      const body = this.blocks(child.name === 'li' ? child.children : [child])
+        .map((block) => block.text)
+        .join('\n');
+      const indent = ' '.repeat(marker.length + 1);
+      const [first = '', ...rest] = body.split('\n');
+      items.push([`${marker} ${first}`.trimEnd(), ...rest.map((line) => (line ? indent + line : line))].join('\n'));
+    }
+    return items.join('\n');
+  }
+
+  private table(element: ElementNode): string {
+    const rows: string[][] = [];
+    const collect = (nodes: MarkupNode[]) => {
+      for (const node of nodes) {
+        if (node.type !== 'element') continue;
+        if (node.name === 'tr') {
+          rows.push(
+            node.children
+              .filter((cell): cell is ElementNode => cell.type === 'element' && (cell.name === 'td' || cell.name === 'th'))
+              .map((cell) => joinBlocks(this.blocks(cell.children), false).replace(/\n+/g, ' ').trim())
+          );
+        } else if (node.name !== 'caption') {
+          collect(node.children);
+        }
+      }
+    };
+    collect(element.children);
+    if (rows.length === 0) return '';
+
+    const width = Math.max(...rows.map((row) => row.length));
+    const padded = rows.map((row) => [...row, ...Array(width - row.length).fill('')]);
+    if (!this.markdown) return padded.map((row) => row.join('\t')).join('\n');
+
+    const line = (row: string[]) => `| ${row.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+    return [line(padded[0]), `|${' --- |'.repeat(width)}`, ...padded.slice(1).map(line)].join('\n');
+  }
+
+  private inline(nodes: MarkupNode[]): string {
+    return nodes.map((node) => this.inlineNode(node)).join('');
+  }
+
+  private wrap(marker: string, element: ElementNode): string {
+    const text = this.inline(element.children);
+    if (!this.markdown || text.trim() === '') return text;
+    // Keep surrounding spaces outside the markers so the emphasis still parses
+    const [, lead, body, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+    return `${lead}${marker}${body}${marker}${trail}`;
+  }
+
+  private inlineNode(node: MarkupNode): string {
+    if (node.type === 'text') return this.markdown ? escapeMarkdown(collapse(node.text)) : collapse(node.text);
+
+    switch (node.name) {
+      case 'br':
+        return '\n';
+      case 'b':
+      case 'strong':
+        return this.wrap('**', node);
+      case 'i':
+      case 'em':
+        return this.wrap('*', node);
+      case 's':
+      case 'strike':
+      case 'del':
+        return this.wrap('~~', node);
+      case 'code':
+      case 'tt':
+      case 'kbd':
+      case 'samp': {
+        const code = collapse(this.raw(node.children));
+        return this.markdown ? `\`${code}\`` : code;
+      }
+      case 'a': {
+        const text = this.inline(node.children).trim();
+        const href = getAttribute(node, 'href');
+        if (!href || href === text) return text || href || '';
+        return this.markdown ? `[${text}](${href})` : `${text} (${href})`;
+      }
+      case 'img': {
+        const alt = getAttribute(node, 'alt') ?? '';
+        const src = getAttribute(node, 'src') ?? '';
+        return this.markdown ? `![${alt}](${src})` : `[Image: ${alt || src}]`;
+      }
+      case 'en-todo':
+        return `${this.checkbox(node)} `;
+      case 'en-media': {
+        const type = getAttribute(node, 'type') ?? 'application/octet-stream';
+        const hash = getAttribute(node, 'hash') ?? '';
+        return `[Attachment: ${type}, hash ${hash}]`;
+      }
+      case 'en-crypt': {
+        const hint = getAttribute(node, 'hint');
+        return hint ? `[Encrypted content redacted, hint: ${hint}]` : '[Encrypted content redacted]';
+      }
+      default:
+        return isBlock(node) ? `\n${joinBlocks(this.blocks([node]), this.markdown)}\n` : this.inline(node.children);
+    }
+  }
+
+  private raw(nodes: MarkupNode[]): string {
+    return nodes
+      .map((node) => {
+        if (node.type === 'text') return node.text;
+        if (node.name === 'br') return '\n';
+        if (node.name === 'div' || node.name === 'p') return `${this.raw(node.children)}\n`;
+        return this.raw(node.children);
+      })
+      .join('');
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { sanitizeHtml } from './sanitize.js';
+
+describe('sanitizeHtml', () => {
+  it('should keep allowed elements and attributes', () => {
+    expect(sanitizeHtml('<p style="color:red" align="center">Hi <a href="https://example.com" target="_blank">there</a></p>')).toBe(
+      '<p style="color:red" align="center">Hi <a href="https://example.com" target="_blank">there</a></p>'
+    );
+  });
+
+  it('should drop prohibited elements together with their content', () => {
+    expect(sanitizeHtml('<div>a<script>evil()</script><style>p{}</style><iframe src="x">b</iframe>c</div>')).toBe(
+      '<div>ac</div>'
+    );
+  });
+
+  it('should unwrap prohibited containers but keep their content', () => {
+    expect(sanitizeHtml('<html><body><form><label>Name</label></form></body></html>')).toBe('Name');
+  });
+
+  it('should strip id, class and event handler attributes', () => {
+    expect(sanitizeHtml('<span id="a" class="b" onclick="c()" data-x="y">t</span>')).toBe('<span>t</span>');
+  });
+
+  it('should remove script URLs', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a><img src="data:image/png;base64,AA"/>')).toBe(
+      '<a>x</a><img/>'
+    );
+  });
+
+  it('should rewrite HTML5 sectioning elements and checkboxes', () => {
+    expect(sanitizeHtml('<section><input type="checkbox" checked> done</section>')).toBe(
+      '<div><en-todo checked="true"/> done</div>'
+    );
+  });
+
+  it('should produce well-formed XHTML from sloppy HTML', () => {
+    expect(sanitizeHtml('<p>one<p>two<br>three &nbsp;&copy; &bogus; 1 < 2<ul><li>a<li>b</ul>')).toBe(
+      '<p>one</p><p>two<br/>three \u00a0© &amp;bogus; 1 &lt; 2</p><ul><li>a</li><li>b</li></ul>'
+    );
+  });
+});
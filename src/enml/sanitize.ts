@@ -0,0 +1,77 @@
+// src/enml/sanitize.ts
+import { DROPPED_ELEMENTS, VOID_ELEMENTS, isAllowedAttribute, isAllowedElement } from './dtd.js';
+import {
+  ElementNode,
+  MarkupNode,
+  escapeAttribute,
+  escapeText,
+  getAttribute,
+  parseMarkup,
+} from './parser.js';
+
+// Prohibited or non-ENML elements that are kept under an allowed name
+const RENAMED_ELEMENTS: Record<string, string> = {
+  article: 'div',
+  aside: 'div',
+  dir: 'ul',
+  figcaption: 'div',
+  figure: 'div',
+  footer: 'div',
+  header: 'div',
+  main: 'div',
+  menu: 'ul',
+  nav: 'div',
+  section: 'div',
+  mark: 'span',
+};
+
+const UNSAFE_URL = /^\s*(javascript|vbscript|data):/i;
+
+/**
+ * Rewrite arbitrary HTML into an ENML body: prohibited elements are removed,
+ * unknown wrappers are unwrapped, attributes outside the DTD are stripped and
+ * the result is serialized as well-formed XHTML.
+ */
+export function sanitizeHtml(html: string): string {
+  return serializeNodes(parseMarkup(html));
+}
+
+function serializeNodes(nodes: MarkupNode[]): string {
+  return nodes.map(serializeNode).join('');
+}
+
+function serializeNode(node: MarkupNode): string {
+  if (node.type === 'text') return escapeText(node.text);
+
+  if (node.name === 'input') {
+    const type = getAttribute(node, 'type')?.toLowerCase();
+    if (type === 'checkbox') {
+      return `<en-todo checked="${getAttribute(node, 'checked') !== undefined}"/>`;
+    }
+  }
+  if (DROPPED_ELEMENTS.has(node.name)) return '';
+
+  const name = RENAMED_ELEMENTS[node.name] ?? node.name;
+  if (!isAllowedElement(name) || name === 'en-note') {
+    return serializeNodes(node.children);
+  }
+
+  const attributes = serializeAttributes(name, node);
+  if (VOID_ELEMENTS.has(name)) return `<${name}${attributes}/>`;
+  return `<${name}${attributes}>${serializeNodes(node.children)}</${name}>`;
+}
+
+function serializeAttributes(name: string, element: ElementNode): string {
+  let result = '';
+  for (const { name: attribute, value } of element.attributes) {
+    if (!isAllowedAttribute(name, attribute)) continue;
+    if ((attribute === 'href' || attribute === 'src') && UNSAFE_URL.test(value)) continue;
+
+    let normalized = value;
+    if (name === 'en-todo' && attribute === 'checked') {
+      normalized = String(value === '' || value.toLowerCase() === 'true' || value === 'checked');
+    }
+    result += ` ${attribute}="${escapeAttribute(normalized)}"`;
+  }
+  return result;
+}
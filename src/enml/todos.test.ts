@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { wrapEnml } from './convert.js';
+import { addTodo, listTodos, setTodo } from './todos.js';
+
+// A checklist the way Evernote clients store it, one <div> per item
+const CHECKLIST = wrapEnml(
+  '<h2>Groceries</h2>' +
+    '<div style="margin: 0;"><en-todo checked="true"/>Buy <b>milk</b></div>' +
+    '<div style="margin: 0;"><en-todo checked="false"/>Eggs &amp; flour</div>' +
+    '<div><en-media hash="0123456789abcdef0123456789abcdef" type="image/png"/></div>' +
+    '<ul><li><en-todo checked="false"/>Call the plumber</li></ul>'
+);
+
+describe('listTodos', () => {
+  it('should list each checkbox with the text after it', () => {
+    expect(listTodos(CHECKLIST)).toEqual([
+      { index: 0, text: 'Buy milk', checked: true },
+      { index: 1, text: 'Eggs & flour', checked: false },
+      { index: 2, text: 'Call the plumber', checked: false },
+    ]);
+  });
+
+  it('should split checkboxes sharing a line at line breaks and checkboxes', () => {
+    const shared = wrapEnml(
+      '<div><en-todo checked="false"/>one<br/><en-todo/>two <en-todo checked="true"/>three</div>'
+    );
+    expect(listTodos(shared).map((todo) => [todo.text, todo.checked])).toEqual([
+      ['one', false],
+      ['two', false],
+      ['three', true],
+    ]);
+    expect(listTodos(wrapEnml('<en-todo checked="false"/>loose<div>not part of it</div>'))[0].text).toBe('loose');
+    expect(listTodos(wrapEnml('<div>No checkboxes</div>'))).toEqual([]);
+  });
+});
+
+describe('setTodo', () => {
+  it('should change only the checkbox', () => {
+    const result = setTodo(CHECKLIST, { text: 'eggs' }, true);
+    expect(result.enml).toBe(
+      CHECKLIST.replace('<en-todo checked="false"/>Eggs', '<en-todo checked="true"/>Eggs')
+    );
+    expect(result.summary).toBe('checked "Eggs & flour"');
+    expect(result.todo).toEqual({ index: 1, text: 'Eggs & flour', checked: true });
+  });
+
+  it('should toggle by index', () => {
+    const result = setTodo(CHECKLIST, { index: 0 }, 'toggle');
+    expect(result.summary).toBe('unchecked "Buy milk"');
+    expect(listTodos(result.enml).map((todo) => todo.checked)).toEqual([false, false, false]);
+  });
+
+  it('should prefer an exact match and report ambiguous and missing ones', () => {
+    const similar = wrapEnml('<div><en-todo/>Milk</div><div><en-todo/>Milk powder</div><div><en-todo/>Oat milk</div>');
+    expect(setTodo(similar, { text: 'milk' }, true).todo.index).toBe(0);
+    expect(() => setTodo(similar, { text: 'MILK ' }, true)).not.toThrow();
+    expect(() => setTodo(similar, { text: 'ilk' }, true)).toThrow(
+      '"ilk" matches 3 to-dos: 0 "Milk", 1 "Milk powder", 2 "Oat milk". Pass index to pick one'
+    );
+    expect(() => setTodo(similar, { text: 'bread' }, true)).toThrow(
+      'No to-do matching "bread". The note\'s to-dos are: 0'
+    );
+    expect(() => setTodo(similar, { index: 3 }, true)).toThrow(
+      'No to-do at index 3; the note\'s to-dos are numbered 0 to 2'
+    );
+    expect(() => setTodo(wrapEnml('<div>x</div>'), { index: 0 }, true)).toThrow('The note has no to-dos');
+  });
+});
+
+describe('addTodo', () => {
+  it('should add a line like the last to-do after it', () => {
+    const result = addTodo(CHECKLIST, { text: 'Fix <sink>' });
+    expect(result.enml).toBe(
+      CHECKLIST.replace('</li></ul>', '</li><li><en-todo checked="false"/>Fix &lt;sink&gt;</li></ul>')
+    );
+    expect(result).toMatchObject({
+      summary: 'added "Fix <sink>" after "Call the plumber"',
+      todo: { index: 3, text: 'Fix <sink>', checked: false },
+    });
+  });
+
+  it('should add after a chosen to-do, with its line styling', () => {
+    const result = addTodo(CHECKLIST, { text: 'Butter', checked: true, after: { text: 'milk' } });
+    expect(result.enml).toBe(
+      CHECKLIST.replace(
+        'milk</b></div>',
+        'milk</b></div><div style="margin: 0;"><en-todo checked="true"/>Butter</div>'
+      )
+    );
+    expect(listTodos(result.enml)[1]).toEqual({ index: 1, text: 'Butter', checked: true });
+  });
+
+  it('should add after a line break when checkboxes share a line', () => {
+    const shared = wrapEnml('<div><en-todo checked="false"/>one<br/><en-todo checked="true"/>two</div>');
+    expect(addTodo(shared, { text: 'between', after: { index: 0 } }).enml).toBe(
+      shared.replace('<br/>', '<br/><en-todo checked="false"/>between<br/>')
+    );
+  });
+
+  it('should add after a line break in a table cell, not a new cell', () => {
+    const table = wrapEnml('<table><tr><td style="width: 50%;"><en-todo checked="false"/>Book room</td></tr></table>');
+    expect(addTodo(table, { text: 'Send invites' }).enml).toBe(
+      table.replace('Book room</td>', 'Book room<br/><en-todo checked="false"/>Send invites</td>')
+    );
+  });
+
+  it('should start a checklist at the end of a note without one', () => {
+    expect(addTodo(wrapEnml('<div>Plan</div>'), { text: 'First step' }).enml).toBe(
+      wrapEnml('<div>Plan</div><div><en-todo checked="false"/>First step</div>')
+    );
+  });
+});
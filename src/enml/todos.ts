@@ -0,0 +1,197 @@
+// src/enml/todos.ts
+// Checklist items, the <en-todo> checkboxes of a note, and edits to them that leave the rest of the note as it was.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { EditResult, splitEnml } from './edit.js';
+import { ElementNode, MarkupNode, TextNode, escapeText, getAttribute, parseMarkup } from './parser.js';
+
+export interface TodoItem {
+  /** Position among the note's checkboxes, from 0 */
+  index: number;
+  text: string;
+  checked: boolean;
+}
+
+/** Which to-dos list_todos shows */
+export const TODO_STATUSES = ['all', 'open', 'done'] as const;
+export type TodoStatus = (typeof TODO_STATUSES)[number];
+
+export function isTodoStatus(value: unknown): value is TodoStatus {
+  return TODO_STATUSES.includes(value as TodoStatus);
+}
+
+/** Picks one to-do: by index, or by its text */
+export interface TodoSelector {
+  index?: number;
+  /** Matched ignoring case and spacing, first whole, then as part of the item's text */
+  text?: string;
+}
+
+interface LocatedTodo extends TodoItem {
+  checkbox: ElementNode;
+  /** The block holding the checkbox, such as its <div> line; none at the top of the note */
+  line?: ElementNode;
+  /** Where the item's text ends */
+  end: number;
+}
+
+/** Elements that end a to-do's text, besides the next checkbox */
+const BREAKS = new Set([
+  'blockquote', 'br', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'ol', 'p', 'pre', 'table', 'ul',
+]);
+
+const LINES = new Set(['div', 'li', 'p', 'td', 'th', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/** Lines a new to-do can copy; another table cell or heading would change the note's layout */
+const COPIED_LINES = new Set(['div', 'li', 'p']);
+
+function locate(body: string): LocatedTodo[] {
+  const found: { checkbox: ElementNode; line?: ElementNode }[] = [];
+  const visit = (nodes: MarkupNode[], line?: ElementNode) => {
+    for (const node of nodes) {
+      if (node.type !== 'element') continue;
+      if (node.name === 'en-todo') found.push({ checkbox: node, line });
+      else visit(node.children, LINES.has(node.name) ? node : line);
+    }
+  };
+  const nodes = parseMarkup(body);
+  visit(nodes);
+
+  return found.map(({ checkbox, line }, index) => {
+    const scope = line ? line.children : nodes;
+    const last = scope[scope.length - 1];
+    // The text runs to the next checkbox, line break or block, or the end of the line
+    let end = last.end;
+    const limit = (nodes: MarkupNode[]) => {
+      for (const node of nodes) {
+        if (node.type !== 'element' || node.end <= checkbox.end || node.start >= end) continue;
+        if (node.start >= checkbox.end && (node.name === 'en-todo' || BREAKS.has(node.name))) end = node.start;
+        else limit(node.children);
+      }
+    };
+    limit(scope);
+    const texts: TextNode[] = [];
+    const collect = (nodes: MarkupNode[]) => {
+      for (const node of nodes) {
+        if (node.end <= checkbox.end || node.start >= end) continue;
+        if (node.type === 'text') texts.push(node);
+        else collect(node.children);
+      }
+    };
+    collect(scope);
+
+    return {
+      index,
+      text: texts.map((node) => node.text).join('').replace(/\s+/g, ' ').trim(),
+      checked: getAttribute(checkbox, 'checked') === 'true',
+      checkbox,
+      line,
+      end,
+    };
+  });
+}
+
+export function listTodos(enml: string): TodoItem[] {
+  return locate(splitEnml(enml).body).map(({ index, text, checked }) => ({ index, text, checked }));
+}
+
+function describe(todos: TodoItem[]): string {
+  return todos.map((todo) => `${todo.index} "${todo.text}"`).join(', ');
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function select<T extends TodoItem>(todos: T[], selector: TodoSelector): T {
+  if (!todos.length) throw new McpError(ErrorCode.InvalidParams, 'The note has no to-dos');
+  if (selector.index !== undefined) {
+    const todo = todos[selector.index];
+    if (!Number.isInteger(selector.index) || !todo) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No to-do at index ${selector.index}; the note's to-dos are numbered 0 to ${todos.length - 1}`
+      );
+    }
+    return todo;
+  }
+
+  const wanted = normalize(selector.text ?? '');
+  const whole = todos.filter((todo) => normalize(todo.text) === wanted);
+  const matches = whole.length ? whole : todos.filter((todo) => normalize(todo.text).includes(wanted));
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `"${selector.text}" matches ${matches.length} to-dos: ${describe(matches)}. Pass index to pick one`
+    );
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `No to-do matching "${selector.text}". The note's to-dos are: ${describe(todos)}`
+  );
+}
+
+/** Check or uncheck one to-do, or with `toggle` flip it, changing only its checkbox */
+export function setTodo(
+  enml: string,
+  selector: TodoSelector,
+  checked: boolean | 'toggle'
+): EditResult & { todo: TodoItem } {
+  const { head, body, tail } = splitEnml(enml);
+  const todo = select(locate(body), selector);
+  const value = checked === 'toggle' ? !todo.checked : checked;
+  const checkbox = `<en-todo checked="${value}"/>`;
+  return {
+    enml: head + body.slice(0, todo.checkbox.start) + checkbox + body.slice(todo.checkbox.end) + tail,
+    summary: `${value ? 'checked' : 'unchecked'} "${todo.text}"`,
+    todo: { index: todo.index, text: todo.text, checked: value },
+  };
+}
+
+export interface NewTodo {
+  text: string;
+  checked?: boolean;
+  /** The to-do to add it after; by default the last one */
+  after?: TodoSelector;
+}
+
+/**
+ * Add a to-do after another, laid out like it: a line of its own when
+ * checkboxes are in <div>s, paragraphs or list items, or after a <br/> when
+ * they share one or sit in a table cell. A note without to-dos gets a new
+ * line at the end.
+ */
+export function addTodo(enml: string, todo: NewTodo): EditResult & { todo: TodoItem } {
+  const { head, body, tail } = splitEnml(enml);
+  const todos = locate(body);
+  const item = `<en-todo checked="${todo.checked ?? false}"/>${escapeText(todo.text)}`;
+  const text = todo.text.replace(/\s+/g, ' ').trim();
+
+  if (!todos.length) {
+    return {
+      enml: `${head}${body}<div>${item}</div>${tail}`,
+      summary: `added "${text}" to the end`,
+      todo: { index: 0, text, checked: todo.checked ?? false },
+    };
+  }
+
+  const previous = todo.after ? select(todos, todo.after) : todos[todos.length - 1];
+  const { line } = previous;
+  const ownLine =
+    line && COPIED_LINES.has(line.name) && todos.filter((other) => other.line === line).length === 1;
+  let offset: number;
+  let markup: string;
+  if (ownLine) {
+    // The same start tag, so the new line is styled like its neighbour
+    offset = line.end;
+    markup = `${body.slice(line.start, line.children[0].start)}${item}</${line.name}>`;
+  } else {
+    offset = previous.end;
+    markup = `<br/>${item}`;
+  }
+  return {
+    enml: head + body.slice(0, offset) + markup + body.slice(offset) + tail,
+    summary: `added "${text}" after "${previous.text}"`,
+    todo: { index: previous.index + 1, text, checked: todo.checked ?? false },
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { assertValidEnml, validateEnml } from './validate.js';
+import { toEnml } from './convert.js';
+
+const doc = (body: string) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n' +
+  `<en-note>${body}</en-note>`;
+
+describe('validateEnml', () => {
+  it('should accept valid documents', () => {
+    expect(validateEnml(doc('<div>a &amp; b &nbsp;&#169;<br/><en-todo checked="true"/></div>'))).toEqual([]);
+    expect(validateEnml(doc('<en-media type="image/png" hash="abc"></en-media>'))).toEqual([]);
+  });
+
+  it('should accept converter output', () => {
+    const markdown = '# T\n\n- [ ] a\n\n| x | y |\n|---|---|\n| 1 < 2 | & |\n\n```\n<tag>\n```';
+    expect(validateEnml(toEnml(markdown))).toEqual([]);
+  });
+
+  it('should report unescaped characters with their position', () => {
+    expect(validateEnml('<div>a & b</div>\n<div>x < y</div>', { fragment: true })).toEqual([
+      { message: 'Unescaped "&" (use &amp;)', line: 1, column: 8, element: 'div' },
+      { message: 'Unescaped "<" (use &lt;)', line: 2, column: 8, element: 'div' },
+    ]);
+  });
+
+  it('should report mismatched and unclosed tags', () => {
+    expect(validateEnml('<div><b>x</div>', { fragment: true }).map((issue) => issue.message)).toEqual([
+      'Mismatched closing tag </div>, expected </b>',
+    ]);
+    expect(validateEnml('<div><p>x</p>', { fragment: true }).map((issue) => issue.message)).toEqual([
+      'Unclosed element <div>',
+    ]);
+  });
+
+  it('should report prohibited elements and attributes', () => {
+    expect(validateEnml('<div id="x"><script>1</script><iframe/></div>', { fragment: true })).toEqual([
+      { message: 'Attribute "id" is not allowed on <div>', line: 1, column: 6, element: 'div' },
+      { message: 'Element <script> is prohibited in ENML', line: 1, column: 13, element: 'script' },
+      { message: 'Element <iframe> is prohibited in ENML', line: 1, column: 31, element: 'iframe' },
+    ]);
+  });
+
+  it('should enforce empty elements and required attributes', () => {
+    expect(validateEnml('<en-todo>x</en-todo><en-media type="image/png"/>', { fragment: true }).map((issue) => issue.message)).toEqual([
+      'Element <en-todo> must be empty',
+      'Unexpected closing tag </en-todo>',
+      'Missing required attribute "hash" on <en-media>',
+    ]);
+  });
+
+  it('should reject unquoted attributes and unknown entities', () => {
+    expect(validateEnml('<div align=left>&bogus;</div>', { fragment: true }).map((issue) => issue.message)).toEqual([
+      'Malformed attribute or unterminated tag <div>',
+      'Unknown entity &bogus;',
+    ]);
+  });
+
+  it('should require an en-note root', () => {
+    expect(validateEnml('<div>x</div>').map((issue) => issue.message)).toEqual([
+      'The root element must be <en-note>',
+      'Missing <en-note> root element',
+    ]);
+  });
+});
+
+describe('assertValidEnml', () => {
+  it('should throw an InvalidParams error with the issues attached', () => {
+    let error: unknown;
+    try {
+      assertValidEnml('<p>1 < 2 & 3</p>', { fragment: true });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+    expect((error as McpError).message).toContain('Invalid ENML at line 1, column 6: Unescaped "<" (use &lt;) (and 1 more)');
+    expect((error as McpError).data).toEqual({
+      issues: [
+        { message: 'Unescaped "<" (use &lt;)', line: 1, column: 6, element: 'p' },
+        { message: 'Unescaped "&" (use &amp;)', line: 1, column: 10, element: 'p' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,259 @@
+// src/enml/validate.ts
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DROPPED_ELEMENTS,
+  EMPTY_ELEMENTS,
+  ENML_ENTITIES,
+  REQUIRED_ATTRIBUTES,
+  isAllowedAttribute,
+  isAllowedElement,
+} from './dtd.js';
+
+export interface EnmlIssue {
+  message: string;
+  line: number;
+  column: number;
+  /** The element the problem was found in or on, if any */
+  element?: string;
+}
+
+export interface ValidateOptions {
+  /**
+   * Validate the content of an <en-note> rather than a complete document.
+   * Positions are then reported relative to the fragment.
+   */
+  fragment?: boolean;
+}
+
+const NAME = /[A-Za-z_:][\w:.-]*/y;
+const WHITESPACE = /\s*/y;
+const ATTRIBUTE = /([A-Za-z_:][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)')/y;
+const ENTITY = /&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z][A-Za-z0-9]*);/y;
+
+function position(source: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset; i++) {
+    if (source[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Check a document against the ENML rules: XML well-formedness, the
+ * element and attribute set from enml2.dtd, and character escaping.
+ * Returns every problem found, in document order.
+ */
+export function validateEnml(source: string, options: ValidateOptions = {}): EnmlIssue[] {
+  const issues: EnmlIssue[] = [];
+  const stack: { name: string; offset: number }[] = [];
+  let rootSeen = !!options.fragment;
+  let pos = 0;
+
+  if (options.fragment) stack.push({ name: 'en-note', offset: 0 });
+
+  const report = (offset: number, message: string, element?: string) => {
+    issues.push({ message, element, ...position(source, offset) });
+  };
+
+  const checkEntities = (from: number, to: number, element?: string) => {
+    let amp = source.indexOf('&', from);
+    while (amp !== -1 && amp < to) {
+      ENTITY.lastIndex = amp;
+      const match = ENTITY.exec(source);
+      if (!match || ENTITY.lastIndex > to) {
+        report(amp, 'Unescaped "&" (use &amp;)', element);
+      } else if (match[1][0] !== '#' && !ENML_ENTITIES.has(match[1])) {
+        report(amp, `Unknown entity &${match[1]};`, element);
+      }
+      amp = source.indexOf('&', amp + 1);
+    }
+  };
+
+  if (!options.fragment) {
+    const prolog = /^\s*(<\?xml[^>]*\?>)?\s*(<!DOCTYPE\s+en-note[^>]*>)?/.exec(source)!;
+    pos = prolog[0].length;
+  }
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    const textEnd = lt === -1 ? source.length : lt;
+
+    if (textEnd > pos) {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        if (source.slice(pos, textEnd).trim() !== '') {
+          report(pos + source.slice(pos, textEnd).search(/\S/), 'Text outside of <en-note>');
+        }
+      } else {
+        checkEntities(pos, textEnd, top.name);
+      }
+    }
+    if (lt === -1) break;
+
+    if (source.startsWith('<!--', lt)) {
+      const close = source.indexOf('-->', lt + 4);
+      if (close === -1) {
+        report(lt, 'Unterminated comment');
+        break;
+      }
+      pos = close + 3;
+      continue;
+    }
+
+    if (source.startsWith('<![CDATA[', lt)) {
+      const close = source.indexOf(']]>', lt + 9);
+      if (close === -1) {
+        report(lt, 'Unterminated CDATA section');
+        break;
+      }
+      pos = close + 3;
+      continue;
+    }
+
+    if (source[lt + 1] === '?' || source[lt + 1] === '!') {
+      report(lt, source[lt + 1] === '?'
+        ? 'Processing instructions are only allowed at the start of the document'
+        : 'Declarations are only allowed at the start of the document');
+      const close = source.indexOf('>', lt);
+      pos = close === -1 ? source.length : close + 1;
+      continue;
+    }
+
+    if (source[lt + 1] === '/') {
+      NAME.lastIndex = lt + 2;
+      const name = NAME.exec(source)?.[0];
+      const close = source.indexOf('>', lt);
+      if (!name || close === -1 || source.slice(NAME.lastIndex, close).trim() !== '') {
+        report(lt, 'Malformed closing tag');
+        pos = close === -1 ? source.length : close + 1;
+        continue;
+      }
+      pos = close + 1;
+
+      const top = stack[stack.length - 1];
+      if (!top || (options.fragment && stack.length === 1)) {
+        report(lt, `Unexpected closing tag </${name}>`, name);
+      } else if (top.name !== name) {
+        report(lt, `Mismatched closing tag </${name}>, expected </${top.name}>`, top.name);
+        const index = stack.map((entry) => entry.name).lastIndexOf(name);
+        if (index > (options.fragment ? 0 : -1)) stack.length = index;
+      } else {
+        stack.pop();
+      }
+      continue;
+    }
+
+    NAME.lastIndex = lt + 1;
+    const nameMatch = NAME.exec(source);
+    if (!nameMatch) {
+      report(lt, 'Unescaped "<" (use &lt;)', stack[stack.length - 1]?.name);
+      pos = lt + 1;
+      continue;
+    }
+    const name = nameMatch[0];
+    pos = NAME.lastIndex;
+
+    // Attributes
+    const seen = new Set<string>();
+    let selfClosing = false;
+    let malformed = false;
+    for (;;) {
+      WHITESPACE.lastIndex = pos;
+      WHITESPACE.exec(source);
+      const hadSpace = WHITESPACE.lastIndex > pos;
+      pos = WHITESPACE.lastIndex;
+
+      if (source.startsWith('/>', pos)) {
+        selfClosing = true;
+        pos += 2;
+        break;
+      }
+      if (source[pos] === '>') {
+        pos++;
+        break;
+      }
+
+      ATTRIBUTE.lastIndex = pos;
+      const attribute = ATTRIBUTE.exec(source);
+      if (!attribute || !hadSpace) {
+        report(pos, `Malformed attribute or unterminated tag <${name}>`, name);
+        malformed = true;
+        const close = source.indexOf('>', pos);
+        pos = close === -1 ? source.length : close + 1;
+        break;
+      }
+
+      const attributeName = attribute[1];
+      const value = attribute[3] ?? attribute[4];
+      const valueStart = pos + attribute[0].length - value.length - 1;
+      if (seen.has(attributeName)) {
+        report(pos, `Duplicate attribute "${attributeName}" on <${name}>`, name);
+      } else if (isAllowedElement(name) && !isAllowedAttribute(name, attributeName)) {
+        report(pos, `Attribute "${attributeName}" is not allowed on <${name}>`, name);
+      }
+      if (value.includes('<')) {
+        report(valueStart + value.indexOf('<'), `Unescaped "<" in attribute "${attributeName}"`, name);
+      }
+      checkEntities(valueStart, valueStart + value.length, name);
+      seen.add(attributeName);
+      pos = ATTRIBUTE.lastIndex;
+    }
+
+    if (!isAllowedElement(name)) {
+      report(lt, DROPPED_ELEMENTS.has(name) || ['html', 'body', 'form'].includes(name)
+        ? `Element <${name}> is prohibited in ENML`
+        : `Element <${name}> is not allowed in ENML`, name);
+    } else if (!malformed) {
+      for (const required of REQUIRED_ATTRIBUTES[name] ?? []) {
+        if (!seen.has(required)) report(lt, `Missing required attribute "${required}" on <${name}>`, name);
+      }
+    }
+
+    if (name === 'en-note') {
+      if (rootSeen) report(lt, 'Nested or repeated <en-note>', name);
+      rootSeen = true;
+    } else if (!stack.length) {
+      report(lt, rootSeen ? `Element <${name}> outside of <en-note>` : 'The root element must be <en-note>', name);
+    }
+
+    if (!selfClosing) stack.push({ name, offset: lt });
+
+    if (EMPTY_ELEMENTS.has(name) && !selfClosing) {
+      // <br></br> is fine, <br>text</br> is not
+      const close = `</${name}>`;
+      if (source.startsWith(close, pos)) {
+        stack.pop();
+        pos += close.length;
+      } else {
+        report(lt, `Element <${name}> must be empty`, name);
+        stack.pop();
+      }
+    }
+  }
+
+  const unclosed = options.fragment ? stack.slice(1) : stack;
+  for (const entry of unclosed.reverse()) {
+    report(entry.offset, `Unclosed element <${entry.name}>`, entry.name);
+  }
+  if (!rootSeen) report(source.length, 'Missing <en-note> root element');
+
+  return issues;
+}
+
+/** Throw an InvalidParams error describing the first problem found */
+export function assertValidEnml(source: string, options: ValidateOptions = {}): void {
+  const issues = validateEnml(source, options);
+  if (issues.length === 0) return;
+
+  const [first] = issues;
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid ENML at line ${first.line}, column ${first.column}: ${first.message}${more}`,
+    { issues }
+  );
+}
@@ -0,0 +1,93 @@
+// src/format.ts
+import { enmlToMarkdown, enmlToText } from './enml/render.js';
+import { NotesMetadataList } from './thrift/types.js';
+import { noteUri } from './uris.js';
+
+export const OUTPUT_FORMATS = ['markdown', 'text', 'enml', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+export interface NoteView {
+  guid: string;
+  title: string;
+  content?: string;
+  created?: number;
+  updated?: number;
+  notebookGuid?: string;
+  notebookName?: string;
+  tagNames?: string[];
+  /** The update sequence number, which changes with every change to the note */
+  version?: number;
+  /** More `Key: value` lines, for the note's attributes */
+  details?: [string, string][];
+}
+
+function formatDate(timestamp: number | undefined): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+/** A few `Key: value` lines instead of the raw API object */
+export function formatNoteHeader(note: NoteView): string {
+  const fields: [string, string | undefined][] = [
+    ['ID', note.guid],
+    ['Notebook', note.notebookName ?? note.notebookGuid],
+    ['Tags', note.tagNames?.length ? note.tagNames.join(', ') : undefined],
+    ['Created', formatDate(note.created)],
+    ['Updated', formatDate(note.updated)],
+    ['Version', note.version?.toString()],
+    ...(note.details ?? []),
+  ];
+  return fields
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+}
+
+export function formatNote(note: NoteView, format: Exclude<OutputFormat, 'json'>): string {
+  const title = format === 'markdown' ? `# ${note.title}` : note.title;
+  const header = `${title}\n${formatNoteHeader(note)}`;
+  if (note.content === undefined) return header;
+
+  let body: string;
+  switch (format) {
+    case 'markdown':
+      body = enmlToMarkdown(note.content);
+      break;
+    case 'text':
+      body = enmlToText(note.content);
+      break;
+    case 'enml':
+      body = note.content;
+      break;
+  }
+  return `${header}\n\n---\n\n${body}`;
+}
+
+/** A Markdown list of notes linking to their evernote:// URIs */
+export function formatNoteList(heading: string, list: NotesMetadataList): string {
+  const shown = list.notes.length < list.totalNotes ? `${list.notes.length} of ${list.totalNotes}` : `${list.totalNotes}`;
+  const summary = `${shown} note${list.totalNotes === 1 ? '' : 's'}, most recently updated first`;
+  const lines = list.notes.map((note) => {
+    const title = (note.title ?? note.guid).replace(/[[\]\\]/g, '\\$&');
+    const updated = formatDate(note.updated);
+    return `- [${title}](${noteUri(note.guid)})${updated ? `, updated ${updated}` : ''}`;
+  });
+  return [`# ${heading}`, summary, ...(lines.length ? ['', ...lines] : [])].join('\n');
+}
+
+/** The start of a note's text on one line, cut at a word boundary */
+export function formatSnippet(enml: string, length = 200): string {
+  return clipText(enmlToText(enml), length);
+}
+
+/** The start of `text` on one line, cut at a word boundary */
+export function clipText(value: string, length = 200): string {
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const space = cut.lastIndexOf(' ');
+  return `${space > length / 2 ? cut.slice(0, space) : cut}…`;
+}
@@ -1,5 +1,7 @@
 import { jest, describe, it, expect } from '@jest/globals';
 import { ErrorCode, McpError, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Set up mocks before imports
 const mockSetRequestHandler = jest.fn();
@@ -26,8 +28,9 @@ global.console = {
 
 describe('EvernoteServer API Key Validation', () => {
   it('should throw error when API key is not configured', async () => {
-    // Ensure no API key is set
+    // Ensure no API key is set, and no token from `authorize` is found
     delete process.env.EVERNOTE_API_KEY;
+    process.env.EVERNOTE_CONFIG_DIR = join(tmpdir(), 'evernote-mcp-no-config');
     
     const handlers = new Map();
     mockSetRequestHandler.mockImplementation((schema: any, handler: Function) => {
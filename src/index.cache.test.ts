@@ -0,0 +1,147 @@
+import { jest, describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ThriftFixture, startThriftServer } from './__fixtures__/thriftServer.js';
+import { NOTE_STORE_METHODS } from './thrift/noteStore.js';
+import { USER_STORE_METHODS } from './thrift/userStore.js';
+
+// Set up mocks before imports
+const mockSetRequestHandler = jest.fn();
+const mockServer = jest.fn().mockImplementation(() => ({
+  setRequestHandler: mockSetRequestHandler,
+  connect: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+}));
+
+jest.unstable_mockModule('@modelcontextprotocol/sdk/server/index.js', () => ({
+  Server: mockServer,
+}));
+
+jest.unstable_mockModule('@modelcontextprotocol/sdk/server/stdio.js', () => ({
+  StdioServerTransport: jest.fn(),
+}));
+
+// Mock console.error to suppress server start message
+global.console = {
+  ...console,
+  error: jest.fn(),
+};
+
+interface StoredNote {
+  guid: string;
+  title: string;
+  content: string;
+  updateSequenceNum: number;
+  attributes?: Record<string, unknown>;
+}
+
+const enml = (body: string) => `<en-note>${body}</en-note>`;
+
+describe('EvernoteServer with the note cache', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-cached-'));
+  let service: ThriftFixture;
+  let callTool: (name: string, args: Record<string, unknown>) => Promise<any>;
+  let updateCount: number;
+  let note: StoredNote;
+
+  const calls = (method: string) => service.calls.filter((call) => call.method === method);
+  const metadata = ({ content, ...fields }: StoredNote) => ({
+    ...fields,
+    active: true,
+    contentHash: createHash('md5').update(content).digest(),
+    contentLength: content.length,
+  });
+  /** A change made in another Evernote client */
+  const changeRemotely = (fields: Partial<StoredNote>) =>
+    Object.assign(note, fields, { updateSequenceNum: ++updateCount });
+
+  beforeAll(async () => {
+    service = await startThriftServer({ ...NOTE_STORE_METHODS, ...USER_STORE_METHODS });
+    process.env.EVERNOTE_API_KEY = 'test-api-key';
+    process.env.EVERNOTE_SERVICE = new URL(service.url).origin;
+    process.env.EVERNOTE_NOTESTORE_URL = service.url;
+    process.env.EVERNOTE_CONFIG_DIR = directory;
+    process.env.EVERNOTE_CACHE = 'true';
+    delete process.env.EVERNOTE_BACKEND;
+
+    const handlers = new Map<any, Function>();
+    mockSetRequestHandler.mockImplementation((schema: any, handler: any) => {
+      handlers.set(schema, handler);
+    });
+
+    await import('./index.js');
+
+    const handler = handlers.get(CallToolRequestSchema)!;
+    callTool = (name, args) => handler({ params: { name, arguments: args } });
+  });
+
+  afterAll(async () => {
+    await service.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    updateCount = 0;
+    note = { guid: 'n1', title: 'Plan', content: enml('<div>Agenda</div><div>Budget</div>'), updateSequenceNum: 0 };
+    changeRemotely({});
+
+    service.handlers.getUser = () => ({ id: 1, username: 'ana', timezone: 'UTC' });
+    service.handlers.getSyncState = () => ({ currentTime: Date.now(), fullSyncBefore: 0, updateCount });
+    service.handlers.getFilteredSyncChunk = ({ afterUSN }) =>
+      note.updateSequenceNum > afterUSN
+        ? { currentTime: Date.now(), updateCount, chunkHighUSN: updateCount, notes: [metadata(note)] }
+        : { currentTime: Date.now(), updateCount };
+    service.handlers.getNote = ({ withContent }) =>
+      withContent ? { ...metadata(note), content: note.content } : metadata(note);
+    service.handlers.updateNote = ({ note: update }) => {
+      changeRemotely({ ...update, content: update.content ?? note.content });
+      return metadata(note);
+    };
+
+    // Start from a cache that has just synced, and so is served without checking for changes
+    await callTool('sync_status', { sync: 'full' });
+    service.calls.length = 0;
+  });
+
+  it('should edit the note as it is now, not as cached', async () => {
+    changeRemotely({ content: enml('<div>Agenda</div><div>Budget: 3k</div>') });
+
+    await callTool('edit_note', { noteId: 'n1', operation: 'append', content: 'Venue' });
+
+    expect(calls('getNote')).toHaveLength(1);
+    expect(note.content).toContain('<div>Budget: 3k</div>');
+    expect(note.content).toContain('Venue');
+  });
+
+  it('should check a to-do in the note as it is now', async () => {
+    changeRemotely({ content: enml('<div><en-todo checked="false"/>Book room</div><div>Budget: 3k</div>') });
+
+    await callTool('set_todo', { noteId: 'n1', text: 'Book room', checked: true });
+
+    expect(note.content).toBe(enml('<div><en-todo checked="true"/>Book room</div><div>Budget: 3k</div>'));
+  });
+
+  it('should report a conflict with a change the cache has not seen yet', async () => {
+    const read = await callTool('get_note', { noteId: 'n1' });
+    expect(read.content[0].text).toContain('\nVersion: 1\n');
+    changeRemotely({ content: enml('<div>Agenda</div><div>Budget: 3k</div>') });
+
+    await expect(callTool('update_note', { noteId: 'n1', content: 'Agenda', expectedVersion: 1 })).rejects.toThrow(
+      'Note "Plan" changed since version 1; it is now version 2. Nothing was saved.'
+    );
+    expect(calls('updateNote')).toHaveLength(0);
+  });
+
+  it('should change the attributes the note has now', async () => {
+    changeRemotely({ title: 'Plan B', attributes: { author: 'Bo' } });
+
+    await callTool('update_note', { noteId: 'n1', reminderTime: '2030-01-01T09:00' });
+
+    expect(calls('updateNote')[0].args.note).toMatchObject({
+      title: 'Plan B',
+      attributes: { author: 'Bo', reminderTime: Date.UTC(2030, 0, 1, 9) },
+    });
+  });
+});
@@ -0,0 +1,399 @@
+import { jest, describe, it, expect, beforeAll } from '@jest/globals';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { formatInTimeZone } from './reminders.js';
+
+// Set up mocks before imports
+const mockSetRequestHandler = jest.fn();
+const mockServer = jest.fn().mockImplementation(() => ({
+  setRequestHandler: mockSetRequestHandler,
+  connect: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+}));
+
+jest.unstable_mockModule('@modelcontextprotocol/sdk/server/index.js', () => ({
+  Server: mockServer,
+}));
+
+jest.unstable_mockModule('@modelcontextprotocol/sdk/server/stdio.js', () => ({
+  StdioServerTransport: jest.fn(),
+}));
+
+// Mock console.error to suppress server start message
+global.console = {
+  ...console,
+  error: jest.fn(),
+};
+
+describe('EvernoteServer with the local backend', () => {
+  let callTool: (name: string, args: Record<string, unknown>) => Promise<any>;
+
+  beforeAll(async () => {
+    // Offline: no API key, notes kept in memory
+    delete process.env.EVERNOTE_API_KEY;
+    delete process.env.EVERNOTE_LOCAL_PATH;
+    process.env.EVERNOTE_BACKEND = 'local';
+    process.env.EVERNOTE_ALLOW_EXPUNGE = 'true';
+
+    const handlers = new Map<any, Function>();
+    mockSetRequestHandler.mockImplementation((schema: any, handler: any) => {
+      handlers.set(schema, handler);
+    });
+
+    await import('./index.js');
+
+    const handler = handlers.get(CallToolRequestSchema)!;
+    callTool = (name, args) => handler({ params: { name, arguments: args } });
+  });
+
+  it('should run the tools end to end without an API key', async () => {
+    const notebook = await callTool('create_notebook', { name: 'Recipes' });
+    const notebookId = notebook.content[0].text.replace('Notebook created successfully with ID: ', '');
+
+    const created = await callTool('create_note', {
+      title: 'Pancakes',
+      content: '# Ingredients\n\n- [ ] flour\n- [x] eggs',
+      notebook: notebookId,
+      tags: ['breakfast'],
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    const found = await callTool('search_notes', { query: 'flour', notebook: 'Recipes' });
+    expect(JSON.parse(found.content[0].text).notes).toEqual([
+      expect.objectContaining({ id: noteId, title: 'Pancakes', notebook: notebookId }),
+    ]);
+
+    await callTool('update_note', { noteId, content: '- [x] flour\n- [x] eggs' });
+
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text).toMatch(/^# Pancakes\nID: .+\nNotebook: Recipes\nTags: breakfast\n/);
+    expect(note.content[0].text).toMatch(/\n\n---\n\n- \[x\] flour\n- \[x\] eggs$/);
+    const todos = await callTool('search_notes', { tags: ['Breakfast'], hasTodo: true, updatedAfter: 'day' });
+    expect(JSON.parse(todos.content[0].text).notes).toEqual([expect.objectContaining({ id: noteId })]);
+
+    const notebooks = JSON.parse((await callTool('list_notebooks', {})).content[0].text);
+    expect(notebooks.notebooks.map((entry: any) => [entry.name, entry.noteCount])).toEqual([
+      ['My Notebook', 0],
+      ['Recipes', 1],
+    ]);
+
+    await callTool('update_notebook', { notebook: notebookId, stack: 'Kitchen' });
+    await callTool('set_default_notebook', { notebook: notebookId });
+    const restacked = JSON.parse((await callTool('list_notebooks', {})).content[0].text);
+    expect(restacked.stacks).toEqual([
+      { name: 'Kitchen', notebooks: [expect.objectContaining({ name: 'Recipes', default: true, noteCount: 1 })] },
+    ]);
+  });
+
+  it('should move notes through the trash', async () => {
+    const created = await callTool('create_note', { title: 'Scratch', content: 'temporary' });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    expect((await callTool('delete_note', { noteId })).content[0].text).toBe(
+      `Moved note "Scratch" (${noteId}) to the trash`
+    );
+    expect(JSON.parse((await callTool('search_notes', { query: 'temporary' })).content[0].text).notes).toEqual([]);
+    const trash = JSON.parse((await callTool('list_trash', {})).content[0].text);
+    expect(trash.notes).toEqual([expect.objectContaining({ id: noteId, title: 'Scratch' })]);
+
+    await callTool('restore_note', { noteId });
+    expect(JSON.parse((await callTool('search_notes', { query: 'temporary' })).content[0].text).notes).toHaveLength(1);
+
+    await expect(callTool('expunge_note', { noteId })).rejects.toThrow('pass confirm: true to proceed');
+    expect((await callTool('expunge_note', { noteId, confirm: true })).content[0].text).toBe(
+      `Permanently deleted note "Scratch" (${noteId})`
+    );
+    await expect(callTool('get_note', { noteId })).rejects.toThrow('Note.guid not found');
+  });
+
+  it('should manage tags and their notes', async () => {
+    const created = await callTool('create_note', { title: 'Standup', content: 'notes', tags: ['meeting', 'work'] });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    await callTool('update_note', { noteId, addTags: ['Daily'], removeTags: ['WORK'] });
+    await callTool('create_tag', { name: 'Meetings', parent: 'work' });
+    await callTool('merge_tags', { tags: ['meeting'], into: 'Meetings' });
+
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text).toContain('\nTags: Meetings, Daily\n');
+    const tags = JSON.parse((await callTool('list_tags', {})).content[0].text).tags;
+    expect(tags.map((tag: any) => [tag.name, tag.noteCount, tag.children.map((child: any) => child.name)])).toEqual([
+      ['breakfast', 1, []],
+      ['Daily', 1, []],
+      ['work', 0, ['Meetings']],
+    ]);
+
+    expect((await callTool('delete_tag', { tag: 'work', confirm: true })).content[0].text).toMatch(
+      /^Deleted tag "work" \(.+\); removed from 0 notes$/
+    );
+    expect(JSON.parse((await callTool('list_tags', {})).content[0].text).tags).toContainEqual(
+      expect.objectContaining({ name: 'Meetings', noteCount: 1 })
+    );
+  });
+
+  it('should attach files and show them in the note', async () => {
+    const created = await callTool('create_note', {
+      title: 'Receipts',
+      content: 'March',
+      attachments: [{ data: Buffer.from('%PDF-1.4').toString('base64'), fileName: 'march.pdf' }],
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    const attached = await callTool('attach_file', {
+      noteId,
+      data: Buffer.from('taxi 12.50').toString('base64'),
+      fileName: 'taxi.txt',
+      position: 'start',
+    });
+    expect(attached.content[0].text).toMatch(/^Attached "taxi.txt" \(text\/plain, 1 KB\) to note "Receipts" \(.+\) as resource .+$/);
+
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text).toMatch(/---\n\n\[Attachment: text\/plain, hash \w+\]\n\nMarch\n\n\[Attachment: application\/pdf, hash \w+\]$/);
+    const found = await callTool('search_notes', { query: 'resource:application/pdf' });
+    expect(JSON.parse(found.content[0].text).notes).toEqual([expect.objectContaining({ id: noteId })]);
+
+    const { resources } = JSON.parse((await callTool('list_resources', { noteId })).content[0].text);
+    expect(resources.map((resource: any) => [resource.fileName, resource.mime])).toEqual([
+      ['march.pdf', 'application/pdf'],
+      ['taxi.txt', 'text/plain'],
+    ]);
+    const taxi = await callTool('get_resource', { resourceId: resources[1].id });
+    expect(JSON.parse(taxi.content[0].text)).toMatchObject({ noteId, text: 'taxi 12.50' });
+  });
+
+  it('should edit part of a note and keep its attachments', async () => {
+    const created = await callTool('create_note', {
+      title: 'Packing list',
+      content: '## Clothes\n\n- [ ] socks\n\n## Documents\n\n- [x] passport',
+      attachments: [{ data: Buffer.from('%PDF-1.4').toString('base64'), fileName: 'ticket.pdf' }],
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    const edited = await callTool('edit_note', {
+      noteId,
+      operation: 'insert_after_heading',
+      heading: 'clothes',
+      position: 'end',
+      content: '- [ ] hat',
+    });
+    expect(edited.content[0].text).toBe('Edited note "Packing list": added to the end of section "Clothes"');
+    await callTool('edit_note', { noteId, operation: 'find_replace', find: 'passport', replace: 'passport and visa' });
+
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text).toContain(
+      '---\n\n## Clothes\n\n- [ ] socks\n- [ ] hat\n\n## Documents\n\n- [x] passport and visa\n'
+    );
+    expect(note.content[0].text).toMatch(/\n\[Attachment: application\/pdf, hash \w+\]$/);
+  });
+
+  it('should not overwrite changes made since the note was read', async () => {
+    const created = await callTool('create_note', { title: 'Trip', content: 'Flights\n\nHotel\n\nBudget' });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+    const read = (await callTool('get_note', { noteId })).content[0].text;
+    const version = Number(/\nVersion: (\d+)\n/.exec(read)![1]);
+
+    // Someone else changes the note in the meantime
+    await callTool('edit_note', { noteId, operation: 'find_replace', find: 'Flights', replace: 'Flights booked' });
+
+    const stale = { noteId, content: 'Flights\n\nHotel\n\nBudget: 900', expectedVersion: version };
+    await expect(callTool('update_note', stale)).rejects.toThrow(
+      `changed since version ${version}; it is now version ${version + 1}. Nothing was saved.`
+    );
+    expect((await callTool('update_note', { ...stale, onConflict: 'merge' })).content[0].text).toBe(
+      `Note updated successfully, now version ${version + 2}`
+    );
+    const merged = await callTool('get_note', { noteId });
+    expect(merged.content[0].text).toMatch(/\n\nFlights booked\n\nHotel\n\nBudget: 900$/);
+  });
+
+  it('should keep the lines of an Evernote note when its Markdown is written back', async () => {
+    const created = await callTool('create_note', {
+      title: 'Groceries',
+      content: '<div>Bread</div><div>Milk</div><div><br/></div><div>Eggs</div>',
+      contentFormat: 'enml',
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+    const read = (await callTool('get_note', { noteId })).content[0].text;
+    const body = read.split('\n---\n\n')[1];
+    expect(body).toBe('Bread\n\nMilk\n\nEggs');
+    const version = Number(/\nVersion: (\d+)\n/.exec(read)![1]);
+
+    // The app changes the first line while the Markdown is edited
+    await callTool('edit_note', { noteId, operation: 'find_replace', find: 'Bread', replace: 'Rye bread' });
+    const result = await callTool('update_note', {
+      noteId,
+      content: body.replace('Eggs', 'Eggs (6)'),
+      expectedVersion: version,
+      onConflict: 'merge',
+    });
+
+    expect(result.content[0].text).toBe(`Note updated successfully, now version ${version + 2}`);
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text.split('\n---\n\n')[1]).toBe('Rye bread\n\nMilk\n\nEggs (6)');
+  });
+
+  it('should keep literal Markdown syntax in a note when its Markdown is written back', async () => {
+    const text = '# 1. <script>alert(1)</script> *word* [x](y) & more';
+    const created = await callTool('create_note', { title: 'Syntax', content: text, contentFormat: 'text' });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+    const body = (await callTool('get_note', { noteId })).content[0].text.split('\n---\n\n')[1];
+    expect(body).toBe('\\# 1. \\<script>alert(1)\\</script> \\*word\\* [x\\](y) \\& more');
+
+    await callTool('update_note', { noteId, content: body });
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text.split('\n---\n\n')[1]).toBe(body);
+  });
+
+  it('should manage checklists', async () => {
+    const created = await callTool('create_note', {
+      title: 'Moving',
+      content: '- [ ] Pack books\n- [x] Book the van',
+      tags: ['move'],
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    await callTool('add_todo', { noteId, text: 'Return keys', afterIndex: 0 });
+    await callTool('toggle_todo', { noteId, text: 'pack' });
+
+    const note = await callTool('get_note', { noteId });
+    expect(note.content[0].text).toMatch(/\n\n- \[x\] Pack books\n- \[ \] Return keys\n- \[x\] Book the van$/);
+    const open = JSON.parse((await callTool('list_todos', { tags: ['move'], status: 'open' })).content[0].text);
+    expect(open).toEqual({
+      open: 1,
+      done: 2,
+      notes: [
+        { id: noteId, title: 'Moving', open: 1, done: 2, todos: [{ index: 1, text: 'Return keys', checked: false }] },
+      ],
+    });
+  });
+
+  it('should set, complete and list reminders', async () => {
+    const create = async (title: string, args: Record<string, unknown>) => {
+      const created = await callTool('create_note', { title, content: title, ...args });
+      return created.content[0].text.split('\n')[0].replace('Note created successfully with ID: ', '');
+    };
+    const past = await create('Renew passport', { reminderTime: '2020-01-31T09:00:00Z' });
+    const future = await create('Call the bank', { reminderTime: '2999-06-01T08:00:00Z', tags: ['money'] });
+    const unscheduled = await create('Read the lease', { reminderOrder: 5 });
+    await create('No reminder', {});
+
+    const list = async (args: Record<string, unknown>) => {
+      const result = JSON.parse((await callTool('list_reminders', args)).content[0].text);
+      return result.reminders.map((reminder: { id: string; status: string }) => [reminder.id, reminder.status]);
+    };
+    expect(await list({})).toEqual([
+      [past, 'overdue'],
+      [future, 'upcoming'],
+      [unscheduled, 'unscheduled'],
+    ]);
+    expect(await list({ status: 'upcoming' })).toEqual([[future, 'upcoming']]);
+    expect(await list({ dueBefore: '2021-01-01T00:00:00Z' })).toEqual([[past, 'overdue']]);
+
+    await callTool('update_note', { noteId: past, reminderDoneTime: 'now', addTags: ['admin'] });
+    expect(await list({ status: 'completed' })).toEqual([[past, 'completed']]);
+    expect(await list({ status: 'overdue' })).toEqual([]);
+    // Tags and content survive the attribute change
+    const note = await callTool('get_note', { noteId: past });
+    expect(note.content[0].text).toMatch(/Tags: admin[\s\S]*Renew passport$/);
+
+    await callTool('update_note', { noteId: future, removeReminder: true });
+    const all = JSON.parse((await callTool('list_reminders', { status: 'all' })).content[0].text);
+    expect(all.totalReminders).toBe(2);
+    expect(all.reminders[1]).toEqual({
+      id: past,
+      title: 'Renew passport',
+      status: 'completed',
+      reminderTime: formatInTimeZone(Date.UTC(2020, 0, 31, 9), all.timeZone),
+      doneTime: expect.any(String),
+    });
+  });
+
+  it('should keep note attributes and application data', async () => {
+    const created = await callTool('create_note', {
+      title: 'Clipped article',
+      content: 'Worth reading.',
+      attributes: {
+        sourceURL: 'https://example.com/article',
+        author: 'Ada',
+        applicationData: { 'com.example.a': '1' },
+      },
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+
+    await callTool('update_note', {
+      noteId,
+      attributes: { author: '', placeName: 'Berlin', applicationData: { 'com.example.a': null, 'com.example.b': '2' } },
+    });
+    const header = (await callTool('get_note', { noteId, includeContent: false })).content[0].text;
+    expect(header).toContain('Source URL: https://example.com/article');
+    expect(header).toContain('Place: Berlin');
+    expect(header).toContain('Application data: {"com.example.b":"2"}');
+    expect(header).not.toContain('Author');
+  });
+
+  it('should search note text and tags offline', async () => {
+    const created = await callTool('create_note', {
+      title: 'Camping trip',
+      content: 'Pack the tent and the camping stove.',
+      tags: ['outdoors'],
+    });
+    const noteId = created.content[0].text.replace('Note created successfully with ID: ', '');
+    await callTool('create_note', { title: 'Stove manual', content: 'Clean the burner after each trip.' });
+
+    const found = JSON.parse((await callTool('local_search', { query: '"camping stove"' })).content[0].text);
+    expect(found).toMatchObject({ query: '"camping stove"', totalNotes: 1, startIndex: 0 });
+    expect(found.notes).toEqual([
+      expect.objectContaining({
+        id: noteId,
+        title: 'Camping trip',
+        notebookName: 'Kitchen/Recipes',
+        tags: ['outdoors'],
+        matchedIn: ['body'],
+        snippet: 'Pack the tent and the **camping stove**.',
+      }),
+    ]);
+
+    const stoves = JSON.parse((await callTool('local_search', { query: 'stov*', limit: 1 })).content[0].text);
+    expect(stoves).toMatchObject({ totalNotes: 2, nextCursor: '1', notes: [{ title: 'Stove manual' }] });
+    const tagged = JSON.parse((await callTool('local_search', { query: 'stov*', tags: ['Outdoors'] })).content[0].text);
+    expect(tagged.notes.map((note: any) => note.id)).toEqual([noteId]);
+  });
+
+  it('should find notes by similar wording', async () => {
+    await callTool('create_note', {
+      title: 'Vegetable garden',
+      content: 'Plant tomatoes and basil in the raised beds after the last frost.',
+      tags: ['outdoors'],
+    });
+
+    const search = async (args: Record<string, unknown>) =>
+      JSON.parse((await callTool('semantic_search', args)).content[0].text);
+
+    const found = await search({ query: 'planting tomato seedlings' });
+    expect(found.embedded).toBeGreaterThan(0);
+    expect(found.notes[0]).toMatchObject({
+      title: 'Vegetable garden',
+      tags: ['outdoors'],
+      snippet: 'Plant tomatoes and basil in the raised beds after the last frost.',
+    });
+    expect(found.notes[0].score).toBeGreaterThan(found.notes[1].score);
+
+    // Unchanged notes aren't embedded again
+    const again = await search({ query: 'tomatoes', tags: ['outdoors'] });
+    expect(again.embedded).toBe(0);
+    expect(again.notes.every((note: any) => note.tags.includes('outdoors'))).toBe(true);
+  });
+
+  it('should report the local account', async () => {
+    const result = await callTool('get_account_info', {});
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      backend: 'local',
+      path: null,
+      user: { id: 0, username: 'local', name: 'Local notes' },
+    });
+  });
+
+  it('should report missing notes as API errors', async () => {
+    await expect(callTool('get_note', { noteId: 'missing' })).rejects.toThrow(
+      'Evernote API error: EDAMNotFoundException: Note.guid not found: missing'
+    );
+  });
+});
@@ -1,16 +1,36 @@
-import { jest, describe, it, expect, beforeAll, beforeEach, afterEach } from '@jest/globals';
-import axios from 'axios';
-import MockAdapter from 'axios-mock-adapter';
-import { ErrorCode, McpError, ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-
-const mockAxios = new MockAdapter(axios);
+import { jest, describe, it, expect, beforeAll, beforeEach, afterAll, afterEach } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ErrorCode,
+  McpError,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ThriftFixture, startThriftServer } from './__fixtures__/thriftServer.js';
+import { wrapEnml } from './enml/convert.js';
+import { EDAMUserException } from './thrift/errors.js';
+import { NOTE_STORE_METHODS } from './thrift/noteStore.js';
+import { NoteSortOrder } from './thrift/types.js';
+import { USER_STORE_METHODS } from './thrift/userStore.js';
 
 // Set up mocks before imports
 const mockSetRequestHandler = jest.fn();
 const mockConnect = jest.fn().mockResolvedValue(undefined);
+const mockSendResourceUpdated = jest.fn<(params: { uri: string }) => Promise<void>>().mockResolvedValue(undefined);
 const mockServer = jest.fn().mockImplementation(() => ({
   setRequestHandler: mockSetRequestHandler,
   connect: mockConnect,
+  sendResourceUpdated: mockSendResourceUpdated,
 }));
 const mockTransport = jest.fn();
 
@@ -30,26 +50,38 @@ global.console = {
 
 describe('EvernoteServer', () => {
   let handlers: Map<any, Function>;
+  let noteStore: ThriftFixture;
+
+  const calls = (method: string) => noteStore.calls.filter((call) => call.method === method);
 
   beforeAll(async () => {
+    // One fixture answers for both the UserStore and the NoteStore
+    noteStore = await startThriftServer({ ...NOTE_STORE_METHODS, ...USER_STORE_METHODS });
     process.env.EVERNOTE_API_KEY = 'test-api-key';
+    process.env.EVERNOTE_SERVICE = new URL(noteStore.url).origin;
+    process.env.EVERNOTE_NOTESTORE_URL = noteStore.url;
     handlers = new Map();
-    
+
     mockSetRequestHandler.mockImplementation((schema: any, handler: Function) => {
       handlers.set(schema, handler);
     });
-    
+
     // Import the module to trigger initialization
     await import('./index.js');
-    
+
     // Clear the mock calls after initialization
     mockServer.mockClear();
     mockSetRequestHandler.mockClear();
   });
 
+  afterAll(async () => {
+    await noteStore.close();
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
-    mockAxios.reset();
+    noteStore.calls.length = 0;
+    for (const name of Object.keys(noteStore.handlers)) delete noteStore.handlers[name];
     process.env.EVERNOTE_API_KEY = 'test-api-key';
   });
 
@@ -60,9 +92,12 @@ describe('EvernoteServer', () => {
   describe('Server initialization', () => {
     it('should create server with correct configuration', () => {
       // Check that handlers were set up
-      expect(handlers.size).toBe(2);
+      expect(handlers.size).toBe(9);
       expect(handlers.has(ListToolsRequestSchema)).toBe(true);
       expect(handlers.has(CallToolRequestSchema)).toBe(true);
+      expect(handlers.has(ReadResourceRequestSchema)).toBe(true);
+      expect(handlers.has(SubscribeRequestSchema)).toBe(true);
+      expect(handlers.has(GetPromptRequestSchema)).toBe(true);
     });
 
     it('should run the server on import', () => {
@@ -77,15 +112,39 @@ describe('EvernoteServer', () => {
       const handler = handlers.get(ListToolsRequestSchema);
       expect(handler).toBeDefined();
       const result = await handler!({});
-      
-      expect(result.tools).toHaveLength(6);
+
+      expect(result.tools).toHaveLength(30);
       expect(result.tools.map((t: any) => t.name)).toEqual([
         'create_note',
         'search_notes',
+        'local_search',
+        'semantic_search',
         'get_note',
         'update_note',
+        'edit_note',
+        'list_todos',
+        'toggle_todo',
+        'set_todo',
+        'add_todo',
+        'list_reminders',
+        'attach_file',
+        'list_resources',
+        'get_resource',
+        'delete_note',
+        'restore_note',
+        'list_trash',
         'list_notebooks',
         'create_notebook',
+        'update_notebook',
+        'set_default_notebook',
+        'delete_notebook',
+        'list_tags',
+        'create_tag',
+        'rename_tag',
+        'merge_tags',
+        'delete_tag',
+        'get_account_info',
+        'sync_status',
       ]);
     });
   });
@@ -112,10 +171,16 @@ describe('EvernoteServer', () => {
     });
 
     describe('create_note', () => {
-      it('should create a note successfully', async () => {
-        const mockResponse = { data: { guid: 'note123' } };
-        mockAxios.onPost('https://api.evernote.com/notes').reply(200, mockResponse.data);
+      beforeEach(() => {
+        noteStore.handlers.createNote = ({ note }) => ({ ...note, guid: 'note123' });
+        noteStore.handlers.listNotebooks = () => [
+          { guid: 'notebook123', name: 'Work' },
+          { guid: 'notebook456', name: 'Projects', stack: 'Work' },
+        ];
+        noteStore.handlers.createNotebook = ({ notebook }) => ({ ...notebook, guid: 'notebook789' });
+      });
 
+      it('should create a note successfully', async () => {
         const result = await callToolHandler({
           params: {
             name: 'create_note',
@@ -129,31 +194,204 @@ describe('EvernoteServer', () => {
         });
 
         expect(result.content[0].text).toBe('Note created successfully with ID: note123');
-        expect(mockAxios.history.post[0].headers!.Authorization).toBe('Bearer test-api-key');
-        expect(mockAxios.history.post[0].data).toContain('Test content');
+        const [{ args }] = calls('createNote');
+        expect(args.authenticationToken).toBe('test-api-key');
+        expect(args.note.title).toBe('Test Note');
+        expect(args.note.content).toContain('Test content');
+        expect(args.note.notebookGuid).toBe('notebook123');
+        expect(args.note.tagNames).toEqual(['tag1', 'tag2']);
+      });
+
+      it('should resolve notebook names and stack-qualified names', async () => {
+        for (const notebook of ['WORK', 'work/projects']) {
+          await callToolHandler({
+            params: { name: 'create_note', arguments: { title: 'Test', content: 'Test', notebook } },
+          });
+        }
+
+        expect(calls('createNote').map((call) => call.args.note.notebookGuid)).toEqual(['notebook123', 'notebook456']);
+      });
+
+      it('should suggest close matches for unknown notebooks', async () => {
+        let error: unknown;
+        try {
+          await callToolHandler({
+            params: { name: 'create_note', arguments: { title: 'Test', content: 'Test', notebook: 'Projcts' } },
+          });
+        } catch (caught) {
+          error = caught;
+        }
+
+        expect(error).toBeInstanceOf(McpError);
+        expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+        expect((error as McpError).message).toContain(
+          'Notebook "Projcts" not found. Did you mean "Work/Projects" (notebook456)?'
+        );
+        expect(calls('createNote')).toHaveLength(0);
+      });
+
+      it('should create a missing notebook when asked', async () => {
+        await callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: { title: 'Test', content: 'Test', notebook: 'Home/Recipes', createIfMissing: true },
+          },
+        });
+
+        expect(calls('createNotebook')[0].args.notebook).toEqual({ name: 'Recipes', stack: 'Home' });
+        expect(calls('createNote')[0].args.note.notebookGuid).toBe('notebook789');
+      });
+
+      it('should upload attachments and show them in the note', async () => {
+        noteStore.handlers.getUser = () => ({ id: 42, serviceLevel: 1 });
+        const data = Buffer.from('%PDF-1.4 receipt');
+
+        await callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: {
+              title: 'Expenses',
+              content: 'Lunch',
+              attachments: [{ data: data.toString('base64'), fileName: 'lunch.pdf', sourceURL: 'https://example.com/r' }],
+            },
+          },
+        });
+
+        const { note } = calls('createNote')[0].args;
+        const hash = createHash('md5').update(data).digest('hex');
+        expect(note.content).toContain(`<p>Lunch</p><div><en-media type="application/pdf" hash="${hash}"/></div></en-note>`);
+        expect(note.resources).toEqual([
+          {
+            mime: 'application/pdf',
+            data: { body: data, bodyHash: Buffer.from(hash, 'hex'), size: data.length },
+            attributes: { fileName: 'lunch.pdf', sourceURL: 'https://example.com/r' },
+          },
+        ]);
+      });
+
+      it('should refuse attachments over the account limit before uploading', async () => {
+        noteStore.handlers.getUser = () => ({ id: 42, serviceLevel: 1 });
+
+        await expect(callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: {
+              title: 'Video',
+              content: 'Too big',
+              attachments: [{ data: Buffer.alloc(26 * 1024 * 1024).toString('base64'), fileName: 'talk.mp4' }],
+            },
+          },
+        })).rejects.toThrow('Attachment "talk.mp4" is 26.0 MB, over the 25.0 MB limit for BASIC accounts');
+        expect(calls('createNote')).toHaveLength(0);
+      });
+
+      it('should reject tags and attachments that are not lists', async () => {
+        const create = (args: object) =>
+          callToolHandler({ params: { name: 'create_note', arguments: { title: 'T', content: 'x', ...args } } });
+
+        await expect(create({ tags: 'work' })).rejects.toThrow('Invalid tags: work. Expected a list of tag names');
+        await expect(create({ tags: [1] })).rejects.toThrow('Invalid tags: 1');
+        await expect(create({ attachments: { path: 'a.pdf' } })).rejects.toThrow(
+          'Invalid attachments. Expected a list of files with a path or data'
+        );
+        await expect(create({ attachments: [null] })).rejects.toThrow('Invalid attachment: null');
+        expect(calls('createNote')).toHaveLength(0);
+      });
+
+      it('should convert markdown content to ENML by default', async () => {
+        await callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: { title: 'Test', content: '# Heading\n\n- [ ] todo' },
+          },
+        });
+
+        expect(calls('createNote')[0].args.note.content).toContain(
+          '<en-note><h1>Heading</h1>\n<div><en-todo checked="false"/>todo</div></en-note>'
+        );
+      });
+
+      it('should honour the contentFormat argument', async () => {
+        await callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: { title: 'Test', content: '**not bold** & <tag>', contentFormat: 'text' },
+          },
+        });
+
+        expect(calls('createNote')[0].args.note.content).toContain(
+          '<en-note><div>**not bold** &amp; &lt;tag&gt;</div></en-note>'
+        );
+      });
+
+      it('should reject an unknown contentFormat', async () => {
+        await expect(callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: { title: 'Test', content: 'Test', contentFormat: 'rtf' },
+          },
+        })).rejects.toThrow('Invalid contentFormat: rtf');
+      });
+
+      it('should reject invalid ENML before calling the API', async () => {
+        let error: unknown;
+        try {
+          await callToolHandler({
+            params: {
+              name: 'create_note',
+              arguments: { title: 'Test', content: '<div>\nFish & chips</div>', contentFormat: 'enml' },
+            },
+          });
+        } catch (caught) {
+          error = caught;
+        }
+
+        expect(error).toBeInstanceOf(McpError);
+        expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+        expect((error as McpError).message).toContain('Invalid ENML at line 2, column 6: Unescaped "&" (use &amp;)');
+        expect(noteStore.calls).toHaveLength(0);
+      });
+
+      it('should accept complete ENML documents', async () => {
+        const enml =
+          '<?xml version="1.0" encoding="UTF-8"?>\n' +
+          '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n' +
+          '<en-note><div>Fish &amp; chips</div></en-note>';
+
+        await callToolHandler({
+          params: {
+            name: 'create_note',
+            arguments: { title: 'Test', content: enml, contentFormat: 'enml' },
+          },
+        });
+
+        expect(calls('createNote')[0].args.note.content).toBe(enml);
       });
 
       it('should handle API errors', async () => {
-        mockAxios.onPost('https://api.evernote.com/notes').reply(500, 'Server error');
+        noteStore.handlers.createNote = () => {
+          throw new EDAMUserException({ errorCode: 2, parameter: 'Note.title' });
+        };
 
         await expect(callToolHandler({
           params: {
             name: 'create_note',
             arguments: { title: 'Test', content: 'Test' },
           },
-        })).rejects.toThrow('Evernote API error');
+        })).rejects.toThrow('Evernote API error: EDAMUserException: BAD_DATA_FORMAT (Note.title)');
       });
     });
 
     describe('search_notes', () => {
       it('should search notes successfully', async () => {
-        const mockNotes = {
+        noteStore.handlers.findNotesMetadata = () => ({
+          startIndex: 0,
+          totalNotes: 2,
           notes: [
             { guid: 'note1', title: 'Note 1', created: 1234567890, updated: 1234567890, notebookGuid: 'nb1' },
             { guid: 'note2', title: 'Note 2', created: 1234567891, updated: 1234567891, notebookGuid: 'nb2' },
           ],
-        };
-        mockAxios.onGet('https://api.evernote.com/notes/search').reply(200, mockNotes);
+        });
 
         const result = await callToolHandler({
           params: {
@@ -163,45 +401,243 @@ describe('EvernoteServer', () => {
         });
 
         const parsedResult = JSON.parse(result.content[0].text);
-        expect(parsedResult).toHaveLength(2);
-        expect(parsedResult[0].id).toBe('note1');
-        expect(mockAxios.history.get[0].params.query).toBe('test query');
-        expect(mockAxios.history.get[0].params.maxNotes).toBe(10);
+        expect(parsedResult).toMatchObject({ query: 'test query', totalNotes: 2, startIndex: 0 });
+        expect(parsedResult.notes).toHaveLength(2);
+        expect(parsedResult.notes[0].id).toBe('note1');
+        expect(parsedResult.nextCursor).toBeUndefined();
+        const [{ args }] = calls('findNotesMetadata');
+        expect(args.filter).toEqual({ words: 'test query', order: NoteSortOrder.UPDATED, ascending: false });
+        expect(args.offset).toBe(0);
+        expect(args.maxNotes).toBe(10);
+        expect(args.resultSpec).toEqual({
+          includeTitle: true,
+          includeCreated: true,
+          includeUpdated: true,
+          includeNotebookGuid: true,
+          includeTagGuids: false,
+        });
       });
 
       it('should search with notebook filter', async () => {
-        mockAxios.onGet('https://api.evernote.com/notes/search').reply(200, { notes: [] });
+        noteStore.handlers.findNotesMetadata = () => ({ startIndex: 0, totalNotes: 0, notes: [] });
+        noteStore.handlers.listNotebooks = () => [{ guid: 'nb1', name: 'Work' }];
 
         await callToolHandler({
           params: {
             name: 'search_notes',
-            arguments: { query: 'test', notebook: 'Work' },
+            arguments: { query: 'test', notebook: 'work' },
+          },
+        });
+
+        const { filter } = calls('findNotesMetadata')[0].args;
+        expect(filter.words).toBe('test');
+        expect(filter.notebookGuid).toBe('nb1');
+      });
+
+      it('should compile structured filters and echo the query', async () => {
+        noteStore.handlers.findNotesMetadata = () => ({ startIndex: 0, totalNotes: 0, notes: [] });
+
+        const result = await callToolHandler({
+          params: {
+            name: 'search_notes',
+            arguments: { tags: ['Q3 plans'], excludeTags: ['done'], updatedAfter: '2024-03-01', hasTodo: true },
+          },
+        });
+
+        const words = 'tag:"Q3 plans" -tag:done updated:20240301 todo:*';
+        expect(calls('findNotesMetadata')[0].args.filter.words).toBe(words);
+        expect(JSON.parse(result.content[0].text).query).toBe(words);
+      });
+
+      it('should page through results with a cursor', async () => {
+        noteStore.handlers.findNotesMetadata = ({ offset }) => ({
+          startIndex: offset,
+          totalNotes: 5,
+          notes: [{ guid: `note${offset}`, title: 'Note', created: 1, updated: 2 }],
+        });
+
+        const first = JSON.parse(
+          (
+            await callToolHandler({
+              params: { name: 'search_notes', arguments: { query: 'x', limit: 1, offset: 3, sortBy: 'title' } },
+            })
+          ).content[0].text
+        );
+        expect(first).toMatchObject({ totalNotes: 5, startIndex: 3, nextCursor: '4' });
+        expect(calls('findNotesMetadata')[0].args.filter).toMatchObject({ order: NoteSortOrder.TITLE, ascending: true });
+
+        const last = JSON.parse(
+          (
+            await callToolHandler({
+              params: { name: 'search_notes', arguments: { query: 'x', limit: 1, cursor: first.nextCursor } },
+            })
+          ).content[0].text
+        );
+        expect(last.notes[0].id).toBe('note4');
+        expect(last.nextCursor).toBeUndefined();
+      });
+
+      it('should add tags, notebook names and snippets when asked', async () => {
+        noteStore.handlers.findNotesMetadata = () => ({
+          startIndex: 0,
+          totalNotes: 1,
+          notes: [{ guid: 'note1', title: 'Plan', created: 1, updated: 2, notebookGuid: 'nb1', tagGuids: ['t1', 'gone'] }],
+        });
+        noteStore.handlers.listTags = () => [{ guid: 't1', name: 'work' }];
+        noteStore.handlers.listNotebooks = () => [{ guid: 'nb1', name: 'Plans', stack: 'Work' }];
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, content: '<en-note><p>Ship   it</p><p>soon</p></en-note>' });
+
+        const result = await callToolHandler({
+          params: {
+            name: 'search_notes',
+            arguments: { sortBy: 'relevance', ascending: true, include: ['tags', 'notebookName', 'snippet'] },
           },
         });
 
-        expect(mockAxios.history.get[0].params.query).toBe('notebook:"Work" test');
+        expect(JSON.parse(result.content[0].text).notes[0]).toMatchObject({
+          notebookName: 'Work/Plans',
+          tags: ['work', 'gone'],
+          snippet: 'Ship it soon',
+        });
+        const { filter, resultSpec } = calls('findNotesMetadata')[0].args;
+        expect(filter).toEqual({ order: NoteSortOrder.RELEVANCE, ascending: true });
+        expect(resultSpec.includeTagGuids).toBe(true);
+      });
+
+      it('should fetch snippets a few notes at a time, in result order', async () => {
+        const guids = Array.from({ length: 12 }, (_, i) => `note${i}`);
+        noteStore.handlers.findNotesMetadata = () => ({
+          startIndex: 0,
+          totalNotes: guids.length,
+          notes: guids.map((guid) => ({ guid, title: guid, created: 1, updated: 2 })),
+        });
+        let running = 0;
+        let most = 0;
+        noteStore.handlers.getNote = async ({ guid }) => {
+          most = Math.max(most, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          running--;
+          return { guid, content: `<en-note>Text of ${guid}</en-note>` };
+        };
+
+        const result = await callToolHandler({
+          params: { name: 'search_notes', arguments: { include: ['snippet'], limit: 20 } },
+        });
+
+        const { notes } = JSON.parse(result.content[0].text);
+        expect(notes.map((note: any) => note.snippet)).toEqual(guids.map((guid) => `Text of ${guid}`));
+        expect(most).toBeGreaterThan(1);
+        expect(most).toBeLessThanOrEqual(5);
+      });
+
+      it('should reject invalid paging and sorting', async () => {
+        const search = (args: Record<string, unknown>) =>
+          callToolHandler({ params: { name: 'search_notes', arguments: { query: 'x', ...args } } });
+
+        await expect(search({ offset: 1, cursor: '2' })).rejects.toThrow('Pass either offset or cursor, not both');
+        await expect(search({ cursor: 'abc' })).rejects.toThrow('Invalid cursor: abc');
+        await expect(search({ limit: 500 })).rejects.toThrow('Invalid limit: 500. Expected a whole number from 1 to 250');
+        await expect(search({ sortBy: 'size' })).rejects.toThrow('Invalid sortBy: size');
+        await expect(search({ include: ['content'] })).rejects.toThrow('Invalid include field: content');
+        expect(calls('findNotesMetadata')).toHaveLength(0);
+      });
+
+      it('should reject invalid dates before searching', async () => {
+        await expect(
+          callToolHandler({ params: { name: 'search_notes', arguments: { createdBefore: 'yesterday' } } })
+        ).rejects.toThrow('Invalid createdBefore: yesterday');
+        expect(calls('findNotesMetadata')).toHaveLength(0);
       });
     });
 
     describe('get_note', () => {
+      beforeEach(() => {
+        noteStore.handlers.getNotebook = ({ guid }) => ({ guid, name: 'Personal' });
+        noteStore.handlers.getNoteTagNames = () => ['shopping', 'home'];
+      });
+
       it('should get note successfully', async () => {
-        const mockNote = { guid: 'note123', title: 'Test Note', content: 'Content' };
-        mockAxios.onGet('https://api.evernote.com/notes/note123').reply(200, mockNote);
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Test Note', content: 'Content' });
 
         const result = await callToolHandler({
           params: {
             name: 'get_note',
-            arguments: { noteId: 'note123' },
+            arguments: { noteId: 'note123', outputFormat: 'json' },
           },
         });
 
         const parsedResult = JSON.parse(result.content[0].text);
         expect(parsedResult.guid).toBe('note123');
-        expect(mockAxios.history.get[0].params.includeContent).toBe(true);
+        expect(calls('getNote')[0].args.withContent).toBe(true);
+      });
+
+      it('should render the note as markdown by default', async () => {
+        noteStore.handlers.getNote = () => ({
+          guid: 'note123',
+          title: 'Test Note',
+          content:
+            '<?xml version="1.0" encoding="UTF-8"?>\n' +
+            '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n' +
+            '<en-note><div><en-todo checked="true"/>Buy <b>milk</b></div></en-note>',
+          created: Date.UTC(2024, 0, 2),
+          updated: Date.UTC(2024, 0, 3),
+          notebookGuid: 'nb1',
+          tagGuids: ['t1', 't2'],
+          updateSequenceNum: 42,
+        });
+
+        const result = await callToolHandler({
+          params: {
+            name: 'get_note',
+            arguments: { noteId: 'note123' },
+          },
+        });
+
+        expect(result.content[0].text).toBe(
+          '# Test Note\n' +
+            'ID: note123\n' +
+            'Notebook: Personal\n' +
+            'Tags: shopping, home\n' +
+            'Created: 2024-01-02T00:00:00.000Z\n' +
+            'Updated: 2024-01-03T00:00:00.000Z\n' +
+            'Version: 42\n' +
+            '\n---\n\n' +
+            '- [x] Buy **milk**'
+        );
+        expect(calls('getNotebook')[0].args.guid).toBe('nb1');
+        expect(calls('getNoteTagNames')[0].args.guid).toBe('note123');
+      });
+
+      it('should render the note as plain text', async () => {
+        noteStore.handlers.getNote = () => ({
+          guid: 'note123',
+          title: 'Test Note',
+          content: '<en-note><h1>Heading</h1><div><en-media type="application/pdf" hash="abc"/></div></en-note>',
+        });
+
+        const result = await callToolHandler({
+          params: {
+            name: 'get_note',
+            arguments: { noteId: 'note123', outputFormat: 'text' },
+          },
+        });
+
+        expect(result.content[0].text).toBe(
+          'Test Note\nID: note123\n\n---\n\nHeading\n\n[Attachment: application/pdf, hash abc]'
+        );
+      });
+
+      it('should reject an unknown outputFormat', async () => {
+        await expect(callToolHandler({
+          params: {
+            name: 'get_note',
+            arguments: { noteId: 'note123', outputFormat: 'xml' },
+          },
+        })).rejects.toThrow('Invalid outputFormat: xml');
       });
 
       it('should get note without content', async () => {
-        mockAxios.onGet('https://api.evernote.com/notes/note123').reply(200, {});
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Test Note' });
 
         await callToolHandler({
           params: {
@@ -210,14 +646,17 @@ describe('EvernoteServer', () => {
           },
         });
 
-        expect(mockAxios.history.get[0].params.includeContent).toBe(false);
+        expect(calls('getNote')[0].args.withContent).toBe(false);
       });
     });
 
     describe('update_note', () => {
-      it('should update note successfully', async () => {
-        mockAxios.onPut('https://api.evernote.com/notes/note123').reply(200, {});
+      beforeEach(() => {
+        noteStore.handlers.updateNote = ({ note }) => note;
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Current Title' });
+      });
 
+      it('should update note successfully', async () => {
         const result = await callToolHandler({
           params: {
             name: 'update_note',
@@ -231,15 +670,25 @@ describe('EvernoteServer', () => {
         });
 
         expect(result.content[0].text).toBe('Note updated successfully');
-        const requestData = JSON.parse(mockAxios.history.put[0].data);
-        expect(requestData.title).toBe('Updated Title');
-        expect(requestData.content).toContain('Updated content');
-        expect(requestData.tagNames).toEqual(['new-tag']);
+        const { note } = calls('updateNote')[0].args;
+        expect(note.guid).toBe('note123');
+        expect(note.title).toBe('Updated Title');
+        expect(note.content).toContain('<en-note><p>Updated content</p></en-note>');
+        expect(note.tagNames).toEqual(['new-tag']);
+        expect(calls('getNote')).toHaveLength(0);
       });
 
-      it('should handle partial updates', async () => {
-        mockAxios.onPut('https://api.evernote.com/notes/note123').reply(200, {});
+      it('should reject invalid ENML content', async () => {
+        await expect(callToolHandler({
+          params: {
+            name: 'update_note',
+            arguments: { noteId: 'note123', content: '<div><form>x</form></div>', contentFormat: 'enml' },
+          },
+        })).rejects.toThrow('Element <form> is prohibited in ENML');
+        expect(noteStore.calls).toHaveLength(0);
+      });
 
+      it('should handle partial updates', async () => {
         await callToolHandler({
           params: {
             name: 'update_note',
@@ -247,68 +696,1340 @@ describe('EvernoteServer', () => {
           },
         });
 
-        const requestData = JSON.parse(mockAxios.history.put[0].data);
-        expect(requestData.title).toBe('Only Title');
-        expect(requestData.content).toBeUndefined();
-        expect(requestData.tagNames).toBeUndefined();
+        const { note } = calls('updateNote')[0].args;
+        expect(note.title).toBe('Only Title');
+        expect(note.content).toBeUndefined();
+        expect(note.tagNames).toBeUndefined();
       });
-    });
-
-    describe('list_notebooks', () => {
-      it('should list notebooks successfully', async () => {
-        const mockNotebooks = [
-          { guid: 'nb1', name: 'Notebook 1', serviceCreated: 1234567890000 },
-          { guid: 'nb2', name: 'Notebook 2', serviceCreated: 1234567891000 },
-        ];
-        mockAxios.onGet('https://api.evernote.com/notebooks').reply(200, mockNotebooks);
 
-        const result = await callToolHandler({
-          params: { name: 'list_notebooks', arguments: {} },
+      it('should keep the current title when only content changes', async () => {
+        await callToolHandler({
+          params: {
+            name: 'update_note',
+            arguments: { noteId: 'note123', content: 'New body' },
+          },
         });
 
-        const parsedResult = JSON.parse(result.content[0].text);
-        expect(parsedResult).toHaveLength(2);
-        expect(parsedResult[0].id).toBe('nb1');
-        expect(parsedResult[0].name).toBe('Notebook 1');
+        expect(calls('getNote')[0].args.withContent).toBe(false);
+        expect(calls('updateNote')[0].args.note.title).toBe('Current Title');
       });
-    });
 
-    describe('create_notebook', () => {
-      it('should create notebook successfully', async () => {
-        const mockResponse = { guid: 'nb123' };
-        mockAxios.onPost('https://api.evernote.com/notebooks').reply(200, mockResponse);
+      it('should add and remove tags without replacing the others', async () => {
+        noteStore.handlers.getNoteTagNames = () => ['work', 'urgent'];
 
-        const result = await callToolHandler({
+        await callToolHandler({
           params: {
-            name: 'create_notebook',
-            arguments: { name: 'New Notebook' },
+            name: 'update_note',
+            arguments: { noteId: 'note123', title: 'T', addTags: ['Later', 'WORK'], removeTags: ['Urgent'] },
           },
         });
 
-        expect(result.content[0].text).toBe('Notebook created successfully with ID: nb123');
-        expect(JSON.parse(mockAxios.history.post[0].data).name).toBe('New Notebook');
+        expect(calls('getNoteTagNames')[0].args.guid).toBe('note123');
+        expect(calls('updateNote')[0].args.note.tagNames).toEqual(['work', 'Later']);
+      });
+
+      it('should clear the tags when the last one is removed', async () => {
+        noteStore.handlers.getNoteTagNames = () => ['urgent'];
+
+        await callToolHandler({
+          params: { name: 'update_note', arguments: { noteId: 'note123', title: 'T', removeTags: ['urgent'] } },
+        });
+
+        expect(calls('updateNote')[0].args.note).toMatchObject({ tagNames: [], tagGuids: [] });
+      });
+
+      it('should not mix replacing and changing tags', async () => {
+        await expect(callToolHandler({
+          params: { name: 'update_note', arguments: { noteId: 'note123', tags: ['a'], addTags: ['b'] } },
+        })).rejects.toThrow('not both');
+        expect(noteStore.calls).toHaveLength(0);
+      });
+
+      describe('with expectedVersion', () => {
+        const read = wrapEnml('<div>Agenda</div><div><en-todo checked="false"/>Book the room</div><div>Budget</div>');
+        let current: { guid: string; title: string; content: string; updateSequenceNum: number };
+
+        const update = (args: Record<string, unknown>) =>
+          callToolHandler({ params: { name: 'update_note', arguments: args } });
+        // get_note remembers the content of the version it shows
+        const getNote = async (guid: string) => {
+          current = { guid, title: 'Planning', content: read, updateSequenceNum: 7 };
+          await callToolHandler({ params: { name: 'get_note', arguments: { noteId: guid } } });
+          noteStore.calls.length = 0;
+        };
+
+        beforeEach(() => {
+          noteStore.handlers.getNote = () => current;
+          noteStore.handlers.updateNote = ({ note }) => ({ ...note, updateSequenceNum: 9 });
+        });
+
+        it('should update the note when it is unchanged', async () => {
+          await getNote('version1');
+
+          const result = await update({ noteId: 'version1', content: 'Agenda', expectedVersion: 7 });
+
+          expect(result.content[0].text).toBe('Note updated successfully, now version 9');
+          expect(calls('getNote')[0].args.withContent).toBe(true);
+          expect(calls('updateNote')[0].args.note).toMatchObject({ guid: 'version1', title: 'Planning' });
+        });
+
+        it('should show what changed instead of overwriting it', async () => {
+          await getNote('version2');
+          current = { ...current, content: read.replace('Budget', 'Budget: 3k'), updateSequenceNum: 8 };
+
+          await expect(update({ noteId: 'version2', content: 'Agenda', expectedVersion: 7 })).rejects.toThrow(
+            'Note "Planning" changed since version 7; it is now version 8. Nothing was saved. ' +
+              'Get the note again and reapply your changes, or pass onConflict: "merge".\n\n' +
+              'Changes since version 7:\n@@ -3,3 +3,3 @@\n - [ ] Book the room\n \n-Budget\n+Budget: 3k'
+          );
+          expect(calls('updateNote')).toHaveLength(0);
+
+          current = { ...current, guid: 'unread' };
+          await expect(update({ noteId: 'unread', title: 'T', expectedVersion: 7 })).rejects.toThrow(
+            "Version 7 wasn't read through this server, so its changes can't be shown."
+          );
+        });
+
+        it('should merge changes to different blocks', async () => {
+          await getNote('version3');
+          current = { ...current, content: read.replace('Agenda', 'Agenda for <b>Monday</b>'), updateSequenceNum: 8 };
+
+          const result = await update({
+            noteId: 'version3',
+            content: 'Agenda\n\n- [ ] Book the room\n\nBudget: 2k',
+            expectedVersion: 7,
+            onConflict: 'merge',
+          });
+
+          expect(result.content[0].text).toBe('Note updated successfully, now version 9');
+          expect(calls('updateNote')[0].args.note.content).toBe(
+            current.content.replace('<div>Budget</div>', '<p>Budget: 2k</p>')
+          );
+
+          // The merged content is the new version to compare against
+          current = { ...calls('updateNote')[0].args.note, updateSequenceNum: 10 };
+          await expect(update({ noteId: 'version3', title: 'T', expectedVersion: 9 })).rejects.toThrow(
+            'Changes since version 9:\n(the content is the same; other fields changed)'
+          );
+        });
+
+        it('should not merge changes to the same block', async () => {
+          await getNote('version4');
+          current = { ...current, content: read.replace('Budget', 'Budget: 3k'), updateSequenceNum: 8 };
+
+          await expect(update({
+            noteId: 'version4',
+            content: 'Agenda\n\n- [ ] Book the room\n\nBudget: 2k',
+            expectedVersion: 7,
+            onConflict: 'merge',
+          })).rejects.toThrow(
+            'both changed the same part of it. Nothing was saved.\n\n' +
+              'Conflict 1, yours:\nBudget: 2k\n\nConflict 1, current:\nBudget: 3k'
+          );
+          expect(calls('updateNote')).toHaveLength(0);
+        });
+
+        it('should validate expectedVersion and onConflict', async () => {
+          await expect(update({ noteId: 'note123', title: 'T', expectedVersion: 'latest' })).rejects.toThrow(
+            'Invalid expectedVersion: latest. Expected the version number get_note showed'
+          );
+          await expect(update({ noteId: 'note123', title: 'T', onConflict: 'overwrite' })).rejects.toThrow(
+            'Invalid onConflict: overwrite. Expected one of fail, merge'
+          );
+          expect(noteStore.calls).toHaveLength(0);
+        });
       });
     });
-  });
 
-  describe('Error handling', () => {
-    it('should preserve McpError instances', async () => {
-      const handler = handlers.get(CallToolRequestSchema);
-      expect(handler).toBeDefined();
-      
-      try {
-        await handler!({ params: { name: 'unknown_tool', arguments: {} } });
-      } catch (error) {
-        expect(error).toBeInstanceOf(McpError);
-        expect((error as McpError).code).toBe(ErrorCode.MethodNotFound);
-      }
+    describe('edit_note', () => {
+      const content =
+        '<en-note><h2>Log</h2><div>Mon</div><div><en-media hash="00112233445566778899aabbccddeeff" type="image/png"/>' +
+        '</div><h2>Done</h2></en-note>';
+
+      const edit = (args: Record<string, unknown>) =>
+        callToolHandler({ params: { name: 'edit_note', arguments: { noteId: 'note123', ...args } } });
+
+      beforeEach(() => {
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Journal', content });
+        noteStore.handlers.updateNote = ({ note }) => note;
+      });
+
+      it('should change one section and keep the rest of the note', async () => {
+        const result = await edit({ operation: 'insert_after_heading', heading: 'log', position: 'end', content: 'x' });
+
+        expect(result.content[0].text).toBe('Edited note "Journal": added to the end of section "Log"');
+        expect(calls('getNote')[0].args.withContent).toBe(true);
+        const { note } = calls('updateNote')[0].args;
+        expect(note).toMatchObject({ guid: 'note123', title: 'Journal' });
+        expect(note.content).toBe(content.replace('</div><h2>Done', '</div><p>x</p><h2>Done'));
+        expect(note.resources).toBeUndefined();
+      });
+
+      it('should replace text', async () => {
+        await edit({ operation: 'find_replace', find: 'Mon', replace: 'Monday' });
+
+        expect(calls('updateNote')[0].args.note.content).toBe(content.replace('>Mon<', '>Monday<'));
+      });
+
+      it('should validate the edit before reading the note', async () => {
+        await expect(edit({ operation: 'rewrite' })).rejects.toThrow('Invalid operation: rewrite. Expected one of');
+        await expect(edit({ operation: 'append' })).rejects.toThrow('append needs content');
+        await expect(edit({ operation: 'replace_section', content: 'x' })).rejects.toThrow('needs a heading');
+        await expect(edit({ operation: 'insert_after_heading', heading: 'Log', position: 'middle', content: 'x' }))
+          .rejects.toThrow('Invalid position: middle. Expected one of start, end');
+        await expect(edit({ operation: 'find_replace', find: 'Mon' })).rejects.toThrow('pass an empty string');
+        await expect(edit({ operation: 'append', content: '<form/>', contentFormat: 'enml' })).rejects.toThrow(
+          'Element <form> is prohibited in ENML'
+        );
+        expect(noteStore.calls).toHaveLength(0);
+      });
+
+      it('should not update the note when the heading is missing', async () => {
+        await expect(edit({ operation: 'replace_section', heading: 'Todo', content: 'x' })).rejects.toThrow(
+          'No heading "Todo" in the note. Its headings are: "Log", "Done"'
+        );
+        expect(calls('updateNote')).toHaveLength(0);
+      });
     });
 
-    it('should wrap non-McpError errors', async () => {
-      mockAxios.onPost('https://api.evernote.com/notes').networkError();
-      const handler = handlers.get(CallToolRequestSchema);
-      expect(handler).toBeDefined();
-      
+    describe('to-do tools', () => {
+      const checklist = wrapEnml(
+        '<div><en-todo checked="true"/>Milk</div><div><en-todo checked="false"/>Eggs</div><div>Notes</div>'
+      );
+      const call = (name: string, args: Record<string, unknown>) =>
+        callToolHandler({ params: { name, arguments: args } });
+
+      beforeEach(() => {
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: `Note ${guid}`, content: checklist });
+        noteStore.handlers.updateNote = ({ note }) => note;
+      });
+
+      it('should list the to-dos of a note', async () => {
+        const result = JSON.parse((await call('list_todos', { noteId: 'note1', status: 'open' })).content[0].text);
+
+        expect(result).toEqual({
+          open: 1,
+          done: 1,
+          notes: [
+            { id: 'note1', title: 'Note note1', open: 1, done: 1, todos: [{ index: 1, text: 'Eggs', checked: false }] },
+          ],
+        });
+        expect(calls('findNotesMetadata')).toHaveLength(0);
+      });
+
+      it('should count the to-dos of the notes a search finds', async () => {
+        noteStore.handlers.findNotesMetadata = () => ({
+          startIndex: 0,
+          totalNotes: 2,
+          notes: [{ guid: 'note1' }, { guid: 'note2' }],
+        });
+
+        const result = await call('list_todos', { query: 'groceries', tags: ['home'], summary: true, limit: 5 });
+
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          open: 2,
+          done: 2,
+          notes: [
+            { id: 'note1', title: 'Note note1', open: 1, done: 1 },
+            { id: 'note2', title: 'Note note2', open: 1, done: 1 },
+          ],
+        });
+        const { filter, maxNotes } = calls('findNotesMetadata')[0].args;
+        expect(filter.words).toBe('todo:* tag:home groceries');
+        expect(maxNotes).toBe(5);
+      });
+
+      it('should check, uncheck and toggle a to-do, changing only its checkbox', async () => {
+        const toggled = await call('toggle_todo', { noteId: 'note1', text: 'eggs' });
+        expect(toggled.content[0].text).toBe('Checked to-do 1 "Eggs" in note "Note note1"');
+        expect(calls('updateNote')[0].args.note).toEqual({
+          guid: 'note1',
+          title: 'Note note1',
+          content: checklist.replace('checked="false"', 'checked="true"'),
+        });
+
+        const unchecked = await call('set_todo', { noteId: 'note1', index: 0, checked: false });
+        expect(unchecked.content[0].text).toBe('Unchecked to-do 0 "Milk" in note "Note note1"');
+        expect(calls('updateNote')).toHaveLength(2);
+
+        // Already checked, so nothing to save
+        await call('set_todo', { noteId: 'note1', index: 0, checked: true });
+        expect(calls('updateNote')).toHaveLength(2);
+      });
+
+      it('should add a to-do after another', async () => {
+        const result = await call('add_todo', { noteId: 'note1', text: 'Bread', afterText: 'milk' });
+
+        expect(result.content[0].text).toBe('Added to-do 1 "Bread" to note "Note note1"');
+        expect(calls('updateNote')[0].args.note.content).toBe(
+          checklist.replace('Milk</div>', 'Milk</div><div><en-todo checked="false"/>Bread</div>')
+        );
+      });
+
+      it('should validate the arguments before reading the note', async () => {
+        await expect(call('list_todos', { status: 'pending' })).rejects.toThrow(
+          'Invalid status: pending. Expected one of all, open, done'
+        );
+        await expect(call('list_todos', { noteId: 'note1', query: 'x' })).rejects.toThrow('not both');
+        await expect(call('toggle_todo', { noteId: 'note1' })).rejects.toThrow('Pass either index or text');
+        await expect(call('toggle_todo', { noteId: 'note1', index: 0, text: 'x' })).rejects.toThrow('Pass either');
+        await expect(call('set_todo', { noteId: 'note1', index: 0 })).rejects.toThrow(
+          'Invalid checked: undefined. Expected true or false'
+        );
+        await expect(call('set_todo', { noteId: 'note1', index: -1, checked: true })).rejects.toThrow(
+          'Invalid index: -1'
+        );
+        await expect(call('add_todo', { noteId: 'note1', text: ' ' })).rejects.toThrow('add_todo needs the text');
+        await expect(call('add_todo', { noteId: 'note1', text: 'x', checked: 'yes' })).rejects.toThrow(
+          'Invalid checked: yes. Expected true or false'
+        );
+        await expect(call('add_todo', { noteId: 'note1', text: 'x', afterIndex: 0, afterText: 'y' })).rejects.toThrow(
+          'Pass either afterIndex or afterText'
+        );
+        expect(noteStore.calls).toHaveLength(0);
+      });
+
+      it('should report to-dos that do not match', async () => {
+        await expect(call('toggle_todo', { noteId: 'note1', text: 'bread' })).rejects.toThrow(
+          'No to-do matching "bread". The note\'s to-dos are: 0 "Milk", 1 "Eggs"'
+        );
+        expect(calls('updateNote')).toHaveLength(0);
+      });
+    });
+
+    describe('reminders', () => {
+      const call = (name: string, args: Record<string, unknown>) =>
+        callToolHandler({ params: { name, arguments: args } });
+      const due = Date.UTC(2024, 4, 17, 7, 30);
+
+      beforeEach(() => {
+        noteStore.handlers.getUser = () => ({ id: 42, timezone: 'Europe/Berlin' });
+        noteStore.handlers.createNote = ({ note }) => ({ ...note, guid: 'note123' });
+        noteStore.handlers.getNote = ({ guid }) => ({
+          guid,
+          title: 'Call the bank',
+          attributes: { sourceURL: 'https://example.com', reminderOrder: 1, reminderTime: due },
+        });
+        noteStore.handlers.updateNote = ({ note }) => note;
+      });
+
+      it('should create a note with a reminder in the account\'s time zone', async () => {
+        const result = await call('create_note', { title: 'T', content: 'x', reminderTime: '2024-05-17T09:30' });
+
+        expect(result.content[0].text).toBe(
+          'Note created successfully with ID: note123\nReminder due 2024-05-17T09:30:00+02:00 (Europe/Berlin)'
+        );
+        const { attributes } = calls('createNote')[0].args.note;
+        expect(attributes.reminderTime).toBe(due);
+        expect(attributes.reminderOrder).toBeGreaterThan(0);
+      });
+
+      it('should mark a reminder done, keeping the other attributes', async () => {
+        const before = Date.now();
+        const result = await call('update_note', { noteId: 'note1', reminderDoneTime: 'now' });
+
+        expect(result.content[0].text).toMatch(
+          /^Note updated successfully\nReminder due 2024-05-17T09:30:00\+02:00, done \S+ \(Europe\/Berlin\)$/
+        );
+        const { note } = calls('updateNote')[0].args;
+        expect(note).toMatchObject({
+          title: 'Call the bank',
+          attributes: { sourceURL: 'https://example.com', reminderOrder: 1, reminderTime: due },
+        });
+        expect(note.attributes.reminderDoneTime).toBeGreaterThanOrEqual(before);
+        expect(note.content).toBeUndefined();
+      });
+
+      it('should remove a reminder', async () => {
+        const result = await call('update_note', { noteId: 'note1', removeReminder: true });
+
+        expect(result.content[0].text).toBe('Note updated successfully\nThe note has no reminder');
+        expect(calls('updateNote')[0].args.note.attributes).toEqual({ sourceURL: 'https://example.com' });
+      });
+
+      it('should leave the attributes alone without reminder changes', async () => {
+        await call('update_note', { noteId: 'note1', title: 'T' });
+
+        expect(calls('getUser')).toHaveLength(0);
+        expect(calls('updateNote')[0].args.note.attributes).toBeUndefined();
+      });
+
+      it('should list reminders soonest first, in the account\'s time zone', async () => {
+        noteStore.handlers.findNotesMetadata = () => ({
+          startIndex: 0,
+          totalNotes: 3,
+          notes: [
+            { guid: 'n1', title: 'Unscheduled', attributes: { reminderOrder: 5 } },
+            { guid: 'n2', title: 'Later', attributes: { reminderOrder: 2, reminderTime: Date.now() + 86400000 } },
+            { guid: 'n3', title: 'Missed', attributes: { reminderOrder: 3, reminderTime: due } },
+          ],
+        });
+
+        const result = await call('list_reminders', { dueAfter: '2024-05-01', limit: 2 });
+
+        const { timeZone, totalReminders, reminders } = JSON.parse(result.content[0].text);
+        expect(timeZone).toBe('Europe/Berlin');
+        expect(totalReminders).toBe(3);
+        expect(reminders).toEqual([
+          { id: 'n3', title: 'Missed', status: 'overdue', reminderTime: '2024-05-17T09:30:00+02:00' },
+          { id: 'n2', title: 'Later', status: 'upcoming', reminderTime: expect.stringMatching(/\+0[12]:00$/) },
+        ]);
+        const { filter, resultSpec } = calls('findNotesMetadata')[0].args;
+        // Midnight in Berlin
+        expect(filter.words).toBe('reminderOrder:* -reminderDoneTime:* reminderTime:20240430T220000Z');
+        expect(resultSpec).toMatchObject({ includeTitle: true, includeAttributes: true });
+      });
+
+      it('should reject invalid reminder arguments', async () => {
+        await expect(call('list_reminders', { status: 'late' })).rejects.toThrow(
+          'Invalid status: late. Expected one of open, upcoming, overdue, completed, all'
+        );
+        await expect(call('create_note', { title: 'T', content: 'x', reminderTime: 'friday' })).rejects.toThrow(
+          'Invalid reminderTime: friday'
+        );
+        await expect(
+          call('update_note', { noteId: 'note1', removeReminder: true, reminderTime: 'now' })
+        ).rejects.toThrow('Pass either removeReminder or reminder fields to set, not both');
+        expect(calls('createNote')).toHaveLength(0);
+        expect(calls('updateNote')).toHaveLength(0);
+      });
+    });
+
+    describe('note attributes', () => {
+      const call = (name: string, args: Record<string, unknown>) =>
+        callToolHandler({ params: { name, arguments: args } });
+
+      beforeEach(() => {
+        noteStore.handlers.getUser = () => ({ id: 42, timezone: 'Europe/Berlin' });
+        noteStore.handlers.createNote = ({ note }) => ({ ...note, guid: 'note123' });
+        noteStore.handlers.getNote = ({ guid }) => ({
+          guid,
+          title: 'Clipped',
+          updateSequenceNum: 7,
+          attributes: {
+            sourceURL: 'https://example.com/article',
+            author: 'Ada',
+            applicationData: { keysOnly: ['com.example.sync'] },
+          },
+        });
+        noteStore.handlers.updateNote = ({ note }) => ({ ...note, updateSequenceNum: 8 });
+        noteStore.handlers.getNoteApplicationData = () => ({
+          keysOnly: ['com.example.sync'],
+          fullMap: { 'com.example.sync': 'id-42' },
+        });
+        let usn = 8;
+        noteStore.handlers.setNoteApplicationDataEntry = () => ++usn;
+        noteStore.handlers.unsetNoteApplicationDataEntry = () => ++usn;
+      });
+
+      it('should create a note with attributes and application data', async () => {
+        const result = await call('create_note', {
+          title: 'T',
+          content: 'x',
+          attributes: {
+            sourceURL: 'https://example.com/article',
+            latitude: 52.52,
+            longitude: 13.405,
+            subjectDate: '2024-05-17T10:00',
+            applicationData: { 'com.example.sync': 'id-42' },
+          },
+        });
+
+        expect(result.content[0].text).toBe('Note created successfully with ID: note123');
+        expect(calls('createNote')[0].args.note.attributes).toEqual({
+          sourceURL: 'https://example.com/article',
+          latitude: 52.52,
+          longitude: 13.405,
+          subjectDate: Date.UTC(2024, 4, 17, 8),
+          applicationData: { fullMap: { 'com.example.sync': 'id-42' } },
+        });
+      });
+
+      it('should change attributes on the current ones and application data an entry at a time', async () => {
+        const result = await call('update_note', {
+          noteId: 'note1',
+          attributes: {
+            author: null,
+            placeName: 'Berlin',
+            applicationData: { 'com.example.state': 'done', 'com.example.sync': null },
+          },
+        });
+
+        expect(result.content[0].text).toBe('Note updated successfully, now version 10');
+        expect(calls('updateNote')[0].args.note.attributes).toEqual({
+          sourceURL: 'https://example.com/article',
+          placeName: 'Berlin',
+          applicationData: { keysOnly: ['com.example.sync'] },
+        });
+        expect(calls('setNoteApplicationDataEntry')[0].args).toMatchObject({
+          guid: 'note1',
+          key: 'com.example.state',
+          value: 'done',
+        });
+        expect(calls('unsetNoteApplicationDataEntry')[0].args).toMatchObject({
+          guid: 'note1',
+          key: 'com.example.sync',
+        });
+        expect(calls('getUser')).toHaveLength(0);
+      });
+
+      it('should leave the other attributes alone when only application data changes', async () => {
+        await call('update_note', { noteId: 'note1', title: 'T', attributes: { applicationData: { abc: 'x' } } });
+
+        expect(calls('getNote')).toHaveLength(0);
+        expect(calls('updateNote')[0].args.note.attributes).toBeUndefined();
+        expect(calls('setNoteApplicationDataEntry')).toHaveLength(1);
+      });
+
+      it('should show the attributes and application data values in get_note\'s header', async () => {
+        const result = await call('get_note', { noteId: 'note1', includeContent: false });
+
+        const text = result.content[0].text;
+        expect(text).toContain('Source URL: https://example.com/article');
+        expect(text).toContain('Author: Ada');
+        expect(text).toContain('Application data: {"com.example.sync":"id-42"}');
+        expect(calls('getNoteApplicationData')[0].args.guid).toBe('note1');
+        expect(calls('getUser')).toHaveLength(0);
+      });
+
+      it('should reject invalid attributes before changing anything', async () => {
+        await expect(call('create_note', { title: 'T', content: 'x', attributes: { url: 'x' } })).rejects.toThrow(
+          'Unknown attribute: url'
+        );
+        await expect(
+          call('update_note', { noteId: 'note1', attributes: { sourceURL: 'example.com' } })
+        ).rejects.toThrow('Invalid attributes.sourceURL: example.com');
+        await expect(
+          call('update_note', { noteId: 'note1', attributes: { applicationData: { 'no spaces': 'x' } } })
+        ).rejects.toThrow('Invalid attributes.applicationData: no spaces');
+        expect(noteStore.calls).toHaveLength(0);
+      });
+    });
+
+    describe('attach_file', () => {
+      it('should add the resource and keep the existing ones', async () => {
+        const existingHash = Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+        noteStore.handlers.getUser = () => ({ id: 42, serviceLevel: 3 });
+        noteStore.handlers.getNote = ({ guid }) => ({
+          guid,
+          title: 'Trip',
+          content: '<en-note><p>Receipts</p><p>Photos</p></en-note>',
+          contentLength: 46,
+          resources: [{ guid: 'res1', mime: 'image/png', data: { bodyHash: existingHash, size: 10 } }],
+        });
+        noteStore.handlers.updateNote = ({ note }) => ({
+          ...note,
+          resources: note.resources.map((resource: any, index: number) => ({ guid: `res${index + 1}`, ...resource })),
+        });
+
+        const result = await callToolHandler({
+          params: {
+            name: 'attach_file',
+            arguments: {
+              noteId: 'note123',
+              data: Buffer.from('hello').toString('base64'),
+              fileName: 'a.txt',
+              afterText: 'receipts',
+            },
+          },
+        });
+
+        expect(result.content[0].text).toBe('Attached "a.txt" (text/plain, 1 KB) to note "Trip" (note123) as resource res2');
+        expect(calls('getNote')[0].args.withContent).toBe(true);
+        const { note } = calls('updateNote')[0].args;
+        const hash = createHash('md5').update('hello').digest('hex');
+        expect(note.content).toBe(
+          `<en-note><p>Receipts</p><div><en-media type="text/plain" hash="${hash}"/></div><p>Photos</p></en-note>`
+        );
+        expect(note.resources).toEqual([
+          { guid: 'res1', mime: 'image/png', data: { bodyHash: existingHash, size: 10 } },
+          expect.objectContaining({ mime: 'text/plain', attributes: { fileName: 'a.txt' } }),
+        ]);
+      });
+    });
+
+    describe('list_resources', () => {
+      it('should describe the note\'s attachments', async () => {
+        noteStore.handlers.getNote = ({ guid }) => ({
+          guid,
+          title: 'Receipts',
+          resources: [
+            {
+              guid: 'res1',
+              mime: 'image/jpeg',
+              data: { bodyHash: Buffer.from('00ff', 'hex'), size: 2048 },
+              recognition: { size: 300 },
+              attributes: { fileName: 'scan.jpg' },
+            },
+          ],
+        });
+
+        const result = await callToolHandler({ params: { name: 'list_resources', arguments: { noteId: 'note123' } } });
+
+        expect(calls('getNote')[0].args).toMatchObject({ withContent: false, withResourcesData: false });
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          noteId: 'note123',
+          title: 'Receipts',
+          resources: [
+            { id: 'res1', fileName: 'scan.jpg', mime: 'image/jpeg', size: 2048, hash: '00ff', recognition: true },
+          ],
+        });
+      });
+    });
+
+    describe('get_resource', () => {
+      const directory = mkdtempSync(join(tmpdir(), 'evernote-resources-'));
+      const recognition = '<recoIndex><item x="1" y="1" w="10" h="10"><t w="90">Total</t></item></recoIndex>';
+
+      afterAll(() => {
+        rmSync(directory, { recursive: true, force: true });
+      });
+
+      beforeEach(() => {
+        noteStore.handlers.getResource = ({ guid, withData }) => ({
+          guid,
+          noteGuid: 'note123',
+          mime: guid === 'text' ? 'text/plain' : 'image/jpeg',
+          data: { size: 5, ...(withData ? { body: Buffer.from('hello') } : {}) },
+          recognition: guid === 'text' ? undefined : { size: recognition.length, body: Buffer.from(recognition) },
+          attributes: { fileName: guid === 'text' ? 'hello.txt' : 'scan.jpg' },
+        });
+      });
+
+      it('should return recognized text without downloading the image', async () => {
+        const result = await callToolHandler({ params: { name: 'get_resource', arguments: { resourceId: 'image' } } });
+
+        expect(calls('getResource')).toHaveLength(1);
+        expect(calls('getResource')[0].args).toMatchObject({ withData: false, withRecognition: true, withAttributes: true });
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          id: 'image',
+          noteId: 'note123',
+          fileName: 'scan.jpg',
+          mime: 'image/jpeg',
+          size: 5,
+          recognizedText: 'Total',
+        });
+      });
+
+      it('should return small text files inline', async () => {
+        const result = await callToolHandler({ params: { name: 'get_resource', arguments: { resourceId: 'text' } } });
+
+        expect(JSON.parse(result.content[0].text).text).toBe('hello');
+        expect(calls('getResource')[1].args.withData).toBe(true);
+      });
+
+      it('should save the file to a directory', async () => {
+        const result = await callToolHandler({
+          params: { name: 'get_resource', arguments: { resourceId: 'image', saveTo: directory } },
+        });
+
+        const { savedTo } = JSON.parse(result.content[0].text);
+        expect(savedTo).toBe(join(directory, 'scan.jpg'));
+        expect(readFileSync(savedTo, 'utf8')).toBe('hello');
+      });
+    });
+
+    describe('delete_note', () => {
+      it('should move the note to the trash and name it', async () => {
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Old plans', active: true });
+        noteStore.handlers.deleteNote = () => 101;
+
+        const result = await callToolHandler({
+          params: { name: 'delete_note', arguments: { noteId: 'note123' } },
+        });
+
+        expect(result.content[0].text).toBe('Moved note "Old plans" (note123) to the trash');
+        expect(calls('deleteNote')[0].args.guid).toBe('note123');
+      });
+    });
+
+    describe('restore_note', () => {
+      it('should mark a trashed note active again', async () => {
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Old plans', active: false, deleted: 1700000000000 });
+        noteStore.handlers.updateNote = ({ note }) => note;
+
+        const result = await callToolHandler({
+          params: { name: 'restore_note', arguments: { noteId: 'note123' } },
+        });
+
+        expect(result.content[0].text).toBe('Restored note "Old plans" (note123) from the trash');
+        expect(calls('updateNote')[0].args.note).toEqual({ guid: 'note123', title: 'Old plans', active: true });
+      });
+
+      it('should reject notes that are not in the trash', async () => {
+        noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Current', active: true });
+
+        await expect(callToolHandler({
+          params: { name: 'restore_note', arguments: { noteId: 'note123' } },
+        })).rejects.toThrow('Note "Current" (note123) is not in the trash');
+        expect(calls('updateNote')).toHaveLength(0);
+      });
+    });
+
+    describe('list_trash', () => {
+      it('should search inactive notes', async () => {
+        noteStore.handlers.findNotesMetadata = () => ({
+          startIndex: 0,
+          totalNotes: 1,
+          notes: [{ guid: 'note1', title: 'Gone', deleted: Date.UTC(2024, 0, 5), notebookGuid: 'nb1' }],
+        });
+
+        const result = await callToolHandler({
+          params: { name: 'list_trash', arguments: {} },
+        });
+
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          total: 1,
+          notes: [{ id: 'note1', title: 'Gone', deleted: '2024-01-05T00:00:00.000Z', notebook: 'nb1' }],
+        });
+        const [{ args }] = calls('findNotesMetadata');
+        expect(args.filter).toEqual({ inactive: true, order: NoteSortOrder.UPDATE_SEQUENCE_NUMBER });
+        expect(args.maxNotes).toBe(20);
+        expect(args.resultSpec.includeDeleted).toBe(true);
+      });
+
+      it('should validate the limit', async () => {
+        for (const limit of [0, 2.5, 500]) {
+          await expect(callToolHandler({ params: { name: 'list_trash', arguments: { limit } } })).rejects.toThrow(
+            `Invalid limit: ${limit}. Expected a whole number from 1 to 250`
+          );
+        }
+        expect(noteStore.calls).toHaveLength(0);
+      });
+    });
+
+    describe('expunge_note', () => {
+      it('should be disabled without EVERNOTE_ALLOW_EXPUNGE', async () => {
+        await expect(callToolHandler({
+          params: { name: 'expunge_note', arguments: { noteId: 'note123', confirm: true } },
+        })).rejects.toThrow('expunge_note is disabled: set EVERNOTE_ALLOW_EXPUNGE=true to allow permanent deletion');
+        expect(noteStore.calls).toHaveLength(0);
+      });
+    });
+
+    describe('list_notebooks', () => {
+      it('should list notebooks successfully', async () => {
+        noteStore.handlers.listNotebooks = () => [
+          { guid: 'nb1', name: 'Notebook 1', serviceCreated: 1234567890000 },
+          { guid: 'nb2', name: 'Notebook 2', serviceCreated: 1234567891000 },
+        ];
+        noteStore.handlers.findNoteCounts = () => ({});
+
+        const result = await callToolHandler({
+          params: { name: 'list_notebooks', arguments: {} },
+        });
+
+        const parsedResult = JSON.parse(result.content[0].text);
+        expect(parsedResult.notebooks).toHaveLength(2);
+        expect(parsedResult.notebooks[0].id).toBe('nb1');
+        expect(parsedResult.notebooks[0].name).toBe('Notebook 1');
+      });
+
+      it('should group by stack with note counts and the default flag', async () => {
+        noteStore.handlers.listNotebooks = () => [
+          { guid: 'nb1', name: 'projects', stack: 'Work', serviceCreated: 0 },
+          { guid: 'nb2', name: 'Inbox', defaultNotebook: true, serviceCreated: 0 },
+          { guid: 'nb3', name: 'Meetings', stack: 'Work', serviceCreated: 0 },
+          { guid: 'nb4', name: 'Recipes', stack: 'Home', serviceCreated: 0 },
+        ];
+        noteStore.handlers.findNoteCounts = () => ({ notebookCounts: { nb1: 4, nb2: 12 } });
+
+        const result = await callToolHandler({
+          params: { name: 'list_notebooks', arguments: {} },
+        });
+
+        const created = '1970-01-01T00:00:00.000Z';
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          notebooks: [{ id: 'nb2', name: 'Inbox', default: true, noteCount: 12, created }],
+          stacks: [
+            { name: 'Home', notebooks: [{ id: 'nb4', name: 'Recipes', default: false, noteCount: 0, created }] },
+            {
+              name: 'Work',
+              notebooks: [
+                { id: 'nb3', name: 'Meetings', default: false, noteCount: 0, created },
+                { id: 'nb1', name: 'projects', default: false, noteCount: 4, created },
+              ],
+            },
+          ],
+        });
+        expect(calls('findNoteCounts')[0].args).toMatchObject({ filter: {}, withTrash: false });
+      });
+    });
+
+    describe('create_notebook', () => {
+      it('should create notebook successfully', async () => {
+        noteStore.handlers.createNotebook = ({ notebook }) => ({ ...notebook, guid: 'nb123' });
+
+        const result = await callToolHandler({
+          params: {
+            name: 'create_notebook',
+            arguments: { name: 'New Notebook' },
+          },
+        });
+
+        expect(result.content[0].text).toBe('Notebook created successfully with ID: nb123');
+        expect(calls('createNotebook')[0].args.notebook.name).toBe('New Notebook');
+      });
+
+      it('should create the notebook in a stack', async () => {
+        noteStore.handlers.createNotebook = ({ notebook }) => ({ ...notebook, guid: 'nb123' });
+
+        await callToolHandler({
+          params: {
+            name: 'create_notebook',
+            arguments: { name: 'Q3', stack: 'Work' },
+          },
+        });
+
+        expect(calls('createNotebook')[0].args.notebook).toEqual({ name: 'Q3', stack: 'Work' });
+      });
+    });
+
+    describe('update_notebook', () => {
+      beforeEach(() => {
+        noteStore.handlers.listNotebooks = () => [{ guid: 'nb1', name: 'Projects', stack: 'Work', updateSequenceNum: 7 }];
+        noteStore.handlers.updateNotebook = () => 8;
+      });
+
+      it('should rename and keep the stack', async () => {
+        const result = await callToolHandler({
+          params: { name: 'update_notebook', arguments: { notebook: 'nb1', name: 'Side projects' } },
+        });
+
+        expect(result.content[0].text).toBe('Updated notebook "Side projects" (nb1), stack: "Work"');
+        expect(calls('updateNotebook')[0].args.notebook).toEqual({
+          guid: 'nb1',
+          name: 'Side projects',
+          stack: 'Work',
+          updateSequenceNum: 7,
+        });
+      });
+
+      it('should remove the notebook from its stack', async () => {
+        const result = await callToolHandler({
+          params: { name: 'update_notebook', arguments: { notebook: 'nb1', stack: '' } },
+        });
+
+        expect(result.content[0].text).toBe('Updated notebook "Projects" (nb1), stack: none');
+        expect(calls('updateNotebook')[0].args.notebook.stack).toBeUndefined();
+      });
+    });
+
+    describe('set_default_notebook', () => {
+      it('should flag the notebook as default', async () => {
+        noteStore.handlers.listNotebooks = () => [{ guid: 'nb2', name: 'Inbox' }];
+        noteStore.handlers.updateNotebook = () => 8;
+
+        const result = await callToolHandler({
+          params: { name: 'set_default_notebook', arguments: { notebook: 'nb2' } },
+        });
+
+        expect(result.content[0].text).toBe('Notebook "Inbox" (nb2) is now the default notebook');
+        expect(calls('updateNotebook')[0].args.notebook).toEqual({ guid: 'nb2', name: 'Inbox', defaultNotebook: true });
+      });
+    });
+
+    describe('delete_notebook', () => {
+      it('should require confirmation', async () => {
+        await expect(callToolHandler({
+          params: { name: 'delete_notebook', arguments: { notebook: 'nb1' } },
+        })).rejects.toThrow('pass confirm: true to proceed');
+        expect(noteStore.calls).toHaveLength(0);
+      });
+
+      it('should refuse to delete the default notebook', async () => {
+        noteStore.handlers.listNotebooks = () => [{ guid: 'nb2', name: 'Inbox', defaultNotebook: true }];
+
+        await expect(callToolHandler({
+          params: { name: 'delete_notebook', arguments: { notebook: 'nb2', confirm: true } },
+        })).rejects.toThrow('Notebook "Inbox" (nb2) is the default notebook');
+        expect(calls('expungeNotebook')).toHaveLength(0);
+      });
+
+      it('should expunge the notebook and report its notes', async () => {
+        noteStore.handlers.listNotebooks = () => [{ guid: 'nb5', name: 'Archive' }];
+        noteStore.handlers.findNoteCounts = () => ({ notebookCounts: { nb5: 3 } });
+        noteStore.handlers.expungeNotebook = () => 9;
+
+        const result = await callToolHandler({
+          params: { name: 'delete_notebook', arguments: { notebook: 'nb5', confirm: true } },
+        });
+
+        expect(result.content[0].text).toBe('Deleted notebook "Archive" (nb5); 3 notes moved to the trash');
+        expect(calls('findNoteCounts')[0].args.filter).toEqual({ notebookGuid: 'nb5' });
+        expect(calls('expungeNotebook')[0].args.guid).toBe('nb5');
+      });
+    });
+    describe('list_tags', () => {
+      it('should nest tags with their note counts', async () => {
+        noteStore.handlers.listTags = () => [
+          { guid: 't1', name: 'Work' },
+          { guid: 't2', name: 'Meetings', parentGuid: 't1' },
+        ];
+        noteStore.handlers.findNoteCounts = () => ({ tagCounts: { t2: 4 } });
+
+        const result = await callToolHandler({ params: { name: 'list_tags', arguments: {} } });
+
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          tags: [
+            {
+              id: 't1',
+              name: 'Work',
+              noteCount: 0,
+              children: [{ id: 't2', name: 'Meetings', noteCount: 4, children: [] }],
+            },
+          ],
+        });
+      });
+    });
+
+    describe('create_tag', () => {
+      it('should create the tag under its parent', async () => {
+        noteStore.handlers.listTags = () => [{ guid: 't1', name: 'Work' }];
+        noteStore.handlers.createTag = ({ tag }) => ({ ...tag, guid: 't9' });
+
+        const result = await callToolHandler({
+          params: { name: 'create_tag', arguments: { name: 'Calls', parent: 'work' } },
+        });
+
+        expect(result.content[0].text).toBe('Tag created successfully with ID: t9');
+        expect(calls('createTag')[0].args.tag).toEqual({ name: 'Calls', parentGuid: 't1' });
+      });
+    });
+
+    describe('rename_tag', () => {
+      beforeEach(() => {
+        noteStore.handlers.listTags = () => [
+          { guid: 't1', name: 'Work' },
+          { guid: 't2', name: 'Meetings', parentGuid: 't1', updateSequenceNum: 5 },
+        ];
+        noteStore.handlers.updateTag = () => 6;
+      });
+
+      it('should rename and keep the parent', async () => {
+        const result = await callToolHandler({
+          params: { name: 'rename_tag', arguments: { tag: 'meetings', name: 'Calls' } },
+        });
+
+        expect(result.content[0].text).toBe('Updated tag "Calls" (t2), parent: "Work"');
+        expect(calls('updateTag')[0].args.tag).toEqual({
+          guid: 't2',
+          name: 'Calls',
+          parentGuid: 't1',
+          updateSequenceNum: 5,
+        });
+      });
+
+      it('should move the tag to the top level', async () => {
+        const result = await callToolHandler({
+          params: { name: 'rename_tag', arguments: { tag: 't2', parent: '' } },
+        });
+
+        expect(result.content[0].text).toBe('Updated tag "Meetings" (t2), parent: none');
+        expect(calls('updateTag')[0].args.tag.parentGuid).toBeUndefined();
+      });
+
+      it('should suggest close names for an unknown tag', async () => {
+        await expect(callToolHandler({
+          params: { name: 'rename_tag', arguments: { tag: 'Meeting', name: 'Calls' } },
+        })).rejects.toThrow('Tag "Meeting" not found. Did you mean "Meetings" (t2)?');
+      });
+    });
+
+    describe('merge_tags', () => {
+      beforeEach(() => {
+        noteStore.handlers.listTags = () => [
+          { guid: 't1', name: 'todo' },
+          { guid: 't2', name: 'to-do' },
+          { guid: 't3', name: 'Urgent', parentGuid: 't2' },
+        ];
+        noteStore.handlers.findNotesMetadata = ({ filter }) => ({
+          startIndex: 0,
+          totalNotes: filter.inactive ? 0 : 2,
+          notes: filter.inactive
+            ? []
+            : [
+                { guid: 'n1', title: 'A', tagGuids: ['t2'] },
+                { guid: 'n2', title: 'B', tagGuids: ['t1', 't2'] },
+              ],
+        });
+        noteStore.handlers.updateNote = ({ note }) => note;
+        noteStore.handlers.updateTag = () => 10;
+        noteStore.handlers.expungeTag = () => 11;
+      });
+
+      it('should retag notes, move child tags and delete the merged tag', async () => {
+        const result = await callToolHandler({
+          params: { name: 'merge_tags', arguments: { tags: ['to-do'], into: 'todo' } },
+        });
+
+        expect(result.content[0].text).toBe('Merged "to-do" into "todo" (t1); 2 notes retagged');
+        expect(calls('findNotesMetadata').map((call) => call.args.filter)).toEqual([
+          { tagGuids: ['t2'], inactive: false },
+          { tagGuids: ['t2'], inactive: true },
+        ]);
+        expect(calls('updateNote').map((call) => call.args.note)).toEqual([
+          { guid: 'n1', title: 'A', tagGuids: ['t1'] },
+          { guid: 'n2', title: 'B', tagGuids: ['t1'] },
+        ]);
+        expect(calls('updateTag')[0].args.tag).toEqual({ guid: 't3', name: 'Urgent', parentGuid: 't1' });
+        expect(calls('expungeTag')[0].args.guid).toBe('t2');
+      });
+
+      it('should refuse to merge a tag into one nested under it', async () => {
+        await expect(callToolHandler({
+          params: { name: 'merge_tags', arguments: { tags: ['to-do'], into: 'Urgent' } },
+        })).rejects.toThrow('can\'t be merged into itself or a tag nested under it');
+        expect(calls('expungeTag')).toHaveLength(0);
+      });
+
+      it('should reject missing or invalid arguments', async () => {
+        const merge = (args: Record<string, unknown>) =>
+          callToolHandler({ params: { name: 'merge_tags', arguments: args } });
+        for (const tags of [undefined, 'to-do', [], ['to-do', 3]]) {
+          await expect(merge({ tags, into: 'todo' })).rejects.toThrow(
+            new McpError(ErrorCode.InvalidParams, 'merge_tags needs tags: the IDs or names of the tags to merge away')
+          );
+        }
+        await expect(merge({ tags: ['to-do'] })).rejects.toThrow(
+          'merge_tags needs into: the ID or name of the tag to keep'
+        );
+        expect(noteStore.calls).toHaveLength(0);
+      });
+    });
+
+    describe('delete_tag', () => {
+      it('should require confirmation', async () => {
+        await expect(callToolHandler({
+          params: { name: 'delete_tag', arguments: { tag: 't1' } },
+        })).rejects.toThrow('pass confirm: true to proceed');
+        expect(noteStore.calls).toHaveLength(0);
+      });
+
+      it('should expunge the tag and report its notes', async () => {
+        noteStore.handlers.listTags = () => [{ guid: 't1', name: 'old' }];
+        noteStore.handlers.findNoteCounts = () => ({ tagCounts: { t1: 1 } });
+        noteStore.handlers.expungeTag = () => 12;
+
+        const result = await callToolHandler({
+          params: { name: 'delete_tag', arguments: { tag: 'old', confirm: true } },
+        });
+
+        expect(result.content[0].text).toBe('Deleted tag "old" (t1); removed from 1 note');
+        expect(calls('expungeTag')[0].args.guid).toBe('t1');
+      });
+    });
+  });
+
+  describe('get_account_info', () => {
+    it('should report the service and user', async () => {
+      noteStore.handlers.getUser = () => ({
+        id: 42,
+        username: 'alice',
+        name: 'Alice',
+        shardId: 's1',
+        serviceLevel: 3,
+      });
+
+      const result = await handlers.get(CallToolRequestSchema)!({
+        params: { name: 'get_account_info', arguments: {} },
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        backend: 'evernote',
+        service: 'custom',
+        serviceUrl: new URL(noteStore.url).origin,
+        auth: 'developer token',
+        user: { id: 42, username: 'alice', name: 'Alice', shardId: 's1', serviceLevel: 'PREMIUM' },
+      });
+      expect(calls('getUser')[0].args.authenticationToken).toBe('test-api-key');
+    });
+  });
+
+  describe('local_search', () => {
+    it('should need the note cache', async () => {
+      const callTool = handlers.get(CallToolRequestSchema)!;
+
+      await expect(callTool({ params: { name: 'local_search', arguments: { query: 'plan' } } })).rejects.toThrow(
+        'local_search needs the note cache. Set EVERNOTE_CACHE=true'
+      );
+      await expect(callTool({ params: { name: 'local_search', arguments: { query: '-plan' } } })).rejects.toThrow(
+        'Invalid query: -plan. Expected at least one word to find'
+      );
+    });
+  });
+
+  describe('semantic_search', () => {
+    it('should need the note cache', async () => {
+      const callTool = handlers.get(CallToolRequestSchema)!;
+
+      await expect(callTool({ params: { name: 'semantic_search', arguments: { query: 'plan' } } })).rejects.toThrow(
+        'semantic_search needs the note cache. Set EVERNOTE_CACHE=true'
+      );
+      await expect(callTool({ params: { name: 'semantic_search', arguments: { query: ' ' } } })).rejects.toThrow(
+        'Invalid query:  . Expected text to search for'
+      );
+    });
+  });
+
+  describe('sync_status', () => {
+    it('should say how to turn the cache on', async () => {
+      const callTool = handlers.get(CallToolRequestSchema)!;
+
+      const result = await callTool({ params: { name: 'sync_status', arguments: {} } });
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        enabled: false,
+        reason: 'Set EVERNOTE_CACHE=true to keep a local copy of the account',
+      });
+      await expect(callTool({ params: { name: 'sync_status', arguments: { sync: 'full' } } })).rejects.toThrow(
+        'The note cache is off. Set EVERNOTE_CACHE=true'
+      );
+      await expect(callTool({ params: { name: 'sync_status', arguments: { sync: 'all' } } })).rejects.toThrow(
+        'Invalid sync: all. Expected one of incremental, full'
+      );
+    });
+  });
+
+  describe('Resources', () => {
+    const request = (schema: unknown, params: Record<string, unknown> = {}) => handlers.get(schema)!({ params });
+
+    it('should list notebooks, then notes a page at a time', async () => {
+      noteStore.handlers.listNotebooks = () => [{ guid: 'nb1', name: 'Meetings', stack: 'Work' }];
+      noteStore.handlers.findNotesMetadata = ({ offset }) => ({
+        startIndex: offset,
+        totalNotes: 51,
+        notes: [{ guid: `note${offset}`, title: 'Standup' }],
+      });
+
+      const first = await request(ListResourcesRequestSchema);
+      expect(first).toEqual({
+        resources: [
+          { uri: 'evernote://notebook/nb1', name: 'Work/Meetings', description: 'Notebook', mimeType: 'text/markdown' },
+          { uri: 'evernote://note/note0', name: 'Standup', mimeType: 'text/markdown' },
+        ],
+        nextCursor: '1',
+      });
+
+      const second = await request(ListResourcesRequestSchema, { cursor: first.nextCursor });
+      expect(second.resources).toEqual([{ uri: 'evernote://note/note1', name: 'Standup', mimeType: 'text/markdown' }]);
+      expect(calls('findNotesMetadata')[1].args.offset).toBe(1);
+      expect(calls('listNotebooks')).toHaveLength(1);
+    });
+
+    it('should offer URI templates', async () => {
+      const result = await request(ListResourceTemplatesRequestSchema);
+      expect(result.resourceTemplates.map((template: any) => template.uriTemplate)).toEqual([
+        'evernote://note/{guid}',
+        'evernote://notebook/{guid}',
+        'evernote://search{?q}',
+        'evernote://resource/{guid}',
+      ]);
+    });
+
+    it('should read a note as markdown', async () => {
+      noteStore.handlers.getNote = ({ guid }) => ({
+        guid,
+        title: 'Plan',
+        content: '<en-note><p>Ship it</p></en-note>',
+        notebookGuid: 'nb1',
+      });
+      noteStore.handlers.getNotebook = ({ guid }) => ({ guid, name: 'Work' });
+
+      const result = await request(ReadResourceRequestSchema, { uri: 'evernote://note/note1' });
+
+      expect(result.contents).toEqual([
+        {
+          uri: 'evernote://note/note1',
+          mimeType: 'text/markdown',
+          text: '# Plan\nID: note1\nNotebook: Work\n\n---\n\nShip it',
+        },
+      ]);
+      expect(calls('getNote')[0].args.withContent).toBe(true);
+    });
+
+    it('should read searches and notebooks as lists of links', async () => {
+      noteStore.handlers.getNotebook = ({ guid }) => ({ guid, name: 'Work' });
+      noteStore.handlers.findNotesMetadata = () => ({
+        startIndex: 0,
+        totalNotes: 3,
+        notes: [{ guid: 'note1', title: 'Q3 [draft]', updated: Date.UTC(2024, 0, 2) }],
+      });
+
+      const search = await request(ReadResourceRequestSchema, { uri: 'evernote://search?q=tag%3Awork' });
+      expect(search.contents[0].text).toBe(
+        '# Search: tag:work\n1 of 3 notes, most recently updated first\n\n' +
+          '- [Q3 \\[draft\\]](evernote://note/note1), updated 2024-01-02T00:00:00.000Z'
+      );
+      expect(calls('findNotesMetadata')[0].args.filter).toEqual({ words: 'tag:work', order: NoteSortOrder.UPDATED });
+
+      const notebook = await request(ReadResourceRequestSchema, { uri: 'evernote://notebook/nb1' });
+      expect(notebook.contents[0].text).toMatch(/^# Notebook: Work\n/);
+      expect(calls('findNotesMetadata')[1].args.filter.notebookGuid).toBe('nb1');
+    });
+
+    it('should read attachments as blobs with their MIME type', async () => {
+      noteStore.handlers.getResource = ({ guid }) => ({ guid, mime: 'image/png', data: { body: Buffer.from('png') } });
+
+      const result = await request(ReadResourceRequestSchema, { uri: 'evernote://resource/res1' });
+
+      expect(result.contents).toEqual([
+        { uri: 'evernote://resource/res1', mimeType: 'image/png', blob: Buffer.from('png').toString('base64') },
+      ]);
+    });
+
+    it('should reject unknown URIs', async () => {
+      await expect(request(ReadResourceRequestSchema, { uri: 'evernote://tag/t1' })).rejects.toThrow(
+        'Unknown resource URI: evernote://tag/t1'
+      );
+      await expect(request(SubscribeRequestSchema, { uri: 'https://example.com' })).rejects.toThrow(
+        'Unknown resource URI'
+      );
+    });
+
+    it('should notify subscribers when a tool changes a note', async () => {
+      let usn = 1;
+      noteStore.handlers.getNote = ({ guid }) => ({ guid, title: 'Plan', updateSequenceNum: usn });
+      noteStore.handlers.updateNote = ({ note }) => {
+        usn++;
+        return note;
+      };
+
+      await request(SubscribeRequestSchema, { uri: 'evernote://note/note1' });
+      const callTool = handlers.get(CallToolRequestSchema)!;
+      await callTool({ params: { name: 'update_note', arguments: { noteId: 'note1', title: 'Plan' } } });
+
+      for (let attempt = 0; attempt < 50 && !mockSendResourceUpdated.mock.calls.length; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(mockSendResourceUpdated).toHaveBeenCalledTimes(1);
+      expect(mockSendResourceUpdated).toHaveBeenCalledWith({ uri: 'evernote://note/note1' });
+
+      await request(UnsubscribeRequestSchema, { uri: 'evernote://note/note1' });
+    });
+  });
+
+  describe('Prompts', () => {
+    const configDirectory = mkdtempSync(join(tmpdir(), 'evernote-prompts-'));
+    const request = (schema: unknown, params: Record<string, unknown> = {}) => handlers.get(schema)!({ params });
+
+    beforeAll(() => {
+      process.env.EVERNOTE_CONFIG_DIR = configDirectory;
+    });
+
+    afterAll(() => {
+      delete process.env.EVERNOTE_CONFIG_DIR;
+      rmSync(configDirectory, { recursive: true, force: true });
+    });
+
+    it('should list the built-in prompts', async () => {
+      const result = await request(ListPromptsRequestSchema);
+      expect(result.prompts.map((prompt: any) => prompt.name)).toEqual([
+        'weekly_review',
+        'meeting_notes',
+        'daily_journal',
+        'inbox_triage',
+      ]);
+      expect(result.prompts[1].arguments[0]).toEqual({ name: 'title', description: 'Meeting title', required: true });
+    });
+
+    it('should embed matching notes as resources', async () => {
+      noteStore.handlers.findNotesMetadata = () => ({ startIndex: 0, totalNotes: 1, notes: [{ guid: 'note1' }] });
+      noteStore.handlers.getNote = ({ guid }) => ({
+        guid,
+        title: 'Sync 2024-01-01',
+        content: '<en-note><div><en-todo/>Ship</div></en-note>',
+      });
+
+      const result = await request(GetPromptRequestSchema, {
+        name: 'meeting_notes',
+        arguments: { title: 'Team "Sync"', attendees: 'Ana, Bo' },
+      });
+
+      expect(result.messages[0].content.text).toMatch(
+        /^Draft notes for the meeting "Team "Sync"" on \d{4}-\d{2}-\d{2}\.\nAttendees: Ana, Bo\nAgenda: not given\n/
+      );
+      expect(calls('findNotesMetadata')[0].args.filter.words).toBe('intitle:"Team Sync"');
+      expect(calls('findNotesMetadata')[0].args.maxNotes).toBe(3);
+      expect(result.messages[1]).toEqual({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: 'evernote://note/note1',
+            mimeType: 'text/markdown',
+            text: '# Sync 2024-01-01\nID: note1\n\n---\n\n- [ ] Ship',
+          },
+        },
+      });
+    });
+
+    it('should triage the default notebook unless one is given', async () => {
+      noteStore.handlers.listNotebooks = () => [
+        { guid: 'nb1', name: 'Work' },
+        { guid: 'nb2', name: 'Inbox', defaultNotebook: true },
+      ];
+      noteStore.handlers.findNotesMetadata = () => ({ startIndex: 0, totalNotes: 0, notes: [] });
+
+      const result = await request(GetPromptRequestSchema, { name: 'inbox_triage' });
+      expect(calls('findNotesMetadata')[0].args.filter).toEqual({ notebookGuid: 'nb2', order: NoteSortOrder.UPDATED });
+      expect(result.messages[1].content.text).toBe('# Notes\n0 notes, most recently updated first');
+
+      await request(GetPromptRequestSchema, { name: 'inbox_triage', arguments: { notebook: 'work' } });
+      expect(calls('findNotesMetadata')[1].args.filter.notebookGuid).toBe('nb1');
+    });
+
+    it('should load prompts from the config directory', async () => {
+      mkdirSync(join(configDirectory, 'prompts'), { recursive: true });
+      writeFileSync(
+        join(configDirectory, 'prompts', 'team.json'),
+        JSON.stringify([
+          { name: 'standup', arguments: [{ name: 'team', required: true }], template: 'Standup for {{team}}' },
+          { name: 'weekly_review', template: 'Our own review' },
+        ])
+      );
+
+      const list = await request(ListPromptsRequestSchema);
+      expect(list.prompts.map((prompt: any) => prompt.name)).toEqual([
+        'weekly_review',
+        'meeting_notes',
+        'daily_journal',
+        'inbox_triage',
+        'standup',
+      ]);
+
+      const standup = await request(GetPromptRequestSchema, { name: 'standup', arguments: { team: 'Core' } });
+      expect(standup.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Standup for Core' } }]);
+      const review = await request(GetPromptRequestSchema, { name: 'weekly_review' });
+      expect(review.messages).toHaveLength(1);
+      expect(noteStore.calls).toHaveLength(0);
+    });
+
+    it('should reject unknown prompts and missing arguments', async () => {
+      await expect(request(GetPromptRequestSchema, { name: 'nope' })).rejects.toThrow('Unknown prompt: nope');
+      await expect(request(GetPromptRequestSchema, { name: 'meeting_notes' })).rejects.toThrow(
+        'Missing required argument "title" for prompt meeting_notes'
+      );
+    });
+  });
+
+  describe('Error handling', () => {
+    it('should preserve McpError instances', async () => {
+      const handler = handlers.get(CallToolRequestSchema);
+      expect(handler).toBeDefined();
+
+      try {
+        await handler!({ params: { name: 'unknown_tool', arguments: {} } });
+      } catch (error) {
+        expect(error).toBeInstanceOf(McpError);
+        expect((error as McpError).code).toBe(ErrorCode.MethodNotFound);
+      }
+    });
+
+    it('should wrap non-McpError errors', async () => {
+      // No handler registered: the service answers with an application exception
+      const handler = handlers.get(CallToolRequestSchema);
+      expect(handler).toBeDefined();
+
       try {
         await handler!({
           params: {
@@ -323,4 +2044,4 @@ describe('EvernoteServer', () => {
       }
     });
   });
-});
\ No newline at end of file
+});
@@ -1,22 +1,300 @@
 // src/index.ts
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { join } from 'path';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  PromptMessage,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import axios from 'axios';
+import {
+  Attachment,
+  POSITIONS,
+  checkAttachmentSizes,
+  formatSize,
+  insertMedia,
+  isTextMime,
+  loadAttachment,
+  saveAttachment,
+} from './attachments.js';
+import { runAuthorizeCommand } from './auth/authorize.js';
+import { StoredToken, configDir, expiryWarning, loadToken, tokenUserId } from './auth/tokenStore.js';
+import {
+  BACKENDS,
+  BackendConfig,
+  EvernoteBackend,
+  createBackend,
+  LocalNoteSet,
+  hasLocalNotes,
+  isBackendName,
+} from './backend/backend.js';
+import { CachedBackend, SYNC_MODES, isSyncMode } from './backend/cache.js';
+import { EMBEDDERS, EmbeddingError, createEmbedder, isEmbedderName } from './embeddings.js';
+import {
+  CONTENT_FORMATS,
+  ContentFormat,
+  extractEnmlBody,
+  isContentFormat,
+  toEnml,
+  wrapEnml,
+} from './enml/convert.js';
+import {
+  EDIT_OPERATIONS,
+  EditResult,
+  NoteEdit,
+  SECTION_POSITIONS,
+  applyEdit,
+  isEditOperation,
+} from './enml/edit.js';
+import { diffEnml, mergeEnml } from './enml/merge.js';
+import { enmlToText } from './enml/render.js';
+import { TODO_STATUSES, TodoSelector, addTodo, isTodoStatus, listTodos, setTodo } from './enml/todos.js';
+import { assertValidEnml } from './enml/validate.js';
+import {
+  NoteView,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  clipText,
+  formatNote,
+  formatNoteList,
+  formatSnippet,
+  isOutputFormat,
+} from './format.js';
+import {
+  applicationDataChanges,
+  applyAttributeChanges,
+  describeAttributes,
+  needsTimeZone,
+  parseAttributeChanges,
+} from './noteAttributes.js';
+import { qualifiedName, resolveNotebook } from './notebooks.js';
+import {
+  BUILTIN_PROMPTS,
+  DEFAULT_PROMPT_NOTES,
+  PromptNotes,
+  escapeQuery,
+  loadPrompts,
+  mergePrompts,
+  promptValues,
+  renderTemplate,
+} from './prompts.js';
+import { EXTRA_FIELDS, ExtraField, SORT_ORDERS, buildSearchQuery, isSortBy } from './query.js';
+import { recognitionToText } from './recognition.js';
+import {
+  REMINDER_STATUSES,
+  ReminderChanges,
+  applyReminderChanges,
+  compareReminders,
+  describeReminder,
+  formatInTimeZone,
+  hasReminderChanges,
+  isReminderStatus,
+  parseTime,
+  reminderSearchQuery,
+  reminderState,
+  resolveTimeZone,
+} from './reminders.js';
+import { EvernoteService, accountFile, resolveService } from './service.js';
+import { Subscriptions } from './subscriptions.js';
+import { applyTagChanges, isDescendant, resolveTag, tagTree } from './tags.js';
+import { TextIndex, indexedNote, parseTextQuery } from './textIndex.js';
+import { VectorHit, VectorIndex, VectorUpdate, chunkText } from './vectorIndex.js';
+import { CONFLICT_MODES, ConflictMode, NoteVersions, isConflictMode } from './versions.js';
+import { EDAMNotFoundException } from './thrift/errors.js';
+import {
+  Note,
+  NoteAttributes,
+  NoteFilter,
+  NoteMetadata,
+  NoteSortOrder,
+  Notebook,
+  NotesMetadataList,
+  Resource,
+  ServiceLevel,
+  Tag,
+} from './thrift/types.js';
+import { RESOURCE_TEMPLATES, noteUri, notebookUri, parseUri } from './uris.js';
+
+// The most notes findNotesMetadata returns per call
+const MAX_NOTES_PER_PAGE = 250;
+
+// Notes per page of resources/list, and per notebook or search resource
+const RESOURCE_PAGE_SIZE = 50;
+
+// Seconds between checks of subscribed resources, unless EVERNOTE_POLL_INTERVAL says otherwise
+const DEFAULT_POLL_INTERVAL = 60;
+
+// Seconds before a cached read checks for changes, unless EVERNOTE_CACHE_MAX_AGE says otherwise
+const DEFAULT_CACHE_MAX_AGE = 60;
+
+/** The notes in a list and their update sequence numbers */
+function listVersion(list: NotesMetadataList): string {
+  return `${list.totalNotes}:${list.notes.map((note) => `${note.guid}@${note.updateSequenceNum}`).join(',')}`;
+}
+
+// Notes whose content search_notes fetches at once for snippets
+const SNIPPET_CONCURRENCY = 5;
 
-interface EvernoteConfig {
-  apiKey: string;
-  apiUrl: string;
+/** `map` applied to every item, at most `limit` at a time, with results in item order */
+async function mapConcurrently<T, R>(items: T[], limit: number, map: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
+// Larger text attachments have to be saved rather than returned
+const MAX_INLINE_TEXT_SIZE = 64 * 1024;
+
+// Shared by create_note's attachments and attach_file
+const ATTACHMENT_PROPERTIES = {
+  path: {
+    type: 'string',
+    description: 'Local file to attach',
+  },
+  data: {
+    type: 'string',
+    description: 'File contents, base64 encoded, instead of a path',
+  },
+  fileName: {
+    type: 'string',
+    description: 'File name to show; defaults to the name of the file at path',
+  },
+  mime: {
+    type: 'string',
+    description: 'MIME type; detected from the contents and file name when not given',
+  },
+  sourceURL: {
+    type: 'string',
+    description: 'Where the file came from (optional)',
+  },
+  position: {
+    type: 'string',
+    enum: POSITIONS,
+    description: 'Where to show the file in the note: end (default) or start',
+    default: 'end',
+  },
+  afterText: {
+    type: 'string',
+    description: 'Show the file after the first paragraph containing this text instead',
+  },
+};
+
+// Shared by create_note and update_note
+const REMINDER_PROPERTIES = {
+  reminderTime: {
+    type: 'string',
+    description:
+      'When to be reminded, as an ISO 8601 date-time such as 2024-05-17T15:30, in the account\'s time zone unless ' +
+      'it has an offset; a date alone means 9:00. Makes the note a reminder. An empty string unschedules it',
+  },
+  reminderDoneTime: {
+    type: 'string',
+    description: 'When the reminder was done, usually "now", to mark it done; an empty string reopens it',
+  },
+  reminderOrder: {
+    type: 'number',
+    description:
+      'Position in the reminder list, which Evernote apps sort newest first; a time in milliseconds. ' +
+      'Set to now when a note first gets a reminder time',
+  },
+};
+
+// create_note's and update_note's attributes
+const NOTE_ATTRIBUTE_PROPERTIES = {
+  sourceURL: {
+    type: 'string',
+    description: 'Where the note came from, such as the page it was clipped from',
+  },
+  author: {
+    type: 'string',
+    description: 'Who wrote it',
+  },
+  source: {
+    type: 'string',
+    description: 'How it was made, such as web.clip or mobile.android',
+  },
+  sourceApplication: {
+    type: 'string',
+    description: 'The application that made it',
+  },
+  latitude: {
+    type: 'number',
+    description: 'Where it was made, in degrees',
+  },
+  longitude: {
+    type: 'number',
+    description: 'Where it was made, in degrees',
+  },
+  placeName: {
+    type: 'string',
+    description: 'The name of that place',
+  },
+  subjectDate: {
+    type: 'string',
+    description: 'The date the note is about, such as a meeting\'s, as an ISO 8601 date or date-time',
+  },
+  contentClass: {
+    type: 'string',
+    description:
+      'Marks the note as made by an application, such as evernote.food.meal; Evernote apps then may not let ' +
+      'people edit it',
+  },
+  applicationData: {
+    type: 'object',
+    additionalProperties: { type: ['string', 'null'] },
+    description:
+      'Entries for integrations, keyed by a name of 3 to 32 letters, digits, dots, dashes or underscores; ' +
+      'a null value removes one, and other entries are kept',
+  },
+};
+
+/** How toggle_todo and set_todo pick a to-do */
+const TODO_SELECTOR_PROPERTIES = {
+  noteId: {
+    type: 'string',
+    description: 'Note ID',
+  },
+  index: {
+    type: 'number',
+    description: 'The index of the to-do, as list_todos shows it',
+  },
+  text: {
+    type: 'string',
+    description: 'Text of the to-do instead, matched ignoring case: the whole text, or else a part only it has',
+  },
+};
+
 class EvernoteServer {
   private server: Server;
-  private config: EvernoteConfig;
+  private config: BackendConfig;
+  private backend: EvernoteBackend;
+  private service: EvernoteService;
+  /** expunge_note is only offered when EVERNOTE_ALLOW_EXPUNGE=true */
+  private allowExpunge: boolean;
+  private token?: StoredToken;
+  private subscriptions: Subscriptions;
+  /** For local_search, brought up to date with the local notes on each search */
+  private textIndex = new TextIndex();
+  /** For semantic_search, likewise */
+  private vectorIndex: VectorIndex;
+  /** Content of the note versions get_note returned, to show or merge what changed since */
+  private noteVersions = new NoteVersions();
 
   constructor() {
     this.server = new Server(
@@ -27,16 +305,67 @@ class EvernoteServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
 
+    const backend = process.env.EVERNOTE_BACKEND || 'evernote';
+    if (!isBackendName(backend)) {
+      throw new Error(`Unknown EVERNOTE_BACKEND: ${backend}. Expected one of ${BACKENDS.join(', ')}`);
+    }
+
+    // A developer token in the environment wins over one from `authorize`
+    const configuredService = process.env.EVERNOTE_SERVICE;
+    this.token = process.env.EVERNOTE_API_KEY ? undefined : this.loadStoredToken();
+    if (this.token && configuredService && resolveService(configuredService).url !== this.token.serviceUrl) {
+      console.error(
+        `Ignoring stored Evernote token for ${this.token.serviceUrl}: EVERNOTE_SERVICE is ${configuredService}`
+      );
+      this.token = undefined;
+    }
+    this.service = resolveService(configuredService || this.token?.serviceUrl);
+    // Without a user ID, files are named by service only; the cache checks the account on its first sync
+    const userId = this.token?.userId ?? tokenUserId(process.env.EVERNOTE_API_KEY ?? '');
+
     this.config = {
-      apiKey: process.env.EVERNOTE_API_KEY || '',
-      apiUrl: 'https://api.evernote.com',
+      backend,
+      apiKey: process.env.EVERNOTE_API_KEY || this.token?.token || '',
+      serviceUrl: this.service.url,
+      noteStoreUrl: process.env.EVERNOTE_NOTESTORE_URL || this.token?.noteStoreUrl,
+      localPath: process.env.EVERNOTE_LOCAL_PATH,
+      cachePath:
+        process.env.EVERNOTE_CACHE === 'true' ? accountFile(configDir(), 'cache', this.service, userId) : undefined,
+      cacheMaxAge: this.getSeconds('EVERNOTE_CACHE_MAX_AGE', DEFAULT_CACHE_MAX_AGE) * 1000,
     };
+    this.backend = createBackend(this.config);
+    this.allowExpunge = process.env.EVERNOTE_ALLOW_EXPUNGE === 'true';
+
+    const embedder = process.env.EVERNOTE_EMBEDDER || 'hashing';
+    if (!isEmbedderName(embedder)) {
+      throw new Error(`Unknown EVERNOTE_EMBEDDER: ${embedder}. Expected one of ${EMBEDDERS.join(', ')}`);
+    }
+    this.vectorIndex = new VectorIndex(
+      createEmbedder({
+        embedder,
+        ollamaUrl: process.env.EVERNOTE_OLLAMA_URL || undefined,
+        model: process.env.EVERNOTE_EMBEDDING_MODEL || undefined,
+      }),
+      // Local notes get embeddings beside them, or in memory like the notes
+      backend === 'local'
+        ? this.config.localPath?.replace(/(\.json)?$/, '.embeddings.json')
+        : accountFile(configDir(), 'embeddings', this.service, userId)
+    );
+    this.subscriptions = new Subscriptions({
+      version: (uri) => this.resourceVersion(uri),
+      notify: (uri) => this.server.sendResourceUpdated({ uri }),
+      intervalMs: this.getSeconds('EVERNOTE_POLL_INTERVAL', DEFAULT_POLL_INTERVAL) * 1000,
+    });
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
   }
 
   private setupToolHandlers() {
@@ -54,17 +383,39 @@ class EvernoteServer {
               },
               content: {
                 type: 'string',
-                description: 'Note content (can include HTML)',
+                description: 'Note content, interpreted according to contentFormat',
+              },
+              contentFormat: {
+                type: 'string',
+                enum: CONTENT_FORMATS,
+                description: 'Format of content: markdown (default), html, text or enml',
+                default: 'markdown',
               },
               notebook: {
                 type: 'string',
-                description: 'Notebook name (optional)',
+                description: 'Notebook ID, name or Stack/Name (optional; the default notebook otherwise)',
+              },
+              createIfMissing: {
+                type: 'boolean',
+                description: 'Create the notebook if no notebook matches',
+                default: false,
               },
               tags: {
                 type: 'array',
                 items: { type: 'string' },
                 description: 'Tags for the note',
               },
+              attachments: {
+                type: 'array',
+                items: { type: 'object', properties: ATTACHMENT_PROPERTIES },
+                description: 'Files to attach, each from a local path or base64 data',
+              },
+              ...REMINDER_PROPERTIES,
+              attributes: {
+                type: 'object',
+                properties: NOTE_ATTRIBUTE_PROPERTIES,
+                description: 'Note attributes, such as sourceURL and author',
+              },
             },
             required: ['title', 'content'],
           },
@@ -77,15 +428,156 @@ class EvernoteServer {
             properties: {
               query: {
                 type: 'string',
-                description: 'Search query',
+                description: 'Words to find, or raw Evernote search grammar, combined with the filters below',
+              },
+              notebook: {
+                type: 'string',
+                description: 'Limit search to a notebook, by ID, name or Stack/Name',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only notes with these tags; a trailing * matches prefixes',
+              },
+              excludeTags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Leave out notes with any of these tags',
+              },
+              createdAfter: {
+                type: 'string',
+                description: 'Created on or after this ISO 8601 date or date-time, e.g. 2024-01-31',
+              },
+              createdBefore: {
+                type: 'string',
+                description: 'Created before this ISO 8601 date or date-time',
+              },
+              updatedAfter: {
+                type: 'string',
+                description: 'Updated on or after this ISO 8601 date or date-time',
+              },
+              updatedBefore: {
+                type: 'string',
+                description: 'Updated before this ISO 8601 date or date-time',
+              },
+              intitle: {
+                type: 'string',
+                description: 'Words that must appear in the title',
+              },
+              hasTodo: {
+                type: 'boolean',
+                description: 'true for notes with checkboxes, false for notes without',
+              },
+              resourceType: {
+                type: 'string',
+                description: 'Only notes with attachments of this MIME type, e.g. image/png, or image, audio, video or pdf',
+              },
+              any: {
+                type: 'boolean',
+                description:
+                  'Match notes meeting any of the conditions instead of all of them. Not having an excluded tag, ' +
+                  'or being created or updated before a date, counts as one of the conditions',
+                default: false,
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum number of results, up to ${MAX_NOTES_PER_PAGE}`,
+                default: 10,
+              },
+              offset: {
+                type: 'number',
+                description: 'Number of matching notes to skip',
+                default: 0,
+              },
+              cursor: {
+                type: 'string',
+                description: 'nextCursor from a previous search with the same filters, instead of offset',
+              },
+              sortBy: {
+                type: 'string',
+                enum: Object.keys(SORT_ORDERS),
+                description: 'Order of results: updated (default), created, title or relevance',
+                default: 'updated',
+              },
+              ascending: {
+                type: 'boolean',
+                description: 'Oldest or A-Z first; defaults to true for title and false otherwise',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string', enum: EXTRA_FIELDS },
+                description:
+                  'Extra fields for each note: tags, notebookName, snippet (the start of its text, ' +
+                  'which costs one call per note)',
+              },
+            },
+          },
+        },
+        {
+          name: 'local_search',
+          description:
+            'Full-text search of the local note copy, including attachment text, ranked by relevance. ' +
+            'Works offline; needs the note cache or the local backend',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description:
+                  'Words that must all appear in the title, text, tags or attachment text. ' +
+                  'Use "quotes" for a phrase, a trailing * for a prefix and a leading - to exclude a word',
+              },
+              notebook: {
+                type: 'string',
+                description: 'Limit search to a notebook, by ID, name or Stack/Name',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only notes with all of these tags, by ID or name',
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum number of results, up to ${MAX_NOTES_PER_PAGE}`,
+                default: 10,
+              },
+              offset: {
+                type: 'number',
+                description: 'Number of matching notes to skip',
+                default: 0,
+              },
+              cursor: {
+                type: 'string',
+                description: 'nextCursor from a previous search with the same query, instead of offset',
+              },
+            },
+            required: ['query'],
+          },
+        },
+        {
+          name: 'semantic_search',
+          description:
+            'Find notes by meaning rather than exact words, ranked by similarity to the query. ' +
+            'Works offline; needs the note cache or the local backend',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'What to look for, in your own words',
               },
               notebook: {
                 type: 'string',
-                description: 'Limit search to specific notebook',
+                description: 'Limit search to a notebook, by ID, name or Stack/Name',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only notes with all of these tags, by ID or name',
               },
               limit: {
                 type: 'number',
-                description: 'Maximum number of results',
+                description: `Maximum number of results, up to ${MAX_NOTES_PER_PAGE}`,
                 default: 10,
               },
             },
@@ -107,6 +599,13 @@ class EvernoteServer {
                 description: 'Include note content',
                 default: true,
               },
+              outputFormat: {
+                type: 'string',
+                enum: OUTPUT_FORMATS,
+                description:
+                  'How to render the note: markdown (default), text, enml (raw content) or json (raw API response)',
+                default: 'markdown',
+              },
             },
             required: ['noteId'],
           },
@@ -127,263 +626,2209 @@ class EvernoteServer {
               },
               content: {
                 type: 'string',
-                description: 'New content',
+                description: 'New content, interpreted according to contentFormat',
+              },
+              contentFormat: {
+                type: 'string',
+                enum: CONTENT_FORMATS,
+                description: 'Format of content: markdown (default), html, text or enml',
+                default: 'markdown',
               },
               tags: {
                 type: 'array',
                 items: { type: 'string' },
-                description: 'New tags',
+                description: 'Replace all of the note\'s tags with these',
+              },
+              addTags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Tags to add, keeping the others; missing tags are created',
+              },
+              removeTags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Tags to remove, keeping the others',
+              },
+              expectedVersion: {
+                type: 'number',
+                description:
+                  'The version get_note showed. If the note changed since, the update fails with the changes ' +
+                  'made in the meantime',
+              },
+              onConflict: {
+                type: 'string',
+                enum: CONFLICT_MODES,
+                description:
+                  'When the note changed since expectedVersion: fail (default), or merge the changed blocks of ' +
+                  'content into the current note, failing only where both changed the same block',
+                default: 'fail',
+              },
+              ...REMINDER_PROPERTIES,
+              removeReminder: {
+                type: 'boolean',
+                description: 'Take the note off the reminder list, clearing its reminder time',
+                default: false,
+              },
+              attributes: {
+                type: 'object',
+                properties: NOTE_ATTRIBUTE_PROPERTIES,
+                description: 'Note attributes to change, keeping the others; null or an empty string clears one',
               },
             },
             required: ['noteId'],
           },
         },
         {
-          name: 'list_notebooks',
-          description: 'List all notebooks',
+          name: 'edit_note',
+          description:
+            'Change part of a note, such as adding to the end or replacing the text under a heading, ' +
+            'leaving the rest of it exactly as it was',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              noteId: {
+                type: 'string',
+                description: 'Note ID',
+              },
+              operation: {
+                type: 'string',
+                enum: EDIT_OPERATIONS,
+                description:
+                  'append or prepend content to the note; insert_after_heading adds content to the section ' +
+                  'under heading; replace_section replaces what is under heading; find_replace replaces text',
+              },
+              content: {
+                type: 'string',
+                description: 'Content to add, interpreted according to contentFormat; not used by find_replace',
+              },
+              contentFormat: {
+                type: 'string',
+                enum: CONTENT_FORMATS,
+                description: 'Format of content: markdown (default), html, text or enml',
+                default: 'markdown',
+              },
+              heading: {
+                type: 'string',
+                description:
+                  'Text of the heading for insert_after_heading and replace_section; ' +
+                  'its section runs to the next heading of the same or a higher level',
+              },
+              position: {
+                type: 'string',
+                enum: SECTION_POSITIONS,
+                description: 'For insert_after_heading: start (default), right after the heading, or end of the section',
+                default: 'start',
+              },
+              find: {
+                type: 'string',
+                description: 'For find_replace: text to find, matching case',
+              },
+              replace: {
+                type: 'string',
+                description: 'For find_replace: replacement text; empty to delete',
+              },
+              all: {
+                type: 'boolean',
+                description: 'For find_replace: replace every occurrence rather than requiring exactly one',
+                default: false,
+              },
+            },
+            required: ['noteId', 'operation'],
           },
         },
         {
-          name: 'create_notebook',
-          description: 'Create a new notebook',
+          name: 'list_todos',
+          description:
+            'List the checklist items of one note, or of the notes a search finds, with whether each is done',
           inputSchema: {
             type: 'object',
             properties: {
-              name: {
+              noteId: {
                 type: 'string',
-                description: 'Notebook name',
+                description: 'The note to list; leave out to search notes with checkboxes instead',
+              },
+              query: {
+                type: 'string',
+                description: 'Words to find, or Evernote search grammar, among notes with checkboxes',
+              },
+              notebook: {
+                type: 'string',
+                description: 'Limit search to a notebook, by ID, name or Stack/Name',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only notes with these tags',
+              },
+              status: {
+                type: 'string',
+                enum: TODO_STATUSES,
+                description: 'all (default), open for unchecked items, or done for checked ones',
+                default: 'all',
+              },
+              summary: {
+                type: 'boolean',
+                description: 'Only count the open and done items of each note, without listing them',
+                default: false,
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum number of notes to search, up to ${MAX_NOTES_PER_PAGE} (default: 20)`,
+                default: 20,
               },
             },
-            required: ['name'],
           },
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      if (!this.config.apiKey) {
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          'Evernote API key not configured'
-        );
-      }
-
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'create_note':
-            return await this.createNote(args);
-          case 'search_notes':
-            return await this.searchNotes(args);
-          case 'get_note':
-            return await this.getNote(args);
-          case 'update_note':
-            return await this.updateNote(args);
-          case 'list_notebooks':
-            return await this.listNotebooks();
-          case 'create_notebook':
-            return await this.createNotebook(args);
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
-        }
-      } catch (error) {
-        if (error instanceof McpError) throw error;
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Evernote API error: ${error}`
-        );
-      }
-    });
-  }
-
-  private async createNote(args: any) {
-    const { title, content, notebook, tags } = args;
-    
-    // Format content as ENML (Evernote Markup Language)
-    const enmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
-<en-note>${content}</en-note>`;
-
-    const response = await axios.post(
-      `${this.config.apiUrl}/notes`,
-      {
-        title,
-        content: enmlContent,
-        notebookGuid: notebook,
-        tagNames: tags,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
+        {
+          name: 'toggle_todo',
+          description: 'Check an unchecked to-do in a note, or uncheck a checked one',
+          inputSchema: {
+            type: 'object',
+            properties: TODO_SELECTOR_PROPERTIES,
+            required: ['noteId'],
+          },
         },
-      }
-    );
-
-    return {
-      content: [
         {
-          type: 'text',
-          text: `Note created successfully with ID: ${response.data.guid}`,
+          name: 'set_todo',
+          description: 'Check or uncheck a to-do in a note',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...TODO_SELECTOR_PROPERTIES,
+              checked: {
+                type: 'boolean',
+                description: 'true to check the to-do, false to uncheck it',
+              },
+            },
+            required: ['noteId', 'checked'],
+          },
         },
-      ],
-    };
-  }
-
-  private async searchNotes(args: any) {
-    const { query, notebook, limit = 10 } = args;
-    
-    let searchQuery = query;
-    if (notebook) {
-      searchQuery = `notebook:"${notebook}" ${query}`;
-    }
-
-    const response = await axios.get(`${this.config.apiUrl}/notes/search`, {
-      params: {
-        query: searchQuery,
-        maxNotes: limit,
-      },
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
+        {
+          name: 'add_todo',
+          description: 'Add a to-do to the checklist in a note, laid out like the items around it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              noteId: {
+                type: 'string',
+                description: 'Note ID',
+              },
+              text: {
+                type: 'string',
+                description: 'What the to-do says, as plain text',
+              },
+              checked: {
+                type: 'boolean',
+                description: 'Add it already checked',
+                default: false,
+              },
+              afterIndex: {
+                type: 'number',
+                description: 'Add it after the to-do with this index from list_todos; by default after the last one',
+              },
+              afterText: {
+                type: 'string',
+                description: 'Add it after the to-do with this text instead',
+              },
+            },
+            required: ['noteId', 'text'],
+          },
+        },
+        {
+          name: 'list_reminders',
+          description:
+            'List notes with reminders, soonest due first, with times in the account\'s time zone',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              status: {
+                type: 'string',
+                enum: REMINDER_STATUSES,
+                description:
+                  'open (default) for reminders not done yet, upcoming or overdue for those due later or ' +
+                  'already, completed, or all',
+                default: 'open',
+              },
+              dueAfter: {
+                type: 'string',
+                description:
+                  'Only reminders due on or after this ISO 8601 date or date-time, in the account\'s time zone ' +
+                  'unless it has an offset',
+              },
+              dueBefore: {
+                type: 'string',
+                description: 'Only reminders due before this date or date-time',
+              },
+              notebook: {
+                type: 'string',
+                description: 'Limit to a notebook, by ID, name or Stack/Name',
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum number of results, up to ${MAX_NOTES_PER_PAGE}`,
+                default: 50,
+              },
+            },
+          },
+        },
+        {
+          name: 'attach_file',
+          description: 'Attach a file, such as an image or PDF, to an existing note',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              noteId: {
+                type: 'string',
+                description: 'Note ID',
+              },
+              ...ATTACHMENT_PROPERTIES,
+            },
+            required: ['noteId'],
+          },
+        },
+        {
+          name: 'list_resources',
+          description: 'List the attachments of a note',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              noteId: {
+                type: 'string',
+                description: 'Note ID',
+              },
+            },
+            required: ['noteId'],
+          },
+        },
+        {
+          name: 'get_resource',
+          description:
+            'Get an attachment: save it to a local directory, read small text files inline, and read the text Evernote recognized in images and scans',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              resourceId: {
+                type: 'string',
+                description: 'Resource ID, from list_resources',
+              },
+              saveTo: {
+                type: 'string',
+                description: 'Local directory to save the file in (optional)',
+              },
+            },
+            required: ['resourceId'],
+          },
+        },
+        {
+          name: 'delete_note',
+          description: 'Move a note to the trash',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              noteId: {
+                type: 'string',
+                description: 'Note ID',
+              },
+            },
+            required: ['noteId'],
+          },
+        },
+        {
+          name: 'restore_note',
+          description: 'Restore a note from the trash',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              noteId: {
+                type: 'string',
+                description: 'Note ID',
+              },
+            },
+            required: ['noteId'],
+          },
+        },
+        {
+          name: 'list_trash',
+          description: 'List notes in the trash, most recently deleted first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                description: `Maximum number of results, up to ${MAX_NOTES_PER_PAGE}`,
+                default: 20,
+              },
+            },
+          },
+        },
+        ...(this.allowExpunge
+          ? [
+              {
+                name: 'expunge_note',
+                description: 'Permanently delete a note. This cannot be undone',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    noteId: {
+                      type: 'string',
+                      description: 'Note ID',
+                    },
+                    confirm: {
+                      type: 'boolean',
+                      description: 'Must be true to confirm the permanent deletion',
+                    },
+                  },
+                  required: ['noteId', 'confirm'],
+                },
+              },
+            ]
+          : []),
+        {
+          name: 'list_notebooks',
+          description: 'List all notebooks grouped by stack, with note counts and the default notebook',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'create_notebook',
+          description: 'Create a new notebook',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Notebook name',
+              },
+              stack: {
+                type: 'string',
+                description: 'Stack to put the notebook in (optional)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'update_notebook',
+          description: 'Rename a notebook or move it into or out of a stack',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              notebook: {
+                type: 'string',
+                description: 'Notebook ID, name or Stack/Name',
+              },
+              name: {
+                type: 'string',
+                description: 'New name',
+              },
+              stack: {
+                type: 'string',
+                description: 'Stack to move the notebook into; an empty string removes it from its stack',
+              },
+            },
+            required: ['notebook'],
+          },
+        },
+        {
+          name: 'set_default_notebook',
+          description: 'Make a notebook the default for new notes',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              notebook: {
+                type: 'string',
+                description: 'Notebook ID, name or Stack/Name',
+              },
+            },
+            required: ['notebook'],
+          },
+        },
+        {
+          name: 'delete_notebook',
+          description: 'Delete a notebook. Its notes are moved to the trash. This cannot be undone',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              notebook: {
+                type: 'string',
+                description: 'Notebook ID, name or Stack/Name',
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Must be true to confirm the deletion',
+              },
+            },
+            required: ['notebook', 'confirm'],
+          },
+        },
+        {
+          name: 'list_tags',
+          description: 'List all tags as a hierarchy, with the number of notes using each tag',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'create_tag',
+          description: 'Create a new tag',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Tag name',
+              },
+              parent: {
+                type: 'string',
+                description: 'Parent tag ID or name (optional)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'rename_tag',
+          description: 'Rename a tag or move it under another tag',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tag: {
+                type: 'string',
+                description: 'Tag ID or name',
+              },
+              name: {
+                type: 'string',
+                description: 'New name',
+              },
+              parent: {
+                type: 'string',
+                description: 'Parent tag ID or name; an empty string moves the tag to the top level',
+              },
+            },
+            required: ['tag'],
+          },
+        },
+        {
+          name: 'merge_tags',
+          description: 'Merge tags into another: their notes and child tags move to the target and the merged tags are deleted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'IDs or names of the tags to merge away',
+              },
+              into: {
+                type: 'string',
+                description: 'ID or name of the tag to keep',
+              },
+            },
+            required: ['tags', 'into'],
+          },
+        },
+        {
+          name: 'delete_tag',
+          description: 'Delete a tag and remove it from all notes. Child tags move to the top level. This cannot be undone',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tag: {
+                type: 'string',
+                description: 'Tag ID or name',
+              },
+              confirm: {
+                type: 'boolean',
+                description: 'Must be true to confirm the deletion',
+              },
+            },
+            required: ['tag', 'confirm'],
+          },
+        },
+        {
+          name: 'get_account_info',
+          description: 'Show which Evernote service and account the server is connected to',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'sync_status',
+          description: 'Show the state of the local note cache, optionally syncing it first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sync: {
+                type: 'string',
+                enum: SYNC_MODES,
+                description: 'Sync before reporting: incremental fetches changes since the last sync, full starts over',
+              },
+            },
+          },
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      this.assertConfigured();
+
+      const { name, arguments: args } = request.params;
+
+      try {
+        switch (name) {
+          case 'create_note':
+            return await this.createNote(args);
+          case 'search_notes':
+            return await this.searchNotes(args);
+          case 'local_search':
+            return await this.localSearch(args);
+          case 'semantic_search':
+            return await this.semanticSearch(args);
+          case 'get_note':
+            return await this.getNote(args);
+          case 'update_note':
+            return await this.updateNote(args);
+          case 'edit_note':
+            return await this.editNote(args);
+          case 'list_todos':
+            return await this.listTodos(args);
+          case 'toggle_todo':
+            return await this.setTodo(args, 'toggle');
+          case 'set_todo':
+            return await this.setTodo(args, args?.checked);
+          case 'add_todo':
+            return await this.addTodo(args);
+          case 'list_reminders':
+            return await this.listReminders(args);
+          case 'attach_file':
+            return await this.attachFile(args);
+          case 'list_resources':
+            return await this.listResources(args);
+          case 'get_resource':
+            return await this.getResource(args);
+          case 'delete_note':
+            return await this.deleteNote(args);
+          case 'restore_note':
+            return await this.restoreNote(args);
+          case 'list_trash':
+            return await this.listTrash(args);
+          case 'expunge_note':
+            return await this.expungeNote(args);
+          case 'list_notebooks':
+            return await this.listNotebooks();
+          case 'create_notebook':
+            return await this.createNotebook(args);
+          case 'update_notebook':
+            return await this.updateNotebook(args);
+          case 'set_default_notebook':
+            return await this.setDefaultNotebook(args);
+          case 'delete_notebook':
+            return await this.deleteNotebook(args);
+          case 'list_tags':
+            return await this.listTags();
+          case 'create_tag':
+            return await this.createTag(args);
+          case 'rename_tag':
+            return await this.renameTag(args);
+          case 'merge_tags':
+            return await this.mergeTags(args);
+          case 'delete_tag':
+            return await this.deleteTag(args);
+          case 'get_account_info':
+            return await this.getAccountInfo();
+          case 'sync_status':
+            return await this.syncStatus(args);
+          default:
+            throw new McpError(
+              ErrorCode.MethodNotFound,
+              `Unknown tool: ${name}`
+            );
+        }
+      } catch (error) {
+        throw this.apiError(error);
+      } finally {
+        // Tools are the most likely source of changes to subscribed resources
+        if (this.subscriptions.size) void this.subscriptions.check();
+      }
+    });
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      this.assertConfigured();
+      try {
+        return await this.listMcpResources(request.params?.cursor);
+      } catch (error) {
+        throw this.apiError(error);
+      }
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      this.assertConfigured();
+      try {
+        return await this.readMcpResource(request.params.uri);
+      } catch (error) {
+        throw this.apiError(error);
+      }
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.assertConfigured();
+      parseUri(request.params.uri);
+      try {
+        await this.subscriptions.subscribe(request.params.uri);
+      } catch (error) {
+        throw this.apiError(error);
+      }
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: (await this.loadPromptDefinitions()).map(({ name, description, arguments: args }) => ({
+        name,
+        description,
+        arguments: args,
+      })),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const prompt = (await this.loadPromptDefinitions()).find((candidate) => candidate.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      const values = promptValues(prompt, args);
+      const messages: PromptMessage[] = [
+        { role: 'user', content: { type: 'text', text: renderTemplate(prompt.template, values) } },
+      ];
+      if (prompt.notes) {
+        this.assertConfigured();
+        try {
+          messages.push(...(await this.promptNotes(prompt.notes, values)));
+        } catch (error) {
+          throw this.apiError(error);
+        }
+      }
+      return { description: prompt.description, messages };
+    });
+  }
+
+  private assertConfigured(): void {
+    if (this.backend.requiresAuth && !this.config.apiKey) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Evernote API key not configured: set EVERNOTE_API_KEY or run `authorize`'
+      );
+    }
+  }
+
+  /** Errors from the backend, as the McpError clients see */
+  private apiError(error: unknown): McpError {
+    if (error instanceof McpError) return error;
+    return new McpError(
+      ErrorCode.InternalError,
+      `Evernote API error: ${error}`
+    );
+  }
+
+  private loadStoredToken(): StoredToken | undefined {
+    try {
+      return loadToken();
+    } catch (error) {
+      console.error(`Ignoring stored Evernote token: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private getContentFormat(format: unknown): ContentFormat {
+    if (format === undefined) return 'markdown';
+    if (!isContentFormat(format)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid contentFormat: ${format}. Expected one of ${CONTENT_FORMATS.join(', ')}`
+      );
+    }
+    return format;
+  }
+
+  /**
+   * Convert tool content to an ENML document, rejecting anything Evernote
+   * would refuse before it reaches the API.
+   */
+  private buildEnml(content: string, contentFormat: unknown): string {
+    const format = this.getContentFormat(contentFormat);
+    if (format === 'enml') {
+      // Report positions relative to what the caller actually sent
+      assertValidEnml(content, { fragment: !/<en-note\b/.test(content) });
+    }
+    const enml = toEnml(content, format);
+    assertValidEnml(enml);
+    return enml;
+  }
+
+  private getOutputFormat(format: unknown): OutputFormat {
+    if (!isOutputFormat(format)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid outputFormat: ${format}. Expected one of ${OUTPUT_FORMATS.join(', ')}`
+      );
+    }
+    return format;
+  }
+
+  /** Check new resources against the account's size limit before sending them */
+  private async checkUploadSize(resources: Resource[], existingSize: number): Promise<void> {
+    const { serviceLevel } = await this.backend.getUser();
+    checkAttachmentSizes(resources, serviceLevel, existingSize);
+  }
+
+  private async createNote(args: any) {
+    const { title, content, notebook, tags, contentFormat, createIfMissing = false, attachments = [] } = args;
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string'))) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid tags: ${tags}. Expected a list of tag names`);
+    }
+    if (!Array.isArray(attachments)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid attachments. Expected a list of files with a path or data');
+    }
+    const attributeChanges = parseAttributeChanges(args.attributes);
+    
+    // Format content as ENML (Evernote Markup Language)
+    let enmlContent = this.buildEnml(content, contentFormat);
+
+    const loaded: Attachment[] = await Promise.all(attachments.map(loadAttachment));
+    const resources = loaded.map((attachment) => attachment.resource);
+    if (loaded.length) {
+      await this.checkUploadSize(resources, Buffer.byteLength(enmlContent));
+      enmlContent = insertMedia(enmlContent, loaded);
+    }
+
+    const reminder: ReminderChanges = args;
+    const hasReminder = hasReminderChanges(reminder);
+    const timeZone = hasReminder || needsTimeZone(attributeChanges) ? await this.getTimeZone() : undefined;
+    let attributes: NoteAttributes | undefined;
+    if (hasReminder) attributes = applyReminderChanges(attributes, reminder, timeZone!);
+    if (args.attributes !== undefined) {
+      attributes = applyAttributeChanges(attributes, attributeChanges, timeZone);
+      // A new note takes its application data whole
+      const { set } = applicationDataChanges(attributeChanges);
+      if (set.length) attributes.applicationData = { fullMap: Object.fromEntries(set) };
+    }
+
+    const notebookGuid = notebook
+      ? (await resolveNotebook(this.backend, notebook, { createIfMissing })).guid
+      : undefined;
+    const note = await this.backend.createNote({
+      title,
+      content: enmlContent,
+      notebookGuid,
+      tagNames: tags,
+      resources: loaded.length ? resources : undefined,
+      attributes,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `Note created successfully with ID: ${note.guid}` +
+            (hasReminder ? `\n${describeReminder(attributes, timeZone!)}` : ''),
+        },
+      ],
+    };
+  }
+
+  private async searchNotes(args: any) {
+    const { notebook, limit = 10, sortBy = 'updated', include = [] } = args;
+    const words = buildSearchQuery(args);
+    const offset = this.getSearchOffset(args);
+    this.checkLimit(limit);
+    if (!isSortBy(sortBy)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid sortBy: ${sortBy}. Expected one of ${Object.keys(SORT_ORDERS).join(', ')}`
+      );
+    }
+    const extras = new Set<ExtraField>(include);
+    for (const field of extras) {
+      if (!EXTRA_FIELDS.includes(field)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid include field: ${field}. Expected any of ${EXTRA_FIELDS.join(', ')}`
+        );
+      }
+    }
+
+    const notebookGuid = notebook ? (await resolveNotebook(this.backend, notebook)).guid : undefined;
+    const response = await this.backend.findNotesMetadata(
+      {
+        words: words || undefined,
+        notebookGuid,
+        order: SORT_ORDERS[sortBy],
+        ascending: args.ascending ?? sortBy === 'title',
+      },
+      offset,
+      limit,
+      {
+        includeTitle: true,
+        includeCreated: true,
+        includeUpdated: true,
+        includeNotebookGuid: true,
+        includeTagGuids: extras.has('tags'),
+      }
+    );
+
+    // One lookup each for names, rather than one per note
+    const [tags, notebooks] = await Promise.all([
+      extras.has('tags') ? this.backend.listTags() : [],
+      extras.has('notebookName') ? this.backend.listNotebooks() : [],
+    ]);
+    const tagNames = new Map(tags.map((tag) => [tag.guid, tag.name]));
+    const notebookNames = new Map(notebooks.map((entry) => [entry.guid, qualifiedName(entry)]));
+
+    // Search results carry no text, so each snippet is a call of its own
+    const snippets = extras.has('snippet')
+      ? await mapConcurrently(response.notes, SNIPPET_CONCURRENCY, async (note) =>
+          formatSnippet((await this.backend.getNote(note.guid, { withContent: true })).content ?? '')
+        )
+      : [];
+    const notes = response.notes.map((note, index) => ({
+      id: note.guid,
+      title: note.title,
+      created: new Date(note.created!).toISOString(),
+      updated: new Date(note.updated!).toISOString(),
+      notebook: note.notebookGuid,
+      notebookName: extras.has('notebookName') ? notebookNames.get(note.notebookGuid) : undefined,
+      tags: extras.has('tags') ? (note.tagGuids ?? []).map((guid) => tagNames.get(guid) ?? guid) : undefined,
+      snippet: snippets[index],
+    }));
+
+    const next = response.startIndex + response.notes.length;
+    const result = {
+      // The compiled query, so it can be checked or refined by hand
+      query: words || undefined,
+      totalNotes: response.totalNotes,
+      startIndex: response.startIndex,
+      notes,
+      nextCursor: response.notes.length && next < response.totalNotes ? String(next) : undefined,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async localSearch(args: any) {
+    const { query, notebook, tags = [], limit = 10 } = args;
+    if (typeof query !== 'string' || !parseTextQuery(query).some((term) => !term.negated)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid query: ${query}. Expected at least one word to find`);
+    }
+    const offset = this.getSearchOffset(args);
+    this.checkLimit(limit);
+
+    const local = await this.getLocalNotes('local_search');
+    const tagNames = new Map(local.tags.map((tag) => [tag.guid, tag.name]));
+    this.textIndex.update(local.notes.map((note) => indexedNote(note, tagNames)));
+    const hits = this.textIndex.search(query, await this.noteFilter(local, notebook, tags));
+
+    const notebookNames = new Map(local.notebooks.map((entry) => [entry.guid, qualifiedName(entry)]));
+    const page = hits.slice(offset, offset + limit);
+    const next = offset + page.length;
+    const result = {
+      query,
+      totalNotes: hits.length,
+      startIndex: offset,
+      notes: page.map((hit) => ({
+        id: hit.note.guid,
+        title: hit.note.title,
+        updated: hit.note.updated === undefined ? undefined : new Date(hit.note.updated).toISOString(),
+        notebook: hit.note.notebookGuid,
+        notebookName: notebookNames.get(hit.note.notebookGuid),
+        tags: hit.note.tags,
+        score: Number(hit.score.toFixed(3)),
+        matchedIn: hit.matchedIn,
+        snippet: hit.snippet,
+      })),
+      nextCursor: page.length && next < hits.length ? String(next) : undefined,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async semanticSearch(args: any) {
+    const { query, notebook, tags = [], limit = 10 } = args;
+    if (typeof query !== 'string' || !query.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid query: ${query}. Expected text to search for`);
+    }
+    this.checkLimit(limit);
+
+    const local = await this.getLocalNotes('semantic_search');
+    const matches = await this.noteFilter(local, notebook, tags);
+    const notes = new Map(local.notes.map((note) => [note.guid!, note]));
+    const text = (note: Note) => (note.content ? enmlToText(note.content) : '');
+    let update: VectorUpdate;
+    let hits: VectorHit[];
+    try {
+      update = await this.vectorIndex.update(
+        local.notes.map((note) => ({
+          guid: note.guid!,
+          title: note.title ?? '',
+          text: () => text(note),
+          updated: note.updated ?? 0,
+        }))
+      );
+      hits = await this.vectorIndex.search(query, limit, (guid) => notes.has(guid) && matches(notes.get(guid)!));
+    } catch (error) {
+      // Not an Evernote error, so apiError's prefix would mislead
+      if (error instanceof EmbeddingError) throw new McpError(ErrorCode.InternalError, error.message);
+      throw error;
+    }
+
+    const tagNames = new Map(local.tags.map((tag) => [tag.guid, tag.name]));
+    const notebookNames = new Map(local.notebooks.map((entry) => [entry.guid, qualifiedName(entry)]));
+    const result = {
+      query,
+      // Notes embedded for this search because they were new or had changed
+      embedded: update.embedded,
+      notes: hits.map((hit) => {
+        const note = notes.get(hit.guid)!;
+        return {
+          id: note.guid,
+          title: note.title,
+          updated: note.updated === undefined ? undefined : new Date(note.updated).toISOString(),
+          notebook: note.notebookGuid,
+          notebookName: notebookNames.get(note.notebookGuid),
+          tags: (note.tagGuids ?? []).map((guid) => tagNames.get(guid) ?? guid),
+          score: Number(hit.score.toFixed(3)),
+          // The passage that matched best
+          snippet: clipText(chunkText(text(note))[hit.chunk] ?? ''),
+        };
+      }),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  /** Every note on this machine, for the tools that search them without the service */
+  private async getLocalNotes(tool: string): Promise<LocalNoteSet> {
+    if (!hasLocalNotes(this.backend)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${tool} needs the note cache. Set EVERNOTE_CACHE=true to keep a local copy of the account`
+      );
+    }
+    const local = await this.backend.localNotes();
+    if (!local) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'The note cache is still downloading the account. Try again once sync_status shows a lastSync'
+      );
+    }
+    return local;
+  }
+
+  /** Whether a local note is in `notebook` and has all of `tags`, when they are given */
+  private async noteFilter(
+    local: LocalNoteSet,
+    notebook: string | undefined,
+    tags: string[]
+  ): Promise<(note: { notebookGuid?: string; tagGuids?: string[] }) => boolean> {
+    const notebookGuid = notebook ? (await resolveNotebook(this.backend, notebook)).guid : undefined;
+    const tagGuids = tags.map((tag) => resolveTag(local.tags, tag).guid);
+    return (note) =>
+      (!notebookGuid || note.notebookGuid === notebookGuid) &&
+      tagGuids.every((guid) => note.tagGuids?.includes(guid!));
+  }
+
+  private checkLimit(limit: unknown): void {
+    if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_NOTES_PER_PAGE) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid limit: ${limit}. Expected a whole number from 1 to ${MAX_NOTES_PER_PAGE}`
+      );
+    }
+  }
+
+  /** Where a search page starts: from offset, or the cursor a previous page returned */
+  private getSearchOffset(args: any): number {
+    const { offset, cursor } = args;
+    if (offset !== undefined && cursor !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, 'Pass either offset or cursor, not both');
+    }
+    const value = cursor === undefined ? offset ?? 0 : Number(cursor);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        cursor === undefined ? `Invalid offset: ${offset}` : `Invalid cursor: ${cursor}`
+      );
+    }
+    return value;
+  }
+
+  private async getNote(args: any) {
+    const { noteId, includeContent = true, outputFormat = 'markdown' } = args;
+    const format = this.getOutputFormat(outputFormat);
+
+    const note = await this.backend.getNote(noteId, {
+      withContent: includeContent,
     });
+    this.noteVersions.remember(note.guid!, note.updateSequenceNum, note.content);
+    // Notes come with only the keys of their application data
+    if (note.attributes?.applicationData?.keysOnly?.length) {
+      note.attributes.applicationData = await this.backend.getNoteApplicationData(note.guid!);
+    }
+
+    if (format === 'json') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(note, null, 2),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatNote(await this.noteView(note), format),
+        },
+      ],
+    };
+  }
+
+  /** A note with its notebook and tag names, ready for formatNote */
+  private async noteView(note: Note): Promise<NoteView> {
+    const { attributes } = note;
+    const hasTimes = attributes?.subjectDate !== undefined || attributes?.reminderOrder !== undefined;
+    const [notebook, tagNames, timeZone] = await Promise.all([
+      note.notebookGuid ? this.backend.getNotebook(note.notebookGuid) : undefined,
+      note.tagGuids?.length ? this.backend.getNoteTagNames(note.guid!) : [],
+      hasTimes ? this.getTimeZone() : undefined,
+    ]);
+
+    return {
+      guid: note.guid!,
+      title: note.title ?? '',
+      content: note.content,
+      created: note.created,
+      updated: note.updated,
+      notebookGuid: note.notebookGuid,
+      notebookName: notebook?.name,
+      tagNames,
+      version: note.updateSequenceNum,
+      details: describeAttributes(attributes, timeZone),
+    };
+  }
+
+  private async updateNote(args: any) {
+    const { noteId, title, content, tags, addTags, removeTags, contentFormat, expectedVersion } = args;
+    const onConflict = args.onConflict ?? 'fail';
+
+    if (tags && (addTags || removeTags)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Pass either tags to replace the note\'s tags, or addTags/removeTags to change them, not both'
+      );
+    }
+    if (expectedVersion !== undefined && !Number.isInteger(expectedVersion)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid expectedVersion: ${expectedVersion}. Expected the version number get_note showed`
+      );
+    }
+    if (!isConflictMode(onConflict)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid onConflict: ${onConflict}. Expected one of ${CONFLICT_MODES.join(', ')}`
+      );
+    }
+    const attributeChanges = parseAttributeChanges(args.attributes);
+
+    const updateData: Note = { guid: noteId };
+    if (title) updateData.title = title;
+    if (content) {
+      updateData.content = this.buildEnml(content, contentFormat);
+    }
+    if (tags) updateData.tagNames = tags;
+    if (addTags || removeTags) {
+      updateData.tagNames = applyTagChanges(await this.backend.getNoteTagNames(noteId), addTags, removeTags);
+      // An empty tagNames list is indistinguishable from leaving tags alone
+      if (!updateData.tagNames.length) updateData.tagGuids = [];
+    }
+
+    // What the update is based on is read as it is now, as a cached copy can miss recent changes
+    let current: Note | undefined;
+    if (expectedVersion !== undefined) {
+      current = await this.backend.getNote(noteId, { withContent: true, uncached: true });
+      if (current.updateSequenceNum !== expectedVersion) {
+        updateData.content = this.resolveConflict(current, expectedVersion, updateData.content, onConflict);
+      }
+    }
+
+    // The service replaces all attributes on update, so the changes are made to the current ones
+    const reminder: ReminderChanges = args;
+    const hasReminder = hasReminderChanges(reminder);
+    const timeZone = hasReminder || needsTimeZone(attributeChanges) ? await this.getTimeZone() : undefined;
+    const applicationData = applicationDataChanges(attributeChanges);
+    if (hasReminder || Object.keys(attributeChanges).some((name) => name !== 'applicationData')) {
+      current ??= await this.backend.getNote(noteId, { uncached: true });
+      let attributes = current.attributes;
+      if (hasReminder) attributes = applyReminderChanges(attributes, reminder, timeZone!);
+      updateData.attributes = applyAttributeChanges(attributes, attributeChanges, timeZone);
+    }
+
+    // The service requires a title on every update
+    if (!updateData.title) {
+      updateData.title = (current ?? (await this.backend.getNote(noteId, { uncached: true }))).title;
+    }
+    const updated = await this.backend.updateNote(updateData);
+    // Application data changes an entry at a time, each a new version of the note
+    let usn = updated.updateSequenceNum;
+    for (const [key, value] of applicationData.set) {
+      usn = await this.backend.setNoteApplicationDataEntry(noteId, key, value);
+    }
+    for (const key of applicationData.unset) usn = await this.backend.unsetNoteApplicationDataEntry(noteId, key);
+    this.noteVersions.remember(noteId, usn, updateData.content);
+    const version = usn ? `, now version ${usn}` : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `Note updated successfully${version}` +
+            (hasReminder ? `\n${describeReminder(updateData.attributes, timeZone!)}` : ''),
+        },
+      ],
+    };
+  }
+
+  /**
+   * The content to save when `current` changed since `expectedVersion`:
+   * with `merge`, the blocks `content` changed merged into it. Anything else
+   * fails with what changed in the meantime.
+   */
+  private resolveConflict(
+    current: Note,
+    expectedVersion: number,
+    content: string | undefined,
+    onConflict: ConflictMode
+  ): string | undefined {
+    const expected = this.noteVersions.get(current.guid!, expectedVersion);
+    const currentContent = current.content ?? wrapEnml('');
+    const changed =
+      `Note "${current.title}" changed since version ${expectedVersion}; ` +
+      `it is now version ${current.updateSequenceNum}`;
+    if (onConflict === 'merge') {
+      // Only the content is merged; a title or tags passed replace the current ones
+      if (content === undefined) return undefined;
+      if (expected === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${changed}. Version ${expectedVersion} wasn't read through this server, so there is nothing to merge ` +
+            `with. Get the note again and reapply your changes`
+        );
+      }
+      const merged = mergeEnml(expected, content, currentContent);
+      if (!merged.conflicts.length) {
+        assertValidEnml(merged.enml);
+        return merged.enml;
+      }
+      const conflicts = merged.conflicts.map(
+        (conflict, index) =>
+          `Conflict ${index + 1}, yours:\n${conflict.ours.join('\n\n') || '(removed)'}\n\n` +
+          `Conflict ${index + 1}, current:\n${conflict.theirs.join('\n\n') || '(removed)'}`
+      );
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${changed}, and both changed the same part of it. Nothing was saved.\n\n${conflicts.join('\n\n')}`
+      );
+    }
+
+    const changes =
+      expected === undefined
+        ? `Version ${expectedVersion} wasn't read through this server, so its changes can't be shown.`
+        : `Changes since version ${expectedVersion}:\n` +
+          (diffEnml(expected, currentContent) || '(the content is the same; other fields changed)');
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${changed}. Nothing was saved. Get the note again and reapply your changes, ` +
+        `or pass onConflict: "merge".\n\n${changes}`
+    );
+  }
+
+  private async editNote(args: any) {
+    const { noteId, operation, content, contentFormat, heading, position, find, replace, all } = args;
+    if (!isEditOperation(operation)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid operation: ${operation}. Expected one of ${EDIT_OPERATIONS.join(', ')}`
+      );
+    }
+    if (position !== undefined && !SECTION_POSITIONS.includes(position)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid position: ${position}. Expected one of ${SECTION_POSITIONS.join(', ')}`
+      );
+    }
+
+    const edit: NoteEdit = { operation, heading, position, find, replace, all };
+    if (operation === 'find_replace') {
+      if (typeof find !== 'string' || !find) {
+        throw new McpError(ErrorCode.InvalidParams, 'find_replace needs the text to find');
+      }
+      if (typeof replace !== 'string') {
+        throw new McpError(ErrorCode.InvalidParams, 'find_replace needs replace; pass an empty string to delete');
+      }
+    } else {
+      if (typeof content !== 'string' || !content) {
+        throw new McpError(ErrorCode.InvalidParams, `${operation} needs content`);
+      }
+      if ((operation === 'insert_after_heading' || operation === 'replace_section') && !heading) {
+        throw new McpError(ErrorCode.InvalidParams, `${operation} needs a heading`);
+      }
+      edit.fragment = extractEnmlBody(this.buildEnml(content, contentFormat));
+    }
+
+    const { note, result } = await this.changeContent(noteId, (enml) => applyEdit(enml, edit));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Edited note "${note.title}": ${result.summary}`,
+        },
+      ],
+    };
+  }
+
+  private async listTodos(args: any) {
+    const { noteId, query, notebook, tags, status = 'all', summary = false, limit = 20 } = args;
+    if (!isTodoStatus(status)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid status: ${status}. Expected one of ${TODO_STATUSES.join(', ')}`
+      );
+    }
+    if (noteId && (query || notebook || tags)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Pass either noteId, or query, notebook and tags to search, not both'
+      );
+    }
+
+    let guids: string[];
+    if (noteId) {
+      guids = [noteId];
+    } else {
+      this.checkLimit(limit);
+      const notebookGuid = notebook ? (await resolveNotebook(this.backend, notebook)).guid : undefined;
+      // Only notes with a checkbox in the state asked for
+      const todo = { all: 'todo:*', open: 'todo:false', done: 'todo:true' }[status];
+      const words = [todo, buildSearchQuery({ query, tags })].filter(Boolean).join(' ');
+      const found = await this.backend.findNotesMetadata(
+        { words, notebookGuid, order: SORT_ORDERS.updated, ascending: false },
+        0,
+        limit,
+        { includeTitle: true }
+      );
+      guids = found.notes.map((note) => note.guid);
+    }
+
+    const notes = [];
+    for (const guid of guids) {
+      const note = await this.backend.getNote(guid, { withContent: true });
+      const todos = listTodos(note.content ?? wrapEnml(''));
+      const done = todos.filter((todo) => todo.checked).length;
+      const shown = todos.filter((todo) => status === 'all' || todo.checked === (status === 'done'));
+      notes.push({
+        id: guid,
+        title: note.title,
+        open: todos.length - done,
+        done,
+        todos: summary ? undefined : shown,
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              open: notes.reduce((total, note) => total + note.open, 0),
+              done: notes.reduce((total, note) => total + note.done, 0),
+              notes,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private async setTodo(args: any, checked: unknown) {
+    const { noteId, index, text } = args;
+    if (checked !== 'toggle' && typeof checked !== 'boolean') {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid checked: ${checked}. Expected true or false`);
+    }
+    const selector = this.getTodoSelector(index, text, 'index or text');
+
+    const { note, result } = await this.changeContent(noteId, (enml) => setTodo(enml, selector, checked));
+    const { todo } = result;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${todo.checked ? 'Checked' : 'Unchecked'} to-do ${todo.index} "${todo.text}" in note "${note.title}"`,
+        },
+      ],
+    };
+  }
+
+  private async addTodo(args: any) {
+    const { noteId, text, checked = false, afterIndex, afterText } = args;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, 'add_todo needs the text of the to-do');
+    }
+    if (typeof checked !== 'boolean') {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid checked: ${checked}. Expected true or false`);
+    }
+    const after =
+      afterIndex === undefined && afterText === undefined
+        ? undefined
+        : this.getTodoSelector(afterIndex, afterText, 'afterIndex or afterText');
+
+    const { note, result } = await this.changeContent(noteId, (enml) => addTodo(enml, { text, checked, after }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Added to-do ${result.todo.index} "${result.todo.text}" to note "${note.title}"`,
+        },
+      ],
+    };
+  }
+
+  /** A to-do picked by index or by text, where `names` are the arguments for each */
+  private getTodoSelector(index: unknown, text: unknown, names: string): TodoSelector {
+    if ((index === undefined) === (text === undefined)) {
+      throw new McpError(ErrorCode.InvalidParams, `Pass either ${names} to pick the to-do`);
+    }
+    if (index !== undefined && (!Number.isInteger(index) || (index as number) < 0)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid index: ${index}. Expected the index list_todos showed`);
+    }
+    if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid text: ${text}. Expected part of the to-do's text`);
+    }
+    return { index: index as number | undefined, text: text as string | undefined };
+  }
+
+  /** Rewrite a note's ENML with `change` and save it, unless nothing changed */
+  private async changeContent<T extends EditResult>(noteId: string, change: (enml: string) => T) {
+    // The whole note is written back, so it's read as it is now rather than as cached
+    const note = await this.backend.getNote(noteId, { withContent: true, uncached: true });
+    const result = change(note.content ?? wrapEnml(''));
+    if (result.enml !== note.content) {
+      assertValidEnml(result.enml);
+      // The service requires a title on every update
+      const updated = await this.backend.updateNote({ guid: noteId, title: note.title, content: result.enml });
+      this.noteVersions.remember(noteId, updated.updateSequenceNum, result.enml);
+    }
+    return { note, result };
+  }
+
+  /** The account's time zone, which reminder times are read and shown in */
+  private async getTimeZone(): Promise<string> {
+    return resolveTimeZone((await this.backend.getUser()).timezone);
+  }
+
+  private async listReminders(args: any) {
+    const { status = 'open', dueAfter, dueBefore, notebook, limit = 50 } = args ?? {};
+    if (!isReminderStatus(status)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid status: ${status}. Expected one of ${REMINDER_STATUSES.join(', ')}`
+      );
+    }
+    this.checkLimit(limit);
+
+    const timeZone = await this.getTimeZone();
+    const now = Date.now();
+    const words = reminderSearchQuery(
+      status,
+      {
+        after: dueAfter === undefined ? undefined : parseTime(dueAfter, 'dueAfter', timeZone, { now }),
+        before: dueBefore === undefined ? undefined : parseTime(dueBefore, 'dueBefore', timeZone, { now }),
+      },
+      now
+    );
+    const notebookGuid = notebook ? (await resolveNotebook(this.backend, notebook)).guid : undefined;
+
+    // Searches can't sort by reminder, so all of them are fetched and sorted here
+    const notes: NoteMetadata[] = [];
+    for (let offset = 0; ; ) {
+      const page = await this.backend.findNotesMetadata({ words, notebookGuid }, offset, MAX_NOTES_PER_PAGE, {
+        includeTitle: true,
+        includeAttributes: true,
+      });
+      notes.push(...page.notes);
+      offset += page.notes.length;
+      if (!page.notes.length || offset >= page.totalNotes) break;
+    }
+    notes.sort((a, b) => compareReminders(a.attributes ?? {}, b.attributes ?? {}));
+
+    const time = (value?: number) => (value === undefined ? undefined : formatInTimeZone(value, timeZone));
+    const reminders = notes.slice(0, limit).map((note) => ({
+      id: note.guid,
+      title: note.title,
+      status: reminderState(note.attributes ?? {}, now),
+      reminderTime: time(note.attributes?.reminderTime),
+      doneTime: time(note.attributes?.reminderDoneTime),
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ timeZone, totalReminders: notes.length, reminders }, null, 2),
+        },
+      ],
+    };
+  }
 
-    const results = response.data.notes.map((note: any) => ({
-      id: note.guid,
+  private async attachFile(args: any) {
+    const { noteId, ...input } = args;
+
+    const attachment = await loadAttachment(input);
+    const { resource } = attachment;
+    const note = await this.backend.getNote(noteId, { withContent: true });
+    const existing = note.resources ?? [];
+    const noteSize = (note.contentLength ?? 0) + existing.reduce((total, other) => total + (other.data?.size ?? 0), 0);
+    await this.checkUploadSize([resource], noteSize);
+
+    // The same file twice is one resource shown in two places
+    const duplicate = existing.some((other) => other.data?.bodyHash?.equals(resource.data!.bodyHash!));
+    // Existing resources are sent without their data, which keeps them as they are
+    const updated = await this.backend.updateNote({
+      guid: noteId,
       title: note.title,
-      created: new Date(note.created).toISOString(),
-      updated: new Date(note.updated).toISOString(),
-      notebook: note.notebookGuid,
-    }));
+      content: insertMedia(note.content!, [attachment]),
+      resources: duplicate ? existing : [...existing, resource],
+    });
+    const attached = updated.resources?.find((other) => other.data?.bodyHash?.equals(resource.data!.bodyHash!));
 
+    const name = resource.attributes?.fileName ?? 'file';
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(results, null, 2),
+          text: `Attached "${name}" (${resource.mime}, ${formatSize(resource.data!.size!)}) to note "${note.title}" (${note.guid})${attached?.guid ? ` as resource ${attached.guid}` : ''}`,
         },
       ],
     };
   }
 
-  private async getNote(args: any) {
-    const { noteId, includeContent = true } = args;
+  private async listResources(args: any) {
+    const { noteId } = args;
 
-    const response = await axios.get(
-      `${this.config.apiUrl}/notes/${noteId}`,
-      {
-        params: {
-          includeContent,
+    const note = await this.backend.getNote(noteId);
+    const resources = (note.resources ?? []).map((resource) => ({
+      id: resource.guid,
+      fileName: resource.attributes?.fileName,
+      mime: resource.mime,
+      size: resource.data?.size,
+      hash: resource.data?.bodyHash?.toString('hex'),
+      sourceURL: resource.attributes?.sourceURL,
+      recognition: Boolean(resource.recognition),
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ noteId: note.guid, title: note.title, resources }, null, 2),
         },
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
+      ],
+    };
+  }
+
+  private async getResource(args: any) {
+    const { resourceId, saveTo } = args;
+
+    let resource = await this.backend.getResource(resourceId, { withRecognition: true, withAttributes: true });
+    const size = resource.data?.size ?? 0;
+    const inline = isTextMime(resource.mime) && size <= MAX_INLINE_TEXT_SIZE;
+    // Only download the file when it is going somewhere
+    if (saveTo || inline) {
+      resource = await this.backend.getResource(resourceId, {
+        withData: true,
+        withRecognition: true,
+        withAttributes: true,
+      });
+    }
+
+    const result: Record<string, unknown> = {
+      id: resource.guid,
+      noteId: resource.noteGuid,
+      fileName: resource.attributes?.fileName,
+      mime: resource.mime,
+      size,
+      sourceURL: resource.attributes?.sourceURL,
+    };
+    if (saveTo) result.savedTo = await saveAttachment(resource, saveTo);
+    if (inline) result.text = resource.data!.body!.toString('utf8');
+    else if (isTextMime(resource.mime) && !saveTo) {
+      result.hint = `${formatSize(size)} is too large to show inline: pass saveTo to download it`;
+    }
+    const recognition = resource.recognition?.body;
+    if (recognition) result.recognizedText = recognitionToText(recognition.toString('utf8'));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
         },
-      }
-    );
+      ],
+    };
+  }
+
+  private async deleteNote(args: any) {
+    const { noteId } = args;
+
+    const note = await this.backend.getNote(noteId);
+    await this.backend.deleteNote(noteId);
 
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(response.data, null, 2),
+          text: `Moved note "${note.title}" (${note.guid}) to the trash`,
         },
       ],
     };
   }
 
-  private async updateNote(args: any) {
-    const { noteId, title, content, tags } = args;
+  private async restoreNote(args: any) {
+    const { noteId } = args;
 
-    const updateData: any = {};
-    if (title) updateData.title = title;
-    if (content) {
-      updateData.content = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
-<en-note>${content}</en-note>`;
+    const note = await this.backend.getNote(noteId);
+    if (note.active !== false) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Note "${note.title}" (${note.guid}) is not in the trash`
+      );
     }
-    if (tags) updateData.tagNames = tags;
+    // Undeleting is an update that marks the note active again
+    await this.backend.updateNote({ guid: noteId, title: note.title, active: true });
 
-    const response = await axios.put(
-      `${this.config.apiUrl}/notes/${noteId}`,
-      updateData,
-      {
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Restored note "${note.title}" (${note.guid}) from the trash`,
         },
+      ],
+    };
+  }
+
+  private async listTrash(args: any) {
+    const { limit = 20 } = args ?? {};
+    this.checkLimit(limit);
+
+    // Deleting a note bumps its update sequence number, so this puts the
+    // most recently deleted notes first
+    const response = await this.backend.findNotesMetadata(
+      { inactive: true, order: NoteSortOrder.UPDATE_SEQUENCE_NUMBER },
+      0,
+      limit,
+      {
+        includeTitle: true,
+        includeDeleted: true,
+        includeNotebookGuid: true,
       }
     );
 
+    const notes = response.notes.map((note) => ({
+      id: note.guid,
+      title: note.title,
+      deleted: note.deleted ? new Date(note.deleted).toISOString() : undefined,
+      notebook: note.notebookGuid,
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ total: response.totalNotes, notes }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async expungeNote(args: any) {
+    const { noteId, confirm } = args;
+
+    if (!this.allowExpunge) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'expunge_note is disabled: set EVERNOTE_ALLOW_EXPUNGE=true to allow permanent deletion'
+      );
+    }
+    if (confirm !== true) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'expunge_note permanently deletes the note: pass confirm: true to proceed'
+      );
+    }
+
+    const note = await this.backend.getNote(noteId);
+    await this.backend.expungeNote(noteId);
+
     return {
       content: [
         {
           type: 'text',
-          text: `Note updated successfully`,
+          text: `Permanently deleted note "${note.title}" (${note.guid})`,
         },
       ],
     };
   }
 
   private async listNotebooks() {
-    const response = await axios.get(`${this.config.apiUrl}/notebooks`, {
-      headers: {
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-    });
+    const [response, counts] = await Promise.all([
+      this.backend.listNotebooks(),
+      this.backend.findNoteCounts({}, false),
+    ]);
 
-    const notebooks = response.data.map((notebook: any) => ({
+    const byName = (a: Notebook, b: Notebook) =>
+      (a.name ?? '').localeCompare(b.name ?? '', undefined, { sensitivity: 'base' });
+    const summarize = (notebook: Notebook) => ({
       id: notebook.guid,
       name: notebook.name,
-      created: new Date(notebook.serviceCreated).toISOString(),
-    }));
+      default: Boolean(notebook.defaultNotebook),
+      noteCount: counts.notebookCounts?.[notebook.guid!] ?? 0,
+      created: new Date(notebook.serviceCreated!).toISOString(),
+    });
+
+    const stacks = new Map<string, Notebook[]>();
+    for (const notebook of response) {
+      if (notebook.stack) stacks.set(notebook.stack, [...(stacks.get(notebook.stack) ?? []), notebook]);
+    }
+    const result = {
+      notebooks: response.filter((notebook) => !notebook.stack).sort(byName).map(summarize),
+      stacks: [...stacks]
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
+        .map(([name, notebooks]) => ({ name, notebooks: notebooks.sort(byName).map(summarize) })),
+    };
 
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(notebooks, null, 2),
+          text: JSON.stringify(result, null, 2),
         },
       ],
     };
   }
 
   private async createNotebook(args: any) {
-    const { name } = args;
+    const { name, stack } = args;
 
-    const response = await axios.post(
-      `${this.config.apiUrl}/notebooks`,
-      { name },
-      {
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
+    const notebook = await this.backend.createNotebook({ name, stack: stack || undefined });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Notebook created successfully with ID: ${notebook.guid}`,
+        },
+      ],
+    };
+  }
+
+  private async updateNotebook(args: any) {
+    const { notebook: notebookId, name, stack } = args;
+
+    const notebook = await resolveNotebook(this.backend, notebookId);
+    // updateNotebook replaces the notebook, so start from its current state
+    const updated: Notebook = { ...notebook, name: name ?? notebook.name };
+    if (stack !== undefined) updated.stack = stack || undefined;
+    await this.backend.updateNotebook(updated);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Updated notebook "${updated.name}" (${notebook.guid}), stack: ${updated.stack ? `"${updated.stack}"` : 'none'}`,
+        },
+      ],
+    };
+  }
+
+  private async setDefaultNotebook(args: any) {
+    const { notebook: notebookId } = args;
+
+    const notebook = await resolveNotebook(this.backend, notebookId);
+    await this.backend.updateNotebook({ ...notebook, defaultNotebook: true });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Notebook "${notebook.name}" (${notebook.guid}) is now the default notebook`,
+        },
+      ],
+    };
+  }
+
+  private async deleteNotebook(args: any) {
+    const { notebook: notebookId, confirm } = args;
+
+    if (confirm !== true) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'delete_notebook permanently deletes the notebook and moves its notes to the trash: pass confirm: true to proceed'
+      );
+    }
+
+    const notebook = await resolveNotebook(this.backend, notebookId);
+    if (notebook.defaultNotebook) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Notebook "${notebook.name}" (${notebook.guid}) is the default notebook: make another notebook the default first`
+      );
+    }
+    const counts = await this.backend.findNoteCounts({ notebookGuid: notebook.guid }, false);
+    const noteCount = counts.notebookCounts?.[notebook.guid!] ?? 0;
+    await this.backend.expungeNotebook(notebook.guid!);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Deleted notebook "${notebook.name}" (${notebook.guid}); ${noteCount} note${noteCount === 1 ? '' : 's'} moved to the trash`,
+        },
+      ],
+    };
+  }
+
+  private async listTags() {
+    const [tags, counts] = await Promise.all([this.backend.listTags(), this.backend.findNoteCounts({}, false)]);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ tags: tagTree(tags, counts.tagCounts) }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async createTag(args: any) {
+    const { name, parent } = args;
+
+    const parentGuid = parent ? resolveTag(await this.backend.listTags(), parent).guid : undefined;
+    const tag = await this.backend.createTag({ name, parentGuid });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Tag created successfully with ID: ${tag.guid}`,
+        },
+      ],
+    };
+  }
+
+  private async renameTag(args: any) {
+    const { tag: tagId, name, parent } = args;
+
+    const tags = await this.backend.listTags();
+    const tag = resolveTag(tags, tagId);
+    // updateTag replaces the tag, so start from its current state
+    const updated: Tag = { ...tag, name: name ?? tag.name };
+    if (parent !== undefined) updated.parentGuid = parent ? resolveTag(tags, parent).guid : undefined;
+    await this.backend.updateTag(updated);
+
+    const parentName = tags.find((candidate) => candidate.guid === updated.parentGuid)?.name;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Updated tag "${updated.name}" (${tag.guid}), parent: ${parentName ? `"${parentName}"` : 'none'}`,
+        },
+      ],
+    };
+  }
+
+  private async mergeTags(args: any) {
+    const { tags: tagIds, into } = args;
+    if (!Array.isArray(tagIds) || !tagIds.length || tagIds.some((tagId) => typeof tagId !== 'string' || !tagId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'merge_tags needs tags: the IDs or names of the tags to merge away');
+    }
+    if (typeof into !== 'string' || !into) {
+      throw new McpError(ErrorCode.InvalidParams, 'merge_tags needs into: the ID or name of the tag to keep');
+    }
+
+    const tags = await this.backend.listTags();
+    const target = resolveTag(tags, into);
+    const sources = [...new Set((tagIds as string[]).map((tagId) => resolveTag(tags, tagId)))];
+    for (const source of sources) {
+      if (source === target || isDescendant(tags, target, source)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Tag "${source.name}" (${source.guid}) can't be merged into itself or a tag nested under it`
+        );
+      }
+    }
+
+    const retagged = new Set<string>();
+    for (const source of sources) {
+      // Collect every page first: retagging takes notes out of the filter
+      const notes = await this.findTaggedNotes(source.guid!);
+      for (const note of notes) {
+        const tagGuids = (note.tagGuids ?? []).map((guid) => (guid === source.guid ? target.guid! : guid));
+        await this.backend.updateNote({ guid: note.guid, title: note.title, tagGuids: [...new Set(tagGuids)] });
+        retagged.add(note.guid);
+      }
+      for (const child of tags.filter((candidate) => candidate.parentGuid === source.guid)) {
+        await this.backend.updateTag({ ...child, parentGuid: target.guid });
+      }
+      await this.backend.expungeTag(source.guid!);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Merged ${sources.map((source) => `"${source.name}"`).join(', ')} into "${target.name}" (${target.guid}); ${retagged.size} note${retagged.size === 1 ? '' : 's'} retagged`,
         },
+      ],
+    };
+  }
+
+  /** Notes carrying a tag, in and out of the trash, with what updateNote needs */
+  private async findTaggedNotes(tagGuid: string): Promise<NoteMetadata[]> {
+    const notes: NoteMetadata[] = [];
+    for (const inactive of [false, true]) {
+      for (let offset = 0; ; ) {
+        const page = await this.backend.findNotesMetadata(
+          { tagGuids: [tagGuid], inactive },
+          offset,
+          MAX_NOTES_PER_PAGE,
+          { includeTitle: true, includeTagGuids: true }
+        );
+        notes.push(...page.notes);
+        offset += page.notes.length;
+        if (!page.notes.length || offset >= page.totalNotes) break;
       }
-    );
+    }
+    return notes;
+  }
+
+  private async deleteTag(args: any) {
+    const { tag: tagId, confirm } = args;
+
+    if (confirm !== true) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'delete_tag permanently deletes the tag and removes it from its notes: pass confirm: true to proceed'
+      );
+    }
+
+    const tag = resolveTag(await this.backend.listTags(), tagId);
+    const counts = await this.backend.findNoteCounts({ tagGuids: [tag.guid!] }, false);
+    const noteCount = counts.tagCounts?.[tag.guid!] ?? 0;
+    await this.backend.expungeTag(tag.guid!);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Deleted tag "${tag.name}" (${tag.guid}); removed from ${noteCount} note${noteCount === 1 ? '' : 's'}`,
+        },
+      ],
+    };
+  }
+
+  private async getAccountInfo() {
+    const user = await this.backend.getUser();
+
+    const info: Record<string, unknown> =
+      this.config.backend === 'local'
+        ? { backend: 'local', path: this.config.localPath ?? null }
+        : {
+            backend: 'evernote',
+            service: this.service.name,
+            serviceUrl: this.service.url,
+            auth: this.token ? 'oauth' : 'developer token',
+            tokenExpires: this.token?.expires ? new Date(this.token.expires).toISOString() : undefined,
+          };
+    info.user = {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      email: user.email,
+      timezone: user.timezone,
+      shardId: user.shardId,
+      serviceLevel: user.serviceLevel ? ServiceLevel[user.serviceLevel] : undefined,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(info, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async syncStatus(args: any) {
+    const { sync } = args;
+    if (sync !== undefined && !isSyncMode(sync)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid sync: ${sync}. Expected one of ${SYNC_MODES.join(', ')}`);
+    }
+
+    if (!(this.backend instanceof CachedBackend)) {
+      const reason =
+        this.config.backend === 'local'
+          ? 'The local backend keeps notes on this machine already'
+          : 'Set EVERNOTE_CACHE=true to keep a local copy of the account';
+      if (sync) throw new McpError(ErrorCode.InvalidRequest, `The note cache is off. ${reason}`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ enabled: false, reason }, null, 2),
+          },
+        ],
+      };
+    }
 
+    const lastRun = sync ? await this.backend.sync(sync) : undefined;
+    const status = { enabled: true, ...(await this.backend.status()), lastRun };
     return {
       content: [
         {
           type: 'text',
-          text: `Notebook created successfully with ID: ${response.data.guid}`,
+          text: JSON.stringify(status, null, 2),
         },
       ],
     };
   }
 
+  /** A number of seconds from the environment, or `fallback` when it isn't set */
+  private getSeconds(variable: string, fallback: number): number {
+    const value = process.env[variable];
+    if (value === undefined || value === '') return fallback;
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      throw new Error(`Invalid ${variable}: ${value}. Expected a number of seconds, 0 or more`);
+    }
+    return seconds;
+  }
+
+  private async listMcpResources(cursor: string | undefined) {
+    const offset = cursor === undefined ? 0 : Number(cursor);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const response = await this.backend.findNotesMetadata(
+      { order: NoteSortOrder.UPDATED },
+      offset,
+      RESOURCE_PAGE_SIZE,
+      { includeTitle: true, includeUpdated: true }
+    );
+    const notes = response.notes.map((note) => ({
+      uri: noteUri(note.guid),
+      name: note.title ?? note.guid,
+      mimeType: 'text/markdown',
+    }));
+    // Notebooks come first, on the first page only
+    const notebooks =
+      offset === 0
+        ? (await this.backend.listNotebooks()).map((notebook) => ({
+            uri: notebookUri(notebook.guid!),
+            name: qualifiedName(notebook),
+            description: 'Notebook',
+            mimeType: 'text/markdown',
+          }))
+        : [];
+
+    const next = offset + response.notes.length;
+    return {
+      resources: [...notebooks, ...notes],
+      nextCursor: response.notes.length && next < response.totalNotes ? String(next) : undefined,
+    };
+  }
+
+  private async readMcpResource(uri: string) {
+    const target = parseUri(uri);
+    switch (target.type) {
+      case 'note': {
+        const note = await this.backend.getNote(target.guid, { withContent: true });
+        const text = formatNote(await this.noteView(note), 'markdown');
+        return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+      }
+      case 'notebook': {
+        const notebook = await this.backend.getNotebook(target.guid);
+        const response = await this.findForResource({ notebookGuid: target.guid });
+        const text = formatNoteList(`Notebook: ${qualifiedName(notebook)}`, response);
+        return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+      }
+      case 'search': {
+        const response = await this.findForResource({ words: target.query });
+        const text = formatNoteList(`Search: ${target.query}`, response);
+        return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+      }
+      case 'resource': {
+        const resource = await this.backend.getResource(target.guid, { withData: true, withAttributes: true });
+        const mimeType = resource.mime ?? 'application/octet-stream';
+        return { contents: [{ uri, mimeType, blob: resource.data?.body?.toString('base64') ?? '' }] };
+      }
+    }
+  }
+
+  private findForResource(filter: NoteFilter) {
+    return this.backend.findNotesMetadata({ ...filter, order: NoteSortOrder.UPDATED }, 0, RESOURCE_PAGE_SIZE, {
+      includeTitle: true,
+      includeUpdated: true,
+      includeUpdateSequenceNum: true,
+    });
+  }
+
+  /** Changes whenever what readMcpResource returns for the URI would */
+  private async resourceVersion(uri: string): Promise<string> {
+    const target = parseUri(uri);
+    try {
+      switch (target.type) {
+        case 'note':
+          return String((await this.backend.getNote(target.guid)).updateSequenceNum);
+        case 'resource':
+          return String((await this.backend.getResource(target.guid)).updateSequenceNum);
+        case 'notebook': {
+          const [notebook, response] = await Promise.all([
+            this.backend.getNotebook(target.guid),
+            this.findForResource({ notebookGuid: target.guid }),
+          ]);
+          return `${notebook.updateSequenceNum}/${listVersion(response)}`;
+        }
+        case 'search':
+          return listVersion(await this.findForResource({ words: target.query }));
+      }
+    } catch (error) {
+      // A resource that disappears has changed too; report it once
+      if (error instanceof EDAMNotFoundException) return 'missing';
+      throw error;
+    }
+  }
+
+  /** Read on every request so new prompt files show up without a restart */
+  private async loadPromptDefinitions() {
+    return mergePrompts(BUILTIN_PROMPTS, await loadPrompts(join(configDir(), 'prompts')));
+  }
+
+  /** The notes a prompt asks for, as one embedded resource per note or a single list */
+  private async promptNotes(spec: PromptNotes, values: Record<string, string>): Promise<PromptMessage[]> {
+    const notebook = renderTemplate(spec.notebook ?? '', values).trim();
+    let notebookGuid: string | undefined;
+    if (notebook) {
+      notebookGuid = (await resolveNotebook(this.backend, notebook)).guid;
+    } else if (spec.defaultNotebook) {
+      notebookGuid = (await this.backend.listNotebooks()).find((candidate) => candidate.defaultNotebook)?.guid;
+    }
+    const query = renderTemplate(spec.query ?? '', values, escapeQuery).trim();
+
+    const response = await this.backend.findNotesMetadata(
+      { words: query || undefined, notebookGuid, order: NoteSortOrder.UPDATED },
+      0,
+      spec.limit ?? DEFAULT_PROMPT_NOTES,
+      { includeTitle: true, includeUpdated: true }
+    );
+    if (spec.content === false || !response.notes.length) {
+      return [{ role: 'user', content: { type: 'text', text: formatNoteList('Notes', response) } }];
+    }
+
+    const messages: PromptMessage[] = [];
+    for (const { guid } of response.notes) {
+      const note = await this.backend.getNote(guid, { withContent: true });
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: noteUri(guid),
+            mimeType: 'text/markdown',
+            text: formatNote(await this.noteView(note), 'markdown'),
+          },
+        },
+      });
+    }
+    return messages;
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Evernote MCP server running on stdio');
+
+    const warning = this.token && expiryWarning(this.token);
+    if (warning) console.error(`Warning: ${warning}`);
   }
 }
 
-const server = new EvernoteServer();
-server.run().catch(console.error);
+if (process.argv[2] === 'authorize') {
+  runAuthorizeCommand(process.argv.slice(3)).catch((error) => {
+    console.error(`Authorization failed: ${error.message}`);
+    process.exitCode = 1;
+  });
+} else {
+  const server = new EvernoteServer();
+  server.run().catch(console.error);
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applicationDataChanges,
+  applyAttributeChanges,
+  describeAttributes,
+  parseAttributeChanges,
+} from './noteAttributes.js';
+
+describe('parseAttributeChanges', () => {
+  it('should accept the attributes tools can set', () => {
+    const changes = {
+      sourceURL: 'https://example.com/article?id=1',
+      author: 'Ada Lovelace',
+      source: 'web.clip',
+      latitude: -33.86,
+      longitude: 151.21,
+      placeName: null,
+      subjectDate: '2024-05-17',
+      contentClass: 'com.example.clip',
+      applicationData: { 'com.example.sync': 'id-42\n', 'com.example.old': null },
+    };
+    expect(parseAttributeChanges(changes)).toBe(changes);
+    expect(parseAttributeChanges(undefined)).toEqual({});
+    expect(parseAttributeChanges({ sourceURL: '', latitude: null })).toEqual({ sourceURL: '', latitude: null });
+  });
+
+  it('should reject values the service would', () => {
+    expect(() => parseAttributeChanges({ url: 'x' })).toThrow(
+      'Unknown attribute: url. Expected any of sourceURL, author, source, sourceApplication, placeName, ' +
+        'contentClass, latitude, longitude, subjectDate, applicationData'
+    );
+    expect(() => parseAttributeChanges({ sourceURL: 'example.com' })).toThrow(
+      'Invalid attributes.sourceURL: example.com. Expected an absolute URL such as https://example.com/article'
+    );
+    expect(() => parseAttributeChanges({ author: 'Ada\nLovelace' })).toThrow(
+      'Expected text of up to 4096 characters on one line'
+    );
+    expect(() => parseAttributeChanges({ author: 'a'.repeat(4097) })).toThrow('Invalid attributes.author');
+    expect(() => parseAttributeChanges({ contentClass: 'my app' })).toThrow('Invalid attributes.contentClass: my app');
+    expect(() => parseAttributeChanges({ latitude: 91 })).toThrow(
+      'Invalid attributes.latitude: 91. Expected degrees from -90 to 90'
+    );
+    expect(() => parseAttributeChanges({ longitude: '151' })).toThrow(
+      'Invalid attributes.longitude: 151. Expected degrees from -180 to 180'
+    );
+    expect(() => parseAttributeChanges({ applicationData: { ab: 'x' } })).toThrow(
+      'Invalid attributes.applicationData: ab. Expected keys of 3 to 32 letters'
+    );
+    expect(() => parseAttributeChanges({ applicationData: { abc: 'x'.repeat(4093) } })).toThrow(
+      'Invalid attributes.applicationData.abc'
+    );
+    expect(() => parseAttributeChanges('author')).toThrow('attributes must be an object');
+  });
+});
+
+describe('applyAttributeChanges', () => {
+  it('should set and clear attributes, keeping the others', () => {
+    const current = { author: 'Ada', placeName: 'London', reminderOrder: 1, applicationData: { keysOnly: ['abc'] } };
+    expect(
+      applyAttributeChanges(
+        current,
+        { author: 'Grace', placeName: '', subjectDate: '2024-05-17T10:00', applicationData: { abc: null } },
+        'Europe/Berlin'
+      )
+    ).toEqual({
+      author: 'Grace',
+      reminderOrder: 1,
+      subjectDate: Date.UTC(2024, 4, 17, 8),
+      applicationData: { keysOnly: ['abc'] },
+    });
+    expect(() => applyAttributeChanges({}, { subjectDate: 'soon' })).toThrow('Invalid attributes.subjectDate: soon');
+  });
+
+  it('should split application data into entries to set and remove', () => {
+    expect(applicationDataChanges({ applicationData: { 'com.a': 'one', 'com.b': null } })).toEqual({
+      set: [['com.a', 'one']],
+      unset: ['com.b'],
+    });
+    expect(applicationDataChanges({})).toEqual({ set: [], unset: [] });
+  });
+});
+
+describe('describeAttributes', () => {
+  it('should show the attributes a note has, with times in the time zone', () => {
+    expect(
+      describeAttributes(
+        {
+          sourceURL: 'https://example.com',
+          latitude: 52.52,
+          longitude: 13.405,
+          placeName: 'Berlin',
+          subjectDate: Date.UTC(2024, 4, 17, 8),
+          reminderOrder: 1,
+          reminderDoneTime: Date.UTC(2024, 4, 18, 8),
+          applicationData: { fullMap: { 'com.example.sync': 'id-42' } },
+        },
+        'Europe/Berlin'
+      )
+    ).toEqual([
+      ['Source URL', 'https://example.com'],
+      ['Place', 'Berlin'],
+      ['Location', '52.52, 13.405'],
+      ['Subject date', '2024-05-17T10:00:00+02:00'],
+      ['Reminder', 'not scheduled, done 2024-05-18T10:00:00+02:00'],
+      ['Application data', '{"com.example.sync":"id-42"}'],
+    ]);
+    expect(describeAttributes({ applicationData: { keysOnly: ['com.a', 'com.b'] } })).toEqual([
+      ['Application data', 'com.a, com.b'],
+    ]);
+    expect(describeAttributes(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+// src/noteAttributes.ts
+// The note attributes create_note and update_note set and get_note shows, such as where a note came from.
+// Values are checked against the service's limits before anything is sent.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { formatInTimeZone, parseTime } from './reminders.js';
+import { NoteAttributes } from './thrift/types.js';
+
+// From the service's Limits
+const TEXT_PATTERN = /^[^\p{Cc}\p{Zl}\p{Zp}]{1,4096}$/u;
+const CONTENT_CLASS_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+export const APPLICATION_DATA_KEY_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+export const APPLICATION_DATA_VALUE_PATTERN = /^[\s\P{Cc}]{0,4092}$/u;
+/** The longest key and value together */
+export const APPLICATION_DATA_ENTRY_MAX = 4095;
+
+const TEXT_ATTRIBUTES = ['sourceURL', 'author', 'source', 'sourceApplication', 'placeName', 'contentClass'] as const;
+
+/** The attributes tools can set */
+export const NOTE_ATTRIBUTES = [...TEXT_ATTRIBUTES, 'latitude', 'longitude', 'subjectDate', 'applicationData'] as const;
+
+/** Values to set; null or an empty string clears one */
+export interface NoteAttributeChanges {
+  sourceURL?: string | null;
+  author?: string | null;
+  /** How the note was made, such as web.clip or mobile.android */
+  source?: string | null;
+  sourceApplication?: string | null;
+  placeName?: string | null;
+  /** Marks the note as made and managed by an application */
+  contentClass?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  /** A date or date-time, read like reminder times */
+  subjectDate?: string | null;
+  /** Entries to set, or with a null value to remove */
+  applicationData?: Record<string, string | null>;
+}
+
+function invalid(name: string, value: unknown, expected: string): McpError {
+  const shown = typeof value === 'string' ? value : JSON.stringify(value);
+  return new McpError(ErrorCode.InvalidParams, `Invalid attributes.${name}: ${shown}. Expected ${expected}`);
+}
+
+function cleared(value: unknown): boolean {
+  return value === null || value === '';
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Check the attributes a tool was passed, before reading or changing anything */
+export function parseAttributeChanges(value: unknown): NoteAttributeChanges {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new McpError(ErrorCode.InvalidParams, 'attributes must be an object, such as { "author": "Ada" }');
+  }
+  const changes = value as Record<string, unknown>;
+  for (const name of Object.keys(changes)) {
+    if (!NOTE_ATTRIBUTES.includes(name as (typeof NOTE_ATTRIBUTES)[number])) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown attribute: ${name}. Expected any of ${NOTE_ATTRIBUTES.join(', ')}`
+      );
+    }
+  }
+
+  for (const name of TEXT_ATTRIBUTES) {
+    const text = changes[name];
+    if (text === undefined || cleared(text)) continue;
+    if (typeof text !== 'string' || !TEXT_PATTERN.test(text)) {
+      throw invalid(name, text, 'text of up to 4096 characters on one line');
+    }
+  }
+  if (typeof changes.sourceURL === 'string' && changes.sourceURL && !isUrl(changes.sourceURL)) {
+    throw invalid('sourceURL', changes.sourceURL, 'an absolute URL such as https://example.com/article');
+  }
+  if (typeof changes.contentClass === 'string' && changes.contentClass) {
+    if (!CONTENT_CLASS_PATTERN.test(changes.contentClass)) {
+      throw invalid('contentClass', changes.contentClass, '3 to 32 letters, digits, dots, dashes or underscores');
+    }
+  }
+
+  for (const [name, limit] of [['latitude', 90], ['longitude', 180]] as const) {
+    const degrees = changes[name];
+    if (degrees === undefined || cleared(degrees)) continue;
+    if (typeof degrees !== 'number' || !Number.isFinite(degrees) || Math.abs(degrees) > limit) {
+      throw invalid(name, degrees, `degrees from -${limit} to ${limit}`);
+    }
+  }
+  if (changes.subjectDate !== undefined && !cleared(changes.subjectDate) && typeof changes.subjectDate !== 'string') {
+    throw invalid('subjectDate', changes.subjectDate, 'an ISO 8601 date or date-time');
+  }
+
+  const data = changes.applicationData;
+  if (data !== undefined) {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw invalid('applicationData', data, 'an object of keys and their values');
+    }
+    for (const [key, entry] of Object.entries(data)) {
+      if (!APPLICATION_DATA_KEY_PATTERN.test(key)) {
+        throw invalid('applicationData', key, 'keys of 3 to 32 letters, digits, dots, dashes or underscores');
+      }
+      if (entry === null) continue;
+      if (
+        typeof entry !== 'string' ||
+        !APPLICATION_DATA_VALUE_PATTERN.test(entry) ||
+        key.length + entry.length > APPLICATION_DATA_ENTRY_MAX
+      ) {
+        throw invalid(
+          `applicationData.${key}`,
+          entry,
+          `text without control characters, up to ${APPLICATION_DATA_ENTRY_MAX} characters with the key`
+        );
+      }
+    }
+  }
+  return changes as NoteAttributeChanges;
+}
+
+/** Whether setting the changes needs the account's time zone */
+export function needsTimeZone(changes: NoteAttributeChanges): boolean {
+  return typeof changes.subjectDate === 'string' && changes.subjectDate !== '';
+}
+
+/**
+ * The note's attributes with the changes made. Application data is left
+ * alone: the service changes it an entry at a time, through its own calls.
+ */
+export function applyAttributeChanges(
+  attributes: NoteAttributes | undefined,
+  changes: NoteAttributeChanges,
+  timeZone = 'UTC'
+): NoteAttributes {
+  const result: NoteAttributes = { ...attributes };
+  for (const name of [...TEXT_ATTRIBUTES, 'latitude', 'longitude'] as const) {
+    const value = changes[name];
+    if (value === undefined) continue;
+    if (cleared(value)) delete result[name];
+    else (result as Record<string, unknown>)[name] = value;
+  }
+  if (changes.subjectDate !== undefined) {
+    if (cleared(changes.subjectDate)) delete result.subjectDate;
+    else result.subjectDate = parseTime(changes.subjectDate, 'attributes.subjectDate', timeZone);
+  }
+  return result;
+}
+
+/** The application data entries to set, and the keys to remove */
+export function applicationDataChanges(changes: NoteAttributeChanges): { set: [string, string][]; unset: string[] } {
+  const entries = Object.entries(changes.applicationData ?? {});
+  return {
+    set: entries.filter((entry): entry is [string, string] => entry[1] !== null),
+    unset: entries.filter(([, value]) => value === null).map(([key]) => key),
+  };
+}
+
+/** `Key: value` lines for get_note's header, for the attributes a note has */
+export function describeAttributes(attributes: NoteAttributes | undefined, timeZone = 'UTC'): [string, string][] {
+  if (!attributes) return [];
+  const time = (value: number) => formatInTimeZone(value, timeZone);
+  let reminder: string | undefined;
+  if (attributes.reminderOrder !== undefined) {
+    reminder = attributes.reminderTime === undefined ? 'not scheduled' : `due ${time(attributes.reminderTime)}`;
+    if (attributes.reminderDoneTime !== undefined) reminder += `, done ${time(attributes.reminderDoneTime)}`;
+  }
+  const { keysOnly, fullMap } = attributes.applicationData ?? {};
+  const data = fullMap && Object.keys(fullMap).length ? JSON.stringify(fullMap) : keysOnly?.join(', ') || undefined;
+
+  const lines: [string, string | undefined][] = [
+    ['Source URL', attributes.sourceURL],
+    ['Author', attributes.author],
+    ['Source', attributes.source],
+    ['Source application', attributes.sourceApplication],
+    ['Place', attributes.placeName],
+    [
+      'Location',
+      attributes.latitude !== undefined && attributes.longitude !== undefined
+        ? `${attributes.latitude}, ${attributes.longitude}`
+        : undefined,
+    ],
+    ['Subject date', attributes.subjectDate === undefined ? undefined : time(attributes.subjectDate)],
+    ['Content class', attributes.contentClass],
+    ['Reminder', reminder],
+    ['Application data', data],
+  ];
+  return lines.filter((line): line is [string, string] => line[1] !== undefined);
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { EvernoteBackend } from './backend/backend.js';
+import { closeMatches, matchNotebooks, qualifiedName, resolveNotebook } from './notebooks.js';
+
+const NOTEBOOKS = [
+  { guid: 'nb1', name: 'Inbox' },
+  { guid: 'nb2', name: 'Projects', stack: 'Work' },
+  { guid: 'nb3', name: 'Meetings', stack: 'Work' },
+  { guid: 'nb4', name: 'Work/Projects' },
+  { guid: 'nb5', name: 'Recipes', stack: 'Home' },
+];
+
+describe('matchNotebooks', () => {
+  it('should match GUIDs exactly', () => {
+    expect(matchNotebooks(NOTEBOOKS, 'nb3')).toEqual([NOTEBOOKS[2]]);
+  });
+
+  it('should match names and stack-qualified names ignoring case', () => {
+    expect(matchNotebooks(NOTEBOOKS, 'inbox')).toEqual([NOTEBOOKS[0]]);
+    expect(matchNotebooks(NOTEBOOKS, ' home/RECIPES ')).toEqual([NOTEBOOKS[4]]);
+    expect(matchNotebooks(NOTEBOOKS, 'meetings')).toEqual([NOTEBOOKS[2]]);
+  });
+
+  it('should return every candidate when names collide', () => {
+    expect(matchNotebooks(NOTEBOOKS, 'Work/Projects')).toEqual([NOTEBOOKS[1], NOTEBOOKS[3]]);
+  });
+});
+
+describe('closeMatches', () => {
+  it('should suggest similar and containing names, closest first', () => {
+    expect(closeMatches(NOTEBOOKS, 'Recipe').map(qualifiedName)).toEqual(['Home/Recipes']);
+    expect(closeMatches(NOTEBOOKS, 'Inbx').map(qualifiedName)).toEqual(['Inbox']);
+    expect(closeMatches(NOTEBOOKS, 'Gardening')).toEqual([]);
+  });
+});
+
+describe('resolveNotebook', () => {
+  const backend = { listNotebooks: async () => NOTEBOOKS } as unknown as EvernoteBackend;
+
+  it('should list the candidates of an ambiguous name', async () => {
+    await expect(resolveNotebook(backend, 'work/projects')).rejects.toThrow(
+      'Notebook "work/projects" is ambiguous: "Work/Projects" (nb2), "Work/Projects" (nb4). Pass the notebook ID instead'
+    );
+  });
+});
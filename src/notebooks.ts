@@ -0,0 +1,106 @@
+// src/notebooks.ts
+// Resolves the notebook references tools accept: a GUID or a name.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { EvernoteBackend } from './backend/backend.js';
+import { Notebook } from './thrift/types.js';
+
+export interface ResolveNotebookOptions {
+  /** Create the notebook, in its stack if qualified, when nothing matches */
+  createIfMissing?: boolean;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/** `Stack/Name` for stacked notebooks, otherwise just the name */
+export function qualifiedName(notebook: Notebook): string {
+  return notebook.stack ? `${notebook.stack}/${notebook.name}` : notebook.name ?? '';
+}
+
+function describe(notebook: Notebook): string {
+  return `"${qualifiedName(notebook)}" (${notebook.guid})`;
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Levenshtein distance, for suggesting names close to a mistyped one */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Notebooks whose name or qualified name matches `reference`, ignoring
+ * case. Names are unique within an account, so more than one match only
+ * happens when a name containing "/" collides with a stack-qualified one.
+ */
+export function matchNotebooks(notebooks: Notebook[], reference: string): Notebook[] {
+  const byGuid = notebooks.find((notebook) => notebook.guid === reference);
+  if (byGuid) return [byGuid];
+
+  const wanted = normalize(reference);
+  return notebooks.filter(
+    (notebook) => normalize(notebook.name ?? '') === wanted || normalize(qualifiedName(notebook)) === wanted
+  );
+}
+
+/** The closest names to `reference`, best first, for "did you mean" hints */
+export function closeMatches(notebooks: Notebook[], reference: string): Notebook[] {
+  const wanted = normalize(reference);
+  return notebooks
+    .map((notebook) => {
+      const names = [normalize(notebook.name ?? ''), normalize(qualifiedName(notebook))];
+      const distance = Math.min(
+        ...names.map((name) => (name.includes(wanted) || wanted.includes(name) ? 0 : editDistance(name, wanted)))
+      );
+      return { notebook, distance };
+    })
+    .filter(({ distance }) => distance <= Math.max(2, Math.floor(wanted.length / 3)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ notebook }) => notebook);
+}
+
+/**
+ * Look up a notebook by GUID, name or `Stack/Name`. Throws InvalidParams
+ * naming the candidates when the reference is ambiguous or unknown.
+ */
+export async function resolveNotebook(
+  backend: EvernoteBackend,
+  reference: string,
+  options: ResolveNotebookOptions = {}
+): Promise<Notebook> {
+  const notebooks = await backend.listNotebooks();
+  const matches = matchNotebooks(notebooks, reference);
+  if (matches.length === 1) return matches[0];
+
+  if (matches.length > 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Notebook "${reference}" is ambiguous: ${matches.map(describe).join(', ')}. Pass the notebook ID instead`,
+      { matches: matches.map((notebook) => ({ id: notebook.guid, name: qualifiedName(notebook) })) }
+    );
+  }
+
+  if (options.createIfMissing) {
+    const separator = reference.lastIndexOf('/');
+    // Only treat the prefix as a stack when there is a name after it
+    const stack = separator > 0 && separator < reference.length - 1 ? reference.slice(0, separator).trim() : undefined;
+    const name = (stack ? reference.slice(separator + 1) : reference).trim();
+    return backend.createNotebook({ name, stack });
+  }
+
+  const suggestions = closeMatches(notebooks, reference);
+  const hint = suggestions.length ? `. Did you mean ${suggestions.map(describe).join(', ')}?` : '';
+  throw new McpError(ErrorCode.InvalidParams, `Notebook "${reference}" not found${hint}`, {
+    matches: suggestions.map((notebook) => ({ id: notebook.guid, name: qualifiedName(notebook) })),
+  });
+}
@@ -0,0 +1,90 @@
+import { jest, describe, it, expect, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BUILTIN_PROMPTS,
+  escapeQuery,
+  loadPrompts,
+  mergePrompts,
+  promptValues,
+  renderTemplate,
+  validatePrompt,
+} from './prompts.js';
+
+describe('renderTemplate', () => {
+  it('should fill placeholders and fall back for missing or empty values', () => {
+    expect(renderTemplate('{{ name }} in {{place|town}}, {{mood}}.', { name: 'Ana', place: '' })).toBe(
+      'Ana in town, .'
+    );
+  });
+
+  it('should escape values but not fallbacks', () => {
+    expect(renderTemplate('intitle:"{{title|"x"}}"', { title: 'a "b"' }, escapeQuery)).toBe('intitle:"a b"');
+    expect(renderTemplate('{{title|"x"}}', {}, escapeQuery)).toBe('"x"');
+  });
+});
+
+describe('promptValues', () => {
+  const meeting = BUILTIN_PROMPTS.find((prompt) => prompt.name === 'meeting_notes')!;
+
+  it('should add today and require required arguments', () => {
+    expect(promptValues(meeting, { title: 'Sync' }, new Date(Date.UTC(2024, 4, 6)))).toEqual({
+      today: '2024-05-06',
+      title: 'Sync',
+    });
+    expect(() => promptValues(meeting, { title: ' ' })).toThrow('Missing required argument "title"');
+  });
+});
+
+describe('validatePrompt', () => {
+  it('should reject malformed definitions', () => {
+    expect(() => validatePrompt([])).toThrow('name must be');
+    expect(() => validatePrompt({ name: 'has space', template: '' })).toThrow('name must be');
+    expect(() => validatePrompt({ name: 'x' })).toThrow('x: template must be a string');
+    expect(() => validatePrompt({ name: 'x', template: '', arguments: ['a'] })).toThrow('arguments must be');
+    expect(() => validatePrompt({ name: 'x', template: '', notes: { limit: 0 } })).toThrow('notes.limit');
+  });
+});
+
+describe('loadPrompts', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-prompts-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read definitions from JSON files and skip broken ones', async () => {
+    writeFileSync(join(directory, 'a.json'), JSON.stringify({ name: 'one', template: '1' }));
+    writeFileSync(join(directory, 'b.json'), '{ not json');
+    writeFileSync(join(directory, 'c.json'), JSON.stringify([{ name: 'two', template: '2' }]));
+    writeFileSync(join(directory, 'notes.txt'), 'ignored');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const prompts = await loadPrompts(directory);
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['one', 'two']);
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Ignoring prompt file .*b\.json: /));
+    error.mockRestore();
+  });
+
+  it('should have none when the directory is missing', async () => {
+    await expect(loadPrompts(join(directory, 'missing'))).resolves.toEqual([]);
+  });
+});
+
+describe('mergePrompts', () => {
+  it('should let custom prompts replace built-in ones in place', () => {
+    const merged = mergePrompts(
+      [
+        { name: 'a', template: 'built-in' },
+        { name: 'b', template: 'built-in' },
+      ],
+      [
+        { name: 'c', template: 'custom' },
+        { name: 'a', template: 'custom' },
+      ]
+    );
+    expect(merged.map((prompt) => `${prompt.name}:${prompt.template}`)).toEqual(['a:custom', 'b:built-in', 'c:custom']);
+  });
+});
@@ -0,0 +1,204 @@
+// src/prompts.ts
+// Prompt definitions: the built-in note workflows plus any JSON files in the
+// user's prompts directory, and the templating that fills them in.
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/** Which notes to embed in the prompt; string fields are templates too */
+export interface PromptNotes {
+  /** Evernote search grammar */
+  query?: string;
+  /** Notebook name or GUID; no filter when it renders empty */
+  notebook?: string;
+  /** Search the default notebook when `notebook` renders empty */
+  defaultNotebook?: boolean;
+  /** Most notes to embed, default 10 */
+  limit?: number;
+  /** Embed each note's content rather than a list of titles, default true */
+  content?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments?: PromptArgument[];
+  /** The instructions, with `{{argument}}` or `{{argument|fallback}}` placeholders */
+  template: string;
+  notes?: PromptNotes;
+}
+
+export const DEFAULT_PROMPT_NOTES = 10;
+
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'weekly_review',
+    description: 'Summarize the notes created or updated in the past week into a weekly review',
+    arguments: [{ name: 'notebook', description: 'Only review this notebook (default: all notebooks)' }],
+    template:
+      'Write my weekly review from the notes below, which were created or updated in the past 7 days ' +
+      '(notebook: {{notebook|all notebooks}}).\n\n' +
+      'Group them by project or theme. For each group, summarize what happened, list the decisions made and ' +
+      'list open action items with their owners where the notes name them. Finish with the three most ' +
+      'important things to follow up on next week.\n\n' +
+      'Then offer to save the review with create_note, titled "Weekly review {{today}}".',
+    notes: { query: 'updated:day-7', notebook: '{{notebook}}', limit: 25 },
+  },
+  {
+    name: 'meeting_notes',
+    description: 'Draft notes for a meeting, carrying over open items from earlier meetings with the same title',
+    arguments: [
+      { name: 'title', description: 'Meeting title', required: true },
+      { name: 'attendees', description: 'Who is attending' },
+      { name: 'agenda', description: 'Topics to cover' },
+      { name: 'notebook', description: 'Notebook to save the notes in (default: the default notebook)' },
+    ],
+    template:
+      'Draft notes for the meeting "{{title}}" on {{today}}.\n' +
+      'Attendees: {{attendees|not given}}\n' +
+      'Agenda: {{agenda|not given}}\n\n' +
+      'Use Markdown with sections for Attendees, Agenda, Discussion, Decisions and Action items, with each ' +
+      'action item as a "- [ ]" checkbox naming its owner. Notes from earlier meetings with a similar title ' +
+      'follow; carry over any of their action items that are still open.\n\n' +
+      'Show me the draft, then save it with create_note, titled "{{title}} {{today}}", in the ' +
+      '{{notebook|default}} notebook.',
+    notes: { query: 'intitle:"{{title}}"', limit: 3 },
+  },
+  {
+    name: 'daily_journal',
+    description: "Write today's journal entry, with the notes touched today for context",
+    arguments: [
+      { name: 'focus', description: 'What to reflect on (default: how the day went)' },
+      { name: 'notebook', description: 'Notebook to save the entry in (default: the default notebook)' },
+    ],
+    template:
+      "Help me write today's journal entry ({{today}}), focusing on {{focus|how the day went}}.\n\n" +
+      'Ask me up to three short questions first, then write the entry in the first person from my answers. ' +
+      'The notes I created or updated today are listed below for context.\n\n' +
+      'Save the entry with create_note, titled "Journal {{today}}", in the {{notebook|default}} notebook.',
+    notes: { query: 'updated:day', limit: 25, content: false },
+  },
+  {
+    name: 'inbox_triage',
+    description: 'Suggest what to do with each note in the inbox notebook',
+    arguments: [{ name: 'notebook', description: 'The inbox notebook (default: the default notebook)' }],
+    template:
+      'Triage the notes below from my inbox notebook ({{notebook|the default notebook}}), most recently ' +
+      'updated first.\n\n' +
+      'For each note, suggest one action with a one-line reason: add tags or a clearer title (update_note), ' +
+      'delete it (delete_note), or leave it. Show the suggestions as a table and wait for me to confirm ' +
+      'them before changing anything.',
+    notes: { notebook: '{{notebook}}', defaultNotebook: true, limit: 20 },
+  },
+];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Replace `{{name}}` placeholders with the matching value. Missing and empty
+ * values use the fallback after `|`, if any, or become empty.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string | undefined>,
+  escape: (value: string) => string = (value) => value
+): string {
+  return template.replace(PLACEHOLDER, (_, name: string, fallback: string | undefined) => {
+    const value = values[name];
+    return value ? escape(value) : fallback ?? '';
+  });
+}
+
+/** Drop quotes from values placed in search queries so they can't end a quoted phrase early */
+export function escapeQuery(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+/** The values a prompt's templates see: its arguments plus `today` */
+export function promptValues(
+  prompt: PromptDefinition,
+  args: Record<string, string> = {},
+  now = new Date()
+): Record<string, string> {
+  for (const argument of prompt.arguments ?? []) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument "${argument.name}" for prompt ${prompt.name}`
+      );
+    }
+  }
+  return { today: now.toISOString().slice(0, 10), ...args };
+}
+
+function invalid(reason: string): Error {
+  return new Error(`invalid prompt definition: ${reason}`);
+}
+
+/** Check that parsed JSON is a usable prompt definition */
+export function validatePrompt(value: unknown): PromptDefinition {
+  const prompt = value as PromptDefinition;
+  if (typeof prompt !== 'object' || prompt === null) throw invalid('expected an object');
+  if (typeof prompt.name !== 'string' || !/^[\w-]+$/.test(prompt.name)) {
+    throw invalid('name must be letters, digits, "_" or "-"');
+  }
+  if (typeof prompt.template !== 'string') throw invalid(`${prompt.name}: template must be a string`);
+  if (prompt.description !== undefined && typeof prompt.description !== 'string') {
+    throw invalid(`${prompt.name}: description must be a string`);
+  }
+  if (
+    prompt.arguments !== undefined &&
+    !(Array.isArray(prompt.arguments) && prompt.arguments.every((argument) => typeof argument?.name === 'string'))
+  ) {
+    throw invalid(`${prompt.name}: arguments must be a list of objects with a name`);
+  }
+  const notes = prompt.notes;
+  if (notes !== undefined) {
+    if (typeof notes !== 'object' || notes === null) throw invalid(`${prompt.name}: notes must be an object`);
+    if (notes.limit !== undefined && !(Number.isInteger(notes.limit) && notes.limit > 0)) {
+      throw invalid(`${prompt.name}: notes.limit must be a positive integer`);
+    }
+  }
+  return prompt;
+}
+
+/**
+ * Prompt definitions from the `.json` files in `directory`, each holding one
+ * definition or a list of them. A missing directory has none; files that
+ * can't be read or don't validate are skipped with a warning so one bad file
+ * doesn't hide the rest.
+ */
+export async function loadPrompts(directory: string): Promise<PromptDefinition[]> {
+  let files: string[];
+  try {
+    files = (await readdir(directory)).filter((file) => file.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const prompts: PromptDefinition[] = [];
+  for (const file of files) {
+    const path = join(directory, file);
+    try {
+      const parsed: unknown = JSON.parse(await readFile(path, 'utf8'));
+      prompts.push(...(Array.isArray(parsed) ? parsed : [parsed]).map(validatePrompt));
+    } catch (error) {
+      console.error(`Ignoring prompt file ${path}: ${(error as Error).message}`);
+    }
+  }
+  return prompts;
+}
+
+/** Built-in prompts followed by the user's; a user prompt replaces a built-in one with its name */
+export function mergePrompts(builtin: PromptDefinition[], custom: PromptDefinition[]): PromptDefinition[] {
+  const byName = new Map(builtin.map((prompt) => [prompt.name, prompt]));
+  for (const prompt of custom) byName.set(prompt.name, prompt);
+  return [...byName.values()];
+}
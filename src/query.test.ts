@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildSearchQuery, toSearchDate } from './query.js';
+
+describe('toSearchDate', () => {
+  it('should convert ISO dates and date-times', () => {
+    expect(toSearchDate('2024-01-31', 'createdAfter')).toBe('20240131');
+    expect(toSearchDate('2024-01-31T23:30:00-02:00', 'createdAfter')).toBe('20240201T013000Z');
+    expect(toSearchDate('Week-1', 'createdAfter')).toBe('week-1');
+  });
+
+  it('should reject anything else', () => {
+    expect(() => toSearchDate('2024-02-30', 'updatedBefore')).toThrow('Invalid updatedBefore: 2024-02-30');
+    expect(() => toSearchDate('2024-13-01', 'updatedBefore')).toThrow('Invalid updatedBefore');
+    expect(() => toSearchDate('last tuesday', 'updatedBefore')).toThrow('Invalid updatedBefore');
+  });
+});
+
+describe('buildSearchQuery', () => {
+  it('should compile every filter', () => {
+    expect(
+      buildSearchQuery({
+        query: ' budget ',
+        any: true,
+        intitle: 'Q3 "final" plan',
+        tags: ['Work', 'to do', 'proj*'],
+        excludeTags: ['-archived'],
+        createdAfter: '2024-01-01',
+        createdBefore: '2024-02-01',
+        updatedAfter: 'day-7',
+        hasTodo: false,
+        resourceType: 'PDF',
+      })
+    ).toBe(
+      'any: intitle:"Q3 final plan" tag:Work tag:"to do" tag:proj* -tag:"-archived" ' +
+        'created:20240101 -created:20240201 updated:day-7 -todo:* resource:application/pdf budget'
+    );
+  });
+
+  it('should pass raw queries through and build nothing from nothing', () => {
+    expect(buildSearchQuery({ query: 'notebook:"A B" -tag:x' })).toBe('notebook:"A B" -tag:x');
+    expect(buildSearchQuery({ hasTodo: true, resourceType: 'image/png' })).toBe('todo:* resource:image/png');
+    expect(buildSearchQuery({})).toBe('');
+  });
+
+  it('should reject tags the grammar can\'t quote', () => {
+    expect(() => buildSearchQuery({ tags: ['say "hi"'] })).toThrow('tags can\'t contain double quotes: say "hi"');
+  });
+});
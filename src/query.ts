@@ -0,0 +1,124 @@
+// src/query.ts
+// Compiles search_notes' structured filters into Evernote search grammar.
+// https://dev.evernote.com/doc/articles/search_grammar.php
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { NoteSortOrder } from './thrift/types.js';
+
+export interface SearchOptions {
+  /** Free text or raw search grammar, appended as given */
+  query?: string;
+  tags?: string[];
+  excludeTags?: string[];
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  intitle?: string;
+  /** true for notes with checkboxes, false for notes without */
+  hasTodo?: boolean;
+  /** A MIME type such as image/png or image/*, or a shorthand from RESOURCE_TYPES */
+  resourceType?: string;
+  /** Match notes meeting any of the terms instead of all of them */
+  any?: boolean;
+}
+
+/** Shorthands for resourceType */
+export const RESOURCE_TYPES: Record<string, string> = {
+  image: 'image/*',
+  audio: 'audio/*',
+  video: 'video/*',
+  pdf: 'application/pdf',
+};
+
+/** search_notes' sortBy values */
+export const SORT_ORDERS = {
+  updated: NoteSortOrder.UPDATED,
+  created: NoteSortOrder.CREATED,
+  title: NoteSortOrder.TITLE,
+  relevance: NoteSortOrder.RELEVANCE,
+} as const;
+export type SortBy = keyof typeof SORT_ORDERS;
+
+export function isSortBy(value: unknown): value is SortBy {
+  return typeof value === 'string' && Object.hasOwn(SORT_ORDERS, value);
+}
+
+/** Per-note fields search_notes only returns when asked, as they cost extra calls */
+export const EXTRA_FIELDS = ['tags', 'notebookName', 'snippet'] as const;
+export type ExtraField = (typeof EXTRA_FIELDS)[number];
+
+const DATE_FIELDS = ['createdAfter', 'createdBefore', 'updatedAfter', 'updatedBefore'] as const;
+
+/**
+ * A value for `field:`. Values with spaces or a leading `-` are quoted; the
+ * grammar has no way to escape a double quote inside a quoted value.
+ */
+function term(field: string, value: string, argument: string, negated = false): string {
+  if (value.includes('"')) {
+    throw new McpError(ErrorCode.InvalidParams, `${argument} can't contain double quotes: ${value}`);
+  }
+  const quoted = /[\s:]|^-|^$/.test(value) ? `"${value}"` : value;
+  return `${negated ? '-' : ''}${field}:${quoted}`;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * An ISO 8601 date or date-time as Evernote's `YYYYMMDD` or
+ * `YYYYMMDDTHHMMSSZ`. Relative dates such as `week-1` pass through.
+ */
+export function toSearchDate(value: string, argument: string): string {
+  if (/^(day|week|month|year)(-\d+)?$/i.test(value)) return value.toLowerCase();
+
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  // Date.parse accepts days past the end of the month, so check it round trips
+  const day = Date.parse(value);
+  if (date && !Number.isNaN(day) && new Date(day).toISOString().startsWith(value)) return date.slice(1).join('');
+
+  const time = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) ? new Date(value) : undefined;
+  if (!time || Number.isNaN(time.getTime())) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${argument}: ${value}. Expected an ISO 8601 date or date-time such as 2024-01-31, ` +
+        'or a relative date such as week-1'
+    );
+  }
+  return (
+    `${time.getUTCFullYear()}${pad(time.getUTCMonth() + 1)}${pad(time.getUTCDate())}` +
+    `T${pad(time.getUTCHours())}${pad(time.getUTCMinutes())}${pad(time.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Evernote search grammar for the options. "After" dates are inclusive and
+ * "before" dates exclusive. Under `any`, Evernote ORs every term, negated
+ * ones included, so an excluded tag or a "before" date is one more condition
+ * a note can meet rather than a filter on the others.
+ */
+export function buildSearchQuery(options: SearchOptions): string {
+  const terms: string[] = [];
+  if (options.any) terms.push('any:');
+  if (options.intitle) {
+    // Quotes are punctuation to the search, so dropping them finds the same notes
+    terms.push(term('intitle', options.intitle.replace(/["\s]+/g, ' ').trim(), 'intitle'));
+  }
+  for (const tag of options.tags ?? []) terms.push(term('tag', tag.trim(), 'tags'));
+  for (const tag of options.excludeTags ?? []) terms.push(term('tag', tag.trim(), 'excludeTags', true));
+
+  for (const argument of DATE_FIELDS) {
+    const value = options[argument];
+    if (!value) continue;
+    const field = argument.startsWith('created') ? 'created' : 'updated';
+    terms.push(`${argument.endsWith('Before') ? '-' : ''}${field}:${toSearchDate(value, argument)}`);
+  }
+
+  if (options.hasTodo !== undefined) terms.push(`${options.hasTodo ? '' : '-'}todo:*`);
+  if (options.resourceType) {
+    const type = options.resourceType.trim();
+    terms.push(term('resource', RESOURCE_TYPES[type.toLowerCase()] ?? type, 'resourceType'));
+  }
+  if (options.query?.trim()) terms.push(options.query.trim());
+  return terms.join(' ');
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import { recognitionToText } from './recognition.js';
+
+const RECO_INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE recoIndex PUBLIC "SYSTEM" "http://xml.evernote.com/pub/recoIndex.dtd">
+<recoIndex docType="printed" objType="image" objID="a284273e482578224145f2560b67bf45" engineVersion="3.0.17.14" recoType="service" lang="en" objWidth="1251" objHeight="873">
+  <item x="34" y="20" w="120" h="40"><t w="31">T0TAL</t><t w="87">TOTAL</t></item>
+  <item x="170" y="24" w="80" h="38"><t w="92">$12.50</t></item>
+  <item x="34" y="80" w="90" h="40"><t w="80">Thank</t></item>
+  <item x="130" y="82" w="60" h="40"><t w="78">you</t><t w="12">yon</t></item>
+  <item x="10" y="200" w="50" h="20"><t w="0"> </t></item>
+</recoIndex>`;
+
+describe('recognitionToText', () => {
+  it('should keep the most likely word and break lines by position', () => {
+    expect(recognitionToText(RECO_INDEX)).toBe('TOTAL $12.50\nThank you');
+  });
+
+  it('should return nothing for an index without words', () => {
+    expect(recognitionToText('<recoIndex objType="image"></recoIndex>')).toBe('');
+  });
+});
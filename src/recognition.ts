@@ -0,0 +1,50 @@
+// src/recognition.ts
+// Reads the text out of Evernote's recognition index for images and scans.
+import { ElementNode, MarkupNode, getAttribute, parseMarkup, textContent } from './enml/parser.js';
+
+interface Word {
+  text: string;
+  x: number;
+  y: number;
+  h: number;
+}
+
+function elements(nodes: MarkupNode[], name: string): ElementNode[] {
+  return nodes.flatMap((node) =>
+    node.type === 'element' ? [...(node.name === name ? [node] : []), ...elements(node.children, name)] : []
+  );
+}
+
+function numberAttribute(element: ElementNode, name: string): number {
+  return Number(getAttribute(element, name)) || 0;
+}
+
+/**
+ * Plain text from a `<recoIndex>` document. Each `<item>` is a word with
+ * weighted alternatives; the most likely one is kept, and words whose top
+ * edge falls below the middle of the line so far start a new line.
+ */
+export function recognitionToText(xml: string): string {
+  const words: Word[] = [];
+  for (const item of elements(parseMarkup(xml), 'item')) {
+    const best = elements(item.children, 't').sort((a, b) => numberAttribute(b, 'w') - numberAttribute(a, 'w'))[0];
+    const text = best && textContent(best.children).trim();
+    if (!text) continue;
+    words.push({
+      text,
+      x: numberAttribute(item, 'x'),
+      y: numberAttribute(item, 'y'),
+      h: numberAttribute(item, 'h'),
+    });
+  }
+
+  const lines: Word[][] = [];
+  for (const word of words) {
+    const line = lines[lines.length - 1];
+    const top = line && Math.min(...line.map((other) => other.y));
+    const height = line && Math.max(...line.map((other) => other.h));
+    if (line && word.y < top + height / 2 && word.x >= line[line.length - 1].x) line.push(word);
+    else lines.push([word]);
+  }
+  return lines.map((line) => line.map((word) => word.text).join(' ')).join('\n');
+}
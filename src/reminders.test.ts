@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyReminderChanges,
+  compareReminders,
+  describeReminder,
+  formatInTimeZone,
+  parseTime,
+  reminderSearchQuery,
+  reminderState,
+  resolveTimeZone,
+} from './reminders.js';
+
+const NOW = Date.UTC(2024, 4, 15, 12);
+
+describe('parseTime', () => {
+  it('should read times without an offset in the time zone', () => {
+    expect(parseTime('2024-05-17T09:30', 'reminderTime', 'Europe/Berlin')).toBe(Date.UTC(2024, 4, 17, 7, 30));
+    expect(parseTime('2024-01-17 09:30:15', 'reminderTime', 'Europe/Berlin')).toBe(Date.UTC(2024, 0, 17, 8, 30, 15));
+    expect(parseTime('2024-05-17', 'reminderTime', 'America/New_York', { defaultHour: 9 })).toBe(
+      Date.UTC(2024, 4, 17, 13)
+    );
+    // The first hour after clocks go forward
+    expect(parseTime('2024-03-31T03:00', 'reminderTime', 'Europe/Berlin')).toBe(Date.UTC(2024, 2, 31, 1));
+  });
+
+  it('should take times with an offset, and now, as they are', () => {
+    expect(parseTime('2024-05-17T09:30:00Z', 'reminderTime', 'Europe/Berlin')).toBe(Date.UTC(2024, 4, 17, 9, 30));
+    expect(parseTime('2024-05-17T09:30-05:00', 'reminderTime', 'Europe/Berlin')).toBe(Date.UTC(2024, 4, 17, 14, 30));
+    expect(parseTime('now', 'reminderDoneTime', 'Europe/Berlin', { now: NOW })).toBe(NOW);
+  });
+
+  it('should reject other values', () => {
+    expect(() => parseTime('friday', 'reminderTime', 'Europe/Berlin')).toThrow(
+      'Invalid reminderTime: friday. Expected now, or an ISO 8601 date or date-time such as 2024-05-17T09:00, ' +
+        'which is read in Europe/Berlin unless it has an offset'
+    );
+    expect(() => parseTime('2024-02-30', 'dueAfter', 'UTC')).toThrow('Invalid dueAfter: 2024-02-30');
+    expect(() => parseTime('2024-05-17T24:00', 'dueAfter', 'UTC')).toThrow('Invalid dueAfter');
+    expect(() => parseTime(20240517, 'dueAfter', 'UTC')).toThrow('Invalid dueAfter');
+  });
+});
+
+describe('formatInTimeZone', () => {
+  it('should show the local time with its offset', () => {
+    expect(formatInTimeZone(Date.UTC(2024, 4, 17, 7, 30), 'Europe/Berlin')).toBe('2024-05-17T09:30:00+02:00');
+    expect(formatInTimeZone(Date.UTC(2024, 0, 17, 7, 30), 'Europe/Berlin')).toBe('2024-01-17T08:30:00+01:00');
+    expect(formatInTimeZone(Date.UTC(2024, 4, 17, 2), 'America/St_Johns')).toBe('2024-05-16T23:30:00-02:30');
+    expect(formatInTimeZone(Date.UTC(2024, 4, 17, 2), 'UTC')).toBe('2024-05-17T02:00:00Z');
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it('should fall back to the system time zone for unknown names', () => {
+    expect(resolveTimeZone('Europe/Berlin')).toBe('Europe/Berlin');
+    expect(resolveTimeZone('Mars/Olympus')).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    expect(resolveTimeZone(undefined)).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  });
+});
+
+describe('applyReminderChanges', () => {
+  it('should make a note a reminder when given a time', () => {
+    const attributes = applyReminderChanges(
+      { sourceURL: 'https://example.com' },
+      { reminderTime: '2024-05-17' },
+      'Europe/Berlin',
+      NOW
+    );
+    expect(attributes).toEqual({
+      sourceURL: 'https://example.com',
+      reminderTime: Date.UTC(2024, 4, 17, 7),
+      reminderOrder: NOW,
+    });
+    expect(describeReminder(attributes, 'Europe/Berlin')).toBe(
+      'Reminder due 2024-05-17T09:00:00+02:00 (Europe/Berlin)'
+    );
+  });
+
+  it('should mark done, reopen and remove reminders, keeping other attributes', () => {
+    const reminder = { author: 'Ada', reminderOrder: 1, reminderTime: Date.UTC(2024, 4, 17, 7) };
+    const done = applyReminderChanges(reminder, { reminderDoneTime: 'now' }, 'UTC', NOW);
+    expect(done).toEqual({ ...reminder, reminderDoneTime: NOW });
+    expect(describeReminder(done, 'UTC')).toBe('Reminder due 2024-05-17T07:00:00Z, done 2024-05-15T12:00:00Z (UTC)');
+    expect(applyReminderChanges(done, { reminderDoneTime: '', reminderTime: '' }, 'UTC', NOW)).toEqual({
+      author: 'Ada',
+      reminderOrder: 1,
+    });
+    const removed = applyReminderChanges(done, { removeReminder: true }, 'UTC', NOW);
+    expect(removed).toEqual({ author: 'Ada' });
+    expect(describeReminder(removed, 'UTC')).toBe('The note has no reminder');
+  });
+
+  it('should reject conflicting and invalid changes', () => {
+    expect(() => applyReminderChanges({}, { removeReminder: true, reminderTime: '2024-05-17' }, 'UTC')).toThrow(
+      'Pass either removeReminder or reminder fields to set, not both'
+    );
+    expect(() => applyReminderChanges({}, { reminderOrder: 1.5 }, 'UTC')).toThrow('Invalid reminderOrder: 1.5');
+  });
+});
+
+describe('reminderSearchQuery', () => {
+  it('should search for reminders in the status and range', () => {
+    expect(reminderSearchQuery('open', {}, NOW)).toBe('reminderOrder:* -reminderDoneTime:*');
+    expect(reminderSearchQuery('all', {}, NOW)).toBe('reminderOrder:*');
+    expect(reminderSearchQuery('completed', {}, NOW)).toBe('reminderOrder:* reminderDoneTime:*');
+    expect(reminderSearchQuery('upcoming', {}, NOW)).toBe(
+      'reminderOrder:* -reminderDoneTime:* reminderTime:20240515T120000Z'
+    );
+    expect(reminderSearchQuery('overdue', { before: Date.UTC(2024, 4, 1) }, NOW)).toBe(
+      'reminderOrder:* -reminderDoneTime:* reminderTime:* -reminderTime:20240515T120000Z -reminderTime:20240501T000000Z'
+    );
+    expect(reminderSearchQuery('open', { after: Date.UTC(2024, 4, 1) }, NOW)).toBe(
+      'reminderOrder:* -reminderDoneTime:* reminderTime:20240501T000000Z'
+    );
+  });
+});
+
+describe('reminderState and compareReminders', () => {
+  it('should order due reminders first, then unscheduled, then done', () => {
+    const reminders = [
+      { reminderOrder: 1, reminderDoneTime: NOW - 2 },
+      { reminderOrder: 2 },
+      { reminderOrder: 3, reminderTime: NOW + 1 },
+      { reminderOrder: 4, reminderDoneTime: NOW - 1 },
+      { reminderOrder: 5 },
+      { reminderOrder: 6, reminderTime: NOW - 1 },
+    ];
+    const sorted = [...reminders].sort(compareReminders);
+    expect(sorted.map((reminder) => reminder.reminderOrder)).toEqual([6, 3, 5, 2, 4, 1]);
+    expect(sorted.map((reminder) => reminderState(reminder, NOW))).toEqual([
+      'overdue',
+      'upcoming',
+      'unscheduled',
+      'unscheduled',
+      'completed',
+      'completed',
+    ]);
+  });
+});
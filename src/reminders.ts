@@ -0,0 +1,218 @@
+// src/reminders.ts
+// Note reminders: the reminder attributes create_note and update_note set, and what list_reminders searches for.
+// Times are read and shown in the user's time zone.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toSearchDate } from './query.js';
+import { NoteAttributes } from './thrift/types.js';
+
+/** Which reminders list_reminders shows; open is upcoming, overdue and unscheduled together */
+export const REMINDER_STATUSES = ['open', 'upcoming', 'overdue', 'completed', 'all'] as const;
+export type ReminderStatus = (typeof REMINDER_STATUSES)[number];
+
+export function isReminderStatus(value: unknown): value is ReminderStatus {
+  return REMINDER_STATUSES.includes(value as ReminderStatus);
+}
+
+/** The time zone to read and show times in: the account's if set and known, else the system's */
+export function resolveTimeZone(configured?: string): string {
+  if (configured) {
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone: configured }).resolvedOptions().timeZone;
+    } catch {
+      // Not an IANA name this runtime knows
+    }
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Wall clock time in the time zone, as if it were UTC */
+function wallTime(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)!.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+}
+
+/** Minutes the time zone is ahead of UTC at that moment */
+function offsetMinutes(time: number, timeZone: string): number {
+  return (wallTime(time, timeZone) - Math.floor(time / 1000) * 1000) / 60000;
+}
+
+/** An ISO 8601 date-time with the time zone's offset, such as 2024-05-17T09:00:00+02:00 */
+export function formatInTimeZone(time: number, timeZone: string): string {
+  const offset = offsetMinutes(time, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const zone = offset ? `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}` : 'Z';
+  return `${new Date(wallTime(time, timeZone)).toISOString().slice(0, 19)}${zone}`;
+}
+
+export interface ParseTimeOptions {
+  /** The hour a date without a time means */
+  defaultHour?: number;
+  now?: number;
+}
+
+/**
+ * A time given as `now`, an ISO 8601 date-time with an offset, or a date or
+ * date-time without one, which is read in the time zone.
+ */
+export function parseTime(value: unknown, argument: string, timeZone: string, options: ParseTimeOptions = {}): number {
+  const { defaultHour = 0, now = Date.now() } = options;
+  const invalid = () =>
+    new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${argument}: ${value}. Expected now, or an ISO 8601 date or date-time such as 2024-05-17T09:00, ` +
+        `which is read in ${timeZone} unless it has an offset`
+    );
+  if (typeof value !== 'string') throw invalid();
+  if (value.trim().toLowerCase() === 'now') return now;
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) throw invalid();
+    return time;
+  }
+
+  const local = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(value.trim());
+  if (!local) throw invalid();
+  const [year, month, day, hour = defaultHour, minute = 0, second = 0] = local.slice(1).map(
+    (field) => (field === undefined ? undefined : Number(field))
+  ) as number[];
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Date.UTC rolls fields past their range over, such as days past the end of the month, so check they round trip
+  const date = new Date(wall);
+  const fields = [date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes()];
+  if (fields.join() !== [month, day, hour, minute].join() || date.getUTCSeconds() !== second) throw invalid();
+
+  // The offset at a first guess, corrected once in case the guess crossed a change of offset
+  const guess = wall - offsetMinutes(wall, timeZone) * 60000;
+  return wall - offsetMinutes(guess, timeZone) * 60000;
+}
+
+export interface ReminderChanges {
+  /** A time, or an empty string to unschedule the reminder */
+  reminderTime?: string;
+  /** A time, usually now, or an empty string to reopen the reminder */
+  reminderDoneTime?: string;
+  /** Sort key in the reminder list; Evernote apps set it to the time the reminder was made */
+  reminderOrder?: number;
+  removeReminder?: boolean;
+}
+
+export function hasReminderChanges(changes: ReminderChanges): boolean {
+  return (
+    changes.reminderTime !== undefined ||
+    changes.reminderDoneTime !== undefined ||
+    changes.reminderOrder !== undefined ||
+    changes.removeReminder === true
+  );
+}
+
+/**
+ * The note's attributes with the reminder changed. A note only shows as a
+ * reminder with a reminderOrder, so setting a time or marking it done gives
+ * it one if it has none.
+ */
+export function applyReminderChanges(
+  attributes: NoteAttributes | undefined,
+  changes: ReminderChanges,
+  timeZone: string,
+  now = Date.now()
+): NoteAttributes {
+  const result: NoteAttributes = { ...attributes };
+  if (changes.removeReminder) {
+    if (changes.reminderTime || changes.reminderDoneTime || changes.reminderOrder !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, 'Pass either removeReminder or reminder fields to set, not both');
+    }
+    delete result.reminderOrder;
+    delete result.reminderTime;
+    delete result.reminderDoneTime;
+    return result;
+  }
+
+  if (changes.reminderTime !== undefined) {
+    if (changes.reminderTime === '') delete result.reminderTime;
+    else result.reminderTime = parseTime(changes.reminderTime, 'reminderTime', timeZone, { defaultHour: 9, now });
+  }
+  if (changes.reminderDoneTime !== undefined) {
+    if (changes.reminderDoneTime === '') delete result.reminderDoneTime;
+    else result.reminderDoneTime = parseTime(changes.reminderDoneTime, 'reminderDoneTime', timeZone, { now });
+  }
+  if (changes.reminderOrder !== undefined) {
+    if (!Number.isInteger(changes.reminderOrder)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid reminderOrder: ${changes.reminderOrder}. Expected a whole number, usually a time in milliseconds`
+      );
+    }
+    result.reminderOrder = changes.reminderOrder;
+  }
+  const scheduled = result.reminderTime !== undefined || result.reminderDoneTime !== undefined;
+  if (result.reminderOrder === undefined && scheduled) result.reminderOrder = now;
+  return result;
+}
+
+export type ReminderState = 'upcoming' | 'overdue' | 'unscheduled' | 'completed';
+
+export function reminderState(attributes: NoteAttributes, now = Date.now()): ReminderState {
+  if (attributes.reminderDoneTime !== undefined) return 'completed';
+  if (attributes.reminderTime === undefined) return 'unscheduled';
+  return attributes.reminderTime < now ? 'overdue' : 'upcoming';
+}
+
+export interface ReminderRange {
+  /** Due on or after this time */
+  after?: number;
+  /** Due before this time */
+  before?: number;
+}
+
+/** Evernote search grammar for the reminders in a status and range */
+export function reminderSearchQuery(status: ReminderStatus, range: ReminderRange, now = Date.now()): string {
+  const date = (time: number) => toSearchDate(new Date(time).toISOString(), 'time');
+  const terms = ['reminderOrder:*'];
+  if (status === 'completed') terms.push('reminderDoneTime:*');
+  else if (status !== 'all') terms.push('-reminderDoneTime:*');
+  if (status === 'upcoming') terms.push(`reminderTime:${date(now)}`);
+  if (status === 'overdue') terms.push('reminderTime:*', `-reminderTime:${date(now)}`);
+  if (range.after !== undefined) terms.push(`reminderTime:${date(range.after)}`);
+  if (range.before !== undefined) terms.push('reminderTime:*', `-reminderTime:${date(range.before)}`);
+  return [...new Set(terms)].join(' ');
+}
+
+/** How create_note and update_note report the reminder they set */
+export function describeReminder(attributes: NoteAttributes | undefined, timeZone: string): string {
+  if (attributes?.reminderOrder === undefined) return 'The note has no reminder';
+  const due =
+    attributes.reminderTime === undefined
+      ? 'with no time set'
+      : `due ${formatInTimeZone(attributes.reminderTime, timeZone)}`;
+  const done =
+    attributes.reminderDoneTime === undefined
+      ? ''
+      : `, done ${formatInTimeZone(attributes.reminderDoneTime, timeZone)}`;
+  return `Reminder ${due}${done} (${timeZone})`;
+}
+
+/** list_reminders' order: due times soonest first, then unscheduled ones newest first, then the most recently done */
+export function compareReminders(a: NoteAttributes, b: NoteAttributes): number {
+  const group = (attributes: NoteAttributes) =>
+    attributes.reminderDoneTime !== undefined ? 2 : attributes.reminderTime === undefined ? 1 : 0;
+  const byTime =
+    group(a) === 2
+      ? (b.reminderDoneTime ?? 0) - (a.reminderDoneTime ?? 0)
+      : (a.reminderTime ?? 0) - (b.reminderTime ?? 0);
+  return group(a) - group(b) || byTime || (b.reminderOrder ?? 0) - (a.reminderOrder ?? 0);
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { join } from 'path';
+import { accountFile, resolveService } from './service.js';
+
+describe('resolveService', () => {
+  it('should default to production', () => {
+    expect(resolveService(undefined)).toEqual({ name: 'production', url: 'https://www.evernote.com' });
+    expect(resolveService('')).toEqual({ name: 'production', url: 'https://www.evernote.com' });
+  });
+
+  it('should resolve service names', () => {
+    expect(resolveService('sandbox')).toEqual({ name: 'sandbox', url: 'https://sandbox.evernote.com' });
+    expect(resolveService('Yinxiang')).toEqual({ name: 'yinxiang', url: 'https://app.yinxiang.com' });
+  });
+
+  it('should accept base URLs', () => {
+    expect(resolveService('https://app.yinxiang.com/')).toEqual({ name: 'yinxiang', url: 'https://app.yinxiang.com' });
+    expect(resolveService('http://localhost:8080/evernote/')).toEqual({
+      name: 'custom',
+      url: 'http://localhost:8080/evernote',
+    });
+  });
+
+  it('should reject anything else', () => {
+    expect(() => resolveService('staging')).toThrow(
+      'Invalid EVERNOTE_SERVICE: staging. Expected production, sandbox, yinxiang or an http(s) base URL'
+    );
+    expect(() => resolveService('ftp://evernote.com')).toThrow('Invalid EVERNOTE_SERVICE');
+  });
+});
+
+describe('accountFile', () => {
+  it('should name the file by service and user', () => {
+    expect(accountFile('/config', 'cache', { name: 'sandbox', url: 'https://sandbox.evernote.com' }, 42)).toBe(
+      join('/config', 'cache-sandbox-42.json')
+    );
+    expect(accountFile('/config', 'embeddings', { name: 'custom', url: 'http://localhost:8080/evernote' }, 42)).toBe(
+      join('/config', 'embeddings-localhost-8080-42.json')
+    );
+    expect(accountFile('/config', 'cache', { name: 'production', url: 'https://www.evernote.com' })).toBe(
+      join('/config', 'cache-production.json')
+    );
+  });
+});
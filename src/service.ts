@@ -0,0 +1,52 @@
+// src/service.ts
+// Which Evernote service the server talks to.
+import { join } from 'path';
+
+export const SERVICES = {
+  production: 'https://www.evernote.com',
+  sandbox: 'https://sandbox.evernote.com',
+  yinxiang: 'https://app.yinxiang.com',
+} as const;
+
+export type ServiceName = keyof typeof SERVICES;
+
+export interface EvernoteService {
+  /** `custom` for any base URL that isn't one of SERVICES */
+  name: ServiceName | 'custom';
+  url: string;
+}
+
+/**
+ * Resolve an EVERNOTE_SERVICE value: a service name or a base URL such as
+ * `https://sandbox.evernote.com`. Defaults to production.
+ */
+export function resolveService(value: string | undefined): EvernoteService {
+  if (!value) return { name: 'production', url: SERVICES.production };
+  const named = value.toLowerCase();
+  if (named in SERVICES) return { name: named as ServiceName, url: SERVICES[named as ServiceName] };
+
+  let url: URL | undefined;
+  try {
+    url = new URL(value);
+  } catch {
+    url = undefined;
+  }
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    throw new Error(
+      `Invalid EVERNOTE_SERVICE: ${value}. Expected ${Object.keys(SERVICES).join(', ')} or an http(s) base URL`
+    );
+  }
+
+  const base = url.origin + url.pathname.replace(/\/+$/, '');
+  const known = (Object.keys(SERVICES) as ServiceName[]).find((name) => SERVICES[name] === base);
+  return { name: known ?? 'custom', url: base };
+}
+
+/**
+ * A file in `dir` for one account's data, such as `cache-production-42.json`.
+ * User IDs are only unique within a service, so the file is named by both.
+ */
+export function accountFile(dir: string, kind: string, service: EvernoteService, userId?: number): string {
+  const name = service.name === 'custom' ? new URL(service.url).host.replace(/[^\w.-]+/g, '-') : service.name;
+  return join(dir, userId === undefined ? `${kind}-${name}.json` : `${kind}-${name}-${userId}.json`);
+}
@@ -0,0 +1,83 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { Subscriptions } from './subscriptions.js';
+
+describe('Subscriptions', () => {
+  let versions: Record<string, string>;
+  let notified: string[];
+  let subscriptions: Subscriptions;
+
+  beforeEach(() => {
+    versions = { a: '1', b: '1' };
+    notified = [];
+    subscriptions = new Subscriptions({
+      version: async (uri) => {
+        if (!(uri in versions)) throw new Error(`no ${uri}`);
+        return versions[uri];
+      },
+      notify: async (uri) => {
+        notified.push(uri);
+      },
+    });
+  });
+
+  it('should notify each change once', async () => {
+    await subscriptions.subscribe('a');
+    await subscriptions.subscribe('b');
+    versions.b = '2';
+
+    await subscriptions.check();
+    await subscriptions.check();
+    expect(notified).toEqual(['b']);
+  });
+
+  it('should share a check that is already running', async () => {
+    await subscriptions.subscribe('a');
+    versions.a = '2';
+
+    await Promise.all([subscriptions.check(), subscriptions.check()]);
+    expect(notified).toEqual(['a']);
+  });
+
+  it('should stop reporting unsubscribed URIs', async () => {
+    await subscriptions.subscribe('a');
+    subscriptions.unsubscribe('a');
+    versions.a = '2';
+
+    await subscriptions.check();
+    expect(notified).toEqual([]);
+    expect(subscriptions.size).toBe(0);
+  });
+
+  it('should keep checking the others when one fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await subscriptions.subscribe('a');
+    await subscriptions.subscribe('b');
+    delete versions.a;
+    versions.b = '2';
+
+    await subscriptions.check();
+    expect(notified).toEqual(['b']);
+    expect(error).toHaveBeenCalledWith('Failed to check a for changes: Error: no a');
+    error.mockRestore();
+  });
+
+  it('should log failed notifications and keep notifying', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    subscriptions = new Subscriptions({
+      version: async (uri) => versions[uri],
+      notify: async (uri) => {
+        if (uri === 'a') throw new Error('Not connected');
+        notified.push(uri);
+      },
+    });
+    await subscriptions.subscribe('a');
+    await subscriptions.subscribe('b');
+    versions.a = '2';
+    versions.b = '2';
+
+    await expect(subscriptions.check()).resolves.toBeUndefined();
+    expect(notified).toEqual(['b']);
+    expect(error).toHaveBeenCalledWith('Failed to notify subscribers of a: Error: Not connected');
+    error.mockRestore();
+  });
+});
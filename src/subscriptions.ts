@@ -0,0 +1,73 @@
+// src/subscriptions.ts
+// Tracks subscribed resource URIs and reports the ones whose content changed.
+
+export interface SubscriptionOptions {
+  /** A value that changes whenever the resource behind the URI does */
+  version: (uri: string) => Promise<string>;
+  /** Called with each URI whose version changed */
+  notify: (uri: string) => Promise<void>;
+  /** How often to check in the background; 0 only checks when asked */
+  intervalMs?: number;
+}
+
+/**
+ * Resource subscriptions. Nothing pushes changes to us, so subscribed URIs
+ * are compared against the version they had when last checked, on a timer
+ * and whenever `check` is called after a write.
+ */
+export class Subscriptions {
+  private readonly versions = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private checking?: Promise<void>;
+
+  constructor(private readonly options: SubscriptionOptions) {}
+
+  get size(): number {
+    return this.versions.size;
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    this.versions.set(uri, await this.options.version(uri));
+    if (!this.timer && this.options.intervalMs) {
+      this.timer = setInterval(() => void this.check(), this.options.intervalMs);
+      // Subscriptions alone shouldn't keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.versions.delete(uri);
+    if (!this.versions.size && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Compare every subscribed URI with its last version and notify the changed ones */
+  check(): Promise<void> {
+    // Overlapping checks would notify the same change twice
+    this.checking ??= this.compare().finally(() => (this.checking = undefined));
+    return this.checking;
+  }
+
+  private async compare(): Promise<void> {
+    for (const [uri, previous] of this.versions) {
+      let current: string;
+      try {
+        current = await this.options.version(uri);
+      } catch (error) {
+        console.error(`Failed to check ${uri} for changes: ${error}`);
+        continue;
+      }
+      // Skip URIs unsubscribed while this check was running
+      if (current === previous || !this.versions.has(uri)) continue;
+      this.versions.set(uri, current);
+      // Checks run in the background, where nothing would catch the error
+      try {
+        await this.options.notify(uri);
+      } catch (error) {
+        console.error(`Failed to notify subscribers of ${uri}: ${error}`);
+      }
+    }
+  }
+}
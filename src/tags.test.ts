@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyTagChanges, isDescendant, matchTag, resolveTag, tagTree } from './tags.js';
+
+const TAGS = [
+  { guid: 't1', name: 'Work' },
+  { guid: 't2', name: 'Meetings', parentGuid: 't1' },
+  { guid: 't3', name: 'standup', parentGuid: 't2' },
+  { guid: 't4', name: 'home' },
+  { guid: 't5', name: 'Orphan', parentGuid: 'gone' },
+];
+
+describe('matchTag', () => {
+  it('should match GUIDs and names ignoring case', () => {
+    expect(matchTag(TAGS, 't3')).toBe(TAGS[2]);
+    expect(matchTag(TAGS, ' WORK ')).toBe(TAGS[0]);
+    expect(matchTag(TAGS, 'garden')).toBeUndefined();
+  });
+});
+
+describe('resolveTag', () => {
+  it('should suggest close names when nothing matches', () => {
+    expect(() => resolveTag(TAGS, 'meeting')).toThrow('Tag "meeting" not found. Did you mean "Meetings" (t2)?');
+    expect(() => resolveTag(TAGS, 'xyzzy')).toThrow(/Tag "xyzzy" not found$/);
+  });
+});
+
+describe('applyTagChanges', () => {
+  it('should add missing tags and remove others ignoring case', () => {
+    expect(applyTagChanges(['Work', 'urgent'], ['work', ' later '], ['URGENT'])).toEqual(['Work', 'later']);
+    expect(applyTagChanges(['a'], undefined, ['a'])).toEqual([]);
+  });
+});
+
+describe('isDescendant', () => {
+  it('should follow parents all the way up', () => {
+    expect(isDescendant(TAGS, TAGS[2], TAGS[0])).toBe(true);
+    expect(isDescendant(TAGS, TAGS[0], TAGS[2])).toBe(false);
+    expect(isDescendant(TAGS, TAGS[0], TAGS[0])).toBe(false);
+  });
+});
+
+describe('tagTree', () => {
+  it('should nest children under their parents, sorted by name, with counts', () => {
+    expect(tagTree(TAGS, { t1: 2, t3: 1 })).toEqual([
+      { id: 't4', name: 'home', noteCount: 0, children: [] },
+      { id: 't5', name: 'Orphan', noteCount: 0, children: [] },
+      {
+        id: 't1',
+        name: 'Work',
+        noteCount: 2,
+        children: [
+          {
+            id: 't2',
+            name: 'Meetings',
+            noteCount: 0,
+            children: [{ id: 't3', name: 'standup', noteCount: 1, children: [] }],
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+// src/tags.ts
+// Resolves the tag references tools accept and lays tags out as a tree.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { editDistance } from './notebooks.js';
+import { Tag } from './thrift/types.js';
+
+const MAX_SUGGESTIONS = 5;
+
+export interface TagNode {
+  id: string;
+  name: string;
+  noteCount: number;
+  children: TagNode[];
+}
+
+function describe(tag: Tag): string {
+  return `"${tag.name}" (${tag.guid})`;
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** The tag with this GUID or name, ignoring case; tag names are unique within an account */
+export function matchTag(tags: Tag[], reference: string): Tag | undefined {
+  const wanted = normalize(reference);
+  return tags.find((tag) => tag.guid === reference) ?? tags.find((tag) => normalize(tag.name ?? '') === wanted);
+}
+
+/** Look up a tag by GUID or name. Throws InvalidParams with close names when there is none */
+export function resolveTag(tags: Tag[], reference: string): Tag {
+  const tag = matchTag(tags, reference);
+  if (tag) return tag;
+
+  const wanted = normalize(reference);
+  const suggestions = tags
+    .map((candidate) => {
+      const name = normalize(candidate.name ?? '');
+      return { tag: candidate, distance: name.includes(wanted) || wanted.includes(name) ? 0 : editDistance(name, wanted) };
+    })
+    .filter(({ distance }) => distance <= Math.max(2, Math.floor(wanted.length / 3)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ tag: candidate }) => candidate);
+  const hint = suggestions.length ? `. Did you mean ${suggestions.map(describe).join(', ')}?` : '';
+  throw new McpError(ErrorCode.InvalidParams, `Tag "${reference}" not found${hint}`, {
+    matches: suggestions.map((candidate) => ({ id: candidate.guid, name: candidate.name })),
+  });
+}
+
+/**
+ * A note's tag names after adding and removing some, ignoring case and
+ * keeping the order of the tags it already had.
+ */
+export function applyTagChanges(current: string[], add: string[] = [], remove: string[] = []): string[] {
+  const removed = new Set(remove.map(normalize));
+  const result = current.filter((name) => !removed.has(normalize(name)));
+  for (const name of add) {
+    if (!result.some((existing) => normalize(existing) === normalize(name))) result.push(name.trim());
+  }
+  return result;
+}
+
+/** Whether `tag` sits somewhere below `ancestor` in the hierarchy */
+export function isDescendant(tags: Tag[], tag: Tag, ancestor: Tag): boolean {
+  const seen = new Set<string>();
+  let guid = tag.parentGuid;
+  while (guid && !seen.has(guid)) {
+    if (guid === ancestor.guid) return true;
+    seen.add(guid);
+    const parentGuid: string = guid;
+    guid = tags.find((parent) => parent.guid === parentGuid)?.parentGuid;
+  }
+  return false;
+}
+
+/**
+ * Tags nested under their parents, each level sorted by name. Counts are
+ * the notes carrying the tag itself, not its children.
+ */
+export function tagTree(tags: Tag[], counts: Record<string, number> = {}): TagNode[] {
+  const guids = new Set(tags.map((tag) => tag.guid));
+  const build = (parentGuid: string | undefined): TagNode[] =>
+    tags
+      // Tags whose parent isn't visible are shown at the top level
+      .filter((tag) => (parentGuid ? tag.parentGuid === parentGuid : !tag.parentGuid || !guids.has(tag.parentGuid)))
+      .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? '', undefined, { sensitivity: 'base' }))
+      .map((tag) => ({
+        id: tag.guid!,
+        name: tag.name ?? '',
+        noteCount: counts[tag.guid!] ?? 0,
+        children: build(tag.guid),
+      }));
+  return build(undefined);
+}
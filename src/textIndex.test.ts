@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { IndexedNote, TextIndex, indexedNote, parseTextQuery, tokenize } from './textIndex.js';
+
+type NoteFields = Partial<Omit<IndexedNote, 'body' | 'ocr'>> & { body?: string; ocr?: string };
+
+function note(guid: string, { body = '', ocr = '', ...fields }: NoteFields = {}): IndexedNote {
+  return { guid, version: '1', title: '', tags: [], body: () => body, ocr: () => ocr, tagGuids: [], ...fields };
+}
+
+describe('tokenize', () => {
+  it('should lowercase words and keep their positions', () => {
+    expect(tokenize("Don't panic, Ünïcode!")).toEqual([
+      { term: "don't", start: 0, end: 5 },
+      { term: 'panic', start: 6, end: 11 },
+      { term: 'ünïcode', start: 13, end: 20 },
+    ]);
+  });
+});
+
+describe('parseTextQuery', () => {
+  it('should read words, phrases, prefixes and exclusions', () => {
+    expect(parseTextQuery('Plan "road trip" budg* -draft e-mail')).toEqual([
+      { words: ['plan'], prefix: false, negated: false },
+      { words: ['road', 'trip'], prefix: false, negated: false },
+      { words: ['budg'], prefix: true, negated: false },
+      { words: ['draft'], prefix: false, negated: true },
+      { words: ['e', 'mail'], prefix: false, negated: false },
+    ]);
+    expect(parseTextQuery('" " *')).toEqual([]);
+  });
+});
+
+describe('indexedNote', () => {
+  it('should extract text from ENML, tags and recognition data', () => {
+    const recognition = '<recoIndex><item><t w="90">Receipt</t><t w="20">Recelpt</t></item></recoIndex>';
+    const source = {
+      guid: 'n1',
+      title: 'Lunch',
+      content: '<en-note><div>Soup &amp; bread</div></en-note>',
+      tagGuids: ['t1'],
+      updateSequenceNum: 5,
+      resources: [{ guid: 'r1', updateSequenceNum: 6, recognition: { body: Buffer.from(recognition) } }],
+    };
+    const indexed = indexedNote(source, new Map([['t1', 'expenses']]));
+    expect(indexed).toMatchObject({ title: 'Lunch', tags: ['expenses'] });
+    expect(indexed.body()).toContain('Soup & bread');
+    expect(indexed.ocr()).toBe('Receipt');
+
+    // Recognition downloaded later changes the version, though the USNs don't
+    const pending = { ...source, resources: [{ guid: 'r1', updateSequenceNum: 6, recognition: {} }] };
+    expect(indexedNote(pending, new Map([['t1', 'expenses']])).version).not.toBe(indexed.version);
+
+    // So does renaming a tag, though the note is untouched
+    expect(indexedNote(source, new Map([['t1', 'costs']])).version).not.toBe(indexed.version);
+  });
+});
+
+describe('TextIndex', () => {
+  let index: TextIndex;
+
+  beforeEach(() => {
+    index = new TextIndex();
+    index.update([
+      note('trip', { title: 'Road trip', body: 'Pack the tent. The road north is closed, take the coast road.' }),
+      note('budget', { title: 'Budget', body: 'Trip budget: fuel and food for the road.', tags: ['finance'] }),
+      note('receipt', { title: 'Scan', ocr: 'Fuel station receipt, total 40' }),
+      note('other', { title: 'Groceries', body: 'Milk, bread, eggs' }),
+    ]);
+  });
+
+  const ids = (query: string) => index.search(query).map((hit) => hit.note.guid);
+
+  it('should find notes containing every word', () => {
+    expect(ids('road').sort()).toEqual(['budget', 'trip']);
+    expect(ids('road fuel')).toEqual(['budget']);
+    expect(ids('nothing')).toEqual([]);
+  });
+
+  it('should match phrases, prefixes and exclusions', () => {
+    expect(ids('"road trip"')).toEqual(['trip']);
+    expect(ids('"trip road"')).toEqual([]);
+    expect(ids('rece*')).toEqual(['receipt']);
+    expect(ids('"coast ro*"')).toEqual(['trip']);
+    expect(ids('road -tent')).toEqual(['budget']);
+    expect(ids('-road')).toEqual([]);
+  });
+
+  it('should rank more and heavier matches first', () => {
+    // Three mentions including the title beat one in the body
+    expect(ids('road')).toEqual(['trip', 'budget']);
+    // A title match beats a body match
+    index.update([note('body', { body: 'Tent' }), note('title', { title: 'Tent' })]);
+    expect(ids('tent')).toEqual(['title', 'body']);
+  });
+
+  it('should report where notes matched, with a highlighted snippet', () => {
+    const [hit] = index.search('fuel food');
+    expect(hit.note.guid).toBe('budget');
+    expect(hit.matchedIn).toEqual(['body']);
+    expect(hit.snippet).toBe('Trip budget: **fuel** and **food** for the road.');
+    expect(index.search('station')[0]).toMatchObject({
+      matchedIn: ['ocr'],
+      snippet: 'Fuel **station** receipt, total 40',
+    });
+    // Notes that only match on tags show the start of their text
+    expect(index.search('finance')[0]).toMatchObject({
+      matchedIn: ['tags'],
+      snippet: 'Trip budget: fuel and food for the road.',
+    });
+  });
+
+  it('should clip long snippets around the first match', () => {
+    const words = Array.from({ length: 100 }, (_, i) => `word${i}`);
+    words[50] = 'needle';
+    index.update([note('long', { body: words.join(' ') })]);
+    const { snippet } = index.search('needle')[0];
+    expect(snippet).toMatch(/^…word4\d .* \*\*needle\*\* .* word\d+…$/);
+    expect(snippet.length).toBeLessThanOrEqual(210);
+  });
+
+  it('should apply the filter', () => {
+    const hits = index.search('road', (candidate) => candidate.tags.includes('finance'));
+    expect(hits.map((hit) => hit.note.guid)).toEqual(['budget']);
+  });
+
+  it('should re-index changed notes and drop removed ones', () => {
+    index.update([note('trip', { version: '2', title: 'Hiking' }), note('other', { title: 'Groceries' })]);
+    expect(index.size).toBe(2);
+    expect(ids('road')).toEqual([]);
+    expect(ids('hiking')).toEqual(['trip']);
+  });
+
+  it('should only read the text of notes it re-indexes', () => {
+    const unchanged = { ...note('other', { title: 'Groceries' }), body: jest.fn(() => ''), ocr: jest.fn(() => '') };
+    index.update([unchanged, note('trip', { title: 'Road trip', body: 'Pack the tent.', version: '2' })]);
+    expect(unchanged.body).not.toHaveBeenCalled();
+    expect(unchanged.ocr).not.toHaveBeenCalled();
+    expect(ids('tent')).toEqual(['trip']);
+  });
+});
@@ -0,0 +1,316 @@
+// src/textIndex.ts
+// An in-memory full-text index over notes held locally, ranked with BM25.
+import { enmlToText } from './enml/render.js';
+import { recognitionToText } from './recognition.js';
+import { Note } from './thrift/types.js';
+
+export const INDEX_FIELDS = ['title', 'tags', 'body', 'ocr'] as const;
+export type IndexField = (typeof INDEX_FIELDS)[number];
+
+/** How much a match in each field counts towards the score */
+const FIELD_WEIGHTS: Record<IndexField, number> = { title: 3, tags: 2, body: 1, ocr: 1 };
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 200;
+// How much text to show before the first match in a snippet
+const SNIPPET_LEAD = 60;
+
+export interface IndexedNote {
+  guid: string;
+  /** Changes whenever anything indexed does */
+  version: string;
+  title: string;
+  tags: string[];
+  /** Plain text of the note, only read when the note needs indexing */
+  body: () => string;
+  /** Recognized text in the note's images, read likewise */
+  ocr: () => string;
+  notebookGuid?: string;
+  tagGuids: string[];
+  updated?: number;
+}
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  text: string;
+  tokens: Token[];
+}
+
+interface Document {
+  note: IndexedNote;
+  fields: Record<IndexField, IndexedField>;
+  /** Weighted token count, for length normalization */
+  length: number;
+}
+
+export interface TextQueryTerm {
+  /** Consecutive words; more than one for a phrase */
+  words: string[];
+  /** The last word matches as a prefix */
+  prefix: boolean;
+  negated: boolean;
+}
+
+export interface TextSearchHit {
+  note: IndexedNote;
+  score: number;
+  /** Fields with a match */
+  matchedIn: IndexField[];
+  /** Text around the first match, with matches in **bold** */
+  snippet: string;
+}
+
+interface Match {
+  field: IndexField;
+  start: number;
+  end: number;
+}
+
+/** Words in `text` with their positions, lowercased */
+export function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[\p{L}\p{N}_']+/gu)].map((match) => ({
+    term: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Words, `"quoted phrases"`, `prefix*` and `-excluded` terms. Words joined by
+ * punctuation, like `e-mail`, are searched as a phrase.
+ */
+export function parseTextQuery(query: string): TextQueryTerm[] {
+  const terms: TextQueryTerm[] = [];
+  for (const match of query.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    const [, minus, quoted, bare] = match;
+    const text = quoted ?? bare;
+    const words = tokenize(text).map((token) => token.term);
+    if (!words.length) continue;
+    terms.push({ words, prefix: text.trimEnd().endsWith('*'), negated: minus === '-' });
+  }
+  return terms;
+}
+
+/** The text of a note the index covers; `tagNames` maps tag GUIDs to names */
+export function indexedNote(note: Note, tagNames: Map<string | undefined, string | undefined>): IndexedNote {
+  const resources = note.resources ?? [];
+  const tagGuids = note.tagGuids ?? [];
+  const tags = tagGuids.map((guid) => tagNames.get(guid) ?? '');
+  return {
+    guid: note.guid!,
+    // Content and recognition can arrive after the metadata, without a new USN,
+    // and renaming a tag doesn't touch the notes it's on
+    version: [
+      note.updateSequenceNum,
+      note.content?.length,
+      ...resources.map((resource) => `${resource.updateSequenceNum}/${resource.recognition?.body?.length ?? ''}`),
+      ...tags,
+    ].join(':'),
+    title: note.title ?? '',
+    tags,
+    body: () => (note.content ? enmlToText(note.content) : ''),
+    ocr: () =>
+      resources
+        .map((resource) => (resource.recognition?.body ? recognitionToText(resource.recognition.body.toString()) : ''))
+        .filter(Boolean)
+        .join('\n'),
+    notebookGuid: note.notebookGuid,
+    tagGuids,
+    updated: note.updated,
+  };
+}
+
+/** Where `term` occurs in `tokens`, as character ranges */
+function occurrences(tokens: Token[], term: TextQueryTerm): [number, number][] {
+  const found: [number, number][] = [];
+  const last = term.words.length - 1;
+  for (let start = 0; start + last < tokens.length; start++) {
+    const matches = term.words.every((word, offset) => {
+      const token = tokens[start + offset].term;
+      return offset === last && term.prefix ? token.startsWith(word) : token === word;
+    });
+    if (matches) found.push([tokens[start].start, tokens[start + last].end]);
+  }
+  return found;
+}
+
+/**
+ * Full-text index over notes. `update` brings it in line with a set of notes,
+ * re-indexing only those whose version changed; `search` ranks the notes
+ * containing every term with BM25, weighting titles and tags above the body.
+ */
+export class TextIndex {
+  private readonly documents = new Map<string, Document>();
+  /** Which documents contain each term */
+  private readonly postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  update(notes: IndexedNote[]): void {
+    const current = new Set(notes.map((note) => note.guid));
+    for (const guid of this.documents.keys()) {
+      if (!current.has(guid)) this.remove(guid);
+    }
+    for (const note of notes) {
+      if (this.documents.get(note.guid)?.note.version === note.version) continue;
+      this.remove(note.guid);
+      this.add(note);
+    }
+  }
+
+  private add(note: IndexedNote): void {
+    const text: Record<IndexField, string> = {
+      title: note.title,
+      tags: note.tags.join('\n'),
+      body: note.body(),
+      ocr: note.ocr(),
+    };
+    const fields = {} as Record<IndexField, IndexedField>;
+    let length = 0;
+    for (const field of INDEX_FIELDS) {
+      const tokens = tokenize(text[field]);
+      fields[field] = { text: text[field], tokens };
+      length += tokens.length * FIELD_WEIGHTS[field];
+      for (const { term } of tokens) {
+        if (!this.postings.has(term)) this.postings.set(term, new Set());
+        this.postings.get(term)!.add(note.guid);
+      }
+    }
+    this.documents.set(note.guid, { note, fields, length });
+    this.totalLength += length;
+  }
+
+  private remove(guid: string): void {
+    const document = this.documents.get(guid);
+    if (!document) return;
+    for (const field of INDEX_FIELDS) {
+      for (const { term } of document.fields[field].tokens) {
+        const postings = this.postings.get(term);
+        postings?.delete(guid);
+        if (postings?.size === 0) this.postings.delete(term);
+      }
+    }
+    this.documents.delete(guid);
+    this.totalLength -= document.length;
+  }
+
+  /** Documents that could contain the term, from the postings of its words */
+  private candidates(term: TextQueryTerm): Set<string> {
+    let result: Set<string> | undefined;
+    for (const [index, word] of term.words.entries()) {
+      let documents: Set<string>;
+      if (index === term.words.length - 1 && term.prefix) {
+        documents = new Set();
+        for (const [indexed, postings] of this.postings) {
+          if (indexed.startsWith(word)) for (const guid of postings) documents.add(guid);
+        }
+      } else {
+        documents = this.postings.get(word) ?? new Set();
+      }
+      result = result ? new Set([...result].filter((guid) => documents.has(guid))) : documents;
+    }
+    return result ?? new Set();
+  }
+
+  private matches(document: Document, term: TextQueryTerm): Match[] {
+    return INDEX_FIELDS.flatMap((field) =>
+      occurrences(document.fields[field].tokens, term).map(([start, end]) => ({ field, start, end }))
+    );
+  }
+
+  /**
+   * Notes containing every term and none of the excluded ones, best first.
+   * `filter` narrows the notes considered, such as to a notebook.
+   */
+  search(query: string, filter: (note: IndexedNote) => boolean = () => true): TextSearchHit[] {
+    const terms = parseTextQuery(query);
+    const positive = terms.filter((term) => !term.negated);
+    if (!positive.length) return [];
+
+    const averageLength = this.totalLength / Math.max(this.documents.size, 1);
+    const matched = positive.map((term) => {
+      const found = new Map<string, Match[]>();
+      for (const guid of this.candidates(term)) {
+        const document = this.documents.get(guid)!;
+        const matches = this.matches(document, term);
+        if (matches.length) found.set(guid, matches);
+      }
+      return found;
+    });
+    const excluded = terms
+      .filter((term) => term.negated)
+      .map((term) => [...this.candidates(term)].filter((guid) => this.matches(this.documents.get(guid)!, term).length));
+
+    const hits: TextSearchHit[] = [];
+    for (const guid of matched[0].keys()) {
+      const document = this.documents.get(guid)!;
+      if (!matched.every((found) => found.has(guid))) continue;
+      if (excluded.some((guids) => guids.includes(guid)) || !filter(document.note)) continue;
+
+      let score = 0;
+      const all: Match[] = [];
+      for (const found of matched) {
+        const matches = found.get(guid)!;
+        all.push(...matches);
+        const frequency = matches.reduce((sum, match) => sum + FIELD_WEIGHTS[match.field], 0);
+        const idf = Math.log(1 + (this.documents.size - found.size + 0.5) / (found.size + 0.5));
+        const normalization = K1 * (1 - B + (B * document.length) / averageLength);
+        score += (idf * frequency * (K1 + 1)) / (frequency + normalization);
+      }
+      hits.push({
+        note: document.note,
+        score,
+        matchedIn: INDEX_FIELDS.filter((field) => all.some((match) => match.field === field)),
+        snippet: snippet(document, all),
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score || (b.note.updated ?? 0) - (a.note.updated ?? 0));
+  }
+}
+
+/** Text around the first match in the body, else the OCR text, else the title */
+function snippet(document: Document, matches: Match[]): string {
+  const field = (['body', 'ocr', 'title'] as const).find((name) => matches.some((match) => match.field === name));
+  if (!field) return clip(document.fields.body.text || document.fields.title.text, 0, []);
+  const ranges = matches
+    .filter((match) => match.field === field)
+    .sort((a, b) => a.start - b.start)
+    .map((match): [number, number] => [match.start, match.end]);
+  return clip(document.fields[field].text, ranges[0][0], ranges);
+}
+
+/** SNIPPET_LENGTH characters of `text` around `from`, cut at spaces, with `ranges` in bold */
+function clip(text: string, from: number, ranges: [number, number][]): string {
+  let start = Math.max(0, from - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start - 1);
+    if (space >= 0 && space < from) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > from) end = space;
+  }
+
+  let result = '';
+  let position = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    // Skip ranges outside the window or overlapping the one before
+    if (rangeStart < position || rangeEnd > end) continue;
+    result += `${text.slice(position, rangeStart)}**${text.slice(rangeStart, rangeEnd)}**`;
+    position = rangeEnd;
+  }
+  result += text.slice(position, end);
+  return `${start > 0 ? '…' : ''}${result.replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,106 @@
+// src/thrift/client.ts
+import axios from 'axios';
+import {
+  EDAMNotFoundException,
+  EDAMSystemException,
+  EDAMUserException,
+  ThriftApplicationException,
+} from './errors.js';
+import { BinaryReader, BinaryWriter, FieldType, MessageType, StructSchema, struct } from './protocol.js';
+import {
+  EDAMNotFoundExceptionSchema,
+  EDAMSystemExceptionSchema,
+  EDAMUserExceptionSchema,
+  TApplicationExceptionSchema,
+} from './types.js';
+
+export interface MethodSpec {
+  args: StructSchema;
+  /** Field 0 is the return value, the others are declared exceptions */
+  result: StructSchema;
+}
+
+type Fields = Record<number, [string, FieldType]>;
+
+/** Every EDAM call takes the authentication token as its first argument */
+export const AUTH: Fields = {
+  1: ['authenticationToken', 'string'],
+};
+
+export const USER_EXCEPTIONS: Fields = {
+  1: ['userException', { struct: EDAMUserExceptionSchema }],
+  2: ['systemException', { struct: EDAMSystemExceptionSchema }],
+};
+
+export const ALL_EXCEPTIONS: Fields = {
+  ...USER_EXCEPTIONS,
+  3: ['notFoundException', { struct: EDAMNotFoundExceptionSchema }],
+};
+
+export function method(name: string, args: Fields, returns: FieldType | null, exceptions: Fields): MethodSpec {
+  return {
+    args: struct(`${name}_args`, () => args),
+    result: struct(`${name}_result`, () => (returns ? { 0: ['success', returns], ...exceptions } : exceptions)),
+  };
+}
+
+export function toException(schema: StructSchema, fields: any): Error {
+  switch (schema.name) {
+    case 'EDAMUserException':
+      return new EDAMUserException(fields);
+    case 'EDAMSystemException':
+      return new EDAMSystemException(fields);
+    case 'EDAMNotFoundException':
+      return new EDAMNotFoundException(fields);
+    default:
+      return new ThriftApplicationException({ message: `${schema.name}: ${JSON.stringify(fields)}` });
+  }
+}
+
+/**
+ * Thrift-over-HTTP client: each call is one POST of a binary protocol
+ * message, answered by a single reply message.
+ */
+export class ThriftHttpClient {
+  private seqid = 0;
+
+  constructor(
+    readonly url: string,
+    private readonly methods: Record<string, MethodSpec>
+  ) {}
+
+  async call<T>(name: string, args: Record<string, unknown>): Promise<T> {
+    const spec = this.methods[name];
+    if (!spec) throw new Error(`Unknown Thrift method: ${name}`);
+
+    const seqid = ++this.seqid;
+    const writer = new BinaryWriter();
+    writer.messageBegin(name, MessageType.CALL, seqid);
+    writer.struct(spec.args, args);
+
+    const response = await axios.post(this.url, writer.toBuffer(), {
+      headers: {
+        'Content-Type': 'application/x-thrift',
+        Accept: 'application/x-thrift',
+      },
+      responseType: 'arraybuffer',
+    });
+
+    const reader = new BinaryReader(Buffer.from(response.data));
+    const header = reader.messageBegin();
+    if (header.type === MessageType.EXCEPTION) {
+      throw new ThriftApplicationException(reader.struct(TApplicationExceptionSchema));
+    }
+    if (header.name !== name || header.seqid !== seqid) {
+      throw new Error(`Thrift protocol error: unexpected reply ${header.name}#${header.seqid}`);
+    }
+
+    const result = reader.struct(spec.result);
+    for (const field of spec.result.fields) {
+      if (field.id !== 0 && result[field.name] !== undefined && typeof field.type === 'object' && 'struct' in field.type) {
+        throw toException(field.type.struct, result[field.name]);
+      }
+    }
+    return result.success as T;
+  }
+}
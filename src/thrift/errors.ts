@@ -0,0 +1,80 @@
+// src/thrift/errors.ts
+
+// EDAMErrorCode from Errors.thrift
+export const EDAM_ERROR_CODES: Record<number, string> = {
+  1: 'UNKNOWN',
+  2: 'BAD_DATA_FORMAT',
+  3: 'PERMISSION_DENIED',
+  4: 'INTERNAL_ERROR',
+  5: 'DATA_REQUIRED',
+  6: 'LIMIT_REACHED',
+  7: 'QUOTA_REACHED',
+  8: 'INVALID_AUTH',
+  9: 'AUTH_EXPIRED',
+  10: 'DATA_CONFLICT',
+  11: 'ENML_VALIDATION',
+  12: 'SHARD_UNAVAILABLE',
+  13: 'LEN_TOO_SHORT',
+  14: 'LEN_TOO_LONG',
+  15: 'TOO_FEW',
+  16: 'TOO_MANY',
+  17: 'UNSUPPORTED_OPERATION',
+  18: 'TAKEN_DOWN',
+  19: 'RATE_LIMIT_REACHED',
+  20: 'BUSINESS_SECURITY_LOGIN_REQUIRED',
+  21: 'DEVICE_LIMIT_REACHED',
+};
+
+function codeName(errorCode: number | undefined): string {
+  return (errorCode !== undefined && EDAM_ERROR_CODES[errorCode]) || `ERROR_${errorCode}`;
+}
+
+export class EDAMUserException extends Error {
+  readonly errorCode: number;
+  readonly parameter?: string;
+
+  constructor(fields: { errorCode: number; parameter?: string }) {
+    super(fields.parameter ? `${codeName(fields.errorCode)} (${fields.parameter})` : codeName(fields.errorCode));
+    this.name = 'EDAMUserException';
+    this.errorCode = fields.errorCode;
+    this.parameter = fields.parameter;
+  }
+}
+
+export class EDAMSystemException extends Error {
+  readonly errorCode: number;
+  readonly rateLimitDuration?: number;
+
+  constructor(fields: { errorCode: number; message?: string; rateLimitDuration?: number }) {
+    let message = codeName(fields.errorCode);
+    if (fields.message) message += `: ${fields.message}`;
+    if (fields.rateLimitDuration !== undefined) message += ` (retry in ${fields.rateLimitDuration}s)`;
+    super(message);
+    this.name = 'EDAMSystemException';
+    this.errorCode = fields.errorCode;
+    this.rateLimitDuration = fields.rateLimitDuration;
+  }
+}
+
+export class EDAMNotFoundException extends Error {
+  readonly identifier?: string;
+  readonly key?: string;
+
+  constructor(fields: { identifier?: string; key?: string }) {
+    super(`${fields.identifier ?? 'Object'} not found${fields.key ? `: ${fields.key}` : ''}`);
+    this.name = 'EDAMNotFoundException';
+    this.identifier = fields.identifier;
+    this.key = fields.key;
+  }
+}
+
+/** TApplicationException: the server failed to process the call itself */
+export class ThriftApplicationException extends Error {
+  readonly type: number;
+
+  constructor(fields: { message?: string; type?: number }) {
+    super(fields.message ?? 'Unknown Thrift application error');
+    this.name = 'ThriftApplicationException';
+    this.type = fields.type ?? 0;
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { ThriftFixture, startThriftServer } from '../__fixtures__/thriftServer.js';
+import { EDAMNotFoundException, EDAMUserException, ThriftApplicationException } from './errors.js';
+import { NOTE_STORE_METHODS, NoteStoreClient } from './noteStore.js';
+import { NoteSortOrder } from './types.js';
+import { USER_STORE_METHODS, UserStoreClient } from './userStore.js';
+
+describe('NoteStoreClient', () => {
+  let fixture: ThriftFixture;
+  let client: NoteStoreClient;
+
+  beforeAll(async () => {
+    fixture = await startThriftServer(NOTE_STORE_METHODS);
+    client = new NoteStoreClient(fixture.url, 'S=s1:U=1:token');
+  });
+
+  afterAll(async () => {
+    await fixture.close();
+  });
+
+  beforeEach(() => {
+    fixture.calls.length = 0;
+    for (const name of Object.keys(fixture.handlers)) delete fixture.handlers[name];
+  });
+
+  it('should send the authentication token and arguments', async () => {
+    fixture.handlers.findNotesMetadata = () => ({
+      startIndex: 0,
+      totalNotes: 1,
+      notes: [{ guid: 'n1', title: 'First', created: 1700000000000, notebookGuid: 'nb1' }],
+    });
+
+    const result = await client.findNotesMetadata(
+      { words: 'tag:work', order: NoteSortOrder.UPDATED },
+      5,
+      20,
+      { includeTitle: true }
+    );
+
+    expect(result).toEqual({
+      startIndex: 0,
+      totalNotes: 1,
+      notes: [{ guid: 'n1', title: 'First', created: 1700000000000, notebookGuid: 'nb1' }],
+    });
+    expect(fixture.calls).toEqual([
+      {
+        method: 'findNotesMetadata',
+        args: {
+          authenticationToken: 'S=s1:U=1:token',
+          filter: { words: 'tag:work', order: NoteSortOrder.UPDATED },
+          offset: 5,
+          maxNotes: 20,
+          resultSpec: { includeTitle: true },
+        },
+      },
+    ]);
+  });
+
+  it('should default getNote flags to false', async () => {
+    fixture.handlers.getNote = ({ guid }) => ({ guid, title: 'Note' });
+
+    await expect(client.getNote('n1', { withContent: true })).resolves.toEqual({ guid: 'n1', title: 'Note' });
+    expect(fixture.calls[0].args).toEqual({
+      authenticationToken: 'S=s1:U=1:token',
+      guid: 'n1',
+      withContent: true,
+      withResourcesData: false,
+      withResourcesRecognition: false,
+      withResourcesAlternateData: false,
+    });
+  });
+
+  it('should fetch resources with binary data', async () => {
+    fixture.handlers.getResource = ({ guid }) => ({ guid, mime: 'image/png', data: { body: Buffer.from([1, 2, 3]), size: 3 } });
+
+    const resource = await client.getResource('r1', { withData: true });
+    expect(resource.data).toEqual({ body: Buffer.from([1, 2, 3]), size: 3 });
+    expect(fixture.calls[0].args).toEqual({
+      authenticationToken: 'S=s1:U=1:token',
+      guid: 'r1',
+      withData: true,
+      withRecognition: false,
+      withAttributes: false,
+      withAlternateData: false,
+    });
+  });
+
+  it('should round-trip notes, notebooks and tags', async () => {
+    fixture.handlers.createNote = ({ note }) => ({ ...note, guid: 'new-note', updateSequenceNum: 12 });
+    fixture.handlers.listNotebooks = () => [{ guid: 'nb1', name: 'Inbox', defaultNotebook: true }];
+    fixture.handlers.listTags = () => [{ guid: 't1', name: 'work' }, { guid: 't2', name: 'urgent', parentGuid: 't1' }];
+
+    await expect(client.createNote({ title: 'T', content: '<en-note/>', tagNames: ['a'] })).resolves.toEqual({
+      guid: 'new-note',
+      title: 'T',
+      content: '<en-note/>',
+      tagNames: ['a'],
+      updateSequenceNum: 12,
+    });
+    await expect(client.listNotebooks()).resolves.toEqual([{ guid: 'nb1', name: 'Inbox', defaultNotebook: true }]);
+    await expect(client.listTags()).resolves.toEqual([
+      { guid: 't1', name: 'work' },
+      { guid: 't2', name: 'urgent', parentGuid: 't1' },
+    ]);
+  });
+
+  it('should read and change note attributes and application data', async () => {
+    const attributes = {
+      sourceURL: 'https://example.com/article',
+      latitude: 52.52,
+      subjectDate: 1715936400000,
+      applicationData: { keysOnly: ['com.example.sync'] },
+    };
+    fixture.handlers.getNote = ({ guid }) => ({ guid, attributes });
+    fixture.handlers.getNoteApplicationData = () => ({ fullMap: { 'com.example.sync': 'id-42' } });
+    fixture.handlers.setNoteApplicationDataEntry = () => 13;
+    fixture.handlers.unsetNoteApplicationDataEntry = () => 14;
+
+    await expect(client.getNote('n1')).resolves.toEqual({ guid: 'n1', attributes });
+    await expect(client.getNoteApplicationData('n1')).resolves.toEqual({ fullMap: { 'com.example.sync': 'id-42' } });
+    await expect(client.setNoteApplicationDataEntry('n1', 'com.example.sync', 'id-43')).resolves.toBe(13);
+    await expect(client.unsetNoteApplicationDataEntry('n1', 'com.example.sync')).resolves.toBe(14);
+    expect(fixture.calls.map((call) => call.args)).toContainEqual({
+      authenticationToken: 'S=s1:U=1:token',
+      guid: 'n1',
+      key: 'com.example.sync',
+      value: 'id-43',
+    });
+  });
+
+  it('should raise declared EDAM exceptions', async () => {
+    fixture.handlers.createNotebook = () => {
+      throw new EDAMUserException({ errorCode: 10, parameter: 'Notebook.name' });
+    };
+    fixture.handlers.getNote = () => {
+      throw new EDAMNotFoundException({ identifier: 'Note.guid', key: 'missing' });
+    };
+
+    const created = client.createNotebook({ name: 'Dup' });
+    await expect(created).rejects.toBeInstanceOf(EDAMUserException);
+    await expect(created).rejects.toThrow('DATA_CONFLICT (Notebook.name)');
+    await expect(client.getNote('missing')).rejects.toThrow('Note.guid not found: missing');
+  });
+
+  it('should raise application exceptions for failed calls', async () => {
+    const call = client.listTags();
+    await expect(call).rejects.toBeInstanceOf(ThriftApplicationException);
+    await expect(call).rejects.toThrow('Unknown method listTags');
+  });
+});
+
+describe('UserStoreClient', () => {
+  it('should look up the NoteStore URL', async () => {
+    const fixture = await startThriftServer(USER_STORE_METHODS, {
+      getNoteStoreUrl: () => 'https://www.evernote.com/shard/s1/notestore',
+    });
+    try {
+      const client = new UserStoreClient(fixture.url, 'token');
+      await expect(client.getNoteStoreUrl()).resolves.toBe('https://www.evernote.com/shard/s1/notestore');
+      expect(fixture.calls).toEqual([{ method: 'getNoteStoreUrl', args: { authenticationToken: 'token' } }]);
+    } finally {
+      await fixture.close();
+    }
+  });
+});
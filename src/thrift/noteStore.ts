@@ -0,0 +1,283 @@
+// src/thrift/noteStore.ts
+import { ALL_EXCEPTIONS, AUTH, MethodSpec, ThriftHttpClient, USER_EXCEPTIONS, method } from './client.js';
+import {
+  LazyMap,
+  LazyMapSchema,
+  Note,
+  NoteCollectionCounts,
+  NoteCollectionCountsSchema,
+  NoteFilter,
+  NoteFilterSchema,
+  NoteSchema,
+  Notebook,
+  NotebookSchema,
+  NotesMetadataList,
+  NotesMetadataListSchema,
+  NotesMetadataResultSpec,
+  NotesMetadataResultSpecSchema,
+  Resource,
+  ResourceSchema,
+  SyncChunk,
+  SyncChunkFilter,
+  SyncChunkFilterSchema,
+  SyncChunkSchema,
+  SyncState,
+  SyncStateSchema,
+  Tag,
+  TagSchema,
+} from './types.js';
+
+export const NOTE_STORE_METHODS: Record<string, MethodSpec> = {
+  getSyncState: method('getSyncState', { ...AUTH }, { struct: SyncStateSchema }, USER_EXCEPTIONS),
+  getFilteredSyncChunk: method(
+    'getFilteredSyncChunk',
+    {
+      ...AUTH,
+      2: ['afterUSN', 'i32'],
+      3: ['maxEntries', 'i32'],
+      4: ['filter', { struct: SyncChunkFilterSchema }],
+    },
+    { struct: SyncChunkSchema },
+    USER_EXCEPTIONS
+  ),
+  findNotesMetadata: method(
+    'findNotesMetadata',
+    {
+      ...AUTH,
+      2: ['filter', { struct: NoteFilterSchema }],
+      3: ['offset', 'i32'],
+      4: ['maxNotes', 'i32'],
+      5: ['resultSpec', { struct: NotesMetadataResultSpecSchema }],
+    },
+    { struct: NotesMetadataListSchema },
+    ALL_EXCEPTIONS
+  ),
+  getNote: method(
+    'getNote',
+    {
+      ...AUTH,
+      2: ['guid', 'string'],
+      3: ['withContent', 'bool'],
+      4: ['withResourcesData', 'bool'],
+      5: ['withResourcesRecognition', 'bool'],
+      6: ['withResourcesAlternateData', 'bool'],
+    },
+    { struct: NoteSchema },
+    ALL_EXCEPTIONS
+  ),
+  getNoteTagNames: method('getNoteTagNames', { ...AUTH, 2: ['guid', 'string'] }, { list: 'string' }, ALL_EXCEPTIONS),
+  createNote: method('createNote', { ...AUTH, 2: ['note', { struct: NoteSchema }] }, { struct: NoteSchema }, ALL_EXCEPTIONS),
+  updateNote: method('updateNote', { ...AUTH, 2: ['note', { struct: NoteSchema }] }, { struct: NoteSchema }, ALL_EXCEPTIONS),
+  getNoteApplicationData: method(
+    'getNoteApplicationData',
+    { ...AUTH, 2: ['guid', 'string'] },
+    { struct: LazyMapSchema },
+    ALL_EXCEPTIONS
+  ),
+  setNoteApplicationDataEntry: method(
+    'setNoteApplicationDataEntry',
+    { ...AUTH, 2: ['guid', 'string'], 3: ['key', 'string'], 4: ['value', 'string'] },
+    'i32',
+    ALL_EXCEPTIONS
+  ),
+  unsetNoteApplicationDataEntry: method(
+    'unsetNoteApplicationDataEntry',
+    { ...AUTH, 2: ['guid', 'string'], 3: ['key', 'string'] },
+    'i32',
+    ALL_EXCEPTIONS
+  ),
+  deleteNote: method('deleteNote', { ...AUTH, 2: ['guid', 'string'] }, 'i32', ALL_EXCEPTIONS),
+  expungeNote: method('expungeNote', { ...AUTH, 2: ['guid', 'string'] }, 'i32', ALL_EXCEPTIONS),
+  listNotebooks: method('listNotebooks', { ...AUTH }, { list: { struct: NotebookSchema } }, USER_EXCEPTIONS),
+  getNotebook: method('getNotebook', { ...AUTH, 2: ['guid', 'string'] }, { struct: NotebookSchema }, ALL_EXCEPTIONS),
+  createNotebook: method(
+    'createNotebook',
+    { ...AUTH, 2: ['notebook', { struct: NotebookSchema }] },
+    { struct: NotebookSchema },
+    USER_EXCEPTIONS
+  ),
+  updateNotebook: method(
+    'updateNotebook',
+    { ...AUTH, 2: ['notebook', { struct: NotebookSchema }] },
+    'i32',
+    ALL_EXCEPTIONS
+  ),
+  expungeNotebook: method('expungeNotebook', { ...AUTH, 2: ['guid', 'string'] }, 'i32', ALL_EXCEPTIONS),
+  findNoteCounts: method(
+    'findNoteCounts',
+    { ...AUTH, 2: ['filter', { struct: NoteFilterSchema }], 3: ['withTrash', 'bool'] },
+    { struct: NoteCollectionCountsSchema },
+    ALL_EXCEPTIONS
+  ),
+  listTags: method('listTags', { ...AUTH }, { list: { struct: TagSchema } }, USER_EXCEPTIONS),
+  getTag: method('getTag', { ...AUTH, 2: ['guid', 'string'] }, { struct: TagSchema }, ALL_EXCEPTIONS),
+  createTag: method('createTag', { ...AUTH, 2: ['tag', { struct: TagSchema }] }, { struct: TagSchema }, ALL_EXCEPTIONS),
+  updateTag: method('updateTag', { ...AUTH, 2: ['tag', { struct: TagSchema }] }, 'i32', ALL_EXCEPTIONS),
+  expungeTag: method('expungeTag', { ...AUTH, 2: ['guid', 'string'] }, 'i32', ALL_EXCEPTIONS),
+  getResource: method(
+    'getResource',
+    {
+      ...AUTH,
+      2: ['guid', 'string'],
+      3: ['withData', 'bool'],
+      4: ['withRecognition', 'bool'],
+      5: ['withAttributes', 'bool'],
+      6: ['withAlternateData', 'bool'],
+    },
+    { struct: ResourceSchema },
+    ALL_EXCEPTIONS
+  ),
+};
+
+export interface GetNoteOptions {
+  withContent?: boolean;
+  withResourcesData?: boolean;
+  withResourcesRecognition?: boolean;
+  withResourcesAlternateData?: boolean;
+}
+
+export interface GetResourceOptions {
+  withData?: boolean;
+  withRecognition?: boolean;
+  withAttributes?: boolean;
+  withAlternateData?: boolean;
+}
+
+/** Typed client for the NoteStore service at a user's noteStoreUrl */
+export class NoteStoreClient {
+  private readonly client: ThriftHttpClient;
+
+  constructor(
+    readonly url: string,
+    private readonly authenticationToken: string
+  ) {
+    this.client = new ThriftHttpClient(url, NOTE_STORE_METHODS);
+  }
+
+  private call<T>(name: string, args: Record<string, unknown> = {}): Promise<T> {
+    return this.client.call<T>(name, { authenticationToken: this.authenticationToken, ...args });
+  }
+
+  getSyncState(): Promise<SyncState> {
+    return this.call('getSyncState');
+  }
+
+  /** Changes after `afterUSN`, at most `maxEntries` of them */
+  getFilteredSyncChunk(afterUSN: number, maxEntries: number, filter: SyncChunkFilter): Promise<SyncChunk> {
+    return this.call('getFilteredSyncChunk', { afterUSN, maxEntries, filter });
+  }
+
+  findNotesMetadata(
+    filter: NoteFilter,
+    offset: number,
+    maxNotes: number,
+    resultSpec: NotesMetadataResultSpec
+  ): Promise<NotesMetadataList> {
+    return this.call('findNotesMetadata', { filter, offset, maxNotes, resultSpec });
+  }
+
+  getNote(guid: string, options: GetNoteOptions = {}): Promise<Note> {
+    return this.call('getNote', {
+      guid,
+      withContent: options.withContent ?? false,
+      withResourcesData: options.withResourcesData ?? false,
+      withResourcesRecognition: options.withResourcesRecognition ?? false,
+      withResourcesAlternateData: options.withResourcesAlternateData ?? false,
+    });
+  }
+
+  getNoteTagNames(guid: string): Promise<string[]> {
+    return this.call('getNoteTagNames', { guid });
+  }
+
+  createNote(note: Note): Promise<Note> {
+    return this.call('createNote', { note });
+  }
+
+  updateNote(note: Note): Promise<Note> {
+    return this.call('updateNote', { note });
+  }
+
+  /** The note's application data with values; getNote only returns the keys */
+  getNoteApplicationData(guid: string): Promise<LazyMap> {
+    return this.call('getNoteApplicationData', { guid });
+  }
+
+  /** Returns the note's new update sequence number */
+  setNoteApplicationDataEntry(guid: string, key: string, value: string): Promise<number> {
+    return this.call('setNoteApplicationDataEntry', { guid, key, value });
+  }
+
+  /** Returns the note's new update sequence number */
+  unsetNoteApplicationDataEntry(guid: string, key: string): Promise<number> {
+    return this.call('unsetNoteApplicationDataEntry', { guid, key });
+  }
+
+  /** Move a note to the trash; returns the account's new update sequence number */
+  deleteNote(guid: string): Promise<number> {
+    return this.call('deleteNote', { guid });
+  }
+
+  /** Permanently remove a note; returns the account's new update sequence number */
+  expungeNote(guid: string): Promise<number> {
+    return this.call('expungeNote', { guid });
+  }
+
+  listNotebooks(): Promise<Notebook[]> {
+    return this.call('listNotebooks');
+  }
+
+  getNotebook(guid: string): Promise<Notebook> {
+    return this.call('getNotebook', { guid });
+  }
+
+  createNotebook(notebook: Notebook): Promise<Notebook> {
+    return this.call('createNotebook', { notebook });
+  }
+
+  /** Returns the account's new update sequence number */
+  updateNotebook(notebook: Notebook): Promise<number> {
+    return this.call('updateNotebook', { notebook });
+  }
+
+  /** Returns the account's new update sequence number */
+  expungeNotebook(guid: string): Promise<number> {
+    return this.call('expungeNotebook', { guid });
+  }
+
+  findNoteCounts(filter: NoteFilter, withTrash: boolean): Promise<NoteCollectionCounts> {
+    return this.call('findNoteCounts', { filter, withTrash });
+  }
+
+  listTags(): Promise<Tag[]> {
+    return this.call('listTags');
+  }
+
+  getTag(guid: string): Promise<Tag> {
+    return this.call('getTag', { guid });
+  }
+
+  createTag(tag: Tag): Promise<Tag> {
+    return this.call('createTag', { tag });
+  }
+
+  /** Returns the account's new update sequence number */
+  updateTag(tag: Tag): Promise<number> {
+    return this.call('updateTag', { tag });
+  }
+
+  /** Removes the tag from every note; returns the account's new update sequence number */
+  expungeTag(guid: string): Promise<number> {
+    return this.call('expungeTag', { guid });
+  }
+
+  getResource(guid: string, options: GetResourceOptions = {}): Promise<Resource> {
+    return this.call('getResource', {
+      guid,
+      withData: options.withData ?? false,
+      withRecognition: options.withRecognition ?? false,
+      withAttributes: options.withAttributes ?? false,
+      withAlternateData: options.withAlternateData ?? false,
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { BinaryReader, BinaryWriter, MessageType, struct } from './protocol.js';
+import { NoteSchema, UserSchema } from './types.js';
+
+describe('Thrift binary protocol', () => {
+  it('should encode fields in the binary wire format', () => {
+    const schema = struct('Sample', () => ({ 1: ['id', 'i32'], 2: ['name', 'string'] }));
+    const writer = new BinaryWriter();
+    writer.struct(schema, { id: 7, name: 'ab' });
+
+    expect(writer.toBuffer()).toEqual(Buffer.from([
+      8, 0, 1, 0, 0, 0, 7, // i32 field 1
+      11, 0, 2, 0, 0, 0, 2, 0x61, 0x62, // string field 2
+      0, // stop
+    ]));
+  });
+
+  it('should round-trip nested structs, lists, maps and binary', () => {
+    const note = {
+      guid: 'note-1',
+      title: 'Título',
+      created: 1700000000123,
+      active: true,
+      contentHash: Buffer.from([1, 2, 3]),
+      tagGuids: ['t1', 't2'],
+      resources: [{ guid: 'r1', mime: 'image/png', width: 10, data: { size: 3, body: Buffer.from('abc') } }],
+      attributes: {
+        latitude: 52.5,
+        applicationData: { fullMap: { owner: 'mcp' } },
+        classifications: { a: 'b' },
+      },
+    };
+    const writer = new BinaryWriter();
+    writer.struct(NoteSchema, note);
+
+    expect(new BinaryReader(writer.toBuffer()).struct(NoteSchema)).toEqual(note);
+  });
+
+  it('should skip fields missing from the schema', () => {
+    const wide = struct('Wide', () => ({
+      1: ['guid', 'string'],
+      2: ['extra', { map: ['string', { list: 'i64' }] }],
+      3: ['nested', { struct: NoteSchema }],
+      4: ['title', 'string'],
+    }));
+    const narrow = struct('Narrow', () => ({ 1: ['guid', 'string'], 4: ['title', 'string'] }));
+    const writer = new BinaryWriter();
+    writer.struct(wide, { guid: 'g', extra: { a: [1, 2] }, nested: { title: 'x' }, title: 't' });
+
+    expect(new BinaryReader(writer.toBuffer()).struct(narrow)).toEqual({ guid: 'g', title: 't' });
+  });
+
+  it('should read a User as the service encodes it', () => {
+    const user = Buffer.from([
+      8, 0, 1, 0, 0, 0, 42, // i32 field 1: id
+      11, 0, 14, 0, 0, 0, 2, 0x73, 0x31, // string field 14: shardId
+      12, 0, 15, 11, 0, 1, 0, 0, 0, 1, 0x78, 0, // struct field 15: attributes, not read
+      8, 0, 21, 0, 0, 0, 3, // i32 field 21: serviceLevel
+      0, // stop
+    ]);
+
+    expect(new BinaryReader(user).struct(UserSchema)).toEqual({ id: 42, shardId: 's1', serviceLevel: 3 });
+  });
+
+  it('should round-trip message headers', () => {
+    const writer = new BinaryWriter();
+    writer.messageBegin('getNote', MessageType.CALL, 42);
+
+    expect(new BinaryReader(writer.toBuffer()).messageBegin()).toEqual({
+      name: 'getNote',
+      type: MessageType.CALL,
+      seqid: 42,
+    });
+  });
+
+  it('should fail on truncated data', () => {
+    expect(() => new BinaryReader(Buffer.from([11, 0, 1, 0, 0])).struct(NoteSchema)).toThrow(
+      'Thrift protocol error: unexpected end of data'
+    );
+  });
+});
@@ -0,0 +1,352 @@
+// src/thrift/protocol.ts
+// Thrift binary protocol, driven by struct schemas instead of generated code.
+
+export enum TType {
+  STOP = 0,
+  BOOL = 2,
+  BYTE = 3,
+  DOUBLE = 4,
+  I16 = 6,
+  I32 = 8,
+  I64 = 10,
+  STRING = 11,
+  STRUCT = 12,
+  MAP = 13,
+  SET = 14,
+  LIST = 15,
+}
+
+export enum MessageType {
+  CALL = 1,
+  REPLY = 2,
+  EXCEPTION = 3,
+  ONEWAY = 4,
+}
+
+export type FieldType =
+  | 'bool'
+  | 'byte'
+  | 'i16'
+  | 'i32'
+  | 'i64'
+  | 'double'
+  | 'string'
+  | 'binary'
+  | { struct: StructSchema }
+  | { list: FieldType }
+  | { set: FieldType }
+  | { map: [FieldType, FieldType] };
+
+export interface FieldSpec {
+  id: number;
+  name: string;
+  type: FieldType;
+}
+
+export interface StructSchema {
+  name: string;
+  fields: FieldSpec[];
+}
+
+/**
+ * Declare a struct as `{ id: [name, type] }`. Fields are resolved lazily so
+ * schemas can refer to structs declared further down the file.
+ */
+export function struct(name: string, fields: () => Record<number, [string, FieldType]>): StructSchema {
+  let resolved: FieldSpec[] | undefined;
+  return {
+    name,
+    get fields() {
+      resolved ??= Object.entries(fields()).map(([id, [field, type]]) => ({ id: Number(id), name: field, type }));
+      return resolved;
+    },
+  };
+}
+
+const VERSION_1 = 0x80010000;
+
+function ttypeOf(type: FieldType): TType {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool':
+        return TType.BOOL;
+      case 'byte':
+        return TType.BYTE;
+      case 'i16':
+        return TType.I16;
+      case 'i32':
+        return TType.I32;
+      case 'i64':
+        return TType.I64;
+      case 'double':
+        return TType.DOUBLE;
+      case 'string':
+      case 'binary':
+        return TType.STRING;
+    }
+  }
+  if ('struct' in type) return TType.STRUCT;
+  if ('list' in type) return TType.LIST;
+  if ('set' in type) return TType.SET;
+  return TType.MAP;
+}
+
+export class BinaryWriter {
+  private chunks: Buffer[] = [];
+
+  private push(size: number, write: (buffer: Buffer) => void) {
+    const buffer = Buffer.alloc(size);
+    write(buffer);
+    this.chunks.push(buffer);
+  }
+
+  byte(value: number) {
+    this.push(1, (buffer) => buffer.writeInt8(value));
+  }
+
+  i16(value: number) {
+    this.push(2, (buffer) => buffer.writeInt16BE(value));
+  }
+
+  i32(value: number) {
+    this.push(4, (buffer) => buffer.writeInt32BE(value));
+  }
+
+  i64(value: number) {
+    this.push(8, (buffer) => buffer.writeBigInt64BE(BigInt(Math.trunc(value))));
+  }
+
+  double(value: number) {
+    this.push(8, (buffer) => buffer.writeDoubleBE(value));
+  }
+
+  binary(value: Buffer) {
+    this.i32(value.length);
+    this.chunks.push(value);
+  }
+
+  string(value: string) {
+    this.binary(Buffer.from(value, 'utf8'));
+  }
+
+  messageBegin(name: string, type: MessageType, seqid: number) {
+    this.push(4, (buffer) => buffer.writeUInt32BE((VERSION_1 | type) >>> 0));
+    this.string(name);
+    this.i32(seqid);
+  }
+
+  value(type: FieldType, value: any) {
+    if (typeof type === 'string') {
+      switch (type) {
+        case 'bool':
+          return this.byte(value ? 1 : 0);
+        case 'byte':
+          return this.byte(value);
+        case 'i16':
+          return this.i16(value);
+        case 'i32':
+          return this.i32(value);
+        case 'i64':
+          return this.i64(value);
+        case 'double':
+          return this.double(value);
+        case 'string':
+          return this.string(value);
+        case 'binary':
+          return this.binary(Buffer.isBuffer(value) ? value : Buffer.from(value));
+      }
+    }
+    if ('struct' in type) return this.struct(type.struct, value);
+    if ('list' in type || 'set' in type) {
+      const element = 'list' in type ? type.list : type.set;
+      const items = Array.from(value as Iterable<unknown>);
+      this.byte(ttypeOf(element));
+      this.i32(items.length);
+      for (const item of items) this.value(element, item);
+      return;
+    }
+    const [keyType, valueType] = type.map;
+    const entries = Object.entries(value as Record<string, unknown>);
+    this.byte(ttypeOf(keyType));
+    this.byte(ttypeOf(valueType));
+    this.i32(entries.length);
+    for (const [key, item] of entries) {
+      this.value(keyType, typeof keyType === 'string' && keyType !== 'string' && keyType !== 'binary' ? Number(key) : key);
+      this.value(valueType, item);
+    }
+  }
+
+  struct(schema: StructSchema, value: Record<string, any>) {
+    for (const field of schema.fields) {
+      const fieldValue = value[field.name];
+      if (fieldValue === undefined || fieldValue === null) continue;
+      this.byte(ttypeOf(field.type));
+      this.i16(field.id);
+      this.value(field.type, fieldValue);
+    }
+    this.byte(TType.STOP);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+export class BinaryReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  private take(size: number): number {
+    if (this.offset + size > this.buffer.length) {
+      throw new Error('Thrift protocol error: unexpected end of data');
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+
+  byte(): number {
+    return this.buffer.readInt8(this.take(1));
+  }
+
+  i16(): number {
+    return this.buffer.readInt16BE(this.take(2));
+  }
+
+  i32(): number {
+    return this.buffer.readInt32BE(this.take(4));
+  }
+
+  i64(): number {
+    return Number(this.buffer.readBigInt64BE(this.take(8)));
+  }
+
+  double(): number {
+    return this.buffer.readDoubleBE(this.take(8));
+  }
+
+  binary(): Buffer {
+    const length = this.i32();
+    const start = this.take(length);
+    return Buffer.from(this.buffer.subarray(start, start + length));
+  }
+
+  string(): string {
+    return this.binary().toString('utf8');
+  }
+
+  messageBegin(): { name: string; type: MessageType; seqid: number } {
+    const version = this.i32();
+    if ((version & 0xffff0000) !== (VERSION_1 | 0)) {
+      throw new Error(`Thrift protocol error: bad message version ${version}`);
+    }
+    return { type: version & 0xff, name: this.string(), seqid: this.i32() };
+  }
+
+  value(type: FieldType): any {
+    if (typeof type === 'string') {
+      switch (type) {
+        case 'bool':
+          return this.byte() !== 0;
+        case 'byte':
+          return this.byte();
+        case 'i16':
+          return this.i16();
+        case 'i32':
+          return this.i32();
+        case 'i64':
+          return this.i64();
+        case 'double':
+          return this.double();
+        case 'string':
+          return this.string();
+        case 'binary':
+          return this.binary();
+      }
+    }
+    if ('struct' in type) return this.struct(type.struct);
+    if ('list' in type || 'set' in type) {
+      const element = 'list' in type ? type.list : type.set;
+      this.byte();
+      const size = this.i32();
+      const items: unknown[] = [];
+      for (let i = 0; i < size; i++) items.push(this.value(element));
+      return items;
+    }
+    const [keyType, valueType] = type.map;
+    this.byte();
+    this.byte();
+    const size = this.i32();
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < size; i++) {
+      const key = this.value(keyType);
+      result[String(key)] = this.value(valueType);
+    }
+    return result;
+  }
+
+  struct(schema: StructSchema): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (;;) {
+      const ttype = this.byte();
+      if (ttype === TType.STOP) return result;
+      const id = this.i16();
+      const field = schema.fields.find((candidate) => candidate.id === id);
+      if (field && ttypeOf(field.type) === ttype) {
+        result[field.name] = this.value(field.type);
+      } else {
+        this.skip(ttype);
+      }
+    }
+  }
+
+  /** Skip a value of a type the schema doesn't model (newer service fields) */
+  skip(ttype: number): void {
+    switch (ttype) {
+      case TType.BOOL:
+      case TType.BYTE:
+        this.take(1);
+        return;
+      case TType.I16:
+        this.take(2);
+        return;
+      case TType.I32:
+        this.take(4);
+        return;
+      case TType.I64:
+      case TType.DOUBLE:
+        this.take(8);
+        return;
+      case TType.STRING:
+        this.take(this.i32());
+        return;
+      case TType.STRUCT:
+        for (;;) {
+          const fieldType = this.byte();
+          if (fieldType === TType.STOP) return;
+          this.i16();
+          this.skip(fieldType);
+        }
+      case TType.MAP: {
+        const keyType = this.byte();
+        const valueType = this.byte();
+        const size = this.i32();
+        for (let i = 0; i < size; i++) {
+          this.skip(keyType);
+          this.skip(valueType);
+        }
+        return;
+      }
+      case TType.SET:
+      case TType.LIST: {
+        const elementType = this.byte();
+        const size = this.i32();
+        for (let i = 0; i < size; i++) this.skip(elementType);
+        return;
+      }
+      default:
+        throw new Error(`Thrift protocol error: unknown type ${ttype}`);
+    }
+  }
+}
@@ -0,0 +1,445 @@
+// src/thrift/types.ts
+// EDAM structures from Types.thrift, NoteStore.thrift and Errors.thrift.
+// Only the fields this server uses are modeled; the reader skips the rest.
+import { StructSchema, struct } from './protocol.js';
+
+export interface Data {
+  bodyHash?: Buffer;
+  size?: number;
+  body?: Buffer;
+}
+
+export interface LazyMap {
+  keysOnly?: string[];
+  fullMap?: Record<string, string>;
+}
+
+export interface ResourceAttributes {
+  sourceURL?: string;
+  timestamp?: number;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  clientWillIndex?: boolean;
+  recoType?: string;
+  fileName?: string;
+  attachment?: boolean;
+  applicationData?: LazyMap;
+}
+
+export interface Resource {
+  guid?: string;
+  noteGuid?: string;
+  data?: Data;
+  mime?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  active?: boolean;
+  recognition?: Data;
+  attributes?: ResourceAttributes;
+  updateSequenceNum?: number;
+  alternateData?: Data;
+}
+
+export interface NoteAttributes {
+  subjectDate?: number;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  author?: string;
+  source?: string;
+  sourceURL?: string;
+  sourceApplication?: string;
+  shareDate?: number;
+  reminderOrder?: number;
+  reminderDoneTime?: number;
+  reminderTime?: number;
+  placeName?: string;
+  contentClass?: string;
+  applicationData?: LazyMap;
+  lastEditedBy?: string;
+  classifications?: Record<string, string>;
+  creatorId?: number;
+  lastEditorId?: number;
+}
+
+export interface Note {
+  guid?: string;
+  title?: string;
+  content?: string;
+  contentHash?: Buffer;
+  contentLength?: number;
+  created?: number;
+  updated?: number;
+  deleted?: number;
+  active?: boolean;
+  updateSequenceNum?: number;
+  notebookGuid?: string;
+  tagGuids?: string[];
+  resources?: Resource[];
+  attributes?: NoteAttributes;
+  tagNames?: string[];
+}
+
+export interface Notebook {
+  guid?: string;
+  name?: string;
+  updateSequenceNum?: number;
+  defaultNotebook?: boolean;
+  serviceCreated?: number;
+  serviceUpdated?: number;
+  published?: boolean;
+  stack?: string;
+}
+
+export interface Tag {
+  guid?: string;
+  name?: string;
+  parentGuid?: string;
+  updateSequenceNum?: number;
+}
+
+// ServiceLevel
+export enum ServiceLevel {
+  BASIC = 1,
+  PLUS = 2,
+  PREMIUM = 3,
+  BUSINESS = 4,
+}
+
+export interface User {
+  id?: number;
+  username?: string;
+  email?: string;
+  name?: string;
+  timezone?: string;
+  created?: number;
+  updated?: number;
+  active?: boolean;
+  shardId?: string;
+  serviceLevel?: ServiceLevel;
+}
+
+// NoteSortOrder
+export enum NoteSortOrder {
+  CREATED = 1,
+  UPDATED = 2,
+  RELEVANCE = 3,
+  UPDATE_SEQUENCE_NUMBER = 4,
+  TITLE = 5,
+}
+
+export interface NoteFilter {
+  order?: NoteSortOrder;
+  ascending?: boolean;
+  words?: string;
+  notebookGuid?: string;
+  tagGuids?: string[];
+  timeZone?: string;
+  inactive?: boolean;
+  emphasized?: string;
+}
+
+export interface NotesMetadataResultSpec {
+  includeTitle?: boolean;
+  includeContentLength?: boolean;
+  includeCreated?: boolean;
+  includeUpdated?: boolean;
+  includeDeleted?: boolean;
+  includeUpdateSequenceNum?: boolean;
+  includeNotebookGuid?: boolean;
+  includeTagGuids?: boolean;
+  includeAttributes?: boolean;
+  includeLargestResourceMime?: boolean;
+  includeLargestResourceSize?: boolean;
+}
+
+export interface NoteMetadata {
+  guid: string;
+  title?: string;
+  contentLength?: number;
+  created?: number;
+  updated?: number;
+  deleted?: number;
+  updateSequenceNum?: number;
+  notebookGuid?: string;
+  tagGuids?: string[];
+  attributes?: NoteAttributes;
+  largestResourceMime?: string;
+  largestResourceSize?: number;
+}
+
+export interface SyncState {
+  currentTime: number;
+  /** Clients that last synced before this time have to sync from scratch */
+  fullSyncBefore: number;
+  /** The account's highest update sequence number */
+  updateCount: number;
+  uploaded?: number;
+}
+
+export interface SyncChunkFilter {
+  includeNotes?: boolean;
+  includeNoteResources?: boolean;
+  includeNoteAttributes?: boolean;
+  includeNotebooks?: boolean;
+  includeTags?: boolean;
+  includeSearches?: boolean;
+  includeResources?: boolean;
+  includeLinkedNotebooks?: boolean;
+  includeExpunged?: boolean;
+}
+
+/** Everything that changed after a given update sequence number, up to chunkHighUSN */
+export interface SyncChunk {
+  currentTime: number;
+  /** Unset when nothing changed */
+  chunkHighUSN?: number;
+  updateCount: number;
+  /** Without content; resources without data */
+  notes?: Note[];
+  notebooks?: Notebook[];
+  tags?: Tag[];
+  resources?: Resource[];
+  expungedNotes?: string[];
+  expungedNotebooks?: string[];
+  expungedTags?: string[];
+}
+
+export interface NoteCollectionCounts {
+  notebookCounts?: Record<string, number>;
+  tagCounts?: Record<string, number>;
+  trashCount?: number;
+}
+
+export interface NotesMetadataList {
+  startIndex: number;
+  totalNotes: number;
+  notes: NoteMetadata[];
+  stoppedWords?: string[];
+  searchedWords?: string[];
+  updateCount?: number;
+}
+
+export const DataSchema: StructSchema = struct('Data', () => ({
+  1: ['bodyHash', 'binary'],
+  2: ['size', 'i32'],
+  3: ['body', 'binary'],
+}));
+
+export const LazyMapSchema: StructSchema = struct('LazyMap', () => ({
+  1: ['keysOnly', { set: 'string' }],
+  2: ['fullMap', { map: ['string', 'string'] }],
+}));
+
+export const ResourceAttributesSchema: StructSchema = struct('ResourceAttributes', () => ({
+  1: ['sourceURL', 'string'],
+  2: ['timestamp', 'i64'],
+  3: ['latitude', 'double'],
+  4: ['longitude', 'double'],
+  5: ['altitude', 'double'],
+  6: ['cameraMake', 'string'],
+  7: ['cameraModel', 'string'],
+  8: ['clientWillIndex', 'bool'],
+  9: ['recoType', 'string'],
+  10: ['fileName', 'string'],
+  11: ['attachment', 'bool'],
+  12: ['applicationData', { struct: LazyMapSchema }],
+}));
+
+export const ResourceSchema: StructSchema = struct('Resource', () => ({
+  1: ['guid', 'string'],
+  2: ['noteGuid', 'string'],
+  3: ['data', { struct: DataSchema }],
+  4: ['mime', 'string'],
+  5: ['width', 'i16'],
+  6: ['height', 'i16'],
+  7: ['duration', 'i16'],
+  8: ['active', 'bool'],
+  9: ['recognition', { struct: DataSchema }],
+  11: ['attributes', { struct: ResourceAttributesSchema }],
+  12: ['updateSequenceNum', 'i32'],
+  13: ['alternateData', { struct: DataSchema }],
+}));
+
+export const NoteAttributesSchema: StructSchema = struct('NoteAttributes', () => ({
+  1: ['subjectDate', 'i64'],
+  10: ['latitude', 'double'],
+  11: ['longitude', 'double'],
+  12: ['altitude', 'double'],
+  13: ['author', 'string'],
+  14: ['source', 'string'],
+  15: ['sourceURL', 'string'],
+  16: ['sourceApplication', 'string'],
+  17: ['shareDate', 'i64'],
+  18: ['reminderOrder', 'i64'],
+  19: ['reminderDoneTime', 'i64'],
+  20: ['reminderTime', 'i64'],
+  21: ['placeName', 'string'],
+  22: ['contentClass', 'string'],
+  23: ['applicationData', { struct: LazyMapSchema }],
+  24: ['lastEditedBy', 'string'],
+  26: ['classifications', { map: ['string', 'string'] }],
+  27: ['creatorId', 'i32'],
+  28: ['lastEditorId', 'i32'],
+}));
+
+export const NoteSchema: StructSchema = struct('Note', () => ({
+  1: ['guid', 'string'],
+  2: ['title', 'string'],
+  3: ['content', 'string'],
+  4: ['contentHash', 'binary'],
+  5: ['contentLength', 'i32'],
+  6: ['created', 'i64'],
+  7: ['updated', 'i64'],
+  8: ['deleted', 'i64'],
+  9: ['active', 'bool'],
+  10: ['updateSequenceNum', 'i32'],
+  11: ['notebookGuid', 'string'],
+  12: ['tagGuids', { list: 'string' }],
+  13: ['resources', { list: { struct: ResourceSchema } }],
+  14: ['attributes', { struct: NoteAttributesSchema }],
+  15: ['tagNames', { list: 'string' }],
+}));
+
+export const NotebookSchema: StructSchema = struct('Notebook', () => ({
+  1: ['guid', 'string'],
+  2: ['name', 'string'],
+  5: ['updateSequenceNum', 'i32'],
+  6: ['defaultNotebook', 'bool'],
+  7: ['serviceCreated', 'i64'],
+  8: ['serviceUpdated', 'i64'],
+  11: ['published', 'bool'],
+  12: ['stack', 'string'],
+}));
+
+export const TagSchema: StructSchema = struct('Tag', () => ({
+  1: ['guid', 'string'],
+  2: ['name', 'string'],
+  3: ['parentGuid', 'string'],
+  4: ['updateSequenceNum', 'i32'],
+}));
+
+export const UserSchema: StructSchema = struct('User', () => ({
+  1: ['id', 'i32'],
+  2: ['username', 'string'],
+  3: ['email', 'string'],
+  4: ['name', 'string'],
+  6: ['timezone', 'string'],
+  9: ['created', 'i64'],
+  10: ['updated', 'i64'],
+  13: ['active', 'bool'],
+  14: ['shardId', 'string'],
+  21: ['serviceLevel', 'i32'],
+}));
+
+export const NoteFilterSchema: StructSchema = struct('NoteFilter', () => ({
+  1: ['order', 'i32'],
+  2: ['ascending', 'bool'],
+  3: ['words', 'string'],
+  4: ['notebookGuid', 'string'],
+  5: ['tagGuids', { list: 'string' }],
+  6: ['timeZone', 'string'],
+  7: ['inactive', 'bool'],
+  8: ['emphasized', 'string'],
+}));
+
+export const NotesMetadataResultSpecSchema: StructSchema = struct('NotesMetadataResultSpec', () => ({
+  2: ['includeTitle', 'bool'],
+  5: ['includeContentLength', 'bool'],
+  6: ['includeCreated', 'bool'],
+  7: ['includeUpdated', 'bool'],
+  8: ['includeDeleted', 'bool'],
+  10: ['includeUpdateSequenceNum', 'bool'],
+  11: ['includeNotebookGuid', 'bool'],
+  12: ['includeTagGuids', 'bool'],
+  14: ['includeAttributes', 'bool'],
+  20: ['includeLargestResourceMime', 'bool'],
+  21: ['includeLargestResourceSize', 'bool'],
+}));
+
+export const NoteMetadataSchema: StructSchema = struct('NoteMetadata', () => ({
+  1: ['guid', 'string'],
+  2: ['title', 'string'],
+  5: ['contentLength', 'i32'],
+  6: ['created', 'i64'],
+  7: ['updated', 'i64'],
+  8: ['deleted', 'i64'],
+  10: ['updateSequenceNum', 'i32'],
+  11: ['notebookGuid', 'string'],
+  12: ['tagGuids', { list: 'string' }],
+  14: ['attributes', { struct: NoteAttributesSchema }],
+  20: ['largestResourceMime', 'string'],
+  21: ['largestResourceSize', 'i32'],
+}));
+
+export const NotesMetadataListSchema: StructSchema = struct('NotesMetadataList', () => ({
+  1: ['startIndex', 'i32'],
+  2: ['totalNotes', 'i32'],
+  3: ['notes', { list: { struct: NoteMetadataSchema } }],
+  4: ['stoppedWords', { list: 'string' }],
+  5: ['searchedWords', { list: 'string' }],
+  6: ['updateCount', 'i32'],
+}));
+
+export const NoteCollectionCountsSchema: StructSchema = struct('NoteCollectionCounts', () => ({
+  1: ['notebookCounts', { map: ['string', 'i32'] }],
+  2: ['tagCounts', { map: ['string', 'i32'] }],
+  3: ['trashCount', 'i32'],
+}));
+
+export const SyncStateSchema: StructSchema = struct('SyncState', () => ({
+  1: ['currentTime', 'i64'],
+  2: ['fullSyncBefore', 'i64'],
+  3: ['updateCount', 'i32'],
+  4: ['uploaded', 'i64'],
+}));
+
+export const SyncChunkFilterSchema: StructSchema = struct('SyncChunkFilter', () => ({
+  1: ['includeNotes', 'bool'],
+  2: ['includeNoteResources', 'bool'],
+  3: ['includeNoteAttributes', 'bool'],
+  4: ['includeNotebooks', 'bool'],
+  5: ['includeTags', 'bool'],
+  6: ['includeSearches', 'bool'],
+  7: ['includeResources', 'bool'],
+  8: ['includeLinkedNotebooks', 'bool'],
+  9: ['includeExpunged', 'bool'],
+}));
+
+export const SyncChunkSchema: StructSchema = struct('SyncChunk', () => ({
+  1: ['currentTime', 'i64'],
+  2: ['chunkHighUSN', 'i32'],
+  3: ['updateCount', 'i32'],
+  4: ['notes', { list: { struct: NoteSchema } }],
+  5: ['notebooks', { list: { struct: NotebookSchema } }],
+  6: ['tags', { list: { struct: TagSchema } }],
+  8: ['resources', { list: { struct: ResourceSchema } }],
+  9: ['expungedNotes', { list: 'string' }],
+  10: ['expungedNotebooks', { list: 'string' }],
+  11: ['expungedTags', { list: 'string' }],
+}));
+
+export const EDAMUserExceptionSchema: StructSchema = struct('EDAMUserException', () => ({
+  1: ['errorCode', 'i32'],
+  2: ['parameter', 'string'],
+}));
+
+export const EDAMSystemExceptionSchema: StructSchema = struct('EDAMSystemException', () => ({
+  1: ['errorCode', 'i32'],
+  2: ['message', 'string'],
+  3: ['rateLimitDuration', 'i32'],
+}));
+
+export const EDAMNotFoundExceptionSchema: StructSchema = struct('EDAMNotFoundException', () => ({
+  1: ['identifier', 'string'],
+  2: ['key', 'string'],
+}));
+
+export const TApplicationExceptionSchema: StructSchema = struct('TApplicationException', () => ({
+  1: ['message', 'string'],
+  2: ['type', 'i32'],
+}));
@@ -0,0 +1,28 @@
+// src/thrift/userStore.ts
+import { AUTH, MethodSpec, ThriftHttpClient, USER_EXCEPTIONS, method } from './client.js';
+import { User, UserSchema } from './types.js';
+
+export const USER_STORE_METHODS: Record<string, MethodSpec> = {
+  getNoteStoreUrl: method('getNoteStoreUrl', { ...AUTH }, 'string', USER_EXCEPTIONS),
+  getUser: method('getUser', { ...AUTH }, { struct: UserSchema }, USER_EXCEPTIONS),
+};
+
+/** Typed client for the UserStore service at `<service>/edam/user` */
+export class UserStoreClient {
+  private readonly client: ThriftHttpClient;
+
+  constructor(
+    readonly url: string,
+    private readonly authenticationToken: string
+  ) {
+    this.client = new ThriftHttpClient(url, USER_STORE_METHODS);
+  }
+
+  getNoteStoreUrl(): Promise<string> {
+    return this.client.call('getNoteStoreUrl', { authenticationToken: this.authenticationToken });
+  }
+
+  getUser(): Promise<User> {
+    return this.client.call('getUser', { authenticationToken: this.authenticationToken });
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { noteUri, notebookUri, parseUri, resourceUri, searchUri } from './uris.js';
+
+describe('parseUri', () => {
+  it('should round-trip every kind of URI', () => {
+    expect(parseUri(noteUri('abc-123'))).toEqual({ type: 'note', guid: 'abc-123' });
+    expect(parseUri(notebookUri('nb1'))).toEqual({ type: 'notebook', guid: 'nb1' });
+    expect(parseUri(resourceUri('res1'))).toEqual({ type: 'resource', guid: 'res1' });
+    expect(parseUri(searchUri('tag:work "status report" & more'))).toEqual({
+      type: 'search',
+      query: 'tag:work "status report" & more',
+    });
+  });
+
+  it('should accept searches written by hand', () => {
+    expect(parseUri('evernote://search?q=intitle:budget+2024')).toEqual({ type: 'search', query: 'intitle:budget 2024' });
+  });
+
+  it('should reject other URIs', () => {
+    for (const uri of ['evernote://note/', 'evernote://note/a/b', 'evernote://tag/t1', 'evernote://search', 'https://note/x', 'nope']) {
+      expect(() => parseUri(uri)).toThrow(`Unknown resource URI: ${uri}`);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+// src/uris.ts
+// The evernote:// URIs notes, notebooks, searches and attachments are exposed under.
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export type EvernoteUri =
+  | { type: 'note'; guid: string }
+  | { type: 'notebook'; guid: string }
+  | { type: 'search'; query: string }
+  | { type: 'resource'; guid: string };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'evernote://note/{guid}',
+    name: 'Note',
+    description: 'A note rendered as Markdown',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'evernote://notebook/{guid}',
+    name: 'Notebook',
+    description: 'The most recently updated notes in a notebook, with links to each',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'evernote://search{?q}',
+    name: 'Search results',
+    description: 'Notes matching an Evernote search query, with links to each',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'evernote://resource/{guid}',
+    name: 'Attachment',
+    description: 'A file attached to a note, with its own MIME type',
+  },
+];
+
+export function noteUri(guid: string): string {
+  return `evernote://note/${encodeURIComponent(guid)}`;
+}
+
+export function notebookUri(guid: string): string {
+  return `evernote://notebook/${encodeURIComponent(guid)}`;
+}
+
+export function searchUri(query: string): string {
+  return `evernote://search?q=${encodeURIComponent(query)}`;
+}
+
+export function resourceUri(guid: string): string {
+  return `evernote://resource/${encodeURIComponent(guid)}`;
+}
+
+/** Parse an evernote:// URI. Throws InvalidParams for anything else */
+export function parseUri(uri: string): EvernoteUri {
+  let url: URL | undefined;
+  try {
+    url = new URL(uri);
+  } catch {
+    url = undefined;
+  }
+
+  if (url?.protocol === 'evernote:') {
+    const guid = decodeURIComponent(url.pathname.replace(/^\//, ''));
+    switch (url.hostname) {
+      case 'note':
+      case 'notebook':
+      case 'resource':
+        if (guid && !guid.includes('/')) return { type: url.hostname, guid };
+        break;
+      case 'search': {
+        const query = url.searchParams.get('q');
+        if (query !== null && !guid) return { type: 'search', query };
+        break;
+      }
+    }
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
@@ -0,0 +1,100 @@
+import { jest, describe, it, expect, afterAll } from '@jest/globals';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Embedder, HashingEmbedder } from './embeddings.js';
+import { EmbeddableNote, VectorIndex, chunkText } from './vectorIndex.js';
+
+function note(guid: string, title: string, text: string, updated = 1): EmbeddableNote {
+  return { guid, title, text: () => text, updated };
+}
+
+/** The hashing embedder, counting the texts it embeds */
+function counting(): Embedder & { texts: string[] } {
+  const hashing = new HashingEmbedder();
+  const texts: string[] = [];
+  return {
+    id: hashing.id,
+    texts,
+    embed: (batch) => {
+      texts.push(...batch);
+      return hashing.embed(batch);
+    },
+  };
+}
+
+describe('chunkText', () => {
+  it('should split long text into overlapping passages', () => {
+    const words = Array.from({ length: 450 }, (_, i) => `w${i}`);
+    const chunks = chunkText(words.join(' '));
+    expect(chunks.map((chunk) => chunk.split(' ').length)).toEqual([200, 200, 130]);
+    expect(chunks[1].split(' ')[0]).toBe('w160');
+    expect(chunks[2].split(' ').pop()).toBe('w449');
+  });
+
+  it('should keep short and empty text as one passage', () => {
+    expect(chunkText(' Buy  milk\n')).toEqual(['Buy milk']);
+    expect(chunkText('')).toEqual(['']);
+  });
+});
+
+describe('VectorIndex', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'evernote-vectors-'));
+  const notes = [
+    note('garden', 'Garden', 'Plant tomatoes and basil in the raised beds after the last frost'),
+    note('taxes', 'Taxes', 'Collect receipts and invoices for the accountant before April'),
+    note('trip', 'Lisbon trip', 'Flights, hotel near Alfama, tram 28 and pastel de nata'),
+  ];
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should rank notes by similarity, with a filter', async () => {
+    const index = new VectorIndex(new HashingEmbedder());
+    await index.update(notes);
+
+    const hits = await index.search('planting tomato seedlings', 3);
+    expect(hits[0]).toMatchObject({ guid: 'garden', chunk: 0 });
+    expect(hits.map((hit) => hit.score)).toEqual([...hits.map((hit) => hit.score)].sort((a, b) => b - a));
+
+    expect((await index.search('planting tomatoes', 1, (guid) => guid !== 'garden'))[0].guid).not.toBe('garden');
+  });
+
+  it('should only embed new and updated notes, and drop removed ones', async () => {
+    const embedder = counting();
+    const index = new VectorIndex(embedder);
+
+    expect(await index.update(notes)).toEqual({ embedded: 3, removed: 0 });
+    embedder.texts.length = 0;
+
+    const changed = [note('garden', 'Garden', 'Prune the roses', 2), notes[1]];
+    expect(await index.update(changed)).toEqual({ embedded: 1, removed: 1 });
+    expect(embedder.texts).toEqual(['Garden\nPrune the roses']);
+    expect((await index.search('tram to Alfama', 5)).map((hit) => hit.guid)).not.toContain('trip');
+  });
+
+  it('should keep vectors on disk for the same embedder only', async () => {
+    const path = join(directory, 'embeddings.json');
+    await new VectorIndex(new HashingEmbedder(), path).update(notes);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+
+    const embedder = counting();
+    const reopened = new VectorIndex(embedder, path);
+    expect(await reopened.update(notes)).toEqual({ embedded: 0, removed: 0 });
+    expect((await reopened.search('tram to Alfama', 1))[0].guid).toBe('trip');
+
+    const other = new VectorIndex({ id: 'other', embed: embedder.embed }, path);
+    expect(await other.update(notes)).toEqual({ embedded: 3, removed: 0 });
+  });
+
+  it('should start over when the file is unreadable', async () => {
+    const path = join(directory, 'broken.json');
+    writeFileSync(path, '{ not json');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await new VectorIndex(new HashingEmbedder(), path).update(notes)).toEqual({ embedded: 3, removed: 0 });
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Ignoring unreadable embeddings .*broken\.json: /));
+    error.mockRestore();
+  });
+});
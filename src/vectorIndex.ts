@@ -0,0 +1,162 @@
+// src/vectorIndex.ts
+// Note embeddings for semantic_search, kept on disk and updated as notes change.
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { queueWrite } from './backend/json.js';
+import { Embedder, dot } from './embeddings.js';
+
+// Words per passage, and how many each passage repeats from the one before
+const CHUNK_WORDS = 200;
+const CHUNK_OVERLAP = 40;
+// Notes embedded between saves, so an interrupted update keeps its progress
+const SAVE_EVERY = 50;
+
+export interface EmbeddableNote {
+  guid: string;
+  title: string;
+  /** Plain text of the note, only read when the note needs embedding */
+  text: () => string;
+  /** The note is embedded again when this changes */
+  updated: number;
+}
+
+export interface VectorHit {
+  guid: string;
+  /** Cosine similarity of the best matching passage */
+  score: number;
+  /** Which of the note's passages matched best, as numbered by chunkText */
+  chunk: number;
+}
+
+export interface VectorUpdate {
+  /** Notes embedded because they were new or updated */
+  embedded: number;
+  removed: number;
+}
+
+interface EmbeddedNote {
+  updated: number;
+  vectors: Float32Array[];
+}
+
+interface StoredIndex {
+  embedder: string;
+  /** Float32 vectors, base64 encoded */
+  notes: Record<string, { updated: number; vectors: string[] }>;
+}
+
+/** Overlapping passages of `text`, so each fits what a model reads at once */
+export function chunkText(text: string): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  for (let start = 0; ; start += CHUNK_WORDS - CHUNK_OVERLAP) {
+    chunks.push(words.slice(start, start + CHUNK_WORDS).join(' '));
+    if (start + CHUNK_WORDS >= words.length) return chunks;
+  }
+}
+
+function encode(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decode(value: string): Float32Array {
+  const bytes = Buffer.from(value, 'base64');
+  // Copy, as a Buffer's offset into its pool may not be aligned for floats
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+/**
+ * Passage embeddings of every note, saved to `path` when given. `update`
+ * embeds only notes whose update time changed, and drops notes that are
+ * gone; vectors from another embedder are discarded when the file is read.
+ */
+export class VectorIndex {
+  private notes?: Promise<Map<string, EmbeddedNote>>;
+  /** Updates run one at a time, so two searches don't embed the same notes */
+  private updating: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly embedder: Embedder,
+    private readonly path?: string
+  ) {}
+
+  private load(): Promise<Map<string, EmbeddedNote>> {
+    if (!this.notes) this.notes = this.read();
+    return this.notes;
+  }
+
+  private async read(): Promise<Map<string, EmbeddedNote>> {
+    const notes = new Map<string, EmbeddedNote>();
+    if (!this.path || !existsSync(this.path)) return notes;
+    try {
+      const stored: StoredIndex = JSON.parse(await readFile(this.path, 'utf8'));
+      if (stored.embedder !== this.embedder.id) return notes;
+      for (const [guid, note] of Object.entries(stored.notes)) {
+        notes.set(guid, { updated: note.updated, vectors: note.vectors.map(decode) });
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable embeddings ${this.path}: ${(error as Error).message}`);
+    }
+    return notes;
+  }
+
+  /** Write the index readable by the current user only, as it is derived from note content */
+  private save(notes: Map<string, EmbeddedNote>): Promise<void> {
+    const path = this.path;
+    if (!path) return Promise.resolve();
+    const stored: StoredIndex = { embedder: this.embedder.id, notes: {} };
+    for (const [guid, note] of notes) {
+      stored.notes[guid] = { updated: note.updated, vectors: note.vectors.map(encode) };
+    }
+    return queueWrite(path, JSON.stringify(stored), 0o600);
+  }
+
+  /** Bring the index in line with `notes` */
+  update(notes: EmbeddableNote[]): Promise<VectorUpdate> {
+    const result = this.updating.then(() => this.runUpdate(notes));
+    this.updating = result.catch(() => {});
+    return result;
+  }
+
+  private async runUpdate(notes: EmbeddableNote[]): Promise<VectorUpdate> {
+    const embedded = await this.load();
+    const current = new Set(notes.map((note) => note.guid));
+    let removed = 0;
+    for (const guid of embedded.keys()) {
+      if (!current.has(guid) && embedded.delete(guid)) removed++;
+    }
+
+    const stale = notes.filter((note) => embedded.get(note.guid)?.updated !== note.updated);
+    for (let start = 0; start < stale.length; start += SAVE_EVERY) {
+      const batch = stale.slice(start, start + SAVE_EVERY);
+      // The title goes with every passage, as context for it
+      const passages = batch.map((note) => chunkText(note.text()).map((chunk) => `${note.title}\n${chunk}`.trim()));
+      const vectors = await this.embedder.embed(passages.flat());
+      let next = 0;
+      for (const [index, note] of batch.entries()) {
+        const end = next + passages[index].length;
+        embedded.set(note.guid, { updated: note.updated, vectors: vectors.slice(next, end) });
+        next = end;
+      }
+      await this.save(embedded);
+    }
+    if (removed && !stale.length) await this.save(embedded);
+    return { embedded: stale.length, removed };
+  }
+
+  /** The notes closest in meaning to `query`, best first, among those `filter` accepts */
+  async search(query: string, limit: number, filter: (guid: string) => boolean = () => true): Promise<VectorHit[]> {
+    const [vector] = await this.embedder.embed([query]);
+    const hits: VectorHit[] = [];
+    for (const [guid, note] of await this.load()) {
+      if (!filter(guid)) continue;
+      let best: VectorHit | undefined;
+      for (const [chunk, passage] of note.vectors.entries()) {
+        const score = dot(vector, passage);
+        if (!best || score > best.score) best = { guid, score, chunk };
+      }
+      if (best) hits.push(best);
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
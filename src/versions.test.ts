@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { NoteVersions } from './versions.js';
+
+describe('NoteVersions', () => {
+  it('should keep the content of each note version', () => {
+    const versions = new NoteVersions();
+    versions.remember('a', 1, '<en-note>one</en-note>');
+    versions.remember('a', 2, '<en-note>two</en-note>');
+    versions.remember('b', 3, undefined);
+
+    expect(versions.get('a', 1)).toBe('<en-note>one</en-note>');
+    expect(versions.get('a', 2)).toBe('<en-note>two</en-note>');
+    expect(versions.get('b', 3)).toBeUndefined();
+  });
+
+  it('should forget the least recently remembered versions past the limit', () => {
+    const versions = new NoteVersions(2);
+    versions.remember('a', 1, 'one');
+    versions.remember('b', 1, 'two');
+    versions.remember('a', 1, 'one');
+    versions.remember('c', 1, 'three');
+
+    expect([versions.get('a', 1), versions.get('b', 1), versions.get('c', 1)]).toEqual(['one', undefined, 'three']);
+  });
+});
@@ -0,0 +1,36 @@
+// src/versions.ts
+// Note content as this server last read or wrote it, by version, for showing and merging later changes.
+
+/** What update_note does when the note changed since the expected version */
+export const CONFLICT_MODES = ['fail', 'merge'] as const;
+export type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+export function isConflictMode(value: unknown): value is ConflictMode {
+  return CONFLICT_MODES.includes(value as ConflictMode);
+}
+
+/**
+ * The ENML of recent note versions. Evernote keeps no history we can ask
+ * for, so the content a client saw is only known if it came through here.
+ */
+export class NoteVersions {
+  private readonly contents = new Map<string, string>();
+
+  constructor(private readonly limit = 100) {}
+
+  remember(guid: string, version: number | undefined, content: string | undefined): void {
+    if (version === undefined || content === undefined) return;
+    const key = `${guid}:${version}`;
+    // Most recently remembered last, so the oldest go first
+    this.contents.delete(key);
+    this.contents.set(key, content);
+    for (const oldest of this.contents.keys()) {
+      if (this.contents.size <= this.limit) break;
+      this.contents.delete(oldest);
+    }
+  }
+
+  get(guid: string, version: number): string | undefined {
+    return this.contents.get(`${guid}:${version}`);
+  }
+}